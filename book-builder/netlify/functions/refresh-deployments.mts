@@ -0,0 +1,29 @@
+/**
+ * Scheduled function - moves in-flight GitHub deployments along every few
+ * minutes, so a push that is still building when the library page closes
+ * still ends up marked as deployed or failed.
+ *
+ * The work happens in /api/github/deployments/scheduled; this only calls it
+ * with DEPLOYMENT_REFRESH_SECRET. URL is set by Netlify to the site's address.
+ */
+
+export default async function refreshDeployments(): Promise<Response> {
+  const secret = process.env.DEPLOYMENT_REFRESH_SECRET;
+  if (!secret || !process.env.URL) {
+    console.warn('[DEPLOYMENTS] DEPLOYMENT_REFRESH_SECRET or URL is not set, skipping refresh');
+    return new Response(null, { status: 204 });
+  }
+
+  const response = await fetch(`${process.env.URL}/api/github/deployments/scheduled`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${secret}` },
+  });
+  if (!response.ok) {
+    console.error(`[DEPLOYMENTS] Scheduled refresh failed: ${response.status} ${await response.text()}`);
+  }
+  return new Response(null, { status: response.ok ? 200 : 502 });
+}
+
+export const config = {
+  schedule: '*/2 * * * *',
+};
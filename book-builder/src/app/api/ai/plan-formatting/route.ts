@@ -21,6 +21,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { AIProvider } from '@/types';
+import { getProviderAdapter, resolveApiKey, canUseStoredKeys } from '@/lib/ai';
+import { getUserApiKey, requireApiUser } from '@/lib/supabase/server';
 
 // All supported MyST feature types for formatting suggestions
 type MystFeatureType =
@@ -64,11 +67,22 @@ interface PlanRequest {
   content: string;
   chapterTitle?: string;
   selectedFeatures: string[];
-  provider: 'gemini' | 'claude' | 'openai';
+  provider: AIProvider;
   apiKey: string;
+  // Only used by the local provider
+  baseUrl?: string;
   model?: string;
 }
 
+const DEFAULT_MODELS: Record<AIProvider, string> = {
+  gemini: 'gemini-2.0-flash',
+  claude: 'claude-sonnet-4-20250514',
+  openai: 'gpt-4o-mini',
+  openrouter: 'openai/gpt-4o-mini',
+  // Ollama tag; other local servers need the model passed explicitly
+  local: 'llama3.1',
+};
+
 // Build dynamic system prompt based on selected features
 function buildSystemPrompt(selectedFeatures: string[]): string {
   const expandedFeatures = expandFeatureIds(selectedFeatures);
@@ -252,10 +266,24 @@ function hasFeatureCategory(features: string[], category: string): boolean {
 
 export async function POST(request: NextRequest) {
   try {
+    const { apiUser, response: authError } = await requireApiUser('ai');
+    if (authError) return authError;
+
     const body: PlanRequest = await request.json();
-    const { content, chapterTitle, selectedFeatures, provider, apiKey, model } = body;
+    const { content, chapterTitle, selectedFeatures, provider, apiKey: providedApiKey, baseUrl, model } = body;
+
+    const adapter = getProviderAdapter(provider, { baseUrl });
+    if (provider && !adapter) {
+      return NextResponse.json(
+        { error: 'Invalid provider' },
+        { status: 400 }
+      );
+    }
 
-    if (!content || !selectedFeatures || !provider || !apiKey) {
+    // Use provided API key, then the user's saved key, then the environment variable (whitelisted users only)
+    const apiKey = adapter ? resolveApiKey(adapter, providedApiKey || (canUseStoredKeys(adapter) ? await getUserApiKey(apiUser, adapter.id) : null), apiUser.getEnvKey) : '';
+
+    if (!content || !selectedFeatures || !adapter || (adapter.requiresApiKey && !apiKey)) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
@@ -305,18 +333,17 @@ Return ONLY a JSON array in this exact format:
 
 If no formatting is needed, return an empty array: []`;
 
-    let plan: FormattingPlan[] = [];
-
     // Build the dynamic system prompt based on selected features
     const systemPrompt = buildSystemPrompt(selectedFeatures);
 
-    if (provider === 'gemini') {
-      plan = await getGeminiPlan(apiKey, model || 'gemini-2.0-flash', userPrompt, systemPrompt);
-    } else if (provider === 'claude') {
-      plan = await getClaudePlan(apiKey, model || 'claude-sonnet-4-20250514', userPrompt, systemPrompt);
-    } else if (provider === 'openai') {
-      plan = await getOpenAIPlan(apiKey, model || 'gpt-4o-mini', userPrompt, systemPrompt);
-    }
+    const { content: planText } = await adapter.complete(apiKey, {
+      model: model || DEFAULT_MODELS[adapter.id],
+      systemPrompt,
+      userPrompt,
+      maxTokens: 8192,
+      temperature: 0.3,
+    });
+    const plan = parseJsonResponse(planText);
 
     // Map paragraph IDs back to block IDs
     const mappedPlan = plan.map(item => {
@@ -412,88 +439,6 @@ function expandFeatureIds(features: string[]): string[] {
   return Array.from(expanded);
 }
 
-async function getGeminiPlan(apiKey: string, model: string, prompt: string, systemPrompt: string): Promise<FormattingPlan[]> {
-  const modelId = model.replace(/^models\//, '');
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${modelId}:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: `${systemPrompt}\n\n${prompt}` }] }],
-        generationConfig: {
-          maxOutputTokens: 8192,
-          temperature: 0.3,
-        },
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error?.message || 'Gemini API request failed');
-  }
-
-  const data = await response.json();
-  const text = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-  return parseJsonResponse(text);
-}
-
-async function getClaudePlan(apiKey: string, model: string, prompt: string, systemPrompt: string): Promise<FormattingPlan[]> {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model,
-      max_tokens: 8192,
-      system: systemPrompt,
-      messages: [{ role: 'user', content: prompt }],
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error?.message || 'Anthropic API request failed');
-  }
-
-  const data = await response.json();
-  const text = data.content?.[0]?.type === 'text' ? data.content[0].text : '';
-  return parseJsonResponse(text);
-}
-
-async function getOpenAIPlan(apiKey: string, model: string, prompt: string, systemPrompt: string): Promise<FormattingPlan[]> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: prompt },
-      ],
-      temperature: 0.3,
-      max_tokens: 8192,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error?.message || 'OpenAI API request failed');
-  }
-
-  const data = await response.json();
-  const text = data.choices?.[0]?.message?.content || '';
-  return parseJsonResponse(text);
-}
-
 function parseJsonResponse(text: string): FormattingPlan[] {
   try {
     // Extract JSON array from response
@@ -0,0 +1,169 @@
+/**
+ * AI Feature Remediation - Adds one missing MyST feature to existing content
+ *
+ * Used by the remediation queue worker. Unlike format-content, which rewrites
+ * the chapter with a mix of features, this asks for the smallest change that
+ * introduces the requested feature and leaves everything else untouched.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { mystFeatures } from '@/data/mystFeatures';
+import { AIProvider } from '@/types';
+import {
+  getProviderAdapter,
+  resolveApiKey,
+  canUseStoredKeys,
+  generationRunHeaders,
+  type GenerationRun,
+} from '@/lib/ai';
+import { getUserApiKey, requireApiUser, startApiGenerationRun } from '@/lib/supabase/server';
+
+export const runtime = 'edge';
+export const maxDuration = 60;
+
+interface RemediateRequest {
+  content: string;
+  chapterTitle?: string;
+  featureId: string;
+  provider: AIProvider;
+  apiKey: string;
+  // Only used by the local provider
+  baseUrl?: string;
+  model?: string;
+  // Library book the request is for; team books use their shared key
+  bookId?: string | null;
+  // Chapter being remediated, for generation history
+  chapterId?: string | null;
+}
+
+// The whole chapter comes back, so use the same output budgets as formatting
+const REMEDIATE_SETTINGS: Record<AIProvider, { model: string; maxTokens: number; temperature?: number }> = {
+  gemini: { model: 'gemini-2.5-pro', maxTokens: 65536, temperature: 0.2 },
+  claude: { model: 'claude-opus-4-5-20250514', maxTokens: 128000 },
+  openai: { model: 'gpt-4o', maxTokens: 16384, temperature: 0.2 },
+  openrouter: { model: 'openai/gpt-4o', maxTokens: 65536, temperature: 0.2 },
+  local: { model: 'llama3.1', maxTokens: 16384, temperature: 0.2 },
+};
+
+const SYSTEM_PROMPT = `You are an expert technical book editor working in MyST Markdown.
+
+You will receive a complete chapter and ONE MyST feature that the chapter is missing.
+Add that feature where it genuinely helps the reader, and change nothing else.
+
+Rules:
+- Output the COMPLETE chapter. Every existing heading, paragraph, code block, equation and link must appear unchanged.
+- Only ADD content. Do not rewrite, reorder, summarize or remove anything.
+- Use the feature's exact syntax, including the curly braces: :::{note} not :::note.
+- Add the feature once or twice, in the places it fits best.
+- Only use real https:// image URLs; never invent local image paths.
+- Output only the chapter Markdown - no commentary and no surrounding code fence.`;
+
+// Models sometimes wrap the whole answer in a ```markdown fence
+function stripOuterFence(content: string): string {
+  const match = content.trim().match(/^```(?:markdown|md|myst)?\n([\s\S]*)\n```$/);
+  return match ? match[1] : content;
+}
+
+export async function POST(request: NextRequest) {
+  let run: GenerationRun | undefined;
+
+  try {
+    const { apiUser, response: authError } = await requireApiUser('ai');
+    if (authError) return authError;
+
+    const body: RemediateRequest = await request.json();
+    const { content, chapterTitle, featureId, provider, apiKey: providedApiKey, baseUrl, model, bookId, chapterId } = body;
+
+    const adapter = getProviderAdapter(provider, { baseUrl });
+    if (provider && !adapter) {
+      return NextResponse.json(
+        { error: 'Invalid provider' },
+        { status: 400 }
+      );
+    }
+
+    // Use provided API key, then the user's saved key, then the environment variable (whitelisted users only)
+    const apiKey = adapter ? resolveApiKey(adapter, providedApiKey || (canUseStoredKeys(adapter) ? await getUserApiKey(apiUser, adapter.id, bookId) : null), apiUser.getEnvKey) : '';
+
+    if (!content || !featureId || !adapter || (adapter.requiresApiKey && !apiKey)) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    const feature = mystFeatures.find(f => f.id === featureId);
+    if (!feature) {
+      return NextResponse.json(
+        { error: `Unknown feature: ${featureId}` },
+        { status: 400 }
+      );
+    }
+
+    const userPrompt = `# Chapter: ${chapterTitle || 'Untitled Chapter'}
+
+## Feature to add: ${feature.name}
+
+${feature.description}
+
+Syntax:
+${feature.syntax}
+
+Example:
+${feature.example}
+
+## Chapter content
+
+${content}
+
+Return the COMPLETE chapter with the ${feature.name} feature added:`;
+
+    const settings = REMEDIATE_SETTINGS[adapter.id];
+    console.log(`[REMEDIATE] ${adapter.name} - model: ${model || settings.model}, feature: ${featureId}`);
+
+    run = await startApiGenerationRun(apiUser, {
+      type: 'remediation',
+      provider: adapter.id,
+      model: model || settings.model,
+      bookId,
+      chapterId,
+    });
+
+    const result = await adapter.complete(apiKey, {
+      model: model || settings.model,
+      systemPrompt: SYSTEM_PROMPT,
+      userPrompt,
+      maxTokens: settings.maxTokens,
+      temperature: settings.temperature,
+    });
+
+    const remediatedContent = stripOuterFence(result.content);
+    const wordCount = remediatedContent.split(/\s+/).filter(w => w.length > 0).length;
+    await run.finish({ stopReason: result.stopReason, usage: result.usage, wordCount });
+
+    if (result.stopReason === 'max_tokens') {
+      return NextResponse.json(
+        { error: 'Output was truncated before the end of the chapter' },
+        { status: 502, headers: generationRunHeaders(run) }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      remediatedContent,
+      metadata: {
+        stopReason: result.stopReason,
+        inputTokens: result.usage.inputTokens,
+        outputTokens: result.usage.outputTokens,
+        wordCount,
+      },
+    }, { headers: generationRunHeaders(run) });
+  } catch (error) {
+    console.error('AI remediation error:', error);
+    await run?.finish({ error });
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to remediate content' },
+      { status: 500, headers: generationRunHeaders(run) }
+    );
+  }
+}
@@ -7,6 +7,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { AIProvider } from '@/types';
+import { getProviderAdapter, resolveApiKey, canUseStoredKeys } from '@/lib/ai';
+import { getUserApiKey, requireApiUser } from '@/lib/supabase/server';
 
 interface ParagraphPreview {
   id: string;
@@ -27,11 +30,23 @@ interface FormattingSuggestion {
 interface SuggestRequest {
   paragraphs: ParagraphPreview[];
   selectedFeatures: string[];
-  provider: 'gemini' | 'claude' | 'openai';
+  provider: AIProvider;
   apiKey: string;
+  // Only used by the local provider
+  baseUrl?: string;
   model?: string;
 }
 
+// Fast, inexpensive models are enough for short previews
+const DEFAULT_MODELS: Record<AIProvider, string> = {
+  gemini: 'gemini-2.0-flash',
+  claude: 'claude-sonnet-4-20250514',
+  openai: 'gpt-4o-mini',
+  openrouter: 'openai/gpt-4o-mini',
+  // Ollama tag; other local servers need the model passed explicitly
+  local: 'llama3.1',
+};
+
 const SYSTEM_PROMPT = `You are a MyST Markdown formatting expert. Analyze paragraph previews and suggest where to apply formatting.
 
 You will receive:
@@ -64,10 +79,24 @@ Return a JSON array of suggestions. Only suggest for paragraphs that would genui
 
 export async function POST(request: NextRequest) {
   try {
+    const { apiUser, response: authError } = await requireApiUser('ai');
+    if (authError) return authError;
+
     const body: SuggestRequest = await request.json();
-    const { paragraphs, selectedFeatures, provider, apiKey, model } = body;
+    const { paragraphs, selectedFeatures, provider, apiKey: providedApiKey, baseUrl, model } = body;
+
+    const adapter = getProviderAdapter(provider, { baseUrl });
+    if (provider && !adapter) {
+      return NextResponse.json(
+        { error: 'Invalid provider' },
+        { status: 400 }
+      );
+    }
+
+    // Use provided API key, then the user's saved key, then the environment variable (whitelisted users only)
+    const apiKey = adapter ? resolveApiKey(adapter, providedApiKey || (canUseStoredKeys(adapter) ? await getUserApiKey(apiUser, adapter.id) : null), apiUser.getEnvKey) : '';
 
-    if (!paragraphs || !selectedFeatures || !provider || !apiKey) {
+    if (!paragraphs || !selectedFeatures || !adapter || (adapter.requiresApiKey && !apiKey)) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
@@ -88,15 +117,14 @@ Format: [{"paragraphId": "p1", "type": "note", "title": "Optional Title", "reaso
 
 Return ONLY the JSON array, no other text.`;
 
-    let suggestions: FormattingSuggestion[] = [];
-
-    if (provider === 'gemini') {
-      suggestions = await getGeminiSuggestions(apiKey, model || 'gemini-2.0-flash', userPrompt);
-    } else if (provider === 'claude') {
-      suggestions = await getClaudeSuggestions(apiKey, model || 'claude-sonnet-4-20250514', userPrompt);
-    } else if (provider === 'openai') {
-      suggestions = await getOpenAISuggestions(apiKey, model || 'gpt-4o-mini', userPrompt);
-    }
+    const { content } = await adapter.complete(apiKey, {
+      model: model || DEFAULT_MODELS[adapter.id],
+      systemPrompt: SYSTEM_PROMPT,
+      userPrompt,
+      maxTokens: 4096,
+      temperature: 0.3, // Lower temperature for more consistent suggestions
+    });
+    const suggestions = parseJsonResponse(content);
 
     // Filter to only include enabled features
     // Expand generic IDs to specific types (e.g., 'admonitions' -> all admonition types)
@@ -156,102 +184,6 @@ Return ONLY the JSON array, no other text.`;
   }
 }
 
-async function getGeminiSuggestions(apiKey: string, model: string, prompt: string): Promise<FormattingSuggestion[]> {
-  // Strip models/ prefix if present
-  const modelId = model.replace(/^models\//, '');
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${modelId}:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              { text: `${SYSTEM_PROMPT}\n\n${prompt}` },
-            ],
-          },
-        ],
-        generationConfig: {
-          maxOutputTokens: 4096,
-          temperature: 0.3, // Lower temperature for more consistent suggestions
-        },
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error?.message || 'Gemini API request failed');
-  }
-
-  const data = await response.json();
-
-  if (!data.candidates?.[0]?.content?.parts?.[0]?.text) {
-    return [];
-  }
-
-  const text = data.candidates[0].content.parts[0].text;
-  return parseJsonResponse(text);
-}
-
-async function getClaudeSuggestions(apiKey: string, model: string, prompt: string): Promise<FormattingSuggestion[]> {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model,
-      max_tokens: 4096,
-      system: SYSTEM_PROMPT,
-      messages: [{ role: 'user', content: prompt }],
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error?.message || 'Anthropic API request failed');
-  }
-
-  const data = await response.json();
-  const text = data.content?.[0]?.type === 'text' ? data.content[0].text : '';
-  return parseJsonResponse(text);
-}
-
-async function getOpenAISuggestions(apiKey: string, model: string, prompt: string): Promise<FormattingSuggestion[]> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model,
-      messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: prompt },
-      ],
-      temperature: 0.3,
-      max_tokens: 4096,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error?.message || 'OpenAI API request failed');
-  }
-
-  const data = await response.json();
-  const text = data.choices?.[0]?.message?.content || '';
-  return parseJsonResponse(text);
-}
-
 function parseJsonResponse(text: string): FormattingSuggestion[] {
   try {
     // Try to extract JSON array from the response
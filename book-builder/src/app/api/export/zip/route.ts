@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireApiUser } from '@/lib/supabase/server';
+import { BookConfig } from '@/types';
+import { generateBookFiles } from '@/lib/bookFiles';
+import { createZip } from '@/lib/zip';
+
+interface ExportZipRequest {
+  bookConfig: BookConfig;
+}
+
+/**
+ * The same project files a GitHub publish pushes, as a ZIP download - for
+ * building the book locally, archiving it or hosting it elsewhere
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { response: authError } = await requireApiUser('export');
+    if (authError) return authError;
+
+    const { bookConfig }: ExportZipRequest = await request.json();
+
+    if (!bookConfig?.title || !bookConfig.tableOfContents?.chapters) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    const files = generateBookFiles(bookConfig);
+    const slug = bookConfig.title.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '') || 'book';
+
+    // Everything goes under one top-level folder so the archive extracts cleanly
+    const zip = createZip(
+      files.map(file => ({
+        path: `${slug}/${file.path}`,
+        data: Buffer.from(file.content, file.encoding === 'base64' ? 'base64' : 'utf-8'),
+      }))
+    );
+
+    console.log(`[EXPORT] Built ZIP for "${bookConfig.title}": ${files.length} files, ${zip.length} bytes`);
+
+    return new NextResponse(new Uint8Array(zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${slug}.zip"`,
+        'Content-Length': String(zip.length),
+      },
+    });
+  } catch (error) {
+    console.error('ZIP export error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to export book' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Octokit } from '@octokit/rest';
+import { getUserApiKey, requireApiUser } from '@/lib/supabase/server';
+import { refreshDeployment } from '@/lib/deploymentTracker';
 
 export async function POST(request: NextRequest) {
   try {
-    const { token: providedToken, username, repoName } = await request.json();
+    const { apiUser, response: authError } = await requireApiUser('github');
+    if (authError) return authError;
 
-    // Use provided token or fall back to environment variable
-    const token = providedToken || process.env.GITHUB_PAT;
+    const { token: providedToken, username, repoName, deploymentId } = await request.json();
+
+    // Use provided token, then the user's saved token, then the environment variable (whitelisted users only)
+    const token = providedToken || await getUserApiKey(apiUser, 'github') || apiUser.getEnvKey('GITHUB_PAT');
 
     if (!token || !username || !repoName) {
       return NextResponse.json(
@@ -17,6 +22,20 @@ export async function POST(request: NextRequest) {
 
     const octokit = new Octokit({ auth: token });
 
+    // Keep the recorded deployment for this push in step with what we report
+    if (deploymentId) {
+      try {
+        const { data: deployment } = await apiUser.supabase
+          .from('lq21_github_deployments')
+          .select('*')
+          .eq('id', deploymentId)
+          .maybeSingle();
+        if (deployment) await refreshDeployment(apiUser.supabase, octokit, deployment);
+      } catch (e) {
+        console.warn('[DEPLOYMENTS] Could not update deployment record:', e);
+      }
+    }
+
     // First, check workflow runs to get better status info
     let workflowStatus = 'unknown';
     let workflowConclusion = null;
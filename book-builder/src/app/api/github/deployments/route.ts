@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Octokit } from '@octokit/rest';
+import { getUserApiKey, requireApiUser } from '@/lib/supabase/server';
+import { refreshDeployment } from '@/lib/deploymentTracker';
+import { LQ21GitHubDeployment } from '@/lib/supabase/types';
+
+interface RefreshDeploymentsRequest {
+  token?: string;
+  bookId?: string;
+  deploymentIds?: string[];
+}
+
+// Keeps one refresh within GitHub's secondary rate limits
+const MAX_REFRESH = 10;
+
+/**
+ * Refresh the caller's in-flight deployments (pending or building) for a book,
+ * or a given set of ids, from GitHub Actions and Pages.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { apiUser, response: authError } = await requireApiUser('github');
+    if (authError) return authError;
+
+    const { token: providedToken, bookId, deploymentIds }: RefreshDeploymentsRequest = await request.json();
+
+    // Use provided token, then the user's saved token, then the environment variable (whitelisted users only)
+    const token = providedToken || await getUserApiKey(apiUser, 'github', bookId) || apiUser.getEnvKey('GITHUB_PAT');
+
+    if (!token || (!bookId && !deploymentIds?.length)) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    let query = apiUser.supabase
+      .from('lq21_github_deployments')
+      .select('*')
+      .in('status', ['pending', 'building']);
+    query = bookId ? query.eq('book_id', bookId) : query.in('id', deploymentIds!);
+
+    const { data: active, error } = await query
+      .order('started_at', { ascending: false })
+      .limit(MAX_REFRESH);
+    if (error) throw error;
+
+    const octokit = new Octokit({ auth: token });
+    const deployments: LQ21GitHubDeployment[] = [];
+
+    for (const deployment of active || []) {
+      try {
+        deployments.push(await refreshDeployment(apiUser.supabase, octokit, deployment));
+      } catch (err) {
+        // One unreachable repo shouldn't stop the others from updating
+        console.warn(`[DEPLOYMENTS] Failed to refresh deployment ${deployment.id}:`, err);
+        deployments.push(deployment);
+      }
+    }
+
+    return NextResponse.json({ deployments });
+  } catch (error) {
+    console.error('Deployment refresh error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to refresh deployments' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Octokit } from '@octokit/rest';
+import { createServiceSupabaseClient } from '@/lib/supabase/server';
+import { getOrganizationApiKey, getStoredApiKey } from '@/lib/apiKeys';
+import { canUseEnvKeys } from '@/lib/apiAuth';
+import { refreshActiveDeployments } from '@/lib/deploymentTracker';
+import { LQ21GitHubDeployment } from '@/lib/supabase/types';
+
+// Oldest first; the rest wait for the next run
+const MAX_REFRESH = 50;
+
+/**
+ * Refresh every pending or building deployment from GitHub. Called on a
+ * schedule by netlify/functions/refresh-deployments.mts, or by any cron:
+ *
+ *   curl -X POST -H "Authorization: Bearer $DEPLOYMENT_REFRESH_SECRET" https://<site>/api/github/deployments/scheduled
+ *
+ * Each deployment is checked with the token it would be pushed with: the
+ * book's organization key, then its author's saved key, then GITHUB_PAT for
+ * whitelisted authors.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.DEPLOYMENT_REFRESH_SECRET;
+  const authorization = request.headers.get('authorization');
+
+  if (!secret || authorization !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const supabase = createServiceSupabaseClient();
+    const tokens = new Map<string, Promise<string | null>>();
+
+    const resolveToken = async (deployment: LQ21GitHubDeployment): Promise<string | null> => {
+      const { data: book } = deployment.book_id
+        ? await supabase.from('lq21_books').select('organization_id').eq('id', deployment.book_id).maybeSingle()
+        : { data: null };
+      const organizationId: string | null = book?.organization_id ?? null;
+
+      const sharedKey = organizationId ? await getOrganizationApiKey(supabase, organizationId, 'github') : null;
+      const storedKey = sharedKey || await getStoredApiKey(supabase, deployment.user_id, 'github');
+      if (storedKey) return storedKey;
+
+      // The whitelist may name the author by email, which only auth.users has
+      const { data: { user } } = await supabase.auth.admin.getUserById(deployment.user_id);
+      return user && canUseEnvKeys(user, (name) => process.env[name]) ? process.env.GITHUB_PAT || null : null;
+    };
+
+    const result = await refreshActiveDeployments(supabase, async (deployment) => {
+      // Most runs see a handful of deployments from the same books
+      const cacheKey = `${deployment.user_id}:${deployment.book_id ?? ''}`;
+      if (!tokens.has(cacheKey)) tokens.set(cacheKey, resolveToken(deployment).catch(() => null));
+      const token = await tokens.get(cacheKey);
+      return token ? new Octokit({ auth: token }) : null;
+    }, MAX_REFRESH);
+
+    console.log(`[DEPLOYMENTS] Scheduled refresh: ${result.finished}/${result.checked} finished (${result.skipped} skipped, ${result.failed} failed)`);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Scheduled deployment refresh error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to refresh deployments' },
+      { status: 500 }
+    );
+  }
+}
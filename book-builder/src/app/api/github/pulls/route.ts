@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Octokit } from '@octokit/rest';
+import {
+  getUserApiKey,
+  requireApiUser,
+  requireBookAccess,
+  requirePublishReadiness,
+  type BookAccess,
+} from '@/lib/supabase/server';
+import { canEdit, canReview } from '@/lib/organizations';
+import { recordDeployment } from '@/lib/deploymentTracker';
+import { readRepoTree, recordSyncStates } from '@/lib/githubSync';
+import {
+  closeDraftPullRequest,
+  listDraftPullRequests,
+  mergeDraftPullRequest,
+} from '@/lib/githubPullRequests';
+
+interface DraftPullRequestsRequest {
+  token?: string;
+  username: string;
+  repoName: string;
+  bookId?: string | null;
+  action: 'list' | 'merge' | 'close';
+  number?: number;
+}
+
+/**
+ * List, merge or close the pull requests opened from a book's draft branches.
+ * Merging publishes the draft: the merge commit on main runs the deploy workflow.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { apiUser, response: authError } = await requireApiUser('github');
+    if (authError) return authError;
+
+    const body: DraftPullRequestsRequest = await request.json();
+    const { token: providedToken, bookId, action, number } = body;
+    let { username, repoName } = body;
+
+    // A library book's repository is the one saved on the book. Reviewers can
+    // list its drafts; merging or closing one takes write access.
+    let access: BookAccess | null = null;
+    if (bookId) {
+      const result = await requireBookAccess(apiUser, bookId, action === 'list' ? canReview : canEdit);
+      if (result.response) return result.response;
+      access = result.access;
+      username = access.githubUsername || '';
+      repoName = access.githubRepoName || '';
+    }
+
+    // Use provided token, then the user's saved token, then the environment variable (whitelisted users only)
+    const token = providedToken || await getUserApiKey(apiUser, 'github', access) || apiUser.getEnvKey('GITHUB_PAT');
+
+    if (!token || !username || !repoName || (action !== 'list' && !number)) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    const octokit = new Octokit({ auth: token });
+
+    if (action === 'list') {
+      const pullRequests = await listDraftPullRequests(octokit, username, repoName);
+      return NextResponse.json({ pullRequests });
+    }
+
+    if (action === 'close') {
+      await closeDraftPullRequest(octokit, username, repoName, number!);
+      return NextResponse.json({ success: true });
+    }
+
+    if (action !== 'merge') {
+      return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
+    }
+
+    // Merging puts the draft live, so the book has to be ready to publish
+    if (access) {
+      const notReady = await requirePublishReadiness(apiUser, bookId!, access);
+      if (notReady) return notReady;
+    }
+
+    const { sha, paths } = await mergeDraftPullRequest(octokit, username, repoName, number!);
+
+    // The library already has the drafted chapters, so they're now in sync
+    const { blobs } = await readRepoTree(octokit, username, repoName, sha);
+    await recordSyncStates(apiUser, {
+      bookId,
+      owner: username,
+      repo: repoName,
+      commitSha: sha,
+      files: paths
+        .filter(path => path.endsWith('.md') && blobs.has(path))
+        .map(path => ({ path, blobSha: blobs.get(path)! })),
+    });
+
+    // The workflow run is picked up later by the deployment status updater
+    const deploymentId = await recordDeployment(apiUser, {
+      bookId,
+      repoUrl: `https://github.com/${username}/${repoName}`,
+      commitSha: sha,
+      trigger: 'publish',
+    });
+
+    return NextResponse.json({ success: true, commitSha: sha, deploymentId });
+  } catch (error) {
+    console.error('Draft pull request error:', error);
+
+    const status = (error as { status?: number }).status;
+    // GitHub answers 405 when the branch can't be merged cleanly
+    if (status === 405 || status === 409) {
+      return NextResponse.json(
+        { error: 'This draft conflicts with the live book - resolve the conflicts on GitHub, then merge again' },
+        { status: 409 }
+      );
+    }
+    if (status === 404) {
+      return NextResponse.json({ error: 'Repository or pull request not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update pull request' },
+      { status: 500 }
+    );
+  }
+}
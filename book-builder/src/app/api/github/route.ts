@@ -1,27 +1,70 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Octokit } from '@octokit/rest';
-import { BookConfig, Chapter, BookLevelFeature } from '@/types';
-import { BOOK_LEVEL_FEATURES } from '@/data/bookLevelFeatures';
+import {
+  getUserApiKey,
+  requireApiUser,
+  requireBookAccess,
+  requirePublishReadiness,
+  type BookAccess,
+} from '@/lib/supabase/server';
+import { BookConfig, Chapter } from '@/types';
+import { recordDeployment } from '@/lib/deploymentTracker';
+import { generateBookFiles } from '@/lib/bookFiles';
+import { getChapterFiles } from '@/lib/bookExports';
+import {
+  fetchSyncStates,
+  gitBlobSha,
+  readBlob,
+  readRepoTree,
+  recordSyncStates,
+  syncChapter,
+  type ChapterFields,
+} from '@/lib/githubSync';
+import {
+  BOOK_DRAFT_BRANCH,
+  openDraftPullRequest,
+  requestPreviewBuild,
+  setDraftBranch,
+  type DraftPullRequest,
+} from '@/lib/githubPullRequests';
 
 interface CreateRepoRequest {
   token: string;
   repoName: string;
   bookConfig: BookConfig;
-}
-
-interface GeneratedFile {
-  path: string;
-  content: string;
-  encoding?: 'utf-8' | 'base64';
+  // Library book the push belongs to, if it has been saved already
+  bookId?: string | null;
 }
 
 export async function POST(request: NextRequest) {
   try {
+    const { apiUser, response: authError } = await requireApiUser('github');
+    if (authError) return authError;
+
     const body: CreateRepoRequest = await request.json();
-    const { token: providedToken, repoName, bookConfig } = body;
+    const { token: providedToken, bookConfig, bookId } = body;
+    let { repoName } = body;
+
+    // Library books are pushed by those who can write them, to the repository
+    // saved on the book once there is one
+    let access: BookAccess | null = null;
+    if (bookId) {
+      const result = await requireBookAccess(apiUser, bookId);
+      if (result.response) return result.response;
+      access = result.access;
+      repoName = access.githubRepoName || repoName;
+    }
+
+    // Review mode saves to a draft branch; anything else goes live, which a
+    // library book may only do once it's ready to publish
+    const reviewMode = (access?.publishMode ?? bookConfig?.github?.publishMode) === 'pull-request';
+    if (access && !reviewMode) {
+      const notReady = await requirePublishReadiness(apiUser, bookId!, access);
+      if (notReady) return notReady;
+    }
 
-    // Use provided token or fall back to environment variable
-    const token = providedToken || process.env.GITHUB_PAT;
+    // Use provided token, then the user's saved token, then the environment variable (whitelisted users only)
+    const token = providedToken || await getUserApiKey(apiUser, 'github', access) || apiUser.getEnvKey('GITHUB_PAT');
 
     if (!token || !repoName || !bookConfig) {
       return NextResponse.json(
@@ -36,6 +79,10 @@ export async function POST(request: NextRequest) {
     const { data: user } = await octokit.users.getAuthenticated();
     console.log('Authenticated as:', user.login, '- Type:', user.type);
 
+    // A library book stays in the repository it's linked to, which may belong
+    // to an organization or another account; new books go to the token's owner
+    const owner = access?.githubUsername || user.login;
+
     // Sanitize description for GitHub (max 350 chars, no control characters)
     const sanitizeDescription = (desc: string | undefined): string => {
       if (!desc) return '';
@@ -48,15 +95,24 @@ export async function POST(request: NextRequest) {
     const sanitizedDescription = sanitizeDescription(bookConfig.description);
 
     // Generate book files
-    const files = generateBookFiles(bookConfig);
+    let files = generateBookFiles(bookConfig);
+    const chapterFiles = getChapterFiles(bookConfig.tableOfContents.chapters);
+    // Chapters that took in edits made on GitHub, for the caller to save
+    const merged: (ChapterFields & { chapterId: string; path: string })[] = [];
 
     // Check if repository already exists
     let repoUrl: string;
     let repoExists = false;
+    let commitSha: string;
+    // Review mode: the commit went to a draft branch instead of main
+    let draftBranch: string | undefined;
+    let mainSha: string | undefined;
+    // Review mode: main's workflow was updated, and that push builds the previews
+    let workflowPushed = false;
 
     try {
       const { data: existingRepo } = await octokit.repos.get({
-        owner: user.login,
+        owner,
         repo: repoName,
       });
       repoExists = true;
@@ -76,11 +132,73 @@ export async function POST(request: NextRequest) {
 
       // Get the current HEAD commit on main branch
       const { data: ref } = await octokit.git.getRef({
-        owner: user.login,
+        owner,
         repo: repoName,
         ref: 'heads/main',
       });
       const baseCommitSha = ref.object.sha;
+      const { treeSha: baseTreeSha, blobs: remoteBlobs } = await readRepoTree(
+        octokit, owner, repoName, baseCommitSha
+      );
+
+      // Chapter files edited on GitHub since they were last synced are merged,
+      // never overwritten. Overlapping edits have to be resolved first.
+      const syncStates = await fetchSyncStates(apiUser, owner, repoName);
+      const conflicts: { chapterId: string; path: string; title: string }[] = [];
+      const generated = new Map(files.map(file => [file.path, file.content]));
+
+      for (const { chapter, path } of chapterFiles) {
+        const remoteSha = remoteBlobs.get(path);
+        const state = syncStates.get(path);
+        if (!remoteSha || remoteSha === state?.blob_sha || remoteSha === gitBlobSha(generated.get(path) || '')) {
+          continue;
+        }
+
+        const sync = await syncChapter({
+          octokit,
+          apiUser,
+          owner,
+          repo: repoName,
+          path,
+          local: { title: chapter.title, description: chapter.description, content: chapter.content || '' },
+          state,
+          remote: { sha: remoteSha, content: await readBlob(octokit, owner, repoName, remoteSha) },
+        });
+
+        if (sync.status === 'conflict') {
+          conflicts.push({ chapterId: chapter.id, path, title: chapter.title });
+        } else if (sync.chapter) {
+          merged.push({ chapterId: chapter.id, path, ...sync.chapter });
+        }
+      }
+
+      if (conflicts.length > 0) {
+        return NextResponse.json(
+          {
+            error: `${conflicts.length} chapter${conflicts.length === 1 ? ' was' : 's were'} also edited on GitHub. Sync from GitHub to resolve the conflicts, then publish again.`,
+            conflicts,
+          },
+          { status: 409 }
+        );
+      }
+
+      if (merged.length > 0) {
+        const updates = new Map(
+          merged.map(({ chapterId, title, description, content }) => [chapterId, { title, description, content }])
+        );
+        const applyUpdates = (chapters: Chapter[]): Chapter[] =>
+          chapters.map(chapter => ({
+            ...chapter,
+            ...updates.get(chapter.id),
+            children: chapter.children ? applyUpdates(chapter.children) : undefined,
+          }));
+
+        files = generateBookFiles({
+          ...bookConfig,
+          tableOfContents: { chapters: applyUpdates(bookConfig.tableOfContents.chapters) },
+        });
+        console.log(`[SYNC] Merged upstream edits into ${merged.length} chapter(s)`);
+      }
 
       // Create blobs for base64-encoded files (images) and prepare tree entries
       const treeEntries: { path: string; mode: '100644'; type: 'blob'; sha?: string; content?: string }[] = [];
@@ -89,7 +207,7 @@ export async function POST(request: NextRequest) {
         if (file.encoding === 'base64') {
           // Create a blob for binary content
           const { data: blob } = await octokit.git.createBlob({
-            owner: user.login,
+            owner,
             repo: repoName,
             content: file.content,
             encoding: 'base64',
@@ -111,44 +229,71 @@ export async function POST(request: NextRequest) {
         }
       }
 
-      // Create a new tree with all files (replaces entire content)
-      // Using base_tree: undefined creates a completely new tree (clean slate)
+      // Layer the generated files over the current tree, so files added
+      // directly in the repository are kept
       const { data: tree } = await octokit.git.createTree({
-        owner: user.login,
+        owner,
         repo: repoName,
+        base_tree: baseTreeSha,
         tree: treeEntries,
       });
 
       // Create a commit with parent
       const { data: commit } = await octokit.git.createCommit({
-        owner: user.login,
+        owner,
         repo: repoName,
         message: 'Update book content - Generated by Book Builder',
         tree: tree.sha,
         parents: [baseCommitSha],
       });
 
-      // Update the main branch to point to the new commit
-      await octokit.git.updateRef({
-        owner: user.login,
-        repo: repoName,
-        ref: 'heads/main',
-        sha: commit.sha,
-      });
+      if (reviewMode) {
+        // Review mode: the whole book goes up as one draft for a pull request
+        draftBranch = BOOK_DRAFT_BRANCH;
+        mainSha = baseCommitSha;
+        await setDraftBranch(octokit, owner, repoName, draftBranch, commit.sha);
+
+        // Previews are built by main's workflow, so main needs the one with the
+        // preview step - e.g. when review mode was just turned on
+        const workflow = files.find(file => file.path === '.github/workflows/deploy.yml');
+        const mainWorkflowSha = remoteBlobs.get('.github/workflows/deploy.yml');
+        if (workflow && mainWorkflowSha !== gitBlobSha(workflow.content)) {
+          const { data: workflowUpdate } = await octokit.repos.createOrUpdateFileContents({
+            owner,
+            repo: repoName,
+            path: workflow.path,
+            message: 'Build draft previews - Generated by Book Builder',
+            content: Buffer.from(workflow.content).toString('base64'),
+            sha: mainWorkflowSha,
+          });
+          mainSha = workflowUpdate.commit.sha;
+          workflowPushed = true;
+        }
+      } else {
+        // Update the main branch to point to the new commit
+        await octokit.git.updateRef({
+          owner,
+          repo: repoName,
+          ref: 'heads/main',
+          sha: commit.sha,
+        });
+      }
 
+      commitSha = commit.sha;
       console.log(`Repository ${repoName} updated with new content`);
 
     } else {
       // CREATE NEW REPO
-      // Check if user is an organization or regular user
-      const isOrganization = user.type === 'Organization';
-      console.log(`Creating repo for ${isOrganization ? 'organization' : 'user'}: ${user.login}`);
+      // In an organization when the book is linked to one or the token is an
+      // organization's, otherwise for the authenticated user
+      const isOrganization = owner !== user.login || user.type === 'Organization';
+      console.log(`Creating repo for ${isOrganization ? 'organization' : 'user'}: ${owner}`);
 
       let repo;
       if (isOrganization) {
         // Create repo in organization
         const response = await octokit.repos.createInOrg({
-          org: user.login,
+          org: owner,
           name: repoName,
           description: sanitizedDescription,
           auto_init: true,
@@ -172,7 +317,7 @@ export async function POST(request: NextRequest) {
 
       // Get the SHA of the initial commit on main branch
       const { data: ref } = await octokit.git.getRef({
-        owner: user.login,
+        owner,
         repo: repoName,
         ref: 'heads/main',
       });
@@ -180,7 +325,7 @@ export async function POST(request: NextRequest) {
 
       // Get the base tree SHA
       const { data: baseCommit } = await octokit.git.getCommit({
-        owner: user.login,
+        owner,
         repo: repoName,
         commit_sha: baseCommitSha,
       });
@@ -193,7 +338,7 @@ export async function POST(request: NextRequest) {
         if (file.encoding === 'base64') {
           // Create a blob for binary content
           const { data: blob } = await octokit.git.createBlob({
-            owner: user.login,
+            owner,
             repo: repoName,
             content: file.content,
             encoding: 'base64',
@@ -217,7 +362,7 @@ export async function POST(request: NextRequest) {
 
       // Create all files in a single commit using Git Data API
       const { data: tree } = await octokit.git.createTree({
-        owner: user.login,
+        owner,
         repo: repoName,
         base_tree: baseTreeSha,
         tree: treeEntries,
@@ -225,7 +370,7 @@ export async function POST(request: NextRequest) {
 
       // Create a commit with parent
       const { data: commit } = await octokit.git.createCommit({
-        owner: user.login,
+        owner,
         repo: repoName,
         message: 'Initial book setup - Generated by Book Builder',
         tree: tree.sha,
@@ -234,21 +379,34 @@ export async function POST(request: NextRequest) {
 
       // Update the main branch to point to the new commit
       await octokit.git.updateRef({
-        owner: user.login,
+        owner,
         repo: repoName,
         ref: 'heads/main',
         sha: commit.sha,
       });
 
+      commitSha = commit.sha;
       console.log(`Repository ${repoName} created with initial content`);
     }
 
+    // Every chapter file now matches the library - a draft only once it's merged
+    if (!draftBranch) {
+      const pushedContent = new Map(files.map(file => [file.path, file.content]));
+      await recordSyncStates(apiUser, {
+        bookId,
+        owner,
+        repo: repoName,
+        commitSha,
+        files: chapterFiles.map(({ path }) => ({ path, blobSha: gitBlobSha(pushedContent.get(path) || '') })),
+      });
+    }
+
     // Enable GitHub Pages with GitHub Actions workflow
     // Do this ONCE - no retries to save API calls
     // The workflow will trigger automatically on push anyway
     try {
       await octokit.request('POST /repos/{owner}/{repo}/pages', {
-        owner: user.login,
+        owner,
         repo: repoName,
         build_type: 'workflow',
         headers: {
@@ -263,11 +421,51 @@ export async function POST(request: NextRequest) {
       console.log('Pages setup status:', err.status);
     }
 
+    let pullRequest: DraftPullRequest | undefined;
+    let deploymentId: string | null = null;
+    if (draftBranch) {
+      pullRequest = await openDraftPullRequest({
+        octokit,
+        owner,
+        repo: repoName,
+        base: 'main',
+        branch: draftBranch,
+        title: 'Update book - Generated by Book Builder',
+      });
+
+      // Draft branches don't deploy; main's workflow builds their previews
+      const previewBuild = workflowPushed
+        ? {}
+        : await requestPreviewBuild(octokit, owner, repoName, 'main');
+      if (previewBuild) {
+        deploymentId = await recordDeployment(apiUser, {
+          bookId,
+          repoUrl: repoUrl!,
+          commitSha: mainSha,
+          trigger: 'preview',
+          workflowRunId: previewBuild.runId,
+          workflowRunUrl: previewBuild.runUrl,
+        });
+      }
+    } else {
+      // The workflow run is picked up later by the deployment status updater
+      deploymentId = await recordDeployment(apiUser, {
+        bookId,
+        repoUrl: repoUrl!,
+        commitSha,
+        trigger: 'publish',
+      });
+    }
+
     return NextResponse.json({
       success: true,
       repoUrl: repoUrl!,
-      username: user.login,
-      deployedUrl: `https://${user.login}.github.io/${repoName}`,
+      username: owner,
+      deployedUrl: `https://${owner}.github.io/${repoName}`,
+      commitSha,
+      deploymentId,
+      merged,
+      pullRequest,
     });
   } catch (error: unknown) {
     console.error('GitHub API error:', error);
@@ -331,650 +529,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-function generateBookFiles(bookConfig: BookConfig): GeneratedFile[] {
-  const files: GeneratedFile[] = [];
-
-  // Process cover image - extract base64 and create actual image file
-  let coverImagePath: string | null = null;
-  if (bookConfig.coverImage && bookConfig.coverImage.startsWith('data:')) {
-    // Extract mime type and base64 data from data URL
-    const match = bookConfig.coverImage.match(/^data:([^;]+);base64,(.+)$/);
-    if (match) {
-      const mimeType = match[1];
-      const base64Data = match[2];
-
-      // Determine file extension based on mime type
-      let extension = 'png';
-      if (mimeType === 'image/jpeg' || mimeType === 'image/jpg') {
-        extension = 'jpg';
-      } else if (mimeType === 'image/gif') {
-        extension = 'gif';
-      } else if (mimeType === 'image/webp') {
-        extension = 'webp';
-      }
-
-      coverImagePath = `images/cover.${extension}`;
-
-      // Add the image file with base64 encoding
-      files.push({
-        path: coverImagePath,
-        content: base64Data,
-        encoding: 'base64',
-      });
-
-      console.log(`Cover image extracted: ${mimeType} -> ${coverImagePath}`);
-    }
-  } else if (bookConfig.coverImage) {
-    // It's already a URL, use it directly
-    coverImagePath = bookConfig.coverImage;
-  }
-
-  // Create a modified bookConfig with the new cover image path for file generation
-  const modifiedBookConfig = {
-    ...bookConfig,
-    coverImage: coverImagePath ? `./${coverImagePath}` : undefined,
-  };
-
-  // Generate myst.yml configuration (with relative cover path)
-  files.push({
-    path: 'myst.yml',
-    content: generateMystConfig(modifiedBookConfig),
-  });
-
-  // Generate index.md (root page)
-  files.push({
-    path: 'index.md',
-    content: generateIndexPage(modifiedBookConfig),
-  });
-
-  // Generate chapter files
-  const chapterFiles = generateChapterFiles(bookConfig.tableOfContents.chapters);
-  files.push(...chapterFiles);
-
-  // Generate GitHub Actions workflow
-  files.push({
-    path: '.github/workflows/deploy.yml',
-    content: generateGitHubWorkflow(),
-  });
-
-  // Generate .gitignore
-  files.push({
-    path: '.gitignore',
-    content: generateGitignore(),
-  });
-
-  // Generate package.json for npm-based MyST
-  files.push({
-    path: 'package.json',
-    content: generatePackageJson(bookConfig),
-  });
-
-  // Generate custom footer for Liquid Books branding
-  files.push({
-    path: 'footer.md',
-    content: generateFooter(),
-  });
-
-  // Generate custom CSS to hide MyST branding and show book title
-  files.push({
-    path: 'styles.css',
-    content: generateCustomStyles(bookConfig.title),
-  });
-
-  return files;
-}
-
-function generateMystConfig(bookConfig: BookConfig): string {
-  const enabledFeatures = bookConfig.features.filter((f) => f.enabled);
-  const hasJupyter = enabledFeatures.some((f) => f.id === 'jupyter-execution' || f.id === 'binder');
-
-  // Get book-level features (use defaults if not set)
-  const bookFeatures = bookConfig.bookFeatures || BOOK_LEVEL_FEATURES;
-  const enabledBookFeatures = bookFeatures.filter((f: BookLevelFeature) => f.enabled);
-
-  // Build site options from book-level features
-  // Always hide MyST branding and use Liquid Books branding
-  const siteOptions: Record<string, unknown> = {
-    style: 'styles.css',  // Load custom CSS to hide MyST branding
-  };
-  const exportOptions: Record<string, unknown> = {};
-  const jupyterOptions: Record<string, unknown> = {};
-
-  // Process enabled book features
-  for (const feature of enabledBookFeatures) {
-    if (!feature.configKey) continue;
-
-    const parts = feature.configKey.split('.');
-    const value = feature.configValue;
-
-    // Route to appropriate options object based on configKey prefix
-    if (parts[0] === 'site' && parts[1] === 'options' && parts[2]) {
-      siteOptions[parts[2]] = value;
-    } else if (parts[0] === 'export' && parts[1]) {
-      exportOptions[parts[1]] = value;
-    } else if (parts[0] === 'jupyter' && parts[1]) {
-      jupyterOptions[parts[1]] = value;
-    }
-  }
-
-  // Generate site options YAML
-  const generateOptionsYaml = (options: Record<string, unknown>, indent: number): string => {
-    const spaces = ' '.repeat(indent);
-    const lines: string[] = [];
-    for (const [key, value] of Object.entries(options)) {
-      if (typeof value === 'boolean') {
-        lines.push(`${spaces}${key}: ${value}`);
-      } else if (typeof value === 'object' && value !== null) {
-        lines.push(`${spaces}${key}:`);
-        for (const [subKey, subValue] of Object.entries(value as Record<string, unknown>)) {
-          lines.push(`${spaces}  ${subKey}: ${subValue}`);
-        }
-      } else {
-        lines.push(`${spaces}${key}: ${value}`);
-      }
-    }
-    return lines.join('\n');
-  };
-
-  // Build options section
-  let optionsSection = '';
-  if (Object.keys(siteOptions).length > 0 || bookConfig.coverImage) {
-    optionsSection = `  options:\n`;
-    if (bookConfig.coverImage) {
-      optionsSection += `    logo: "${bookConfig.coverImage}"\n`;
-    }
-    if (Object.keys(siteOptions).length > 0) {
-      optionsSection += generateOptionsYaml(siteOptions, 4) + '\n';
-    }
-  }
-
-  // Build export section
-  let exportSection = '';
-  if (Object.keys(exportOptions).length > 0) {
-    exportSection = `\nexport:\n`;
-    for (const [key, value] of Object.entries(exportOptions)) {
-      if (typeof value === 'object' && value !== null && (value as Record<string, unknown>).enabled) {
-        exportSection += `  ${key}: true\n`;
-      }
-    }
-  }
-
-  // Build jupyter section - collect all enabled jupyter options into a single object to prevent duplicates
-  // Use a Map to ensure unique keys
-  const jupyterConfig = new Map<string, boolean>();
-
-  // Add from hasJupyter flag (chapter-level jupyter features)
-  if (hasJupyter) {
-    jupyterConfig.set('lite', true);
-  }
-
-  // Add from book-level features (will overwrite if key exists)
-  for (const [key, value] of Object.entries(jupyterOptions)) {
-    if (typeof value === 'object' && value !== null && (value as Record<string, unknown>).enabled) {
-      jupyterConfig.set(key, true);
-    } else if (typeof value === 'boolean' && value) {
-      jupyterConfig.set(key, true);
-    }
-  }
-
-  let jupyterSection = '';
-  if (jupyterConfig.size > 0) {
-    jupyterSection = `  jupyter:\n`;
-    for (const [key, value] of jupyterConfig) {
-      jupyterSection += `    ${key}: ${value}\n`;
-    }
-  }
-
-  // Detailed logging for book-level features
-  console.log('=== BOOK-LEVEL FEATURES CONFIGURATION ===');
-  console.log(`Total book features: ${bookFeatures.length}, Enabled: ${enabledBookFeatures.length}`);
-  if (enabledBookFeatures.length > 0) {
-    console.log('Enabled book-level features:');
-    for (const f of enabledBookFeatures) {
-      console.log(`  - ${f.id} (${f.name}): configKey=${f.configKey || 'none'}, category=${f.category}`);
-    }
-  }
-  console.log('Site options:', JSON.stringify(siteOptions, null, 2));
-  console.log('Export options:', JSON.stringify(exportOptions, null, 2));
-  console.log('Jupyter config:', Array.from(jupyterConfig.entries()));
-  console.log('==========================================');
-
-  // Build a comment listing enabled features for visibility in the generated file
-  const enabledFeaturesList = enabledBookFeatures.length > 0
-    ? enabledBookFeatures.map((f: BookLevelFeature) => f.name).join(', ')
-    : 'none';
-
-  return `# Liquid Books Configuration
-# Generated by Liquid Books (https://liquid-books.netlify.app)
-# Book-level features (${enabledBookFeatures.length}): ${enabledFeaturesList}
-
-version: 1
-
-project:
-  title: "${bookConfig.title}"
-${bookConfig.description ? `  description: "${bookConfig.description}"` : ''}
-  authors:
-    - name: "${bookConfig.author}"
-${bookConfig.github ? `  github: https://github.com/${bookConfig.github.username}/${bookConfig.github.repoName}` : ''}
-${jupyterSection ? jupyterSection : ''}  toc:
-${generateTocYaml(bookConfig.tableOfContents.chapters, 4)}
-
-site:
-  template: book-theme
-  title: "${bookConfig.title}"
-${bookConfig.github ? `  base: /${bookConfig.github.repoName}` : ''}
-  logo:
-    text: "${bookConfig.title}"
-  nav:
-    - title: "${bookConfig.title}"
-      url: .
-${optionsSection}  actions:
-    - title: "${bookConfig.title}"
-      url: .
-  parts:
-    footer: footer.md
-${exportSection}`;
-}
-
-function generateTocConfig(chapters: Chapter[]): { file: string; children?: unknown[] }[] {
-  return chapters.map((chapter) => {
-    const entry: { file: string; children?: unknown[] } = {
-      file: `${chapter.slug}.md`,
-    };
-    if (chapter.children && chapter.children.length > 0) {
-      entry.children = generateTocConfig(chapter.children);
-    }
-    return entry;
-  });
-}
-
-function generateTocYaml(chapters: Chapter[], indent: number, isTopLevel = true): string {
-  const spaces = ' '.repeat(indent);
-
-  // MyST rule: First TOC item cannot have children
-  // So we flatten any children of the first item into top-level entries
-  if (isTopLevel && chapters.length > 0) {
-    const result: string[] = [];
-
-    chapters.forEach((chapter, index) => {
-      if (index === 0 && chapter.children && chapter.children.length > 0) {
-        // First item with children: add it without children, then add its children as top-level
-        result.push(`${spaces}- file: ${chapter.slug}.md`);
-        // Add children as top-level entries (they can have their own children)
-        chapter.children.forEach((child) => {
-          let entry = `${spaces}- file: ${child.slug}.md`;
-          if (child.children && child.children.length > 0) {
-            entry += `\n${spaces}  children:\n${generateTocYaml(child.children, indent + 4, false)}`;
-          }
-          result.push(entry);
-        });
-      } else {
-        // Other items: normal behavior
-        let entry = `${spaces}- file: ${chapter.slug}.md`;
-        if (chapter.children && chapter.children.length > 0) {
-          entry += `\n${spaces}  children:\n${generateTocYaml(chapter.children, indent + 4, false)}`;
-        }
-        result.push(entry);
-      }
-    });
-
-    return result.join('\n');
-  }
-
-  // Non-top-level: normal recursive behavior
-  return chapters
-    .map((chapter) => {
-      let entry = `${spaces}- file: ${chapter.slug}.md`;
-      if (chapter.children && chapter.children.length > 0) {
-        entry += `\n${spaces}  children:\n${generateTocYaml(chapter.children, indent + 4, false)}`;
-      }
-      return entry;
-    })
-    .join('\n');
-}
-
-function generateIndexPage(bookConfig: BookConfig): string {
-  // Header section with cover, title, and author
-  const headerSection = bookConfig.coverImage
-    ? `
-::::{grid} 1 1 2 2
-:gutter: 4
-:class-container: book-header
-
-:::{grid-item}
-:columns: 12 12 4 4
-:class: cover-image
-
-![${bookConfig.title}](${bookConfig.coverImage})
-:::
-
-:::{grid-item}
-:columns: 12 12 8 8
-:class: book-info
-
-# ${bookConfig.title}
-
-**by ${bookConfig.author}**
-
----
-
-${bookConfig.description}
-:::
-::::
-`
-    : `
-# ${bookConfig.title}
-
-**by ${bookConfig.author}**
-
----
-
-${bookConfig.description}
-`;
-
-  // Generate numbered chapter list
-  const numberedChapters = bookConfig.tableOfContents.chapters
-    .map((ch, index) => {
-      const chapterNum = index + 1;
-      return `${chapterNum}. [**Chapter ${chapterNum}:** ${ch.title}](${ch.slug}.md)${ch.description ? `\n   > ${ch.description}` : ''}`;
-    })
-    .join('\n\n');
-
-  return `---
-title: "${bookConfig.title} by ${bookConfig.author}"
-${bookConfig.coverImage ? `thumbnail: ${bookConfig.coverImage}` : ''}
----
-
-${headerSection}
-
-## 📚 Table of Contents
-
-${numberedChapters}
-
----
-
-*Created with [Liquid Books](https://github.com/fenago/Liquid-Books-21)*
-`;
-}
-
-function generateChapterFiles(
-  chapters: Chapter[],
-  prefix = '',
-  isTopLevel = true,
-  startIndex = 1
-): GeneratedFile[] {
-  const files: GeneratedFile[] = [];
-
-  for (let i = 0; i < chapters.length; i++) {
-    const chapter = chapters[i];
-    const chapterNumber = isTopLevel ? startIndex + i : undefined; // Only number top-level chapters
-    const filePath = prefix ? `${prefix}/${chapter.slug}.md` : `${chapter.slug}.md`;
-
-    files.push({
-      path: filePath,
-      content: generateChapterContent(chapter, chapterNumber),
-    });
-
-    if (chapter.children && chapter.children.length > 0) {
-      // MyST rule: First TOC item cannot have children
-      // So first chapter's children go at root level (no prefix)
-      if (isTopLevel && i === 0) {
-        // First chapter's children: put at root level to match flattened TOC
-        files.push(...generateChapterFiles(chapter.children, '', false));
-      } else {
-        // Other chapters: children go in subdirectory
-        files.push(...generateChapterFiles(chapter.children, chapter.slug, false));
-      }
-    }
-  }
-
-  return files;
-}
-
-function generateChapterContent(chapter: Chapter, chapterNumber?: number): string {
-  const content = chapter.content || generatePlaceholderContent(chapter);
-
-  // Format title with chapter number if provided
-  const displayTitle = chapterNumber
-    ? `Chapter ${chapterNumber}: ${chapter.title}`
-    : chapter.title;
-
-  return `---
-title: ${displayTitle}
----
-
-# ${displayTitle}
-
-${chapter.description ? `> ${chapter.description}\n` : ''}
-
-${content}
-`;
-}
-
-function generatePlaceholderContent(chapter: Chapter): string {
-  return `
-:::{note}
-This chapter is a placeholder. Use the AI-powered chapter editor to generate content.
-:::
-
-## Overview
-
-This chapter covers **${chapter.title}**.
-
-${chapter.description || 'Content coming soon...'}
-
-## Key Topics
-
-- Topic 1
-- Topic 2
-- Topic 3
-
-## Examples
-
-\`\`\`python
-# Example code will be added here
-print("Hello from ${chapter.title}")
-\`\`\`
-
-## Summary
-
-Summary of ${chapter.title} will be added here.
-
----
-
-*Last updated: ${new Date().toISOString().split('T')[0]}*
-`;
-}
-
-function generateGitHubWorkflow(): string {
-  // Based on official MyST docs: https://mystmd.org/guide/deployment-github-pages
-  // BASE_URL uses GitHub's dynamic variable - no hardcoding needed
-  return `# Liquid Books Deploy
-# Created by Dr. Lee
-# Based on: https://mystmd.org/guide/deployment-github-pages
-
-name: Liquid Books Deploy
-
-on:
-  push:
-    branches: [main]
-  workflow_dispatch:
-
-env:
-  # BASE_URL determines the website is served from, including CSS & JS assets
-  # Uses GitHub's dynamic variable to get the repository name
-  BASE_URL: /\${{ github.event.repository.name }}
-
-permissions:
-  contents: read
-  pages: write
-  id-token: write
-
-concurrency:
-  group: 'pages'
-  cancel-in-progress: false
-
-jobs:
-  deploy:
-    environment:
-      name: github-pages
-      url: \${{ steps.deployment.outputs.page_url }}
-    runs-on: ubuntu-latest
-    steps:
-      - uses: actions/checkout@v4
-
-      - name: Setup Pages
-        uses: actions/configure-pages@v3
-
-      - uses: actions/setup-node@v4
-        with:
-          node-version: 18.x
-
-      - name: Install MyST Markdown
-        run: npm install -g mystmd
-
-      - name: Build HTML Assets
-        run: myst build --html
-
-      - name: Upload artifact
-        uses: actions/upload-pages-artifact@v3
-        with:
-          path: './_build/html'
-
-      - name: Deploy to GitHub Pages
-        id: deployment
-        uses: actions/deploy-pages@v4
-`;
-}
-
-function generateGitignore(): string {
-  return `# Build outputs
-_build/
-.myst/
-
-# Dependencies
-node_modules/
-
-# Environment
-.env
-.env.local
-
-# IDE
-.vscode/
-.idea/
-*.swp
-*.swo
-
-# OS
-.DS_Store
-Thumbs.db
-
-# Logs
-*.log
-npm-debug.log*
-`;
-}
-
-function generatePackageJson(bookConfig: BookConfig): string {
-  return JSON.stringify(
-    {
-      name: bookConfig.github?.repoName || 'my-book',
-      version: '1.0.0',
-      description: bookConfig.description,
-      scripts: {
-        start: 'myst start',
-        build: 'myst build --html',
-        clean: 'myst clean --all',
-      },
-      keywords: ['liquid-books', 'myst', 'jupyter-book', 'documentation'],
-      author: bookConfig.author,
-      license: 'MIT',
-      devDependencies: {
-        mystmd: '^1.0.0',
-      },
-    },
-    null,
-    2
-  );
-}
-
-function generateFooter(): string {
-  return `**Created with [Liquid Books](https://liquid-books.netlify.app) by Dr. Lee**
-`;
-}
-
-function generateHeader(bookTitle: string): string {
-  return `::::{div}
-:class: header-branding
-
-# ${bookTitle}
-
-*A Liquid Books Publication*
-
-::::
-`;
-}
-
-function generateCustomStyles(bookTitle: string): string {
-  // CSS to hide MyST branding and show book title instead
-  // The MyST theme ignores logo: text: config, so we use CSS to override
-  return `/* Liquid Books Custom Styles */
-
-/* ========================================
-   HIDE MYST BRANDING - SPECIFIC ELEMENTS
-   ======================================== */
-
-/* Hide the "Made with MyST" text in the header home link */
-.myst-home-link span {
-  font-size: 0 !important;
-  visibility: hidden !important;
-}
-
-/* Replace with book title using CSS */
-.myst-home-link span::after {
-  content: "${bookTitle.replace(/"/g, '\\"')}" !important;
-  font-size: 1rem !important;
-  visibility: visible !important;
-  font-weight: bold;
-}
-
-/* Hide the "Made with MyST" link in sidebar footer */
-.myst-made-with-myst {
-  display: none !important;
-}
-
-/* Also hide any links to mystmd.org */
-a[href*="mystmd.org"],
-a[href*="myst-tools"],
-a[href*="jupyter-book"] {
-  display: none !important;
-}
-
-/* Hide generic powered-by sections */
-.powered-by,
-.made-with,
-.built-with,
-.myst-branding,
-.myst-powered-by {
-  display: none !important;
-}
-
-/* ========================================
-   BOOK TITLE STYLING
-   ======================================== */
-.site-nav .nav-title,
-.navbar-brand,
-.site-title,
-.sidebar-title {
-  font-weight: bold;
-  font-size: 1.2rem;
-}
-
-/* Ensure our custom footer is visible */
-.page-footer,
-article footer {
-  display: block !important;
-}
-`;
-}
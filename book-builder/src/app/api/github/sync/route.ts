@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Octokit } from '@octokit/rest';
+import { getUserApiKey, requireApiUser, requireBookAccess, type BookAccess } from '@/lib/supabase/server';
+import { BookConfig } from '@/types';
+import { getChapterFiles } from '@/lib/bookExports';
+import {
+  fetchSyncStates,
+  readBlob,
+  readRepoTree,
+  recordSyncStates,
+  syncChapter,
+  type BookChapterSyncResult,
+  type SyncedFile,
+} from '@/lib/githubSync';
+
+interface SyncRequest {
+  token?: string;
+  username: string;
+  repoName: string;
+  bookConfig: BookConfig;
+  bookId?: string | null;
+  // Second step: files whose pulled, merged or resolved version the library has saved
+  acknowledge?: {
+    commitSha: string;
+    files: SyncedFile[];
+  };
+}
+
+/**
+ * Compare every chapter with its file on GitHub.
+ *
+ * Returns each chapter's status plus the pulled or merged version to save; the
+ * caller saves those (and any conflicts it resolves), then calls again with
+ * `acknowledge` so the next sync merges against the new versions.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { apiUser, response: authError } = await requireApiUser('github');
+    if (authError) return authError;
+
+    const body: SyncRequest = await request.json();
+    const { token: providedToken, bookConfig, bookId, acknowledge } = body;
+    let { username, repoName } = body;
+
+    // A library book's repository is the one saved on the book, and only those
+    // who can write the book may use it
+    let access: BookAccess | null = null;
+    if (bookId) {
+      const result = await requireBookAccess(apiUser, bookId);
+      if (result.response) return result.response;
+      access = result.access;
+      username = access.githubUsername || '';
+      repoName = access.githubRepoName || '';
+    }
+
+    // Use provided token, then the user's saved token, then the environment variable (whitelisted users only)
+    const token = providedToken || await getUserApiKey(apiUser, 'github', access) || apiUser.getEnvKey('GITHUB_PAT');
+
+    if (!token || !username || !repoName || (!bookConfig && !acknowledge)) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    if (acknowledge) {
+      await recordSyncStates(apiUser, {
+        bookId,
+        owner: username,
+        repo: repoName,
+        commitSha: acknowledge.commitSha,
+        files: acknowledge.files,
+      });
+      return NextResponse.json({ success: true });
+    }
+
+    const octokit = new Octokit({ auth: token });
+
+    const { data: repository } = await octokit.repos.get({ owner: username, repo: repoName });
+    const { data: ref } = await octokit.git.getRef({
+      owner: username,
+      repo: repoName,
+      ref: `heads/${repository.default_branch}`,
+    });
+    const commitSha = ref.object.sha;
+
+    const { blobs } = await readRepoTree(octokit, username, repoName, commitSha);
+    const syncStates = await fetchSyncStates(apiUser, username, repoName);
+
+    const results: BookChapterSyncResult[] = [];
+    for (const { chapter, path } of getChapterFiles(bookConfig.tableOfContents.chapters)) {
+      const remoteSha = blobs.get(path);
+      const state = syncStates.get(path);
+
+      const result = await syncChapter({
+        octokit,
+        apiUser,
+        owner: username,
+        repo: repoName,
+        path,
+        local: { title: chapter.title, description: chapter.description, content: chapter.content || '' },
+        state,
+        // Only download files that changed since the last sync
+        remote: remoteSha
+          ? { sha: remoteSha, content: remoteSha === state?.blob_sha ? '' : await readBlob(octokit, username, repoName, remoteSha) }
+          : null,
+      });
+      results.push({ ...result, chapterId: chapter.id });
+    }
+
+    // Files that already match the library need no saving - mark them synced now
+    await recordSyncStates(apiUser, {
+      bookId,
+      owner: username,
+      repo: repoName,
+      commitSha,
+      files: results
+        .filter(result => result.status === 'unchanged' && result.remoteSha !== syncStates.get(result.path)?.blob_sha)
+        .map(result => ({ path: result.path, blobSha: result.remoteSha! })),
+    });
+
+    const counts = results.reduce<Record<string, number>>((acc, result) => {
+      acc[result.status] = (acc[result.status] || 0) + 1;
+      return acc;
+    }, {});
+    console.log(`[SYNC] ${username}/${repoName} at ${commitSha.slice(0, 7)}:`, counts);
+
+    return NextResponse.json({ success: true, commitSha, results });
+  } catch (error) {
+    console.error('GitHub sync error:', error);
+
+    const status = (error as { status?: number }).status;
+    if (status === 404) {
+      return NextResponse.json({ error: 'Repository not found' }, { status: 404 });
+    }
+    if (status === 401) {
+      return NextResponse.json(
+        { error: 'GitHub token is invalid or expired. Please check your Personal Access Token.' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to sync with GitHub' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Octokit } from '@octokit/rest';
+import { getUserApiKey, requireApiUser, requireBookAccess, type BookAccess } from '@/lib/supabase/server';
 import { Chapter, BookConfig } from '@/types';
 import { generateMystConfig } from '@/lib/myst-config';
+import { generateBookMatterPages } from '@/lib/bookMatter';
+import { recordDeployment } from '@/lib/deploymentTracker';
+import {
+  fetchSyncStates,
+  readRepoFile,
+  recordSyncStates,
+  syncChapter,
+  type ChapterFields,
+} from '@/lib/githubSync';
+import {
+  draftBranchForChapter,
+  ensureDraftBranch,
+  openDraftPullRequest,
+  requestPreviewBuild,
+  type DraftPullRequest,
+} from '@/lib/githubPullRequests';
 
 interface UpdateChapterRequest {
   token?: string;
@@ -9,15 +26,37 @@ interface UpdateChapterRequest {
   repoName: string;
   chapter: Chapter;
   bookConfig?: BookConfig; // Optional: if provided, also update myst.yml
+  bookId?: string | null; // Library book, for deployment history
+  baseSha?: string; // GitHub blob the chapter was merged against after a conflict
 }
 
 export async function POST(request: NextRequest) {
   try {
+    const { apiUser, response: authError } = await requireApiUser('github');
+    if (authError) return authError;
+
     const body: UpdateChapterRequest = await request.json();
-    const { token: providedToken, username, repoName, chapter, bookConfig } = body;
+    const { token: providedToken, chapter, bookConfig, bookId, baseSha } = body;
+    let { username, repoName } = body;
+
+    // A library book's repository is the one saved on the book, and only those
+    // who can write the book may use it
+    let access: BookAccess | null = null;
+    if (bookId) {
+      const result = await requireBookAccess(apiUser, bookId);
+      if (result.response) return result.response;
+      access = result.access;
+      username = access.githubUsername || '';
+      repoName = access.githubRepoName || '';
+    }
 
-    // Use provided token or fall back to environment variable
-    const token = providedToken || process.env.GITHUB_PAT;
+    // A library book's saved publish mode wins over the request's. Saving a
+    // chapter isn't publishing the book, so readiness is checked by /api/github
+    // and the merge of a draft, not here.
+    const reviewMode = (access?.publishMode ?? bookConfig?.github?.publishMode) === 'pull-request';
+
+    // Use provided token, then the user's saved token, then the environment variable (whitelisted users only)
+    const token = providedToken || await getUserApiKey(apiUser, 'github', access) || apiUser.getEnvKey('GITHUB_PAT');
 
     if (!token || !username || !repoName || !chapter) {
       return NextResponse.json(
@@ -31,42 +70,115 @@ export async function POST(request: NextRequest) {
     // Generate the file path
     const filePath = `${chapter.slug}.md`;
 
-    // Generate the file content
-    const content = generateChapterContent(chapter);
+    const remote = await readRepoFile(octokit, username, repoName, filePath);
 
-    // Get the current file to get its SHA (needed for updates)
-    let sha: string | undefined;
-    try {
-      const { data: existingFile } = await octokit.repos.getContent({
+    // Check for edits made on GitHub since the chapter was last synced, unless
+    // the caller has just merged against this exact version
+    let pushedChapter = chapter;
+    let merged: ChapterFields | undefined;
+    if (remote && remote.sha !== baseSha) {
+      const syncStates = await fetchSyncStates(apiUser, username, repoName);
+      const sync = await syncChapter({
+        octokit,
+        apiUser,
         owner: username,
         repo: repoName,
         path: filePath,
+        local: { title: chapter.title, description: chapter.description, content: chapter.content || '' },
+        state: syncStates.get(filePath),
+        remote,
       });
 
-      if ('sha' in existingFile) {
-        sha = existingFile.sha;
+      if (sync.status === 'conflict') {
+        return NextResponse.json(
+          { error: `"${chapter.title}" was also edited on GitHub - resolve the conflicting changes first`, conflict: sync },
+          { status: 409 }
+        );
+      }
+      if (sync.chapter) {
+        // Pulled or merged cleanly: push the combined chapter and hand it back to the editor
+        merged = sync.chapter;
+        pushedChapter = { ...chapter, ...sync.chapter };
+        console.log(`[SYNC] ${filePath}: ${sync.status} upstream changes`);
       }
-    } catch (error) {
-      // File doesn't exist yet, that's okay for new chapters
-      console.log(`File ${filePath} does not exist, will create new file`);
     }
 
+    // Review mode: commit to the chapter's draft branch and open a pull request
+    // instead of updating the live book
+    const branch = reviewMode ? draftBranchForChapter(chapter.slug) : undefined;
+    let baseBranch = 'main';
+    let baseHeadSha: string | undefined;
+    let existingSha = remote?.sha;
+    if (branch) {
+      const { data: repository } = await octokit.repos.get({ owner: username, repo: repoName });
+      baseBranch = repository.default_branch;
+      const { data: baseRef } = await octokit.git.getRef({
+        owner: username,
+        repo: repoName,
+        ref: `heads/${baseBranch}`,
+      });
+      baseHeadSha = baseRef.object.sha;
+      await ensureDraftBranch(octokit, username, repoName, branch, baseHeadSha);
+      existingSha = (await readRepoFile(octokit, username, repoName, filePath, branch))?.sha;
+    }
+
+    // Generate the file content
+    const content = generateChapterContent(pushedChapter);
+
     // Create or update the file
     const updateResponse = await octokit.repos.createOrUpdateFileContents({
       owner: username,
       repo: repoName,
       path: filePath,
-      message: `Update chapter: ${chapter.title}`,
+      message: `Update chapter: ${pushedChapter.title}`,
       content: Buffer.from(content).toString('base64'),
-      sha,
+      sha: existingSha,
+      branch,
     });
 
     let commitSha = updateResponse.data.commit.sha;
     const fileSha = updateResponse.data.content?.sha;
 
+    // A draft isn't in sync with the live book until it's merged
+    if (fileSha && commitSha && !branch) {
+      await recordSyncStates(apiUser, {
+        bookId,
+        owner: username,
+        repo: repoName,
+        commitSha,
+        files: [{ path: filePath, blobSha: fileSha }],
+      });
+    }
+
     // Also update myst.yml if bookConfig is provided
     // This ensures site configuration (logo, base URL, etc.) stays in sync
     if (bookConfig) {
+      // myst.yml lists the front/back matter pages, so create any that were enabled
+      // since the book was published. Existing pages may have been edited - leave them.
+      for (const matterPage of generateBookMatterPages(bookConfig)) {
+        try {
+          await octokit.repos.getContent({
+            owner: username,
+            repo: repoName,
+            path: matterPage.path,
+            ref: branch,
+          });
+        } catch {
+          try {
+            await octokit.repos.createOrUpdateFileContents({
+              owner: username,
+              repo: repoName,
+              path: matterPage.path,
+              message: `Add ${matterPage.title} page`,
+              content: Buffer.from(matterPage.content).toString('base64'),
+              branch,
+            });
+          } catch (matterError) {
+            console.error(`Failed to create ${matterPage.path}:`, matterError);
+          }
+        }
+      }
+
       try {
         const mystContent = generateMystConfig(bookConfig);
 
@@ -77,6 +189,7 @@ export async function POST(request: NextRequest) {
             owner: username,
             repo: repoName,
             path: 'myst.yml',
+            ref: branch,
           });
           if ('sha' in mystFile) {
             mystSha = mystFile.sha;
@@ -92,6 +205,7 @@ export async function POST(request: NextRequest) {
           message: `Update myst.yml configuration`,
           content: Buffer.from(mystContent).toString('base64'),
           sha: mystSha,
+          branch,
         });
 
         // Use the myst.yml commit SHA as the final commit
@@ -125,41 +239,78 @@ export async function POST(request: NextRequest) {
       console.error('Verification failed:', verifyError);
     }
 
-    const fileUrl = `https://github.com/${username}/${repoName}/blob/main/${filePath}`;
+    const fileUrl = `https://github.com/${username}/${repoName}/blob/${branch || 'main'}/${filePath}`;
     const commitUrl = `https://github.com/${username}/${repoName}/commit/${commitSha}`;
     const actionsUrl = `https://github.com/${username}/${repoName}/actions`;
 
-    // Check if a workflow run was triggered by this commit
+    let pullRequest: DraftPullRequest | undefined;
     let workflowTriggered = false;
     let workflowRunUrl: string | undefined;
-    try {
-      // Wait a moment for GitHub to register the workflow
-      await new Promise(resolve => setTimeout(resolve, 2000));
+    let workflowRunId: number | undefined;
 
-      // Get the latest workflow runs
-      const { data: workflowRuns } = await octokit.actions.listWorkflowRunsForRepo({
+    if (branch) {
+      pullRequest = await openDraftPullRequest({
+        octokit,
         owner: username,
         repo: repoName,
-        per_page: 5,
+        base: baseBranch,
+        branch,
+        title: `Update chapter: ${pushedChapter.title}`,
       });
 
-      // Check if there's a run triggered by our commit
-      const matchingRun = workflowRuns.workflow_runs.find(
-        run => run.head_sha === commitSha
-      );
+      // Draft branches don't deploy; the base branch's workflow builds their previews
+      const previewBuild = await requestPreviewBuild(octokit, username, repoName, baseBranch);
+      workflowTriggered = previewBuild !== null;
+      workflowRunId = previewBuild?.runId;
+      workflowRunUrl = previewBuild?.runUrl;
+    } else {
+      // Check if a workflow run was triggered by this commit
+      try {
+        // Wait a moment for GitHub to register the workflow
+        await new Promise(resolve => setTimeout(resolve, 2000));
 
-      if (matchingRun) {
-        workflowTriggered = true;
-        workflowRunUrl = matchingRun.html_url;
+        // Get the latest workflow runs
+        const { data: workflowRuns } = await octokit.actions.listWorkflowRunsForRepo({
+          owner: username,
+          repo: repoName,
+          per_page: 5,
+        });
+
+        // Check if there's a run triggered by our commit
+        const matchingRun = workflowRuns.workflow_runs.find(
+          run => run.head_sha === commitSha
+        );
+
+        if (matchingRun) {
+          workflowTriggered = true;
+          workflowRunUrl = matchingRun.html_url;
+          workflowRunId = matchingRun.id;
+        }
+      } catch (workflowError) {
+        console.error('Failed to check workflow status:', workflowError);
       }
-    } catch (workflowError) {
-      console.error('Failed to check workflow status:', workflowError);
     }
 
+    const deploymentId = !branch || workflowTriggered
+      ? await recordDeployment(apiUser, {
+          bookId,
+          repoUrl: `https://github.com/${username}/${repoName}`,
+          // The preview build runs on the base branch's head
+          commitSha: branch ? baseHeadSha : commitSha,
+          trigger: branch ? 'preview' : 'chapter-update',
+          workflowRunId,
+          workflowRunUrl,
+        })
+      : null;
+
     return NextResponse.json({
       success: true,
       verified,
-      message: `Chapter "${chapter.title}" saved successfully`,
+      message: branch
+        ? `Chapter "${pushedChapter.title}" saved to ${branch} - pull request #${pullRequest!.number}`
+        : `Chapter "${pushedChapter.title}" saved successfully`,
+      merged,
+      pullRequest,
       commitSha,
       fileSha,
       fileUrl,
@@ -167,6 +318,7 @@ export async function POST(request: NextRequest) {
       actionsUrl,
       workflowTriggered,
       workflowRunUrl,
+      deploymentId,
       contentLength: content.length,
       verifiedContentLength: verifiedContent.length,
     });
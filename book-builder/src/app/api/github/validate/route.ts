@@ -1,13 +1,19 @@
 import { NextResponse } from 'next/server';
 import { Octokit } from '@octokit/rest';
+import { getUserApiKey, requireApiUser } from '@/lib/supabase/server';
 
 export async function GET() {
   try {
-    const token = process.env.GITHUB_PAT;
+    const { apiUser, response: authError } = await requireApiUser('github');
+    if (authError) return authError;
+
+    // A saved token takes precedence in the other GitHub routes, so report that account
+    const savedToken = await getUserApiKey(apiUser, 'github');
+    const token = savedToken || apiUser.getEnvKey('GITHUB_PAT');
 
     if (!token) {
       return NextResponse.json(
-        { valid: false, error: 'No default GitHub PAT configured' },
+        { valid: false, error: 'No saved GitHub token or default PAT available' },
         { status: 400 }
       );
     }
@@ -20,6 +26,7 @@ export async function GET() {
     return NextResponse.json({
       valid: true,
       username: user.login,
+      source: savedToken ? 'saved' : 'default',
     });
   } catch (error) {
     console.error('GitHub PAT validation error:', error);
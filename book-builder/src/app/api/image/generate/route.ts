@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getUserApiKey, requireApiUser } from '@/lib/supabase/server';
 
 export const runtime = 'edge';
 export const maxDuration = 60;
@@ -15,11 +16,14 @@ interface ImageGenerateRequest {
 
 export async function POST(request: NextRequest) {
   try {
+    const { apiUser, response: authError } = await requireApiUser('image');
+    if (authError) return authError;
+
     const body: ImageGenerateRequest = await request.json();
     const { apiKey: providedApiKey, model, prompt, aspectRatio = '3:4', bookTitle, bookAuthor, systemPrompt } = body;
 
-    // Use provided API key or fall back to environment variable
-    const apiKey = providedApiKey || process.env.GEMINI_API_KEY || '';
+    // Use provided API key, then the user's saved Gemini key, then the environment variable (whitelisted users only)
+    const apiKey = providedApiKey || await getUserApiKey(apiUser, 'gemini') || apiUser.getEnvKey('GEMINI_API_KEY') || '';
 
     if (!apiKey || !prompt) {
       return NextResponse.json(
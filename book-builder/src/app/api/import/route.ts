@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Octokit } from '@octokit/rest';
+import { getUserApiKey, requireApiUser } from '@/lib/supabase/server';
+import { parseRepoUrl } from '@/lib/deploymentTracker';
+import { recordSyncStates, type SyncedFile } from '@/lib/githubSync';
+import { Chapter } from '@/types';
+import {
+  createGitHubSource,
+  createZipSource,
+  parseBookProject,
+  saveImportedBook,
+  type GitHubProjectSource,
+  type ImportedBook,
+  type ImportOrigin,
+} from '@/lib/bookImport';
+
+interface ImportRepoRequest {
+  // github.com URL or "owner/repo"
+  repoUrl: string;
+  token?: string;
+  organizationId?: string | null;
+}
+
+const MAX_ZIP_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Import an existing MyST / Jupyter Book project into the library.
+ *
+ * JSON body { repoUrl, token? } imports a GitHub repository and links the book
+ * to it; a multipart upload with a `file` field imports a ZIP of a project.
+ * Either may name an `organizationId` to import into a team library.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { apiUser, response: authError } = await requireApiUser('import');
+    if (authError) return authError;
+
+    let imported: ImportedBook;
+    let origin: ImportOrigin;
+    let githubSource: GitHubProjectSource | null = null;
+
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const form = await request.formData();
+      const file = form.get('file');
+
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: 'Missing ZIP file' }, { status: 400 });
+      }
+      if (file.size > MAX_ZIP_BYTES) {
+        return NextResponse.json({ error: 'ZIP file is larger than 50 MB' }, { status: 413 });
+      }
+
+      const source = createZipSource(Buffer.from(await file.arrayBuffer()));
+      imported = await parseBookProject(source, file.name.replace(/\.zip$/i, ''));
+      origin = { source: 'zip', organizationId: (form.get('organizationId') as string | null) || null };
+    } else {
+      const { repoUrl, token: providedToken, organizationId }: ImportRepoRequest = await request.json();
+      const repoInfo = repoUrl?.includes('github.com')
+        ? parseRepoUrl(repoUrl)
+        : repoUrl?.match(/^([\w.-]+)\/([\w.-]+)$/) ? { owner: repoUrl.split('/')[0], repo: repoUrl.split('/')[1] } : null;
+
+      if (!repoInfo) {
+        return NextResponse.json({ error: 'Enter a GitHub repository URL or owner/repo' }, { status: 400 });
+      }
+
+      // Public repositories can be read without a token
+      const token = providedToken || await getUserApiKey(apiUser, 'github') || apiUser.getEnvKey('GITHUB_PAT');
+      const octokit = new Octokit(token ? { auth: token } : {});
+
+      const { data: existing } = await apiUser.supabase
+        .from('lq21_books')
+        .select('id')
+        .eq('owner_id', apiUser.user.id)
+        .eq('github_username', repoInfo.owner)
+        .eq('github_repo_name', repoInfo.repo)
+        .maybeSingle();
+
+      if (existing) {
+        return NextResponse.json(
+          { error: 'This repository is already in your library', bookId: existing.id },
+          { status: 409 }
+        );
+      }
+
+      let source: GitHubProjectSource;
+      try {
+        source = await createGitHubSource(octokit, repoInfo.owner, repoInfo.repo);
+      } catch (err) {
+        const status = (err as { status?: number }).status;
+        if (status === 404) {
+          return NextResponse.json(
+            { error: token ? 'Repository not found' : 'Repository not found - private repositories need a GitHub token' },
+            { status: 404 }
+          );
+        }
+        throw err;
+      }
+
+      imported = await parseBookProject(source, source.repo);
+      if (source.truncated) {
+        imported.warnings.push('The repository is very large and GitHub returned a partial file list - some files may be missing');
+      }
+      origin = {
+        source: 'github',
+        github: { username: source.owner, repoName: source.repo, defaultBranch: source.defaultBranch },
+        organizationId,
+      };
+      githubSource = source;
+    }
+
+    const book = await saveImportedBook(apiUser, imported, origin);
+
+    if (githubSource) {
+      // The library starts out identical to the repository's markdown chapters,
+      // so later edits on either side can be merged against this commit
+      const synced: SyncedFile[] = [];
+      const collect = (chapters: Chapter[]) => {
+        for (const chapter of chapters) {
+          const blobSha = githubSource!.blobShas.get(`${chapter.slug}.md`);
+          if (blobSha) synced.push({ path: `${chapter.slug}.md`, blobSha });
+          if (chapter.children) collect(chapter.children);
+        }
+      };
+      collect(imported.config.tableOfContents.chapters);
+
+      await recordSyncStates(apiUser, {
+        bookId: book.id,
+        owner: githubSource.owner,
+        repo: githubSource.repo,
+        commitSha: githubSource.commitSha,
+        files: synced,
+      });
+    }
+
+    console.log(`[IMPORT] Imported "${book.title}" (${imported.format}) with ${imported.config.tableOfContents.chapters.length} top-level chapters`);
+
+    return NextResponse.json({
+      success: true,
+      bookId: book.id,
+      title: book.title,
+      format: imported.format,
+      chapterCount: imported.config.tableOfContents.chapters.length,
+      warnings: imported.warnings,
+    });
+  } catch (error) {
+    console.error('Import error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to import book' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceSupabaseClient } from '@/lib/supabase/server';
+import { isEncryptionConfigured, reencryptStoredApiKeys } from '@/lib/apiKeys';
+
+/**
+ * Re-encrypt all stored API keys with the current encryption key.
+ *
+ * Run after prepending a new entry to API_KEY_ENCRYPTION_KEYS (and once after
+ * enabling encryption, to migrate plaintext rows):
+ *
+ *   curl -X POST -H "Authorization: Bearer $KEY_ROTATION_SECRET" https://<site>/api/keys/rotate
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.KEY_ROTATION_SECRET;
+  const authorization = request.headers.get('authorization');
+
+  if (!secret || authorization !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  if (!isEncryptionConfigured()) {
+    return NextResponse.json(
+      { error: 'API_KEY_ENCRYPTION_KEYS is not configured' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const result = await reencryptStoredApiKeys(createServiceSupabaseClient());
+    console.log(`[KEYS] Re-encrypted ${result.reencrypted}/${result.total} keys (${result.failed} failed)`);
+
+    return NextResponse.json(result, { status: result.failed > 0 ? 207 : 200 });
+  } catch (error) {
+    console.error('Key rotation error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Key rotation failed' },
+      { status: 500 }
+    );
+  }
+}
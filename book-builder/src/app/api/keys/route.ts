@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import {
+  STORED_KEY_PROVIDERS,
+  isEncryptionConfigured,
+  saveOrganizationApiKey,
+  saveStoredApiKey,
+  type StoredKeyProvider,
+} from '@/lib/apiKeys';
+
+interface SaveKeyRequest {
+  provider: StoredKeyProvider;
+  apiKey: string;
+  organizationId?: string; // Share the key with a team instead (owners only)
+}
+
+// Save (encrypt) a key for the signed-in user or one of their teams. The key is never sent back.
+export async function POST(request: NextRequest) {
+  try {
+    const { provider, apiKey, organizationId }: SaveKeyRequest = await request.json();
+
+    if (!STORED_KEY_PROVIDERS.includes(provider) || !apiKey) {
+      return NextResponse.json(
+        { error: 'Provider and API key are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isEncryptionConfigured()) {
+      return NextResponse.json(
+        { error: 'Key storage is not configured on this server' },
+        { status: 503 }
+      );
+    }
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Row-level security only lets team owners write the team's keys
+    const { keyHint } = organizationId
+      ? await saveOrganizationApiKey(supabase, organizationId, user.id, provider, apiKey.trim())
+      : await saveStoredApiKey(supabase, user.id, provider, apiKey.trim());
+
+    return NextResponse.json({ success: true, keyHint });
+  } catch (error) {
+    console.error('Error saving API key:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save API key' },
+      { status: 500 }
+    );
+  }
+}
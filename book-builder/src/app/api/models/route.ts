@@ -1,48 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { AIProvider, AIModel } from '@/types';
+import { getProviderAdapter, resolveApiKey, canUseStoredKeys } from '@/lib/ai';
+import { getUserApiKey, requireApiUser } from '@/lib/supabase/server';
 
 export async function POST(request: NextRequest) {
   try {
-    const { provider, apiKey: providedApiKey } = await request.json();
+    const { apiUser, response: authError } = await requireApiUser('models');
+    if (authError) return authError;
 
-    // Use provided API key or fall back to environment variable
-    let apiKey = providedApiKey;
-    if (!apiKey) {
-      if (provider === 'claude') {
-        apiKey = process.env.ANTHROPIC_API_KEY || '';
-      } else if (provider === 'openai') {
-        apiKey = process.env.OPENAI_API_KEY || '';
-      } else if (provider === 'gemini') {
-        apiKey = process.env.GEMINI_API_KEY || '';
-      }
-    }
+    const { provider, apiKey: providedApiKey, baseUrl } = await request.json();
 
-    if (!provider || !apiKey) {
+    const adapter = getProviderAdapter(provider, { baseUrl });
+    if (provider && !adapter) {
       return NextResponse.json(
-        { error: 'Provider and API key are required' },
+        { error: 'Invalid provider' },
         { status: 400 }
       );
     }
 
-    let models: AIModel[] = [];
+    // Use provided API key, then the user's saved key, then the environment variable (whitelisted users only)
+    const apiKey = adapter ? resolveApiKey(adapter, providedApiKey || (canUseStoredKeys(adapter) ? await getUserApiKey(apiUser, adapter.id) : null), apiUser.getEnvKey) : '';
 
-    switch (provider as AIProvider) {
-      case 'claude':
-        models = await getClaudeModels(apiKey);
-        break;
-      case 'openai':
-        models = await getOpenAIModels(apiKey);
-        break;
-      case 'gemini':
-        models = await getGeminiModels(apiKey);
-        break;
-      default:
-        return NextResponse.json(
-          { error: 'Invalid provider' },
-          { status: 400 }
-        );
+    if (!adapter || (adapter.requiresApiKey && !apiKey)) {
+      return NextResponse.json(
+        { error: 'Provider and API key are required' },
+        { status: 400 }
+      );
     }
 
+    const models = await adapter.listModels(apiKey);
+
     return NextResponse.json({ models });
   } catch (error) {
     console.error('Error fetching models:', error);
@@ -52,180 +38,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-async function getClaudeModels(apiKey: string): Promise<AIModel[]> {
-  try {
-    // Use Anthropic's models API to get actual available models
-    const response = await fetch('https://api.anthropic.com/v1/models', {
-      headers: {
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error?.message || 'Invalid API key');
-    }
-
-    const data = await response.json();
-
-    // Filter to only claude models and format them
-    const claudeModels = data.data
-      .filter((model: { id: string; type: string }) =>
-        model.type === 'model' && model.id.includes('claude')
-      )
-      .map((model: { id: string; display_name?: string }) => ({
-        id: model.id,
-        name: model.display_name || formatClaudeModelName(model.id),
-        provider: 'claude' as AIProvider,
-      }))
-      .sort((a: AIModel, b: AIModel) => {
-        // Sort newer models first (claude-4 before claude-3.5 before claude-3)
-        const aVersion = extractClaudeVersion(a.id);
-        const bVersion = extractClaudeVersion(b.id);
-        if (bVersion !== aVersion) return bVersion - aVersion;
-        return a.id.localeCompare(b.id);
-      });
-
-    return claudeModels;
-  } catch (error) {
-    throw new Error(`Claude API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
-
-function formatClaudeModelName(modelId: string): string {
-  // Convert claude-3-5-sonnet-20241022 to "Claude 3.5 Sonnet"
-  return modelId
-    .replace(/^claude-/, 'Claude ')
-    .replace(/-(\d+)-(\d+)-/, ' $1.$2 ')
-    .replace(/-(\d+)-/, ' $1 ')
-    .replace(/-\d{8}$/, '')
-    .replace(/-/g, ' ')
-    .replace(/\b\w/g, c => c.toUpperCase());
-}
-
-function extractClaudeVersion(modelId: string): number {
-  // Extract version number for sorting (4 > 3.5 > 3)
-  if (modelId.includes('opus-4') || modelId.includes('sonnet-4')) return 4;
-  if (modelId.includes('3-5') || modelId.includes('3.5')) return 3.5;
-  if (modelId.includes('claude-3')) return 3;
-  return 0;
-}
-
-async function getOpenAIModels(apiKey: string): Promise<AIModel[]> {
-  try {
-    const response = await fetch('https://api.openai.com/v1/models', {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-      },
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error?.message || 'Invalid API key');
-    }
-
-    const data = await response.json();
-
-    // Filter to only GPT models suitable for text generation
-    const gptModels = data.data
-      .filter((model: { id: string }) =>
-        model.id.includes('gpt-4') || model.id.includes('gpt-3.5')
-      )
-      .map((model: { id: string }) => ({
-        id: model.id,
-        name: formatModelName(model.id),
-        provider: 'openai' as AIProvider,
-      }))
-      .sort((a: AIModel, b: AIModel) => {
-        // Sort by model version (4 before 3.5)
-        if (a.id.includes('gpt-4') && !b.id.includes('gpt-4')) return -1;
-        if (!a.id.includes('gpt-4') && b.id.includes('gpt-4')) return 1;
-        return a.id.localeCompare(b.id);
-      });
-
-    return gptModels;
-  } catch (error) {
-    throw new Error(`OpenAI API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
-
-async function getGeminiModels(apiKey: string): Promise<AIModel[]> {
-  try {
-    // Use v1beta to get all models including newest versions
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`
-    );
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error?.message || 'Invalid API key');
-    }
-
-    const data = await response.json();
-
-    // Log all available models for debugging
-    console.log('[GEMINI MODELS] All models from API:', data.models?.map((m: { name: string }) => m.name));
-
-    // Filter to only models that support generateContent
-    const generationModels = data.models
-      .filter((model: { name: string; supportedGenerationMethods?: string[] }) => {
-        // Only include models that support generateContent
-        const supportsGeneration = model.supportedGenerationMethods?.includes('generateContent');
-        // Only include gemini models (not embedding, aqa, etc.)
-        const isGeminiModel = model.name.includes('gemini');
-        return supportsGeneration && isGeminiModel;
-      })
-      .map((model: { name: string; displayName: string }) => ({
-        id: model.name.replace('models/', ''),
-        name: model.displayName || model.name.replace('models/', ''),
-        provider: 'gemini' as AIProvider,
-      }))
-      .sort((a: AIModel, b: AIModel) => {
-        // Sort by version (3.0 > 2.0 > 1.5 > 1.0) and then pro > flash
-        const aVersion = extractGeminiVersion(a.id);
-        const bVersion = extractGeminiVersion(b.id);
-        if (bVersion !== aVersion) return bVersion - aVersion;
-        // Pro before Flash
-        if (a.id.includes('pro') && !b.id.includes('pro')) return -1;
-        if (!a.id.includes('pro') && b.id.includes('pro')) return 1;
-        return a.id.localeCompare(b.id);
-      });
-
-    // Add known Gemini 3 Pro models as fallback if not already present
-    const knownGemini3ProModels = [
-      { id: 'gemini-3-pro-preview', name: 'Gemini 3.0 Pro (Preview)', provider: 'gemini' as AIProvider },
-      { id: 'gemini-3.0-pro', name: 'Gemini 3.0 Pro', provider: 'gemini' as AIProvider },
-    ];
-
-    for (const proModel of knownGemini3ProModels) {
-      const exists = generationModels.some((m: AIModel) => m.id === proModel.id);
-      if (!exists) {
-        // Add to the beginning since it's a top-tier model
-        generationModels.unshift(proModel);
-      }
-    }
-
-    console.log('[GEMINI MODELS] Filtered models:', generationModels.map((m: AIModel) => m.id));
-
-    return generationModels;
-  } catch (error) {
-    throw new Error(`Gemini API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
-
-function extractGeminiVersion(modelId: string): number {
-  if (modelId.includes('3.0') || modelId.includes('3-') || modelId.includes('gemini-3')) return 3.0;
-  if (modelId.includes('2.0') || modelId.includes('2-') || modelId.includes('gemini-2')) return 2.0;
-  if (modelId.includes('1.5') || modelId.includes('1-5')) return 1.5;
-  if (modelId.includes('1.0') || modelId.includes('1-0')) return 1.0;
-  return 0;
-}
-
-function formatModelName(modelId: string): string {
-  return modelId
-    .replace(/-/g, ' ')
-    .replace(/gpt/gi, 'GPT')
-    .replace(/\b\w/g, (c) => c.toUpperCase());
-}
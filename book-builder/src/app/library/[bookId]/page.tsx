@@ -3,10 +3,44 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useBook, useBooks } from '@/lib/supabase/hooks/useBooks';
+import { useOrganizationMembers, useOrganizations } from '@/lib/supabase/hooks/useOrganizations';
+import { useBookCollaboration } from '@/lib/supabase/hooks/useBookCollaboration';
 import { useAuth } from '@/hooks/useAuth';
 import { AuthGate } from '@/components/auth/AuthGate';
-import { LQ21Chapter } from '@/lib/supabase/types';
+import { LQ21Chapter, LQ21ChapterRevision } from '@/lib/supabase/types';
 import { RichTextEditor } from '@/components/editor/RichTextEditor';
+import { RevisionHistoryModal } from '@/components/editor/RevisionHistoryModal';
+import { MergeConflictModal } from '@/components/editor/MergeConflictModal';
+import { CollaborativeTextarea } from '@/components/editor/CollaborativeTextarea';
+import { CollaboratorAvatars } from '@/components/editor/CollaboratorAvatars';
+import { ChapterReviewPanel } from '@/components/editor/ChapterReviewPanel';
+import { useOpenCommentCounts } from '@/lib/supabase/hooks/useChapterComments';
+import { useChapterReviews } from '@/lib/supabase/hooks/useChapterReviews';
+import type { TextRange } from '@/lib/reviewAnchors';
+import { DeploymentHistory } from '@/components/books/DeploymentHistory';
+import { DraftPullRequests } from '@/components/books/DraftPullRequests';
+import { ChapterBoard } from '@/components/books/ChapterBoard';
+import { ChapterTransitionModal } from '@/components/books/ChapterTransitionModal';
+import { useDeployments } from '@/lib/supabase/hooks/useDeployments';
+import { useDraftPullRequests } from '@/hooks/useDraftPullRequests';
+import { recordChapterRevision, type ChapterRevisionSource } from '@/lib/supabase/chapterRevisions';
+import { downloadProjectZip } from '@/lib/projectDownload';
+import type { BookChapterSyncResult, ChapterFields, SyncedFile } from '@/lib/githubSync';
+import type { DraftPullRequest } from '@/lib/githubPullRequests';
+import { ROLE_LABELS, canEdit, canReview, getBookRole } from '@/lib/organizations';
+import {
+  ACTION_LABELS,
+  ACTION_SUMMARIES,
+  STATUS_LABELS,
+  actionBetween,
+  availableActions,
+  getPublishBlocker,
+  getPublishReadiness,
+  type ChapterAction,
+  type ChapterStatus,
+  type WorkflowContext,
+} from '@/lib/chapterWorkflow';
+import { BookConfig, BookLevelFeature, GitHubPublishMode, MystFeature } from '@/types';
 import {
   BookOpen,
   ChevronLeft,
@@ -33,6 +67,14 @@ import {
   CheckCircle,
   Circle,
   PenLine,
+  BarChart3,
+  History,
+  Download,
+  RefreshCw,
+  GitMerge,
+  MessageSquare,
+  Kanban,
+  List,
 } from 'lucide-react';
 import Link from 'next/link';
 
@@ -47,8 +89,25 @@ interface ChapterEditorState {
   isDirty: boolean;
   isGenerating: boolean;
   isSaving: boolean;
+  // What produced the unsaved content, recorded with the revision on save
+  source: ChapterRevisionSource;
+  // Review panel: the raw editor's selection, the open comments' ranges and
+  // the one last clicked
+  isReviewing: boolean;
+  selection: TextRange | null;
+  reviewRanges: TextRange[];
+  focusRange: TextRange | null;
+  // Suggestion mode: an edited copy that is sent as suggestions, not saved
+  suggestionDraft: string | null;
 }
 
+const STATUS_BADGES: Record<ChapterStatus, string> = {
+  draft: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+  generating: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  review: 'bg-purple-500/20 text-purple-400 border-purple-500/30',
+  complete: 'bg-green-500/20 text-green-400 border-green-500/30',
+};
+
 interface GeneratorSettings {
   systemPrompt: string;
   targetWordCount: number;
@@ -64,11 +123,55 @@ export default function BookDetailPage() {
   const { user } = useAuth();
 
   const { book, loading, error, fetchBook, updateChapter, createChapter, deleteChapter } = useBook(bookId);
-  const { updateBook } = useBooks();
+  const { updateBook, setBookStatus } = useBooks();
+
+  // Team books are read-only for reviewers and viewers
+  const { roles } = useOrganizations();
+  const role = book ? getBookRole(book, user?.id, roles) : null;
+  const canWrite = canEdit(role);
+  const canComment = canReview(role);
+  const { counts: openComments, refetch: refetchOpenComments } = useOpenCommentCounts(bookId);
+  const { members: teamMembers } = useOrganizationMembers(book?.organization_id ?? null);
+  // Chapters can be assigned to anyone who can write them
+  const assignableMembers = teamMembers.filter(member => canEdit(member.role));
+  const {
+    error: reviewError,
+    transition: transitionChapter,
+    latestByChapter: latestReviews,
+  } = useChapterReviews(bookId);
 
   // Editor state for each chapter
   const [editorStates, setEditorStates] = useState<Record<string, ChapterEditorState>>({});
 
+  // Live editing with everyone else who has the book open
+  const collab = useBookCollaboration(bookId, {
+    onRemoteContent: (chapterId, content) => {
+      setEditorStates(prev => prev[chapterId] ? {
+        ...prev,
+        [chapterId]: {
+          ...prev[chapterId],
+          content,
+          isDirty: content !== prev[chapterId].originalContent,
+        },
+      } : prev);
+    },
+    onRemoteSave: (chapterId, content) => {
+      setEditorStates(prev => prev[chapterId] ? {
+        ...prev,
+        [chapterId]: {
+          ...prev[chapterId],
+          originalContent: content,
+          isDirty: prev[chapterId].content !== content,
+        },
+      } : prev);
+    },
+  });
+  const { setOpenChapters } = collab;
+  const openChapterIds = Object.values(editorStates)
+    .filter(state => state.isOpen)
+    .map(state => state.chapterId)
+    .join(',');
+
   // Generator settings
   const [generatorSettings, setGeneratorSettings] = useState<GeneratorSettings>({
     systemPrompt: DEFAULT_SYSTEM_PROMPT,
@@ -87,10 +190,68 @@ export default function BookDetailPage() {
   const [newChapterTitle, setNewChapterTitle] = useState('');
   const [newChapterDescription, setNewChapterDescription] = useState('');
 
+  // Chapters as a list of editors, or as a board by workflow status
+  const [chapterView, setChapterView] = useState<'list' | 'board'>('list');
+  // Workflow step waiting for the user's notes
+  const [pendingTransition, setPendingTransition] = useState<{ chapter: LQ21Chapter; action: ChapterAction } | null>(null);
+
   // GitHub publish state
   const [isPublishing, setIsPublishing] = useState(false);
   const [publishError, setPublishError] = useState<string | null>(null);
   const [publishSuccess, setPublishSuccess] = useState(false);
+  // Review mode: the pull request the last publish opened or updated
+  const [publishedDraft, setPublishedDraft] = useState<DraftPullRequest | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  // GitHub sync - chapters edited on both sides wait here to be resolved one by one
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncMessage, setSyncMessage] = useState<string | null>(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [syncConflicts, setSyncConflicts] = useState<BookChapterSyncResult[]>([]);
+  const [syncCommitSha, setSyncCommitSha] = useState<string | null>(null);
+
+  // Version history modal
+  const [historyChapterId, setHistoryChapterId] = useState<string | null>(null);
+
+  // The GitHub token from wizard settings, if any (saved tokens are used server-side).
+  // Team books always use the team's shared credentials.
+  const [storedGithubToken, setStoredGithubToken] = useState<string | undefined>();
+  const githubToken = book?.organization_id ? undefined : storedGithubToken;
+  const {
+    deployments,
+    loading: deploymentsLoading,
+    error: deploymentsError,
+    refetch: refetchDeployments,
+  } = useDeployments(bookId, githubToken);
+
+  useEffect(() => {
+    try {
+      const storedConfig = localStorage.getItem('bookBuilderConfig');
+      setStoredGithubToken(storedConfig ? JSON.parse(storedConfig).github?.token : undefined);
+    } catch {
+      // Ignore malformed settings
+    }
+  }, []);
+
+  // Publish mode lives in the book config's GitHub settings
+  const githubConfig = (book?.config as Record<string, unknown> | undefined)?.github as BookConfig['github'];
+  const publishMode: GitHubPublishMode = githubConfig?.publishMode || 'direct';
+  const {
+    pullRequests,
+    loading: pullRequestsLoading,
+    error: pullRequestsError,
+    busyNumber,
+    refetch: refetchPullRequests,
+    mergePullRequest,
+    closePullRequest,
+  } = useDraftPullRequests({
+    bookId,
+    username: book?.github_username,
+    repoName: book?.github_repo_name,
+    githubToken,
+    enabled: publishMode === 'pull-request' && !!book?.github_repo_url,
+  });
 
   // Calculate total words from current editor states (more accurate)
   const calculateTotalWords = useCallback(() => {
@@ -117,6 +278,12 @@ export default function BookDetailPage() {
             isDirty: false,
             isGenerating: false,
             isSaving: false,
+            source: 'manual',
+            isReviewing: false,
+            selection: null,
+            reviewRanges: [],
+            focusRange: null,
+            suggestionDraft: null,
           };
         }
       });
@@ -126,7 +293,17 @@ export default function BookDetailPage() {
     }
   }, [book?.chapters]);
 
+  // Others see which chapters we have open
+  useEffect(() => {
+    setOpenChapters(openChapterIds ? openChapterIds.split(',') : []);
+  }, [openChapterIds, setOpenChapters]);
+
   const toggleChapter = (chapterId: string) => {
+    // Opening a chapter joins its shared editing session
+    const state = editorStates[chapterId];
+    if (state && !state.isOpen) collab.joinChapter(chapterId, state.originalContent, state.content);
+
+
     setEditorStates(prev => ({
       ...prev,
       [chapterId]: {
@@ -146,13 +323,25 @@ export default function BookDetailPage() {
     }));
   };
 
+  const updateReview = (chapterId: string, changes: Partial<ChapterEditorState>) => {
+    setEditorStates(prev => ({
+      ...prev,
+      [chapterId]: { ...prev[chapterId], ...changes },
+    }));
+  };
+
   const updateContent = (chapterId: string, content: string) => {
+    // Someone else's AI generation is writing this chapter
+    if (collab.generatorOf(chapterId)) return;
+
+    collab.setText(chapterId, content);
     setEditorStates(prev => ({
       ...prev,
       [chapterId]: {
         ...prev[chapterId],
         content,
         isDirty: content !== prev[chapterId]?.originalContent,
+        source: 'manual',
       },
     }));
   };
@@ -176,7 +365,8 @@ export default function BookDetailPage() {
       updates.status = newStatus;
     }
 
-    const success = await updateChapter(chapterId, updates);
+    const success = await updateChapter(chapterId, updates, state.source);
+    if (success) collab.announceSave(chapterId, state.content);
 
     setEditorStates(prev => ({
       ...prev,
@@ -189,12 +379,54 @@ export default function BookDetailPage() {
     }));
   };
 
-  const toggleChapterStatus = async (chapter: LQ21Chapter) => {
-    const newStatus = chapter.status === 'complete' ? 'draft' : 'complete';
-    await updateChapter(chapter.id, { status: newStatus });
+  const workflowContext = (chapter: LQ21Chapter): WorkflowContext => {
+    const latest = latestReviews.get(chapter.id);
+    return {
+      role,
+      userId: user?.id,
+      isTeamBook: !!book?.organization_id,
+      submittedBy: chapter.status === 'review' && latest?.action === 'submit' ? latest.user_id : null,
+    };
+  };
+
+  const chapterActions = (chapter: LQ21Chapter) => availableActions(chapter.status, workflowContext(chapter));
+
+  const moveAction = (chapter: LQ21Chapter, to: ChapterStatus) =>
+    actionBetween(chapter.status, to, workflowContext(chapter));
+
+  const runTransition = async (chapter: LQ21Chapter, action: ChapterAction, notes = '') => {
+    const moved = await transitionChapter(chapter.id, action, notes);
+    if (moved) await fetchBook();
+    return moved;
+  };
+
+  // Every step asks for notes first (required when sending a chapter back)
+  const requestTransition = (chapter: LQ21Chapter, action: ChapterAction) => {
+    setPendingTransition({ chapter, action });
+  };
+
+  const markReadyToPublish = async () => {
+    if (!book) return;
+    if (await setBookStatus(book.id, 'review')) {
+      await fetchBook();
+    } else {
+      setPublishError('Failed to mark the book ready to publish');
+    }
+  };
+
+  const assigneeName = (userId: string) => {
+    if (userId === user?.id) return 'You';
+    const member = teamMembers.find(m => m.user_id === userId);
+    return member ? member.display_name || member.email : null;
+  };
+
+  const openChapterFromBoard = (chapterId: string) => {
+    setChapterView('list');
+    if (!editorStates[chapterId]?.isOpen) toggleChapter(chapterId);
   };
 
   const revertChapter = (chapterId: string) => {
+    collab.setText(chapterId, editorStates[chapterId].originalContent);
     setEditorStates(prev => ({
       ...prev,
       [chapterId]: {
@@ -205,11 +437,48 @@ export default function BookDetailPage() {
     }));
   };
 
+  const restoreRevision = async (chapterId: string, revision: LQ21ChapterRevision) => {
+    const state = editorStates[chapterId];
+
+    // Unsaved edits would otherwise be lost - keep them as a revision first
+    if (state?.isDirty) {
+      await recordChapterRevision({
+        bookId,
+        chapterKey: chapterId,
+        content: state.content,
+        source: state.source,
+      });
+    }
+
+    const success = await updateChapter(chapterId, {
+      content: revision.content,
+      word_count: revision.content.split(/\s+/).filter(Boolean).length,
+    }, 'restore');
+
+    if (success) {
+      collab.setText(chapterId, revision.content);
+      collab.announceSave(chapterId, revision.content);
+      setEditorStates(prev => ({
+        ...prev,
+        [chapterId]: {
+          ...prev[chapterId],
+          content: revision.content,
+          originalContent: revision.content,
+          isDirty: false,
+          source: 'manual',
+        },
+      }));
+    }
+  };
+
   const generateChapterContent = async (chapter: LQ21Chapter) => {
     setEditorStates(prev => ({
       ...prev,
       [chapter.id]: { ...prev[chapter.id], isGenerating: true },
     }));
+    collab.setGeneratingChapter(chapter.id);
+    // Drafts show as generating on the board while the AI writes them
+    const markedGenerating = chapter.status === 'draft' && await updateChapter(chapter.id, { status: 'generating' });
 
     try {
       const response = await fetch('/api/ai/generate', {
@@ -224,6 +493,7 @@ export default function BookDetailPage() {
           systemPrompt: generatorSettings.systemPrompt,
           targetWordCount: generatorSettings.targetWordCount,
           includeOutline: generatorSettings.includeOutline,
+          bookId,
         }),
       });
 
@@ -234,6 +504,7 @@ export default function BookDetailPage() {
       const data = await response.json();
       const generatedContent = data.content || '';
 
+      collab.setText(chapter.id, generatedContent);
       setEditorStates(prev => ({
         ...prev,
         [chapter.id]: {
@@ -241,6 +512,7 @@ export default function BookDetailPage() {
           content: generatedContent,
           isDirty: true,
           isGenerating: false,
+          source: 'ai-generate',
         },
       }));
     } catch (err) {
@@ -249,6 +521,9 @@ export default function BookDetailPage() {
         ...prev,
         [chapter.id]: { ...prev[chapter.id], isGenerating: false },
       }));
+    } finally {
+      collab.setGeneratingChapter(null);
+      if (markedGenerating) await updateChapter(chapter.id, { status: 'draft' });
     }
   };
 
@@ -300,6 +575,7 @@ export default function BookDetailPage() {
           bookDescription: book?.description,
           prompt: tocPrompt || `Generate a comprehensive table of contents for "${book?.title}"`,
           numChapters: 10,
+          bookId,
         }),
       });
 
@@ -336,44 +612,156 @@ export default function BookDetailPage() {
     }
   };
 
+  // Book config from the database, with any unsaved editor content
+  const buildBookConfig = (): BookConfig | null => {
+    if (!book) return null;
+
+    return {
+      title: book.title,
+      description: book.description || '',
+      author: book.author || 'Unknown Author',
+      coverImage: book.cover_image_url || undefined,
+      github: book.github_repo_name ? {
+        username: book.github_username || '',
+        repoName: book.github_repo_name,
+        publishMode,
+      } : undefined,
+      features: ((book.config as Record<string, unknown>)?.features as MystFeature[]) || [],
+      bookFeatures: (book.book_features as BookLevelFeature[]) || [],
+      tableOfContents: {
+        chapters: (book.chapters || []).map((ch, index) => ({
+          id: ch.id,
+          title: ch.title,
+          slug: ch.slug,
+          description: ch.description || undefined,
+          content: editorStates[ch.id]?.content || ch.content || '',
+          order: index + 1,
+        })),
+      },
+    };
+  };
+
+  // Save a chapter version that came from GitHub (pulled, merged or resolved)
+  const applySyncedChapter = async (chapterId: string, fields: ChapterFields): Promise<boolean> => {
+    const success = await updateChapter(chapterId, {
+      title: fields.title,
+      description: fields.description || null,
+      content: fields.content,
+      word_count: fields.content.split(/\s+/).filter(Boolean).length,
+    }, 'github-sync');
+
+    if (success) {
+      collab.setText(chapterId, fields.content);
+      collab.announceSave(chapterId, fields.content);
+      setEditorStates(prev => prev[chapterId] ? {
+        ...prev,
+        [chapterId]: {
+          ...prev[chapterId],
+          content: fields.content,
+          originalContent: fields.content,
+          isDirty: false,
+          source: 'manual',
+        },
+      } : prev);
+    }
+    return success;
+  };
+
+  // Tell the server which GitHub versions the library now contains
+  const acknowledgeSync = async (commitSha: string, files: SyncedFile[]) => {
+    if (!book || files.length === 0) return;
+    try {
+      await fetch('/api/github/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          token: githubToken,
+          username: book.github_username,
+          repoName: book.github_repo_name,
+          bookId: book.id,
+          acknowledge: { commitSha, files },
+        }),
+      });
+    } catch (err) {
+      console.warn('[SYNC] Failed to record sync:', err);
+    }
+  };
+
+  const syncFromGitHub = async () => {
+    const bookConfig = buildBookConfig();
+    if (!book?.github_repo_name || !bookConfig) return;
+
+    setIsSyncing(true);
+    setSyncError(null);
+    setSyncMessage(null);
+
+    try {
+      const response = await fetch('/api/github/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          token: githubToken,
+          username: book.github_username,
+          repoName: book.github_repo_name,
+          bookConfig,
+          bookId: book.id,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to sync with GitHub');
+      }
+
+      const results: BookChapterSyncResult[] = data.results;
+      const synced: SyncedFile[] = [];
+      for (const result of results) {
+        if ((result.status === 'pulled' || result.status === 'merged') && result.chapter && result.remoteSha) {
+          if (await applySyncedChapter(result.chapterId, result.chapter)) {
+            synced.push({ path: result.path, blobSha: result.remoteSha });
+          }
+        }
+      }
+      await acknowledgeSync(data.commitSha, synced);
+
+      const conflicts = results.filter(result => result.status === 'conflict');
+      setSyncCommitSha(data.commitSha);
+      setSyncConflicts(conflicts);
+
+      const parts = [];
+      if (synced.length > 0) parts.push(`${synced.length} chapter${synced.length === 1 ? '' : 's'} updated from GitHub`);
+      if (conflicts.length > 0) parts.push(`${conflicts.length} with conflicting edits to resolve`);
+      setSyncMessage(parts.length > 0 ? parts.join(', ') : 'Already in sync with GitHub');
+    } catch (err) {
+      console.error('Sync error:', err);
+      setSyncError(err instanceof Error ? err.message : 'Failed to sync with GitHub');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const resolveSyncConflict = async (content: string) => {
+    const conflict = syncConflicts[0];
+    if (!conflict?.chapter || !conflict.remoteSha || !syncCommitSha) return;
+
+    if (await applySyncedChapter(conflict.chapterId, { ...conflict.chapter, content })) {
+      await acknowledgeSync(syncCommitSha, [{ path: conflict.path, blobSha: conflict.remoteSha }]);
+      setSyncConflicts(prev => prev.slice(1));
+    }
+  };
+
   const publishToGitHub = async () => {
     if (!book) return;
 
     setIsPublishing(true);
     setPublishError(null);
     setPublishSuccess(false);
+    setPublishedDraft(null);
 
     try {
-      // Build book config from database
-      const bookConfig = {
-        title: book.title,
-        description: book.description || '',
-        author: book.author || 'Unknown Author',
-        coverImage: book.cover_image_url,
-        github: book.github_repo_name ? {
-          username: book.github_username || '',
-          repoName: book.github_repo_name,
-        } : undefined,
-        features: (book.config as Record<string, unknown>)?.features || [],
-        bookFeatures: book.book_features || [],
-        tableOfContents: {
-          chapters: (book.chapters || []).map((ch, index) => ({
-            id: ch.id,
-            title: ch.title,
-            slug: ch.slug,
-            description: ch.description || undefined,
-            content: editorStates[ch.id]?.content || ch.content || '',
-            order: index + 1,
-          })),
-        },
-      };
+      const bookConfig = buildBookConfig();
 
-      // Get GitHub token from settings (stored in localStorage or user config)
-      const storedConfig = localStorage.getItem('bookBuilderConfig');
-      const config = storedConfig ? JSON.parse(storedConfig) : {};
-      const githubToken = config.github?.token;
-
-      if (!githubToken && !book.github_repo_url) {
+      if (!githubToken && !book.github_repo_url && !book.organization_id) {
         throw new Error('GitHub token not configured. Please set up GitHub in Settings first.');
       }
 
@@ -384,28 +772,45 @@ export default function BookDetailPage() {
           token: githubToken,
           repoName: book.github_repo_name || book.slug,
           bookConfig,
+          bookId: book.id,
         }),
       });
 
       const result = await response.json();
 
+      if (response.status === 409 && result.conflicts) {
+        // Chapters were edited on GitHub in ways that overlap library edits - open the merge
+        setPublishError(result.error);
+        await syncFromGitHub();
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(result.error || 'Failed to publish to GitHub');
       }
 
+      // Edits made on GitHub were merged into the published chapters
+      for (const merged of result.merged || []) {
+        await applySyncedChapter(merged.chapterId, merged);
+      }
+
       // Update book with GitHub info
       await updateBook(book.id, {
         github_repo_url: result.repoUrl,
         github_username: result.username,
         github_repo_name: book.github_repo_name || book.slug,
         deployed_url: result.deployedUrl,
-        status: 'published',
       });
+      // A draft pull request isn't live until it's merged
+      if (!result.pullRequest) await setBookStatus(book.id, 'published');
 
       setPublishSuccess(true);
+      setPublishedDraft(result.pullRequest || null);
 
-      // Refresh book data
+      // Refresh book data and pick up the new deployment
       await fetchBook();
+      await refetchDeployments();
+      if (result.pullRequest) await refetchPullRequests();
 
       // Auto-hide success after 5 seconds
       setTimeout(() => setPublishSuccess(false), 5000);
@@ -417,6 +822,54 @@ export default function BookDetailPage() {
     }
   };
 
+  const handlePublishModeChange = async (mode: GitHubPublishMode) => {
+    if (!book) return;
+    const saved = await updateBook(book.id, {
+      config: {
+        ...book.config,
+        github: {
+          username: book.github_username || '',
+          repoName: book.github_repo_name || book.slug,
+          ...githubConfig,
+          publishMode: mode,
+        },
+      },
+    });
+    if (saved) {
+      await fetchBook();
+    } else {
+      setPublishError('Failed to change publish mode');
+    }
+  };
+
+  const handleAssignChapter = async (chapterId: string, assignee: string | null) => {
+    await updateChapter(chapterId, { assigned_to: assignee });
+  };
+
+  const handleMergeDraft = async (number: number) => {
+    if (await mergePullRequest(number)) {
+      if (book) await setBookStatus(book.id, 'published');
+      await fetchBook();
+      await refetchDeployments();
+    }
+  };
+
+  const handleDownloadProject = async () => {
+    const bookConfig = buildBookConfig();
+    if (!bookConfig) return;
+
+    setIsDownloading(true);
+    setDownloadError(null);
+    try {
+      await downloadProjectZip(bookConfig);
+    } catch (err) {
+      console.error('Download error:', err);
+      setDownloadError(err instanceof Error ? err.message : 'Failed to download project');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
   const countWords = (text: string): number => {
     return text.split(/\s+/).filter(Boolean).length;
   };
@@ -500,7 +953,10 @@ export default function BookDetailPage() {
   }
 
   const totalWords = calculateTotalWords();
-  const completeChapters = book.chapters?.filter(ch => ch.status === 'complete').length || 0;
+  const readiness = getPublishReadiness(book.chapters || []);
+  // Going live needs every chapter signed off and the book marked ready
+  const publishBlockedReason = getPublishBlocker(book.chapters || [], book.status);
+  const readyToPublish = !publishBlockedReason;
 
   return (
     <AuthGate>
@@ -529,7 +985,14 @@ export default function BookDetailPage() {
                     <BookOpen className="h-6 w-6 text-purple-400" />
                   )}
                   <div>
-                    <h1 className="text-lg font-semibold text-white">{book.title}</h1>
+                    <h1 className="text-lg font-semibold text-white flex items-center gap-2">
+                      {book.title}
+                      {book.organization_id && role && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-500/20 text-purple-300">
+                          {ROLE_LABELS[role]}
+                        </span>
+                      )}
+                    </h1>
                     {book.author && (
                       <p className="text-sm text-gray-400">by {book.author}</p>
                     )}
@@ -537,6 +1000,14 @@ export default function BookDetailPage() {
                 </div>
               </div>
               <div className="flex items-center gap-3">
+                <CollaboratorAvatars collaborators={collab.collaborators} />
+                <Link
+                  href={`/library/${book.id}/usage`}
+                  className="flex items-center gap-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white rounded-lg transition-colors"
+                >
+                  <BarChart3 className="h-4 w-4" />
+                  <span className="hidden sm:inline">Usage</span>
+                </Link>
                 <button
                   onClick={() => setShowGeneratorSettings(!showGeneratorSettings)}
                   className="flex items-center gap-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white rounded-lg transition-colors"
@@ -544,25 +1015,56 @@ export default function BookDetailPage() {
                   <Settings2 className="h-4 w-4" />
                   <span className="hidden sm:inline">Settings</span>
                 </button>
+                {canWrite && (
+                  <button
+                    onClick={() => setShowTOCGenerator(true)}
+                    className="flex items-center gap-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white rounded-lg transition-colors"
+                  >
+                    <ListOrdered className="h-4 w-4" />
+                    <span className="hidden sm:inline">Generate TOC</span>
+                  </button>
+                )}
                 <button
-                  onClick={() => setShowTOCGenerator(true)}
-                  className="flex items-center gap-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white rounded-lg transition-colors"
-                >
-                  <ListOrdered className="h-4 w-4" />
-                  <span className="hidden sm:inline">Generate TOC</span>
-                </button>
-                <button
-                  onClick={publishToGitHub}
-                  disabled={isPublishing || !book.chapters?.length}
-                  className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                  onClick={handleDownloadProject}
+                  disabled={isDownloading || !book.chapters?.length}
+                  title="Download the MyST project as a ZIP"
+                  className="flex items-center gap-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 disabled:cursor-not-allowed disabled:opacity-50 text-gray-300 hover:text-white rounded-lg transition-colors"
                 >
-                  {isPublishing ? (
+                  {isDownloading ? (
                     <Loader2 className="h-4 w-4 animate-spin" />
                   ) : (
-                    <Upload className="h-4 w-4" />
+                    <Download className="h-4 w-4" />
                   )}
-                  <span className="hidden sm:inline">Publish to GitHub</span>
+                  <span className="hidden sm:inline">Download project</span>
                 </button>
+                {book.github_repo_name && canWrite && (
+                  <button
+                    onClick={syncFromGitHub}
+                    disabled={isSyncing || isPublishing || !book.chapters?.length}
+                    title="Pull in edits made on GitHub"
+                    className="flex items-center gap-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 disabled:cursor-not-allowed disabled:opacity-50 text-gray-300 hover:text-white rounded-lg transition-colors"
+                  >
+                    <RefreshCw className={`h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
+                    <span className="hidden sm:inline">Sync from GitHub</span>
+                  </button>
+                )}
+                {canWrite && (
+                  <button
+                    onClick={publishToGitHub}
+                    disabled={
+                      isPublishing || !book.chapters?.length || (publishMode === 'direct' && !readyToPublish)
+                    }
+                    title={publishMode === 'direct' ? publishBlockedReason ?? undefined : 'Save to a draft pull request'}
+                    className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+                  >
+                    {isPublishing ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Upload className="h-4 w-4" />
+                    )}
+                    <span className="hidden sm:inline">Publish to GitHub</span>
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -586,14 +1088,75 @@ export default function BookDetailPage() {
             </div>
           )}
 
+          {downloadError && (
+            <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center gap-3">
+              <X className="h-5 w-5 text-red-400 flex-shrink-0" />
+              <div>
+                <p className="text-red-400 font-medium">Download Failed</p>
+                <p className="text-red-300 text-sm">{downloadError}</p>
+              </div>
+              <button
+                onClick={() => setDownloadError(null)}
+                className="ml-auto p-1 text-red-400 hover:text-red-300"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+
+          {syncError && (
+            <div className="mb-6 p-4 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center gap-3">
+              <X className="h-5 w-5 text-red-400 flex-shrink-0" />
+              <div>
+                <p className="text-red-400 font-medium">Sync Failed</p>
+                <p className="text-red-300 text-sm">{syncError}</p>
+              </div>
+              <button
+                onClick={() => setSyncError(null)}
+                className="ml-auto p-1 text-red-400 hover:text-red-300"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+
+          {syncMessage && (
+            <div className="mb-6 p-4 bg-blue-500/10 border border-blue-500/30 rounded-lg flex items-center gap-3">
+              <GitMerge className="h-5 w-5 text-blue-400 flex-shrink-0" />
+              <p className="text-blue-300 text-sm">{syncMessage}</p>
+              <button
+                onClick={() => setSyncMessage(null)}
+                className="ml-auto p-1 text-blue-400 hover:text-blue-300"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+
           {publishSuccess && (
             <div className="mb-6 p-4 bg-green-500/10 border border-green-500/30 rounded-lg flex items-center gap-3">
               <CheckCircle className="h-5 w-5 text-green-400 flex-shrink-0" />
               <div className="flex-1">
-                <p className="text-green-400 font-medium">Published Successfully!</p>
-                <p className="text-green-300 text-sm">Your book has been pushed to GitHub and will be deployed shortly.</p>
+                <p className="text-green-400 font-medium">
+                  {publishedDraft ? 'Draft Ready for Review' : 'Published Successfully!'}
+                </p>
+                <p className="text-green-300 text-sm">
+                  {publishedDraft
+                    ? `Your changes are in pull request #${publishedDraft.number}. Merge it under Drafts to update the live book.`
+                    : 'Your book has been pushed to GitHub and will be deployed shortly.'}
+                </p>
               </div>
-              {book.deployed_url && (
+              {publishedDraft ? (
+                <a
+                  href={publishedDraft.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm"
+                >
+                  <ExternalLink className="h-4 w-4" />
+                  View Pull Request
+                </a>
+              ) : book.deployed_url && (
                 <a
                   href={book.deployed_url}
                   target="_blank"
@@ -694,7 +1257,8 @@ export default function BookDetailPage() {
             </div>
             <div className="bg-gray-800/50 rounded-xl p-4 border border-gray-700/50">
               <div className="text-2xl font-bold text-green-400">
-                {completeChapters}
+                {readiness.complete}
+                <span className="text-base font-normal text-gray-500"> / {book.chapters?.length || 0}</span>
               </div>
               <div className="text-sm text-gray-400">Complete</div>
             </div>
@@ -720,17 +1284,112 @@ export default function BookDetailPage() {
             </div>
           </div>
 
+          {/* Publishing gate */}
+          {(book.chapters?.length || 0) > 0 && (
+            <div
+              className={`mb-8 p-4 rounded-xl border flex items-center gap-4 ${
+                readiness.ready ? 'bg-green-500/10 border-green-500/30' : 'bg-gray-800/50 border-gray-700/50'
+              }`}
+            >
+              {readiness.ready ? (
+                <CheckCircle className="h-5 w-5 text-green-400 flex-shrink-0" />
+              ) : (
+                <Circle className="h-5 w-5 text-gray-500 flex-shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-white">
+                  {!readiness.ready
+                    ? 'Not ready to publish'
+                    : book.status === 'review'
+                    ? 'Ready to publish'
+                    : book.status === 'published'
+                    ? 'Published'
+                    : 'Every chapter is complete'}
+                </p>
+                <p className="text-sm text-gray-400 truncate">
+                  {!readiness.ready
+                    ? `Waiting on ${readiness.incomplete.map(ch => ch.title).join(', ')}`
+                    : book.status === 'draft'
+                    ? 'Mark the book ready to publish it to the live site.'
+                    : 'Reopening a chapter or sending it back takes the book out of ready.'}
+                </p>
+              </div>
+              {canWrite && readiness.ready && book.status === 'draft' && (
+                <button
+                  onClick={markReadyToPublish}
+                  className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors flex-shrink-0"
+                >
+                  <Check className="h-4 w-4" />
+                  Mark ready to publish
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Draft pull requests */}
+          {book.github_repo_url && (
+            <div className="mb-8">
+              <DraftPullRequests
+                publishMode={publishMode}
+                onPublishModeChange={handlePublishModeChange}
+                pullRequests={pullRequests}
+                loading={pullRequestsLoading}
+                error={pullRequestsError}
+                busyNumber={busyNumber}
+                readOnly={!canWrite}
+                mergeBlockedReason={publishBlockedReason}
+                onMerge={handleMergeDraft}
+                onClose={closePullRequest}
+              />
+            </div>
+          )}
+
+          {/* Deployment History */}
+          {book.github_repo_url && (
+            <div className="mb-8">
+              <DeploymentHistory
+                deployments={deployments}
+                loading={deploymentsLoading}
+                error={deploymentsError}
+              />
+            </div>
+          )}
+
           {/* Chapter List */}
           <div className="space-y-4">
             <div className="flex items-center justify-between">
-              <h2 className="text-xl font-semibold text-white">Chapters</h2>
-              <button
-                onClick={() => setShowNewChapter(true)}
-                className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors"
-              >
-                <Plus className="h-4 w-4" />
-                Add Chapter
-              </button>
+              <div className="flex items-center gap-3">
+                <h2 className="text-xl font-semibold text-white">Chapters</h2>
+                <div className="flex items-center border border-gray-700 rounded-lg overflow-hidden">
+                  <button
+                    onClick={() => setChapterView('list')}
+                    title="Chapter editors"
+                    className={`px-2 py-1.5 ${
+                      chapterView === 'list' ? 'bg-purple-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    <List className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => setChapterView('board')}
+                    title="Board by status"
+                    className={`px-2 py-1.5 ${
+                      chapterView === 'board' ? 'bg-purple-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    <Kanban className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+              {canWrite && (
+                <button
+                  onClick={() => setShowNewChapter(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors"
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Chapter
+                </button>
+              )}
             </div>
 
             {/* New Chapter Form */}
@@ -811,6 +1470,17 @@ export default function BookDetailPage() {
                   </button>
                 </div>
               </div>
+            ) : chapterView === 'board' ? (
+              <ChapterBoard
+                chapters={book.chapters || []}
+                actionsFor={chapterActions}
+                moveAction={moveAction}
+                onAction={requestTransition}
+                onOpen={openChapterFromBoard}
+                openComments={openComments}
+                latestReviews={latestReviews}
+                assigneeName={assigneeName}
+              />
             ) : (
               book.chapters?.map((chapter, index) => {
                 const state = editorStates[chapter.id] || {
@@ -820,9 +1490,19 @@ export default function BookDetailPage() {
                   isDirty: false,
                   isGenerating: false,
                   isSaving: false,
+                  isReviewing: false,
+                  selection: null,
+                  reviewRanges: [] as TextRange[],
+                  focusRange: null,
+                  suggestionDraft: null,
                 };
 
                 const chapterWordCount = countWords(state.content);
+                // Another member's AI generation is writing this chapter
+                const generator = collab.generatorOf(chapter.id);
+                // The step that put the chapter in its current status
+                const latestReview = latestReviews.get(chapter.id);
+                const statusReview = latestReview?.to_status === chapter.status ? latestReview : null;
 
                 return (
                   <div
@@ -846,37 +1526,83 @@ export default function BookDetailPage() {
                           </span>
                         </div>
                         <div>
-                          <h3 className="font-medium text-white">{chapter.title}</h3>
+                          <h3 className="font-medium text-white flex items-center gap-2">
+                            {chapter.title}
+                            {chapter.assigned_to && chapter.assigned_to === user?.id && (
+                              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-500/20 text-blue-300 border border-blue-500/30">
+                                assigned to you
+                              </span>
+                            )}
+                          </h3>
                           {chapter.description && (
                             <p className="text-sm text-gray-400 line-clamp-1">{chapter.description}</p>
                           )}
                         </div>
                       </div>
                       <div className="flex items-center gap-4">
+                        {book.organization_id && (
+                          <select
+                            value={chapter.assigned_to || ''}
+                            onClick={(e) => e.stopPropagation()}
+                            onChange={(e) => handleAssignChapter(chapter.id, e.target.value || null)}
+                            disabled={!canWrite}
+                            title="Writer responsible for this chapter"
+                            className="max-w-40 px-2 py-1 bg-gray-800 border border-gray-700 rounded-lg text-gray-300 text-xs disabled:opacity-60"
+                          >
+                            <option value="">Unassigned</option>
+                            {assignableMembers.map(member => (
+                              <option key={member.user_id} value={member.user_id}>
+                                {member.user_id === user?.id ? 'You' : member.display_name || member.email}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                        <CollaboratorAvatars collaborators={collab.viewersOf(chapter.id)} max={3} />
+                        {openComments[chapter.id] > 0 && (
+                          <span
+                            className="flex items-center gap-1 text-sm text-amber-400"
+                            title={`${openComments[chapter.id]} open review comments`}
+                          >
+                            <MessageSquare className="h-4 w-4" />
+                            {openComments[chapter.id]}
+                          </span>
+                        )}
                         <div className="text-sm text-gray-500">
                           {chapterWordCount.toLocaleString()} words
                         </div>
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            toggleChapterStatus(chapter);
-                          }}
-                          className={`flex items-center gap-1.5 px-2 py-0.5 rounded-full text-xs font-medium border transition-colors ${
-                            chapter.status === 'complete'
-                              ? 'bg-green-500/20 text-green-400 border-green-500/30 hover:bg-green-500/30'
-                              : chapter.status === 'generating'
-                              ? 'bg-blue-500/20 text-blue-400 border-blue-500/30'
-                              : 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30 hover:bg-yellow-500/30'
+                        <span
+                          className={`flex items-center gap-1.5 px-2 py-0.5 rounded-full text-xs font-medium border ${
+                            STATUS_BADGES[chapter.status]
                           }`}
-                          title={chapter.status === 'complete' ? 'Click to mark as draft' : 'Click to mark as complete'}
+                          title={
+                            statusReview
+                              ? `${statusReview.author_name || 'Someone'} ${ACTION_SUMMARIES[statusReview.action]}`
+                              : undefined
+                          }
                         >
                           {chapter.status === 'complete' ? (
                             <CheckCircle className="h-3 w-3" />
                           ) : (
                             <Circle className="h-3 w-3" />
                           )}
-                          {chapter.status}
-                        </button>
+                          {STATUS_LABELS[chapter.status]}
+                        </span>
+                        {chapterActions(chapter).map(action => (
+                          <button
+                            key={action}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              requestTransition(chapter, action);
+                            }}
+                            className={`px-2 py-0.5 rounded-full text-xs font-medium transition-colors ${
+                              action === 'reject'
+                                ? 'bg-orange-500/20 text-orange-300 hover:bg-orange-500/30'
+                                : 'bg-purple-500/20 text-purple-300 hover:bg-purple-500/30'
+                            }`}
+                          >
+                            {ACTION_LABELS[action]}
+                          </button>
+                        ))}
                         {state.isDirty && (
                           <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-orange-500/20 text-orange-400 border border-orange-500/30">
                             unsaved
@@ -938,87 +1664,174 @@ export default function BookDetailPage() {
                             <span className="text-sm text-gray-500">
                               {chapterWordCount.toLocaleString()} words
                             </span>
-                          </div>
-
-                          <div className="flex items-center gap-2">
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                generateChapterContent(chapter);
-                              }}
-                              disabled={state.isGenerating}
-                              className="flex items-center gap-1 px-3 py-1.5 bg-purple-600/20 hover:bg-purple-600 text-purple-400 hover:text-white rounded-lg text-sm transition-colors disabled:opacity-50"
-                            >
-                              {state.isGenerating ? (
-                                <Loader2 className="h-4 w-4 animate-spin" />
-                              ) : (
-                                <Wand2 className="h-4 w-4" />
-                              )}
-                              Generate
-                            </button>
-                            {state.isDirty && (
-                              <>
-                                <button
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    revertChapter(chapter.id);
-                                  }}
-                                  className="flex items-center gap-1 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded-lg text-sm"
-                                >
-                                  <RotateCcw className="h-4 w-4" />
-                                  Revert
-                                </button>
-                                <button
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    saveChapter(chapter.id);
-                                  }}
-                                  disabled={state.isSaving}
-                                  className="flex items-center gap-1 px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm disabled:opacity-50"
-                                >
-                                  {state.isSaving ? (
-                                    <Loader2 className="h-4 w-4 animate-spin" />
-                                  ) : (
-                                    <Save className="h-4 w-4" />
-                                  )}
-                                  Save
-                                </button>
-                              </>
-                            )}
                             <button
                               onClick={(e) => {
                                 e.stopPropagation();
-                                handleDeleteChapter(chapter.id);
+                                updateReview(chapter.id, { isReviewing: !state.isReviewing, suggestionDraft: null });
                               }}
-                              className="p-1.5 text-gray-400 hover:text-red-400 rounded-lg"
+                              className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                                state.isReviewing
+                                  ? 'bg-purple-600 text-white'
+                                  : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                              }`}
+                              title="Comments and suggested edits"
                             >
-                              <Trash2 className="h-4 w-4" />
+                              <MessageSquare className="h-4 w-4" />
+                              Review
+                              {openComments[chapter.id] > 0 && ` (${openComments[chapter.id]})`}
                             </button>
                           </div>
+
+                          {canWrite && (
+                            <div className="flex items-center gap-2">
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  generateChapterContent(chapter);
+                                }}
+                                disabled={state.isGenerating || !!generator}
+                                className="flex items-center gap-1 px-3 py-1.5 bg-purple-600/20 hover:bg-purple-600 text-purple-400 hover:text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                              >
+                                {state.isGenerating ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Wand2 className="h-4 w-4" />
+                                )}
+                                Generate
+                              </button>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setHistoryChapterId(chapter.id);
+                                }}
+                                className="flex items-center gap-1 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded-lg text-sm"
+                                title="Compare and restore saved versions"
+                              >
+                                <History className="h-4 w-4" />
+                                History
+                              </button>
+                              {state.isDirty && (
+                                <>
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      revertChapter(chapter.id);
+                                    }}
+                                    className="flex items-center gap-1 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded-lg text-sm"
+                                  >
+                                    <RotateCcw className="h-4 w-4" />
+                                    Revert
+                                  </button>
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      saveChapter(chapter.id);
+                                    }}
+                                    disabled={state.isSaving || !!generator}
+                                    className="flex items-center gap-1 px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm disabled:opacity-50"
+                                  >
+                                    {state.isSaving ? (
+                                      <Loader2 className="h-4 w-4 animate-spin" />
+                                    ) : (
+                                      <Save className="h-4 w-4" />
+                                    )}
+                                    Save
+                                  </button>
+                                </>
+                              )}
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleDeleteChapter(chapter.id);
+                                }}
+                                className="p-1.5 text-gray-400 hover:text-red-400 rounded-lg"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            </div>
+                          )}
                         </div>
 
                         {/* Editor Content */}
-                        <div className="p-4" onClick={(e) => e.stopPropagation()}>
-                          {state.viewMode === 'raw' ? (
-                            <textarea
-                              value={state.content}
-                              onChange={(e) => updateContent(chapter.id, e.target.value)}
-                              className="w-full h-96 px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg text-gray-300 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 resize-y"
-                              placeholder="Enter chapter content in MyST Markdown..."
-                            />
-                          ) : state.viewMode === 'rich' ? (
-                            <RichTextEditor
-                              content={state.content}
-                              onChange={(content) => updateContent(chapter.id, content)}
-                              placeholder="Start writing your chapter content..."
-                            />
-                          ) : (
-                            <div
-                              className="w-full h-96 px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg overflow-y-auto prose-invert"
-                              dangerouslySetInnerHTML={{
-                                __html: renderFormatted(state.content) || '<p class="text-gray-500">No content yet...</p>',
-                              }}
-                            />
+                        <div
+                          className={`p-4 ${state.isReviewing ? 'grid gap-4 lg:grid-cols-[minmax(0,1fr)_20rem]' : ''}`}
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <div>
+                            {generator && (
+                              <div className="mb-3 flex items-center gap-2 p-3 bg-amber-900/30 border border-amber-700/50 rounded-lg text-sm text-amber-300">
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                                {generator.name} is generating this chapter with AI. Editing is paused until it finishes.
+                              </div>
+                            )}
+                            {statusReview?.notes && (
+                              <div
+                                className={`mb-3 p-3 rounded-lg border text-sm ${
+                                  statusReview.action === 'reject'
+                                    ? 'bg-orange-900/30 border-orange-700/50 text-orange-200'
+                                    : 'bg-gray-900/50 border-gray-700/50 text-gray-300'
+                                }`}
+                              >
+                                <p className="font-medium mb-1">
+                                  {statusReview.author_name || 'Someone'} {ACTION_SUMMARIES[statusReview.action]}
+                                </p>
+                                <p className="whitespace-pre-wrap">{statusReview.notes}</p>
+                              </div>
+                            )}
+                            {state.suggestionDraft !== null ? (
+                              <CollaborativeTextarea
+                                value={state.suggestionDraft}
+                                onChange={(draft) => updateReview(chapter.id, { suggestionDraft: draft })}
+                                onCursor={() => {}}
+                                cursors={[]}
+                                readOnly={!!generator}
+                                className="block w-full h-96 bg-gray-900 border-blue-700 rounded-lg text-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-y"
+                              />
+                            ) : state.viewMode === 'raw' ? (
+                              <CollaborativeTextarea
+                                value={state.content}
+                                onChange={(content) => updateContent(chapter.id, content)}
+                                onCursor={(position) => collab.setCursor(chapter.id, position)}
+                                cursors={collab.cursorsIn(chapter.id)}
+                                highlights={state.isReviewing ? state.reviewRanges : []}
+                                onSelectionChange={(selection) => updateReview(chapter.id, { selection })}
+                                selectRange={state.focusRange}
+                                readOnly={!canWrite || !!generator}
+                                className="block w-full h-96 bg-gray-900 border-gray-700 rounded-lg text-gray-300 focus:outline-none focus:ring-2 focus:ring-purple-500 resize-y"
+                                placeholder="Enter chapter content in MyST Markdown..."
+                              />
+                            ) : state.viewMode === 'rich' ? (
+                              <RichTextEditor
+                                content={state.content}
+                                onChange={(content) => updateContent(chapter.id, content)}
+                                placeholder="Start writing your chapter content..."
+                              />
+                            ) : (
+                              <div
+                                className="w-full h-96 px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg overflow-y-auto prose-invert"
+                                dangerouslySetInnerHTML={{
+                                  __html: renderFormatted(state.content) || '<p class="text-gray-500">No content yet...</p>',
+                                }}
+                              />
+                            )}
+                          </div>
+                          {state.isReviewing && (
+                            <div className="h-96">
+                              <ChapterReviewPanel
+                                bookId={bookId}
+                                chapterKey={chapter.id}
+                                content={state.content}
+                                selection={state.viewMode === 'raw' ? state.selection : null}
+                                canComment={canComment}
+                                canSettle={canWrite}
+                                onAcceptSuggestion={(content) => updateContent(chapter.id, content)}
+                                suggestionDraft={state.suggestionDraft}
+                                onSuggestionDraftChange={(suggestionDraft) => updateReview(chapter.id, { suggestionDraft })}
+                                onRangesChange={(reviewRanges) => updateReview(chapter.id, { reviewRanges })}
+                                onFocusRange={(focusRange) => updateReview(chapter.id, { focusRange, viewMode: 'raw' })}
+                                onCommentsChange={refetchOpenComments}
+                              />
+                            </div>
                           )}
                         </div>
                       </div>
@@ -1030,6 +1843,41 @@ export default function BookDetailPage() {
           </div>
         </main>
 
+        {/* Version History Modal */}
+        {historyChapterId && (
+          <RevisionHistoryModal
+            bookId={bookId}
+            chapterKey={historyChapterId}
+            chapterTitle={book?.chapters.find(ch => ch.id === historyChapterId)?.title || ''}
+            currentContent={editorStates[historyChapterId]?.content || ''}
+            onRestore={(revision) => restoreRevision(historyChapterId, revision)}
+            onClose={() => setHistoryChapterId(null)}
+          />
+        )}
+
+        {/* Workflow notes */}
+        {pendingTransition && (
+          <ChapterTransitionModal
+            key={`${pendingTransition.chapter.id}:${pendingTransition.action}`}
+            chapterTitle={pendingTransition.chapter.title}
+            action={pendingTransition.action}
+            error={reviewError}
+            onConfirm={(notes) => runTransition(pendingTransition.chapter, pendingTransition.action, notes)}
+            onClose={() => setPendingTransition(null)}
+          />
+        )}
+
+        {/* Merge Conflict Modal - one chapter at a time */}
+        {syncConflicts[0]?.merge && (
+          <MergeConflictModal
+            key={syncConflicts[0].chapterId}
+            chapterTitle={syncConflicts[0].chapter?.title || syncConflicts[0].path}
+            merge={syncConflicts[0].merge}
+            onResolve={resolveSyncConflict}
+            onClose={() => setSyncConflicts(prev => prev.slice(1))}
+          />
+        )}
+
         {/* TOC Generator Modal */}
         {showTOCGenerator && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -0,0 +1,249 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import { useBook } from '@/lib/supabase/hooks/useBooks';
+import { useGenerationHistory } from '@/lib/supabase/hooks/useGenerationHistory';
+import { AuthGate } from '@/components/auth/AuthGate';
+import { estimateCost } from '@/lib/ai/pricing';
+import { LQ21GenerationHistory } from '@/lib/supabase/types';
+import {
+  BarChart3,
+  BookOpen,
+  ChevronLeft,
+  Loader2,
+  RefreshCw,
+  Coins,
+  Hash,
+  Activity,
+} from 'lucide-react';
+import Link from 'next/link';
+
+const TYPE_LABELS: Record<LQ21GenerationHistory['generation_type'], string> = {
+  toc: 'Table of contents',
+  chapter: 'Chapter',
+  content: 'Formatting',
+  remediation: 'Remediation',
+};
+
+const STATUS_STYLES: Record<LQ21GenerationHistory['status'], string> = {
+  pending: 'bg-gray-500/20 text-gray-300',
+  streaming: 'bg-blue-500/20 text-blue-300',
+  completed: 'bg-green-500/20 text-green-300',
+  failed: 'bg-red-500/20 text-red-300',
+  truncated: 'bg-yellow-500/20 text-yellow-300',
+};
+
+const formatTokens = (tokens: number): string => tokens.toLocaleString();
+
+const formatCost = (cost: number | null): string => {
+  if (cost === null) return '—';
+  // Small runs would otherwise all show as $0.00
+  return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+};
+
+const formatDuration = (ms: number | null): string => {
+  if (ms === null) return '—';
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+};
+
+export default function BookUsagePage() {
+  const params = useParams();
+  const bookId = params.bookId as string;
+
+  const { book, loading: bookLoading } = useBook(bookId);
+  const { runs, totals, grandTotal, loading, error, refetch } = useGenerationHistory(bookId);
+
+  const chapterTitles = new Map((book?.chapters || []).map(ch => [ch.id, ch.title]));
+
+  if (bookLoading || loading) {
+    return (
+      <AuthGate>
+        <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-purple-500" />
+        </div>
+      </AuthGate>
+    );
+  }
+
+  return (
+    <AuthGate>
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900">
+        {/* Header */}
+        <header className="border-b border-gray-700/50 bg-gray-900/50 backdrop-blur-sm sticky top-0 z-20">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex items-center justify-between h-16">
+              <div className="flex items-center gap-4">
+                <Link
+                  href={`/library/${bookId}`}
+                  className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors"
+                >
+                  <ChevronLeft className="h-5 w-5" />
+                  <span>Book</span>
+                </Link>
+                <div className="h-6 w-px bg-gray-700" />
+                <div className="flex items-center gap-3">
+                  <BarChart3 className="h-6 w-6 text-purple-400" />
+                  <div>
+                    <h1 className="text-lg font-semibold text-white">AI Usage</h1>
+                    {book && <p className="text-sm text-gray-400">{book.title}</p>}
+                  </div>
+                </div>
+              </div>
+              <button
+                onClick={refetch}
+                className="flex items-center gap-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white rounded-lg transition-colors"
+              >
+                <RefreshCw className="h-4 w-4" />
+                <span className="hidden sm:inline">Refresh</span>
+              </button>
+            </div>
+          </div>
+        </header>
+
+        <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+          {error && (
+            <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-lg text-red-300 text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* Summary */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="bg-gray-800/50 rounded-xl border border-gray-700/50 p-5">
+              <div className="flex items-center gap-2 text-gray-400 text-sm mb-2">
+                <Activity className="h-4 w-4" />
+                Generation runs
+              </div>
+              <p className="text-2xl font-semibold text-white">{grandTotal.runs}</p>
+            </div>
+            <div className="bg-gray-800/50 rounded-xl border border-gray-700/50 p-5">
+              <div className="flex items-center gap-2 text-gray-400 text-sm mb-2">
+                <Hash className="h-4 w-4" />
+                Total tokens
+              </div>
+              <p className="text-2xl font-semibold text-white">{formatTokens(grandTotal.totalTokens)}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {formatTokens(grandTotal.promptTokens)} in / {formatTokens(grandTotal.completionTokens)} out
+              </p>
+            </div>
+            <div className="bg-gray-800/50 rounded-xl border border-gray-700/50 p-5">
+              <div className="flex items-center gap-2 text-gray-400 text-sm mb-2">
+                <Coins className="h-4 w-4" />
+                Estimated cost
+              </div>
+              <p className="text-2xl font-semibold text-white">
+                {grandTotal.hasUnpricedModels ? '≥ ' : ''}{formatCost(grandTotal.estimatedCost)}
+              </p>
+              {grandTotal.hasUnpricedModels && (
+                <p className="text-xs text-gray-500 mt-1">Some models have no known price</p>
+              )}
+            </div>
+          </div>
+
+          {runs.length === 0 ? (
+            <div className="text-center py-16 bg-gray-800/30 rounded-xl border border-gray-700/50">
+              <BookOpen className="h-12 w-12 text-gray-600 mx-auto mb-4" />
+              <h2 className="text-lg font-medium text-white mb-2">No generation runs yet</h2>
+              <p className="text-gray-400 text-sm">
+                AI calls for this book are recorded here once it has been saved to your library.
+              </p>
+            </div>
+          ) : (
+            <>
+              {/* Per provider/model totals */}
+              <section className="bg-gray-800/50 rounded-xl border border-gray-700/50 overflow-hidden">
+                <h2 className="px-6 py-4 text-lg font-semibold text-white border-b border-gray-700/50">
+                  By provider and model
+                </h2>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="text-gray-400 text-left">
+                      <tr>
+                        <th className="px-6 py-3 font-medium">Provider</th>
+                        <th className="px-6 py-3 font-medium">Model</th>
+                        <th className="px-6 py-3 font-medium text-right">Runs</th>
+                        <th className="px-6 py-3 font-medium text-right">Input</th>
+                        <th className="px-6 py-3 font-medium text-right">Output</th>
+                        <th className="px-6 py-3 font-medium text-right">Est. cost</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700/50">
+                      {totals.map(total => (
+                        <tr key={`${total.provider}/${total.model}`} className="text-gray-300">
+                          <td className="px-6 py-3 capitalize">{total.provider}</td>
+                          <td className="px-6 py-3 font-mono text-xs">{total.model || '—'}</td>
+                          <td className="px-6 py-3 text-right">
+                            {total.runs}
+                            {total.failedRuns > 0 && (
+                              <span className="text-red-400 text-xs ml-1">({total.failedRuns} failed)</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-3 text-right">{formatTokens(total.promptTokens)}</td>
+                          <td className="px-6 py-3 text-right">{formatTokens(total.completionTokens)}</td>
+                          <td className="px-6 py-3 text-right">{formatCost(total.estimatedCost)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+
+              {/* Individual runs */}
+              <section className="bg-gray-800/50 rounded-xl border border-gray-700/50 overflow-hidden">
+                <h2 className="px-6 py-4 text-lg font-semibold text-white border-b border-gray-700/50">
+                  Recent runs
+                </h2>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="text-gray-400 text-left">
+                      <tr>
+                        <th className="px-6 py-3 font-medium">When</th>
+                        <th className="px-6 py-3 font-medium">Type</th>
+                        <th className="px-6 py-3 font-medium">Model</th>
+                        <th className="px-6 py-3 font-medium">Status</th>
+                        <th className="px-6 py-3 font-medium text-right">Tokens</th>
+                        <th className="px-6 py-3 font-medium text-right">Duration</th>
+                        <th className="px-6 py-3 font-medium text-right">Est. cost</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700/50">
+                      {runs.map(run => (
+                        <tr key={run.id} className="text-gray-300 align-top">
+                          <td className="px-6 py-3 whitespace-nowrap text-gray-400">
+                            {new Date(run.created_at).toLocaleString()}
+                          </td>
+                          <td className="px-6 py-3">
+                            {TYPE_LABELS[run.generation_type] || run.generation_type}
+                            {run.chapter_id && chapterTitles.has(run.chapter_id) && (
+                              <p className="text-xs text-gray-500">{chapterTitles.get(run.chapter_id)}</p>
+                            )}
+                          </td>
+                          <td className="px-6 py-3 font-mono text-xs">{run.model || run.provider}</td>
+                          <td className="px-6 py-3">
+                            <span
+                              className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[run.status]}`}
+                              title={run.error_message || run.stop_reason || undefined}
+                            >
+                              {run.status}
+                            </span>
+                          </td>
+                          <td className="px-6 py-3 text-right">
+                            {run.total_tokens !== null ? formatTokens(run.total_tokens) : '—'}
+                          </td>
+                          <td className="px-6 py-3 text-right">{formatDuration(run.duration_ms)}</td>
+                          <td className="px-6 py-3 text-right">
+                            {formatCost(estimateCost(run.provider, run.model, run.prompt_tokens, run.completion_tokens))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+            </>
+          )}
+        </main>
+      </div>
+    </AuthGate>
+  );
+}
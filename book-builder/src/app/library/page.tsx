@@ -3,8 +3,12 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useBooks } from '@/lib/supabase/hooks/useBooks';
+import { useOrganizations } from '@/lib/supabase/hooks/useOrganizations';
 import { useAuth } from '@/hooks/useAuth';
 import { AuthGate } from '@/components/auth/AuthGate';
+import { ImportBookModal } from '@/components/books/ImportBookModal';
+import { TeamSettingsModal } from '@/components/settings/TeamSettingsModal';
+import { ROLE_LABELS, canEdit, canManage, getBookRole } from '@/lib/organizations';
 import {
   BookOpen,
   Plus,
@@ -22,26 +26,39 @@ import {
   Globe,
   Lock,
   ChevronLeft,
+  Upload,
+  Users,
+  Settings,
+  FolderInput,
 } from 'lucide-react';
 import Link from 'next/link';
 
 type ViewMode = 'grid' | 'list';
-type FilterStatus = 'all' | 'draft' | 'published' | 'archived';
+type FilterStatus = 'all' | 'draft' | 'review' | 'published' | 'archived';
 
 export default function LibraryPage() {
   const router = useRouter();
   const { user } = useAuth();
+  const { organizations, roles, createOrganization, deleteOrganization } = useOrganizations();
+  // Team whose library is shown; null for the personal library
+  const [teamId, setTeamId] = useState<string | null>(null);
+  const team = organizations.find(org => org.id === teamId) || null;
   const {
     books,
     loading,
     error,
+    updateBook,
     deleteBook,
     duplicateBook,
     archiveBook,
     draftBooks,
     publishedBooks,
     archivedBooks,
-  } = useBooks();
+  } = useBooks(team?.id ?? null);
+  // Adding books to a library needs write access to it
+  const canAddBooks = !team || canEdit(team.role);
+  // Teams a personal book can be moved into
+  const writableTeams = organizations.filter(org => canEdit(org.role));
 
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
   const [searchQuery, setSearchQuery] = useState('');
@@ -49,6 +66,8 @@ export default function LibraryPage() {
   const [activeMenu, setActiveMenu] = useState<string | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
   const [coverPreview, setCoverPreview] = useState<{ url: string; title: string } | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [showTeamSettings, setShowTeamSettings] = useState(false);
 
   // Filter books based on search and status
   const filteredBooks = books.filter(book => {
@@ -59,6 +78,7 @@ export default function LibraryPage() {
     const matchesStatus =
       filterStatus === 'all' ||
       (filterStatus === 'draft' && book.status === 'draft') ||
+      (filterStatus === 'review' && book.status === 'review') ||
       (filterStatus === 'published' && book.status === 'published') ||
       (filterStatus === 'archived' && book.status === 'archived');
 
@@ -86,6 +106,25 @@ export default function LibraryPage() {
     await deleteBook(bookId);
   };
 
+  const handleMoveToTeam = async (bookId: string, organizationId: string) => {
+    setActiveMenu(null);
+    await updateBook(bookId, { organization_id: organizationId });
+  };
+
+  const handleCreateTeam = async () => {
+    const name = prompt('Team name');
+    if (!name?.trim()) return;
+    const created = await createOrganization(name);
+    if (created) setTeamId(created.id);
+  };
+
+  const handleDeleteTeam = async () => {
+    if (!team) return;
+    if (!confirm(`Delete ${team.name}? Its books move back to the personal libraries of the people who created them.`)) return;
+    setShowTeamSettings(false);
+    if (await deleteOrganization(team.id)) setTeamId(null);
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -130,17 +169,63 @@ export default function LibraryPage() {
                 </Link>
                 <div className="h-6 w-px bg-gray-700" />
                 <div className="flex items-center gap-2">
-                  <BookOpen className="h-6 w-6 text-purple-400" />
-                  <h1 className="text-xl font-semibold text-white">My Library</h1>
+                  {team ? (
+                    <Users className="h-6 w-6 text-purple-400" />
+                  ) : (
+                    <BookOpen className="h-6 w-6 text-purple-400" />
+                  )}
+                  <h1 className="text-xl font-semibold text-white">{team ? team.name : 'My Library'}</h1>
+                  {team && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-500/20 text-purple-300">
+                      {ROLE_LABELS[team.role]}
+                    </span>
+                  )}
                 </div>
               </div>
-              <Link
-                href="/"
-                className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-medium transition-colors"
-              >
-                <Plus className="h-4 w-4" />
-                <span>New Book</span>
-              </Link>
+              <div className="flex items-center gap-3">
+                <select
+                  value={team?.id ?? ''}
+                  onChange={(e) => {
+                    if (e.target.value === '__new') {
+                      handleCreateTeam();
+                    } else {
+                      setTeamId(e.target.value || null);
+                    }
+                  }}
+                  className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  <option value="">Personal library</option>
+                  {organizations.map(org => (
+                    <option key={org.id} value={org.id}>{org.name}</option>
+                  ))}
+                  <option value="__new">+ New team...</option>
+                </select>
+                {team && (
+                  <button
+                    onClick={() => setShowTeamSettings(true)}
+                    title="Team members and shared credentials"
+                    className="p-2 bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white rounded-lg transition-colors"
+                  >
+                    <Settings className="h-5 w-5" />
+                  </button>
+                )}
+                {canAddBooks && (
+                  <button
+                    onClick={() => setShowImport(true)}
+                    className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 hover:text-white rounded-lg font-medium transition-colors"
+                  >
+                    <Upload className="h-4 w-4" />
+                    <span>Import</span>
+                  </button>
+                )}
+                <Link
+                  href="/"
+                  className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-medium transition-colors"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>New Book</span>
+                </Link>
+              </div>
             </div>
           </div>
         </header>
@@ -189,6 +274,16 @@ export default function LibraryPage() {
               >
                 Drafts
               </button>
+              <button
+                onClick={() => setFilterStatus('review')}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                  filterStatus === 'review'
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-800 text-gray-400 hover:text-white'
+                }`}
+              >
+                Ready to publish
+              </button>
               <button
                 onClick={() => setFilterStatus('published')}
                 className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
@@ -282,204 +377,230 @@ export default function LibraryPage() {
             </div>
           ) : viewMode === 'grid' ? (
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredBooks.map(book => (
-                <div
-                  key={book.id}
-                  className="bg-gray-800/50 rounded-xl border border-gray-700/50 overflow-hidden hover:border-purple-500/50 transition-all group"
-                >
-                  {/* Cover/Preview */}
-                  <div className="h-40 bg-gradient-to-br from-purple-900/50 to-blue-900/50 flex items-center justify-center relative overflow-hidden">
-                    {book.cover_image_url ? (
-                      <img
-                        src={book.cover_image_url}
-                        alt={`${book.title} cover`}
-                        className="w-full h-full object-cover cursor-pointer hover:scale-105 transition-transform"
-                        onClick={() => setCoverPreview({ url: book.cover_image_url!, title: book.title })}
-                      />
-                    ) : (
-                      <BookOpen className="h-16 w-16 text-purple-400/50" />
-                    )}
-                    <div className="absolute top-3 right-3">
-                      <div className="relative">
-                        <button
-                          onClick={() =>
-                            setActiveMenu(activeMenu === book.id ? null : book.id)
-                          }
-                          className="p-1.5 bg-gray-900/80 rounded-lg text-gray-400 hover:text-white transition-colors"
-                        >
-                          <MoreVertical className="h-4 w-4" />
-                        </button>
-                        {activeMenu === book.id && (
-                          <div className="absolute right-0 top-full mt-1 w-48 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-20">
-                            <button
-                              onClick={() => handleEdit(book.id)}
-                              className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white"
-                            >
-                              <Edit className="h-4 w-4" />
-                              Edit Book
-                            </button>
-                            <button
-                              onClick={() => handleDuplicate(book.id)}
-                              className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white"
-                            >
-                              <Copy className="h-4 w-4" />
-                              Duplicate
-                            </button>
-                            {book.deployed_url && (
-                              <a
-                                href={book.deployed_url}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white"
-                              >
-                                <ExternalLink className="h-4 w-4" />
-                                View Live
-                              </a>
-                            )}
-                            {book.status !== 'archived' && (
+              {filteredBooks.map(book => {
+                const bookRole = getBookRole(book, user?.id, roles);
+                return (
+                  <div
+                    key={book.id}
+                    className="bg-gray-800/50 rounded-xl border border-gray-700/50 overflow-hidden hover:border-purple-500/50 transition-all group"
+                  >
+                    {/* Cover/Preview */}
+                    <div className="h-40 bg-gradient-to-br from-purple-900/50 to-blue-900/50 flex items-center justify-center relative overflow-hidden">
+                      {book.cover_image_url ? (
+                        <img
+                          src={book.cover_image_url}
+                          alt={`${book.title} cover`}
+                          className="w-full h-full object-cover cursor-pointer hover:scale-105 transition-transform"
+                          onClick={() => setCoverPreview({ url: book.cover_image_url!, title: book.title })}
+                        />
+                      ) : (
+                        <BookOpen className="h-16 w-16 text-purple-400/50" />
+                      )}
+                      <div className="absolute top-3 right-3">
+                        <div className="relative">
+                          <button
+                            onClick={() =>
+                              setActiveMenu(activeMenu === book.id ? null : book.id)
+                            }
+                            className="p-1.5 bg-gray-900/80 rounded-lg text-gray-400 hover:text-white transition-colors"
+                          >
+                            <MoreVertical className="h-4 w-4" />
+                          </button>
+                          {activeMenu === book.id && (
+                            <div className="absolute right-0 top-full mt-1 w-48 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-20">
                               <button
-                                onClick={() => handleArchive(book.id)}
+                                onClick={() => handleEdit(book.id)}
                                 className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white"
                               >
-                                <Archive className="h-4 w-4" />
-                                Archive
+                                <Edit className="h-4 w-4" />
+                                Edit Book
                               </button>
-                            )}
-                            <div className="border-t border-gray-700" />
-                            <button
-                              onClick={() => setDeleteConfirm(book.id)}
-                              className="w-full flex items-center gap-2 px-4 py-2 text-sm text-red-400 hover:bg-red-900/30 hover:text-red-300"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                              Delete
-                            </button>
-                          </div>
-                        )}
+                              {canAddBooks && (
+                                <button
+                                  onClick={() => handleDuplicate(book.id)}
+                                  className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white"
+                                >
+                                  <Copy className="h-4 w-4" />
+                                  Duplicate
+                                </button>
+                              )}
+                              {!team && writableTeams.map(org => (
+                                <button
+                                  key={org.id}
+                                  onClick={() => handleMoveToTeam(book.id, org.id)}
+                                  className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white"
+                                >
+                                  <FolderInput className="h-4 w-4" />
+                                  <span className="truncate">Move to {org.name}</span>
+                                </button>
+                              ))}
+                              {book.deployed_url && (
+                                <a
+                                  href={book.deployed_url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white"
+                                >
+                                  <ExternalLink className="h-4 w-4" />
+                                  View Live
+                                </a>
+                              )}
+                              {book.status !== 'archived' && canEdit(bookRole) && (
+                                <button
+                                  onClick={() => handleArchive(book.id)}
+                                  className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-300 hover:bg-gray-700 hover:text-white"
+                                >
+                                  <Archive className="h-4 w-4" />
+                                  Archive
+                                </button>
+                              )}
+                              {canManage(bookRole) && (
+                                <>
+                                  <div className="border-t border-gray-700" />
+                                  <button
+                                    onClick={() => setDeleteConfirm(book.id)}
+                                    className="w-full flex items-center gap-2 px-4 py-2 text-sm text-red-400 hover:bg-red-900/30 hover:text-red-300"
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                    Delete
+                                  </button>
+                                </>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                      <div className="absolute top-3 left-3 flex items-center gap-2">
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs font-medium border ${getStatusBadge(
+                            book.status
+                          )}`}
+                        >
+                          {book.status === 'review' ? 'ready to publish' : book.status}
+                        </span>
                       </div>
                     </div>
-                    <div className="absolute top-3 left-3 flex items-center gap-2">
-                      <span
-                        className={`px-2 py-0.5 rounded-full text-xs font-medium border ${getStatusBadge(
-                          book.status
-                        )}`}
-                      >
-                        {book.status}
-                      </span>
-                    </div>
-                  </div>
 
-                  {/* Info */}
-                  <div className="p-4">
-                    <div className="flex items-start justify-between gap-2 mb-2">
-                      <h3 className="font-semibold text-white group-hover:text-purple-400 transition-colors line-clamp-1">
-                        {book.title}
-                      </h3>
-                      <span className="text-gray-500">
-                        {getVisibilityIcon(book.visibility)}
-                      </span>
-                    </div>
-                    {book.description && (
-                      <p className="text-sm text-gray-400 line-clamp-2 mb-3">
-                        {book.description}
-                      </p>
-                    )}
-                    <div className="flex items-center justify-between text-xs text-gray-500">
-                      <div className="flex items-center gap-1">
-                        <Clock className="h-3.5 w-3.5" />
-                        {formatDate(book.updated_at)}
+                    {/* Info */}
+                    <div className="p-4">
+                      <div className="flex items-start justify-between gap-2 mb-2">
+                        <h3 className="font-semibold text-white group-hover:text-purple-400 transition-colors line-clamp-1">
+                          {book.title}
+                        </h3>
+                        <span className="text-gray-500">
+                          {getVisibilityIcon(book.visibility)}
+                        </span>
                       </div>
-                      {book.github_repo_name && (
+                      {book.description && (
+                        <p className="text-sm text-gray-400 line-clamp-2 mb-3">
+                          {book.description}
+                        </p>
+                      )}
+                      <div className="flex items-center justify-between text-xs text-gray-500">
                         <div className="flex items-center gap-1">
-                          <FileText className="h-3.5 w-3.5" />
-                          {book.github_repo_name}
+                          <Clock className="h-3.5 w-3.5" />
+                          {formatDate(book.updated_at)}
                         </div>
-                      )}
+                        {book.github_repo_name && (
+                          <div className="flex items-center gap-1">
+                            <FileText className="h-3.5 w-3.5" />
+                            {book.github_repo_name}
+                          </div>
+                        )}
+                      </div>
                     </div>
-                  </div>
 
-                  {/* Quick Actions */}
-                  <div className="px-4 pb-4">
-                    <button
-                      onClick={() => handleEdit(book.id)}
-                      className="w-full py-2 bg-purple-600/20 hover:bg-purple-600 text-purple-400 hover:text-white rounded-lg font-medium transition-colors text-sm"
-                    >
-                      Continue Editing
-                    </button>
+                    {/* Quick Actions */}
+                    <div className="px-4 pb-4">
+                      <button
+                        onClick={() => handleEdit(book.id)}
+                        className="w-full py-2 bg-purple-600/20 hover:bg-purple-600 text-purple-400 hover:text-white rounded-lg font-medium transition-colors text-sm"
+                      >
+                        {canEdit(bookRole) ? 'Continue Editing' : 'Open'}
+                      </button>
+                    </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           ) : (
             <div className="space-y-3">
-              {filteredBooks.map(book => (
-                <div
-                  key={book.id}
-                  className="bg-gray-800/50 rounded-xl border border-gray-700/50 p-4 hover:border-purple-500/50 transition-all flex items-center gap-4"
-                >
+              {filteredBooks.map(book => {
+                const bookRole = getBookRole(book, user?.id, roles);
+                return (
                   <div
-                    className={`h-12 w-12 rounded-lg bg-gradient-to-br from-purple-900/50 to-blue-900/50 flex items-center justify-center flex-shrink-0 overflow-hidden ${book.cover_image_url ? 'cursor-pointer hover:ring-2 hover:ring-purple-500' : ''}`}
-                    onClick={() => book.cover_image_url && setCoverPreview({ url: book.cover_image_url, title: book.title })}
+                    key={book.id}
+                    className="bg-gray-800/50 rounded-xl border border-gray-700/50 p-4 hover:border-purple-500/50 transition-all flex items-center gap-4"
                   >
-                    {book.cover_image_url ? (
-                      <img
-                        src={book.cover_image_url}
-                        alt={`${book.title} cover`}
-                        className="w-full h-full object-cover"
-                      />
-                    ) : (
-                      <BookOpen className="h-6 w-6 text-purple-400/50" />
-                    )}
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2 mb-1">
-                      <h3 className="font-semibold text-white truncate">{book.title}</h3>
-                      <span
-                        className={`px-2 py-0.5 rounded-full text-xs font-medium border ${getStatusBadge(
-                          book.status
-                        )}`}
-                      >
-                        {book.status}
-                      </span>
-                    </div>
-                    {book.description && (
-                      <p className="text-sm text-gray-400 truncate">{book.description}</p>
-                    )}
-                  </div>
-                  <div className="text-sm text-gray-500 hidden sm:block">
-                    {formatDate(book.updated_at)}
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <button
-                      onClick={() => handleEdit(book.id)}
-                      className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+                    <div
+                      className={`h-12 w-12 rounded-lg bg-gradient-to-br from-purple-900/50 to-blue-900/50 flex items-center justify-center flex-shrink-0 overflow-hidden ${book.cover_image_url ? 'cursor-pointer hover:ring-2 hover:ring-purple-500' : ''}`}
+                      onClick={() => book.cover_image_url && setCoverPreview({ url: book.cover_image_url, title: book.title })}
                     >
-                      <Edit className="h-4 w-4" />
-                    </button>
-                    <button
-                      onClick={() => handleDuplicate(book.id)}
-                      className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
-                    >
-                      <Copy className="h-4 w-4" />
-                    </button>
-                    {book.deployed_url && (
-                      <a
-                        href={book.deployed_url}
-                        target="_blank"
-                        rel="noopener noreferrer"
+                      {book.cover_image_url ? (
+                        <img
+                          src={book.cover_image_url}
+                          alt={`${book.title} cover`}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <BookOpen className="h-6 w-6 text-purple-400/50" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <h3 className="font-semibold text-white truncate">{book.title}</h3>
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs font-medium border ${getStatusBadge(
+                            book.status
+                          )}`}
+                        >
+                          {book.status === 'review' ? 'ready to publish' : book.status}
+                        </span>
+                      </div>
+                      {book.description && (
+                        <p className="text-sm text-gray-400 truncate">{book.description}</p>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-500 hidden sm:block">
+                      {formatDate(book.updated_at)}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => handleEdit(book.id)}
                         className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
                       >
-                        <ExternalLink className="h-4 w-4" />
-                      </a>
-                    )}
-                    <button
-                      onClick={() => setDeleteConfirm(book.id)}
-                      className="p-2 text-gray-400 hover:text-red-400 hover:bg-red-900/30 rounded-lg transition-colors"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
+                        <Edit className="h-4 w-4" />
+                      </button>
+                      {canAddBooks && (
+                        <button
+                          onClick={() => handleDuplicate(book.id)}
+                          className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+                        >
+                          <Copy className="h-4 w-4" />
+                        </button>
+                      )}
+                      {book.deployed_url && (
+                        <a
+                          href={book.deployed_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+                        >
+                          <ExternalLink className="h-4 w-4" />
+                        </a>
+                      )}
+                      {canManage(bookRole) && (
+                        <button
+                          onClick={() => setDeleteConfirm(book.id)}
+                          className="p-2 text-gray-400 hover:text-red-400 hover:bg-red-900/30 rounded-lg transition-colors"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </main>
@@ -511,6 +632,28 @@ export default function LibraryPage() {
           </div>
         )}
 
+        {/* Import Modal */}
+        {showImport && (
+          <ImportBookModal
+            organizationId={team?.id ?? null}
+            onImported={(bookId) => {
+              setShowImport(false);
+              router.push(`/library/${bookId}`);
+            }}
+            onClose={() => setShowImport(false)}
+          />
+        )}
+
+        {/* Team Settings Modal */}
+        {showTeamSettings && team && (
+          <TeamSettingsModal
+            organization={team}
+            userId={user?.id}
+            onDeleteTeam={handleDeleteTeam}
+            onClose={() => setShowTeamSettings(false)}
+          />
+        )}
+
         {/* Click outside to close menu */}
         {activeMenu && (
           <div className="fixed inset-0 z-10" onClick={() => setActiveMenu(null)} />
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useUserSettings } from '@/lib/supabase/hooks/useUserSettings';
 import { useApiKeys, type ApiKeyProvider } from '@/lib/supabase/hooks/useApiKeys';
+import { DEFAULT_LOCAL_BASE_URL } from '@/types';
 import { AuthGate } from '@/components/auth/AuthGate';
 import Link from 'next/link';
 import {
@@ -42,6 +43,18 @@ const AI_PROVIDERS = [
     description: 'Claude 4 and other Anthropic models',
     color: 'from-orange-500 to-amber-500',
   },
+  {
+    id: 'openrouter' as const,
+    name: 'OpenRouter',
+    description: 'Hundreds of models behind a single key',
+    color: 'from-indigo-500 to-violet-500',
+  },
+  {
+    id: 'local' as const,
+    name: 'Local Endpoint',
+    description: 'Self-hosted Ollama, llama.cpp or vLLM server',
+    color: 'from-gray-500 to-slate-600',
+  },
 ];
 
 const DEFAULT_MODELS: Record<string, { id: string; name: string }[]> = {
@@ -64,6 +77,18 @@ const DEFAULT_MODELS: Record<string, { id: string; name: string }[]> = {
     { id: 'claude-3-opus-20240229', name: 'Claude 3 Opus' },
     { id: 'claude-3-haiku-20240307', name: 'Claude 3 Haiku' },
   ],
+  openrouter: [
+    { id: 'anthropic/claude-sonnet-4', name: 'Claude Sonnet 4 (via OpenRouter)' },
+    { id: 'openai/gpt-4o', name: 'GPT-4o (via OpenRouter)' },
+    { id: 'google/gemini-2.5-pro', name: 'Gemini 2.5 Pro (via OpenRouter)' },
+    { id: 'meta-llama/llama-3.3-70b-instruct', name: 'Llama 3.3 70B Instruct' },
+  ],
+  // Suggestions only - local servers serve whatever models have been pulled
+  local: [
+    { id: 'llama3.1', name: 'Llama 3.1' },
+    { id: 'qwen2.5', name: 'Qwen 2.5' },
+    { id: 'mistral', name: 'Mistral' },
+  ],
 };
 
 const EDITOR_MODES = [
@@ -89,16 +114,18 @@ export default function SettingsPage() {
     theme,
     editorMode,
     defaultGitHubUsername,
+    localBaseUrl,
   } = useUserSettings();
 
   const { apiKeys, loading: keysLoading, error: keysError, saveApiKey, deleteApiKey } = useApiKeys();
 
   // Local state for form
-  const [selectedProvider, setSelectedProvider] = useState<'openai' | 'claude' | 'gemini'>(defaultProvider || 'gemini');
+  const [selectedProvider, setSelectedProvider] = useState<'openai' | 'claude' | 'gemini' | 'openrouter' | 'local'>(defaultProvider || 'gemini');
   const [selectedModel, setSelectedModel] = useState(defaultModel || 'gemini-3-flash-preview');
   const [selectedTheme, setSelectedTheme] = useState<'light' | 'dark' | 'system'>(theme || 'dark');
   const [selectedEditorMode, setSelectedEditorMode] = useState<'rich' | 'raw' | 'split'>(editorMode || 'rich');
   const [githubUsername, setGithubUsername] = useState(defaultGitHubUsername || '');
+  const [localUrl, setLocalUrl] = useState(localBaseUrl || '');
 
   // API Key editing state
   const [editingKey, setEditingKey] = useState<string | null>(null);
@@ -117,6 +144,7 @@ export default function SettingsPage() {
       setSelectedTheme(settings.theme);
       setSelectedEditorMode(settings.editor_mode);
       setGithubUsername(settings.default_github_username || '');
+      setLocalUrl(settings.local_base_url || '');
     }
   }, [settings]);
 
@@ -129,6 +157,7 @@ export default function SettingsPage() {
         theme: selectedTheme,
         editor_mode: selectedEditorMode,
         default_github_username: githubUsername || null,
+        local_base_url: localUrl.trim() || null,
       });
 
       // Also save theme to localStorage for immediate effect
@@ -260,7 +289,7 @@ export default function SettingsPage() {
                     <label className="block text-sm font-medium text-gray-300 mb-3">
                       AI Provider
                     </label>
-                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
                       {AI_PROVIDERS.map(provider => (
                         <button
                           key={provider.id}
@@ -292,21 +321,61 @@ export default function SettingsPage() {
                     <label className="block text-sm font-medium text-gray-300 mb-3">
                       Default Model
                     </label>
-                    <select
-                      value={selectedModel}
-                      onChange={e => setSelectedModel(e.target.value)}
-                      className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
-                    >
-                      {(DEFAULT_MODELS[selectedProvider] || DEFAULT_MODELS.gemini).map(model => (
-                        <option key={model.id} value={model.id}>
-                          {model.name}
-                        </option>
-                      ))}
-                    </select>
+                    {selectedProvider === 'local' ? (
+                      <>
+                        <input
+                          type="text"
+                          list="local-model-suggestions"
+                          value={selectedModel}
+                          onChange={e => setSelectedModel(e.target.value)}
+                          placeholder="Model name as served by your endpoint"
+                          className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        />
+                        <datalist id="local-model-suggestions">
+                          {DEFAULT_MODELS.local.map(model => (
+                            <option key={model.id} value={model.id}>
+                              {model.name}
+                            </option>
+                          ))}
+                        </datalist>
+                      </>
+                    ) : (
+                      <select
+                        value={selectedModel}
+                        onChange={e => setSelectedModel(e.target.value)}
+                        className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      >
+                        {(DEFAULT_MODELS[selectedProvider] || DEFAULT_MODELS.gemini).map(model => (
+                          <option key={model.id} value={model.id}>
+                            {model.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
                     <p className="text-xs text-gray-500 mt-2">
                       This model will be pre-selected when creating new books
                     </p>
                   </div>
+
+                  {/* Local Endpoint */}
+                  {selectedProvider === 'local' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-3">
+                        Endpoint Base URL
+                      </label>
+                      <input
+                        type="url"
+                        value={localUrl}
+                        onChange={e => setLocalUrl(e.target.value)}
+                        placeholder={DEFAULT_LOCAL_BASE_URL}
+                        className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      />
+                      <p className="text-xs text-gray-500 mt-2">
+                        Any OpenAI-compatible server, including the version path (e.g. http://localhost:8080/v1 for llama.cpp).
+                        It must be reachable from the server running Book Builder.
+                      </p>
+                    </div>
+                  )}
                 </div>
               </section>
 
@@ -479,6 +548,10 @@ export default function SettingsPage() {
                                     ? 'sk-...'
                                     : provider.id === 'claude'
                                     ? 'sk-ant-...'
+                                    : provider.id === 'openrouter'
+                                    ? 'sk-or-...'
+                                    : provider.id === 'local'
+                                    ? 'Optional - only if your server checks keys'
                                     : 'AI...'
                                 }
                                 className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
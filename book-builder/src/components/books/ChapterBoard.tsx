@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { MessageSquare, User } from 'lucide-react';
+import type { LQ21Chapter, LQ21ChapterReview } from '@/lib/supabase/types';
+import {
+  ACTION_LABELS,
+  ACTION_SUMMARIES,
+  CHAPTER_STATUSES,
+  STATUS_LABELS,
+  type ChapterAction,
+  type ChapterStatus,
+} from '@/lib/chapterWorkflow';
+
+interface ChapterBoardProps {
+  chapters: LQ21Chapter[];
+  // What the user may do with each chapter, and which action a drop onto a column means
+  actionsFor: (chapter: LQ21Chapter) => ChapterAction[];
+  moveAction: (chapter: LQ21Chapter, to: ChapterStatus) => ChapterAction | null;
+  onAction: (chapter: LQ21Chapter, action: ChapterAction) => void;
+  onOpen: (chapterId: string) => void;
+  openComments: Record<string, number>;
+  latestReviews: Map<string, LQ21ChapterReview>;
+  assigneeName: (userId: string) => string | null;
+}
+
+const COLUMN_ACCENTS: Record<ChapterStatus, string> = {
+  draft: 'border-t-yellow-500/60',
+  generating: 'border-t-blue-500/60',
+  review: 'border-t-purple-500/60',
+  complete: 'border-t-green-500/60',
+};
+
+/**
+ * Chapters as cards in one column per workflow status. Cards can be dragged
+ * to the next column when the user is allowed to make that move.
+ */
+export function ChapterBoard({
+  chapters,
+  actionsFor,
+  moveAction,
+  onAction,
+  onOpen,
+  openComments,
+  latestReviews,
+  assigneeName,
+}: ChapterBoardProps) {
+  const [dragging, setDragging] = useState<LQ21Chapter | null>(null);
+  const [dropTarget, setDropTarget] = useState<ChapterStatus | null>(null);
+
+  const dropAction = (status: ChapterStatus) => (dragging ? moveAction(dragging, status) : null);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      {CHAPTER_STATUSES.map(status => {
+        const column = chapters.filter(chapter => chapter.status === status);
+        const canDrop = dropAction(status) !== null;
+
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => {
+              if (!canDrop) return;
+              e.preventDefault();
+              setDropTarget(status);
+            }}
+            onDragLeave={() => setDropTarget(prev => (prev === status ? null : prev))}
+            onDrop={(e) => {
+              e.preventDefault();
+              const action = dropAction(status);
+              if (dragging && action) onAction(dragging, action);
+              setDragging(null);
+              setDropTarget(null);
+            }}
+            className={`flex flex-col min-h-48 bg-gray-800/30 rounded-xl border border-gray-700/50 border-t-4 ${
+              COLUMN_ACCENTS[status]
+            } ${dropTarget === status ? 'ring-2 ring-purple-500/60' : ''}`}
+          >
+            <div className="flex items-center justify-between px-3 py-2">
+              <h3 className="text-sm font-medium text-gray-300">{STATUS_LABELS[status]}</h3>
+              <span className="text-xs text-gray-500">{column.length}</span>
+            </div>
+
+            <div className="flex-1 space-y-2 px-3 pb-3">
+              {column.map(chapter => {
+                const actions = actionsFor(chapter);
+                const latest = latestReviews.get(chapter.id);
+                const note = latest?.to_status === chapter.status ? latest : null;
+
+                return (
+                  <div
+                    key={chapter.id}
+                    draggable={actions.length > 0}
+                    onDragStart={() => setDragging(chapter)}
+                    onDragEnd={() => {
+                      setDragging(null);
+                      setDropTarget(null);
+                    }}
+                    className={`p-3 bg-gray-800 rounded-lg border border-gray-700 ${
+                      actions.length > 0 ? 'cursor-grab active:cursor-grabbing' : ''
+                    } ${dragging?.id === chapter.id ? 'opacity-50' : ''}`}
+                  >
+                    <button
+                      onClick={() => onOpen(chapter.id)}
+                      className="text-left text-sm font-medium text-white hover:text-purple-300 line-clamp-2"
+                    >
+                      {chapter.title}
+                    </button>
+
+                    <div className="flex items-center gap-3 mt-1 text-xs text-gray-500">
+                      <span>{(chapter.word_count || 0).toLocaleString()} words</span>
+                      {openComments[chapter.id] > 0 && (
+                        <span className="flex items-center gap-1 text-amber-400">
+                          <MessageSquare className="h-3 w-3" />
+                          {openComments[chapter.id]}
+                        </span>
+                      )}
+                      {chapter.assigned_to && (
+                        <span className="flex items-center gap-1 truncate">
+                          <User className="h-3 w-3" />
+                          {assigneeName(chapter.assigned_to) || 'Assigned'}
+                        </span>
+                      )}
+                    </div>
+
+                    {note && (
+                      <p
+                        className={`mt-2 text-xs line-clamp-3 ${
+                          note.action === 'reject' ? 'text-orange-300' : 'text-gray-400'
+                        }`}
+                        title={note.notes || undefined}
+                      >
+                        {note.author_name || 'Someone'} {ACTION_SUMMARIES[note.action]}
+                        {note.notes ? `: ${note.notes}` : ''}
+                      </p>
+                    )}
+
+                    {actions.length > 0 && (
+                      <div className="flex flex-wrap gap-1.5 mt-2">
+                        {actions.map(action => (
+                          <button
+                            key={action}
+                            onClick={() => onAction(chapter, action)}
+                            className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+                              action === 'reject'
+                                ? 'bg-orange-500/20 text-orange-300 hover:bg-orange-500/30'
+                                : 'bg-purple-500/20 text-purple-300 hover:bg-purple-500/30'
+                            }`}
+                          >
+                            {ACTION_LABELS[action]}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { useState } from 'react';
+import { GitPullRequestArrow, Loader2, X } from 'lucide-react';
+import { ACTION_LABELS, NOTES_REQUIRED, type ChapterAction } from '@/lib/chapterWorkflow';
+
+interface ChapterTransitionModalProps {
+  chapterTitle: string;
+  action: ChapterAction;
+  error: string | null;
+  // Resolves true once the chapter has moved on
+  onConfirm: (notes: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const NOTE_PROMPTS: Record<ChapterAction, string> = {
+  submit: 'Anything the reviewer should look at? (optional)',
+  approve: 'Sign-off notes (optional)',
+  reject: 'What needs changing before this can be approved?',
+  reopen: 'Why is this chapter being reopened? (optional)',
+  complete: 'Notes (optional)',
+};
+
+export function ChapterTransitionModal({
+  chapterTitle,
+  action,
+  error,
+  onConfirm,
+  onClose,
+}: ChapterTransitionModalProps) {
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  // The error is shared with earlier steps, so only show it once this one has been tried
+  const [attempted, setAttempted] = useState(false);
+
+  const notesRequired = NOTES_REQUIRED.includes(action);
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    setAttempted(true);
+    const moved = await onConfirm(notes);
+    setIsSaving(false);
+    if (moved) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl border border-gray-700 p-6 max-w-lg w-full">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <GitPullRequestArrow className="h-5 w-5 text-purple-400" />
+            {ACTION_LABELS[action]}
+          </h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-400 mb-3">
+          <span className="font-medium text-white">{chapterTitle}</span>
+        </p>
+
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder={NOTE_PROMPTS[action]}
+          rows={4}
+          autoFocus
+          className="w-full px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500 resize-none"
+        />
+
+        {attempted && error && (
+          <p className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300">
+            {error}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-3 mt-4">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={isSaving || (notesRequired && !notes.trim())}
+            className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+          >
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+            {ACTION_LABELS[action]}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, ExternalLink, GitCommit, Loader2, Rocket } from 'lucide-react';
+import { LQ21GitHubDeployment } from '@/lib/supabase/types';
+
+interface DeploymentHistoryProps {
+  deployments: LQ21GitHubDeployment[];
+  loading: boolean;
+  error: string | null;
+}
+
+const STATUS_STYLES: Record<LQ21GitHubDeployment['status'], string> = {
+  pending: 'bg-gray-500/20 text-gray-300',
+  building: 'bg-blue-500/20 text-blue-300',
+  success: 'bg-green-500/20 text-green-300',
+  failed: 'bg-red-500/20 text-red-300',
+  cancelled: 'bg-yellow-500/20 text-yellow-300',
+};
+
+const TRIGGER_LABELS: Record<LQ21GitHubDeployment['trigger'], string> = {
+  publish: 'Full publish',
+  'chapter-update': 'Chapter update',
+  preview: 'Draft preview',
+};
+
+const formatDuration = (deployment: LQ21GitHubDeployment): string | null => {
+  if (!deployment.completed_at) return null;
+  const seconds = Math.round(
+    (new Date(deployment.completed_at).getTime() - new Date(deployment.started_at).getTime()) / 1000
+  );
+  if (seconds < 0) return null;
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+export function DeploymentHistory({ deployments, loading, error }: DeploymentHistoryProps) {
+  const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl border border-gray-700/50 p-6">
+      <h2 className="text-lg font-semibold text-white flex items-center gap-2 mb-4">
+        <Rocket className="h-5 w-5 text-purple-400" />
+        Deployments
+      </h2>
+
+      {loading && deployments.length === 0 ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-purple-400" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-400">{error}</p>
+      ) : deployments.length === 0 ? (
+        <p className="text-sm text-gray-400">No deployments yet. Publish the book to GitHub to start one.</p>
+      ) : (
+        <ul className="divide-y divide-gray-700/50">
+          {deployments.map(deployment => {
+            const duration = formatDuration(deployment);
+            const isExpanded = expandedLogId === deployment.id;
+
+            return (
+              <li key={deployment.id} className="py-3">
+                <div className="flex items-center gap-3 flex-wrap text-sm">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[deployment.status]}`}>
+                    {(deployment.status === 'pending' || deployment.status === 'building') && (
+                      <Loader2 className="inline h-3 w-3 mr-1 animate-spin" />
+                    )}
+                    {deployment.status}
+                  </span>
+                  <span className="text-gray-300">{TRIGGER_LABELS[deployment.trigger]}</span>
+                  {deployment.commit_sha && (
+                    <a
+                      href={`${deployment.github_repo_url}/commit/${deployment.commit_sha}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 font-mono text-xs text-gray-400 hover:text-white"
+                    >
+                      <GitCommit className="h-3 w-3" />
+                      {deployment.commit_sha.slice(0, 7)}
+                    </a>
+                  )}
+                  <span className="text-gray-500 text-xs">
+                    {new Date(deployment.started_at).toLocaleString()}
+                    {duration && ` · ${duration}`}
+                  </span>
+                  <div className="ml-auto flex items-center gap-3 text-xs">
+                    {deployment.workflow_run_url && (
+                      <a
+                        href={deployment.workflow_run_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-purple-400 hover:text-purple-300"
+                      >
+                        Workflow run
+                      </a>
+                    )}
+                    {deployment.status === 'success' && deployment.deployed_url && (
+                      <a
+                        href={deployment.deployed_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-green-400 hover:text-green-300"
+                      >
+                        <ExternalLink className="h-3 w-3" />
+                        Site
+                      </a>
+                    )}
+                  </div>
+                </div>
+
+                {deployment.error_message && (
+                  <p className="mt-1.5 text-xs text-red-300">{deployment.error_message}</p>
+                )}
+
+                {deployment.build_logs && (
+                  <div className="mt-2">
+                    <button
+                      onClick={() => setExpandedLogId(isExpanded ? null : deployment.id)}
+                      className="flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+                    >
+                      {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                      Build log excerpt
+                    </button>
+                    {isExpanded && (
+                      <pre className="mt-2 max-h-80 overflow-auto p-3 bg-gray-900 border border-gray-700 rounded-lg text-xs text-gray-300 whitespace-pre-wrap">
+                        {deployment.build_logs}
+                      </pre>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
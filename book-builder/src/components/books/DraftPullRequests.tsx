@@ -0,0 +1,165 @@
+'use client';
+
+import { AlertCircle, ExternalLink, GitMerge, GitPullRequest, Loader2, X } from 'lucide-react';
+import type { DraftPullRequest } from '@/lib/githubPullRequests';
+import { GitHubPublishMode } from '@/types';
+
+interface DraftPullRequestsProps {
+  publishMode: GitHubPublishMode;
+  onPublishModeChange: (mode: GitHubPublishMode) => void;
+  pullRequests: DraftPullRequest[];
+  loading: boolean;
+  error: string | null;
+  busyNumber: number | null;
+  /** Team members who can't write the book only see the drafts */
+  readOnly?: boolean;
+  /** Why merging into the live book isn't allowed yet, if it isn't */
+  mergeBlockedReason?: string | null;
+  onMerge: (number: number) => void;
+  onClose: (number: number) => void;
+}
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${delta.toLocaleString()}`;
+
+export function DraftPullRequests({
+  publishMode,
+  onPublishModeChange,
+  pullRequests,
+  loading,
+  error,
+  busyNumber,
+  readOnly = false,
+  mergeBlockedReason = null,
+  onMerge,
+  onClose,
+}: DraftPullRequestsProps) {
+  const reviewMode = publishMode === 'pull-request';
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl border border-gray-700/50 p-6">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <GitPullRequest className="h-5 w-5 text-purple-400" />
+          Drafts
+        </h2>
+        {!readOnly && (
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={reviewMode}
+              onChange={(e) => onPublishModeChange(e.target.checked ? 'pull-request' : 'direct')}
+              className="h-4 w-4 rounded border-gray-600 bg-gray-700 text-purple-600 focus:ring-purple-500"
+            />
+            Review changes in pull requests
+          </label>
+        )}
+      </div>
+
+      {!reviewMode ? (
+        <p className="text-sm text-gray-400">
+          Saves and publishes go straight to the live book. Turn on reviews to save to draft branches instead,
+          each with a pull request and a preview site.
+        </p>
+      ) : (
+        <>
+          {error && (
+            <p className="mb-3 text-sm text-red-400 flex items-center gap-2">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              {error}
+            </p>
+          )}
+
+          {loading && pullRequests.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-purple-400" />
+            </div>
+          ) : pullRequests.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              No open drafts. Saved chapters will appear here for review before they go live.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-700/50">
+              {pullRequests.map(pr => {
+                const isBusy = busyNumber === pr.number;
+
+                return (
+                  <li key={pr.number} className="py-3">
+                    <div className="flex items-center gap-3 flex-wrap text-sm">
+                      <a
+                        href={pr.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-white font-medium hover:text-purple-300"
+                      >
+                        #{pr.number} {pr.title}
+                      </a>
+                      <span className="font-mono text-xs text-gray-400">{pr.branch}</span>
+                      {pr.mergeable === false && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-500/20 text-red-300">
+                          conflicts
+                        </span>
+                      )}
+                      <div className="ml-auto flex items-center gap-3 text-xs">
+                        <a
+                          href={pr.previewUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-1 text-green-400 hover:text-green-300"
+                        >
+                          <ExternalLink className="h-3 w-3" />
+                          Preview
+                        </a>
+                        {!readOnly && (
+                          <>
+                            <button
+                              onClick={() => onClose(pr.number)}
+                              disabled={busyNumber !== null}
+                              className="flex items-center gap-1 text-gray-400 hover:text-white disabled:opacity-50"
+                            >
+                              <X className="h-3 w-3" />
+                              Discard
+                            </button>
+                            <button
+                              onClick={() => onMerge(pr.number)}
+                              disabled={busyNumber !== null || pr.mergeable === false || !!mergeBlockedReason}
+                              title={mergeBlockedReason ?? undefined}
+                              className="flex items-center gap-1 px-3 py-1 bg-purple-600 hover:bg-purple-700 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              {isBusy ? <Loader2 className="h-3 w-3 animate-spin" /> : <GitMerge className="h-3 w-3" />}
+                              Merge &amp; publish
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+
+                    {pr.changes.length > 0 && (
+                      <ul className="mt-2 space-y-0.5 text-xs">
+                        {pr.changes.map(change => (
+                          <li key={change.path} className="flex items-center gap-3 text-gray-400">
+                            <span className="text-gray-300">{change.title}</span>
+                            <span className="text-gray-500">{change.status}</span>
+                            <span className="ml-auto">
+                              {change.wordsBefore.toLocaleString()} → {change.wordsAfter.toLocaleString()} words
+                            </span>
+                            <span
+                              className={`w-16 text-right ${
+                                change.wordsAfter >= change.wordsBefore ? 'text-green-400' : 'text-red-400'
+                              }`}
+                            >
+                              {formatDelta(change.wordsAfter - change.wordsBefore)}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, FileArchive, Github, Loader2, Upload, X } from 'lucide-react';
+
+interface ImportBookModalProps {
+  // Team library to import into; personal library when null
+  organizationId?: string | null;
+  onImported: (bookId: string) => void;
+  onClose: () => void;
+}
+
+type ImportSource = 'github' | 'zip';
+
+interface ImportResult {
+  bookId: string;
+  title: string;
+  chapterCount: number;
+  warnings: string[];
+}
+
+const FORMAT_HINT = 'MyST (myst.yml) or Jupyter Book (_toc.yml / _config.yml) projects, including notebooks';
+
+export function ImportBookModal({ organizationId = null, onImported, onClose }: ImportBookModalProps) {
+  const [source, setSource] = useState<ImportSource>('github');
+  const [repoUrl, setRepoUrl] = useState('');
+  const [zipFile, setZipFile] = useState<File | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [existingBookId, setExistingBookId] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const canSubmit = source === 'github' ? repoUrl.trim().length > 0 : zipFile !== null;
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+    setExistingBookId(null);
+
+    try {
+      let response: Response;
+
+      if (source === 'github') {
+        // Same token the wizard saved, for private repositories
+        const storedConfig = localStorage.getItem('bookBuilderConfig');
+        const token = storedConfig ? JSON.parse(storedConfig).github?.token : undefined;
+
+        response = await fetch('/api/import', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ repoUrl: repoUrl.trim(), token, organizationId }),
+        });
+      } else {
+        const form = new FormData();
+        form.append('file', zipFile!);
+        if (organizationId) form.append('organizationId', organizationId);
+        response = await fetch('/api/import', { method: 'POST', body: form });
+      }
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (response.status === 409 && data.bookId) setExistingBookId(data.bookId);
+        throw new Error(data.error || 'Import failed');
+      }
+
+      if (data.warnings?.length) {
+        setResult(data);
+      } else {
+        onImported(data.bookId);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl border border-gray-700 p-6 max-w-lg w-full">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Upload className="h-5 w-5 text-purple-400" />
+            Import Book
+          </h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {result ? (
+          <div className="space-y-4">
+            <p className="text-gray-300">
+              Imported <span className="font-medium text-white">{result.title}</span> with{' '}
+              {result.chapterCount} chapter{result.chapterCount === 1 ? '' : 's'}.
+            </p>
+            <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+              <p className="flex items-center gap-2 text-sm font-medium text-yellow-300 mb-2">
+                <AlertTriangle className="h-4 w-4" />
+                Review before publishing
+              </p>
+              <ul className="list-disc list-inside space-y-1 text-xs text-yellow-200">
+                {result.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+            <div className="flex justify-end">
+              <button
+                onClick={() => onImported(result.bookId)}
+                className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors"
+              >
+                Open book
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              {([
+                ['github', 'GitHub repository', Github],
+                ['zip', 'ZIP upload', FileArchive],
+              ] as const).map(([id, label, Icon]) => (
+                <button
+                  key={id}
+                  onClick={() => setSource(id)}
+                  className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors ${
+                    source === id
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  <Icon className="h-4 w-4" />
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {source === 'github' ? (
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Repository</label>
+                <input
+                  type="text"
+                  value={repoUrl}
+                  onChange={(e) => setRepoUrl(e.target.value)}
+                  placeholder="https://github.com/owner/repo or owner/repo"
+                  className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-purple-500"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  The book is linked to the repository, so edits push back to it.
+                </p>
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Project ZIP</label>
+                <input
+                  type="file"
+                  accept=".zip,application/zip"
+                  onChange={(e) => setZipFile(e.target.files?.[0] || null)}
+                  className="w-full text-sm text-gray-300 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600"
+                />
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500">{FORMAT_HINT}</p>
+
+            {error && (
+              <div className="text-sm text-red-400">
+                {error}
+                {existingBookId && (
+                  <button
+                    onClick={() => onImported(existingBookId)}
+                    className="ml-2 underline hover:no-underline"
+                  >
+                    Open it
+                  </button>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={!canSubmit || isImporting}
+                className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+              >
+                {isImporting && <Loader2 className="h-4 w-4 animate-spin" />}
+                Import
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,416 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Check, Loader2, MessageSquare, PenLine, RotateCcw, Trash2, X } from 'lucide-react';
+import { useAuth } from '@/lib/supabase/auth-context';
+import { useChapterComments } from '@/lib/supabase/hooks/useChapterComments';
+import { LQ21ChapterComment } from '@/lib/supabase/types';
+import {
+  createAnchor,
+  diffToChanges,
+  replaceRange,
+  resolveAnchor,
+  type TextAnchor,
+  type TextRange,
+} from '@/lib/reviewAnchors';
+
+interface ChapterReviewPanelProps {
+  bookId: string;
+  chapterKey: string;
+  // The chapter as the editor shows it; comments are anchored against this
+  content: string;
+  // What's selected in the editor, to comment on or suggest a change to
+  selection: TextRange | null;
+  canComment: boolean;
+  // Writers accept, reject and resolve everyone's comments; others only their own
+  canSettle: boolean;
+  onAcceptSuggestion: (content: string) => void;
+  // Suggestion mode: an edited copy of the chapter that becomes suggestions when sent
+  suggestionDraft?: string | null;
+  onSuggestionDraftChange?: (draft: string | null) => void;
+  // Where the open comments are in the content now, to highlight them
+  onRangesChange?: (ranges: TextRange[]) => void;
+  onFocusRange?: (range: TextRange) => void;
+  // Comments were added or settled, e.g. to refresh counts elsewhere
+  onCommentsChange?: () => void;
+}
+
+type ComposerMode = 'comment' | 'suggest';
+
+const STATUS_LABELS: Record<LQ21ChapterComment['status'], string> = {
+  open: 'Open',
+  resolved: 'Resolved',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+};
+
+const STATUS_STYLES: Record<LQ21ChapterComment['status'], string> = {
+  open: 'bg-amber-100 text-amber-700 dark:bg-amber-500/20 dark:text-amber-300',
+  resolved: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  accepted: 'bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-300',
+  rejected: 'bg-red-100 text-red-700 dark:bg-red-500/20 dark:text-red-300',
+};
+
+const anchorOf = (comment: LQ21ChapterComment): TextAnchor => ({
+  start: comment.anchor_start,
+  end: comment.anchor_end,
+  quote: comment.quote,
+  prefix: comment.prefix,
+  suffix: comment.suffix,
+});
+
+const truncate = (text: string, length = 120) =>
+  text.length > length ? `${text.slice(0, length)}…` : text;
+
+/**
+ * Comments and suggested edits on a chapter, anchored to the text they're
+ * about. Reviewers propose changes here instead of editing the chapter, and
+ * the author accepts or rejects each one.
+ */
+export function ChapterReviewPanel({
+  bookId,
+  chapterKey,
+  content,
+  selection,
+  canComment,
+  canSettle,
+  onAcceptSuggestion,
+  suggestionDraft = null,
+  onSuggestionDraftChange,
+  onRangesChange,
+  onFocusRange,
+  onCommentsChange,
+}: ChapterReviewPanelProps) {
+  const { user } = useAuth();
+  const {
+    comments,
+    loading,
+    error,
+    addComment,
+    addSuggestions,
+    setStatus,
+    deleteComment,
+    openCount,
+  } = useChapterComments(bookId, chapterKey);
+  const [mode, setMode] = useState<ComposerMode>('comment');
+  const [body, setBody] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [showSettled, setShowSettled] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  // Re-find every comment's text in the current content
+  const anchored = useMemo(
+    () => comments.map(comment => ({ comment, range: resolveAnchor(content, anchorOf(comment)) })),
+    [comments, content]
+  );
+
+  const openRanges = anchored
+    .filter(({ comment, range }) => comment.status === 'open' && range)
+    .map(({ range }) => range!);
+  const rangesKey = openRanges.map(range => `${range.start}-${range.end}`).join(',');
+  useEffect(() => {
+    onRangesChange?.(openRanges);
+    // Only when the ranges themselves change
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rangesKey]);
+
+  const draftChanges = useMemo(
+    () => (suggestionDraft === null ? [] : diffToChanges(content, suggestionDraft)),
+    [content, suggestionDraft]
+  );
+
+  const quote = selection ? content.slice(selection.start, selection.end) : '';
+
+  const run = async (action: () => Promise<boolean>) => {
+    setBusy(true);
+    try {
+      const success = await action();
+      if (success) onCommentsChange?.();
+      return success;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!selection) return;
+    const anchor = createAnchor(content, selection);
+    const success = await run(() =>
+      mode === 'comment'
+        ? addComment(anchor, body)
+        : addSuggestions([{ anchor, text: replacement }], body)
+    );
+    if (success) {
+      setBody('');
+      setReplacement('');
+    }
+  };
+
+  const handleSendDraft = async () => {
+    if (await run(() => addSuggestions(draftChanges, body))) {
+      setBody('');
+      onSuggestionDraftChange?.(null);
+    }
+  };
+
+  const handleAccept = async (comment: LQ21ChapterComment, range: TextRange) => {
+    onAcceptSuggestion(replaceRange(content, range, comment.suggested_text ?? ''));
+    await run(() => setStatus(comment.id, 'accepted'));
+  };
+
+  const visible = anchored.filter(({ comment }) => showSettled || comment.status === 'open');
+
+  return (
+    <div className="flex flex-col min-h-0 h-full border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-sm">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+        <h4 className="font-medium text-gray-900 dark:text-white flex items-center gap-2">
+          <MessageSquare className="h-4 w-4 text-blue-600 dark:text-blue-400" />
+          Review
+          {openCount > 0 && (
+            <span className="px-1.5 py-0.5 rounded-full text-xs bg-amber-100 text-amber-700 dark:bg-amber-500/20 dark:text-amber-300">
+              {openCount} open
+            </span>
+          )}
+        </h4>
+        <label className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+          <input
+            type="checkbox"
+            checked={showSettled}
+            onChange={(e) => setShowSettled(e.target.checked)}
+          />
+          Show settled
+        </label>
+      </div>
+
+      {error && (
+        <div className="m-3 p-2 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-xs text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {canComment && (
+        <div className="p-3 border-b border-gray-200 dark:border-gray-700 space-y-2">
+          {suggestionDraft !== null ? (
+            <>
+              <p className="text-xs text-gray-600 dark:text-gray-300">
+                <strong>Suggesting edits.</strong> Changes you make in the editor are sent as{' '}
+                {draftChanges.length === 1 ? '1 suggestion' : `${draftChanges.length} suggestions`} instead
+                of changing the chapter.
+              </p>
+              <textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                rows={2}
+                placeholder="Why these changes? (optional)"
+                className="w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+              />
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => onSuggestionDraftChange?.(null)}
+                  className="px-3 py-1 text-xs text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                >
+                  Discard
+                </button>
+                <button
+                  onClick={handleSendDraft}
+                  disabled={busy || draftChanges.length === 0}
+                  className="flex items-center gap-1 px-3 py-1 text-xs bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-50"
+                >
+                  {busy && <Loader2 className="h-3 w-3 animate-spin" />}
+                  Send suggestions
+                </button>
+              </div>
+            </>
+          ) : selection ? (
+            <>
+              <div className="flex items-center gap-1">
+                {(['comment', 'suggest'] as const).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => {
+                      setMode(option);
+                      if (option === 'suggest' && !replacement) setReplacement(quote);
+                    }}
+                    className={`px-2 py-1 text-xs rounded ${
+                      mode === option
+                        ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                        : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {option === 'comment' ? 'Comment' : 'Suggest change'}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 italic truncate">
+                {quote ? `“${truncate(quote, 80)}”` : 'At the cursor'}
+              </p>
+              {mode === 'suggest' && (
+                <textarea
+                  value={replacement}
+                  onChange={(e) => setReplacement(e.target.value)}
+                  rows={3}
+                  placeholder="Replace with..."
+                  className="w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-xs"
+                />
+              )}
+              <textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                rows={2}
+                placeholder={mode === 'comment' ? 'Add a comment...' : 'Why? (optional)'}
+                className="w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+              />
+              <div className="flex justify-end">
+                <button
+                  onClick={handleSubmit}
+                  disabled={busy || (mode === 'comment' ? !body.trim() : replacement === quote)}
+                  className="flex items-center gap-1 px-3 py-1 text-xs bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-50"
+                >
+                  {busy && <Loader2 className="h-3 w-3 animate-spin" />}
+                  {mode === 'comment' ? 'Comment' : 'Suggest'}
+                </button>
+              </div>
+            </>
+          ) : (
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Select text in the editor to comment on it or suggest a change.
+              </p>
+              {onSuggestionDraftChange && (
+                <button
+                  onClick={() => onSuggestionDraftChange(content)}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded whitespace-nowrap"
+                  title="Edit a copy of the chapter and send the changes as suggestions"
+                >
+                  <PenLine className="h-3 w-3" />
+                  Suggest edits
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-blue-500" />
+          </div>
+        ) : visible.length === 0 ? (
+          <p className="p-4 text-center text-xs text-gray-500 dark:text-gray-400">
+            {comments.length === 0 ? 'No comments yet.' : 'No open comments.'}
+          </p>
+        ) : (
+          visible.map(({ comment, range }) => {
+            const isOwn = comment.user_id === user?.id;
+            const isOpen = comment.status === 'open';
+
+            return (
+              <div
+                key={comment.id}
+                onClick={() => range && onFocusRange?.(range)}
+                className={`p-3 border-b border-gray-100 dark:border-gray-700/50 ${
+                  range && onFocusRange ? 'cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50' : ''
+                } ${isOpen ? '' : 'opacity-70'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs font-medium text-gray-900 dark:text-white truncate">
+                    {comment.author_name || 'Unknown reviewer'}
+                  </span>
+                  <span className={`px-1.5 py-0.5 rounded-full text-[10px] ${STATUS_STYLES[comment.status]}`}>
+                    {comment.kind === 'suggestion' && isOpen ? 'Suggestion' : STATUS_LABELS[comment.status]}
+                  </span>
+                </div>
+                <p className="text-[11px] text-gray-500 dark:text-gray-400">
+                  {new Date(comment.created_at).toLocaleString()}
+                </p>
+
+                {comment.kind === 'suggestion' ? (
+                  <div className="mt-1.5 font-mono text-xs whitespace-pre-wrap break-words">
+                    {comment.quote && (
+                      <span className="bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 line-through">
+                        {truncate(comment.quote)}
+                      </span>
+                    )}
+                    {comment.suggested_text && (
+                      <span className="bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-300">
+                        {truncate(comment.suggested_text)}
+                      </span>
+                    )}
+                  </div>
+                ) : comment.quote ? (
+                  <p className="mt-1.5 text-xs text-gray-500 dark:text-gray-400 italic border-l-2 border-amber-400 pl-2">
+                    {truncate(comment.quote)}
+                  </p>
+                ) : null}
+
+                {comment.body && (
+                  <p className="mt-1.5 text-gray-800 dark:text-gray-200 whitespace-pre-wrap">{comment.body}</p>
+                )}
+
+                {isOpen && !range && (
+                  <p className="mt-1.5 text-xs text-amber-600 dark:text-amber-400">
+                    The text this refers to has changed.
+                  </p>
+                )}
+
+                <div className="mt-2 flex items-center gap-3 text-xs" onClick={(e) => e.stopPropagation()}>
+                  {isOpen && comment.kind === 'suggestion' && canSettle && (
+                    <>
+                      <button
+                        onClick={() => range && handleAccept(comment, range)}
+                        disabled={busy || !range}
+                        className="flex items-center gap-1 text-green-600 dark:text-green-400 hover:underline disabled:opacity-50"
+                      >
+                        <Check className="h-3 w-3" />
+                        Accept
+                      </button>
+                      <button
+                        onClick={() => run(() => setStatus(comment.id, 'rejected'))}
+                        disabled={busy}
+                        className="flex items-center gap-1 text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                      >
+                        <X className="h-3 w-3" />
+                        Reject
+                      </button>
+                    </>
+                  )}
+                  {isOpen && comment.kind === 'comment' && (canSettle || isOwn) && (
+                    <button
+                      onClick={() => run(() => setStatus(comment.id, 'resolved'))}
+                      disabled={busy}
+                      className="flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                    >
+                      <Check className="h-3 w-3" />
+                      Resolve
+                    </button>
+                  )}
+                  {!isOpen && comment.kind === 'comment' && (canSettle || isOwn) && (
+                    <button
+                      onClick={() => run(() => setStatus(comment.id, 'open'))}
+                      disabled={busy}
+                      className="flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                      Reopen
+                    </button>
+                  )}
+                  {isOwn && (
+                    <button
+                      onClick={() => run(() => deleteComment(comment.id))}
+                      disabled={busy}
+                      title={comment.kind === 'suggestion' && isOpen ? 'Withdraw suggestion' : 'Delete comment'}
+                      className="ml-auto p-1 text-gray-400 hover:text-red-500 disabled:opacity-50"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { Fragment, useEffect, useLayoutEffect, useRef } from 'react';
+import type { RemoteCursor } from '@/lib/supabase';
+import type { TextRange } from '@/lib/reviewAnchors';
+
+interface CollaborativeTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Local caret, reported whenever it moves
+  onCursor: (position: number) => void;
+  cursors: RemoteCursor[];
+  // Ranges with review comments on them
+  highlights?: TextRange[];
+  onSelectionChange?: (range: TextRange) => void;
+  // Set to select a range, e.g. the text a clicked comment is about
+  selectRange?: TextRange | null;
+  readOnly?: boolean;
+  placeholder?: string;
+  className?: string;
+}
+
+// Shared by the textarea and the overlay so remote carets line up with the text
+const TEXT_CLASSES = 'px-4 py-3 border font-mono text-sm whitespace-pre-wrap break-words';
+
+/**
+ * Where a caret ends up after the text around it changed: before the edited
+ * span it stays put, after it moves by the change in length, inside it it
+ * goes to the end of the new text
+ */
+function shiftPosition(position: number, oldValue: string, newValue: string) {
+  let start = 0;
+  while (start < oldValue.length && start < newValue.length && oldValue[start] === newValue[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < oldValue.length - start &&
+    end < newValue.length - start &&
+    oldValue[oldValue.length - 1 - end] === newValue[newValue.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  if (position <= start) return position;
+  if (position >= oldValue.length - end) return position + newValue.length - oldValue.length;
+  return newValue.length - end;
+}
+
+/**
+ * Raw MyST textarea for a chapter other people may be editing at the same
+ * time. Their carets and any commented ranges are drawn over the text, and
+ * edits arriving from them don't move ours.
+ */
+export function CollaborativeTextarea({
+  value,
+  onChange,
+  onCursor,
+  cursors,
+  highlights = [],
+  onSelectionChange,
+  selectRange,
+  readOnly,
+  placeholder,
+  className = '',
+}: CollaborativeTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  // The value the textarea last showed, to tell remote changes from typing
+  const lastValueRef = useRef(value);
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    const previous = lastValueRef.current;
+    lastValueRef.current = value;
+    if (!textarea || previous === value || document.activeElement !== textarea) return;
+
+    const { selectionStart, selectionEnd } = textarea;
+    textarea.setSelectionRange(
+      shiftPosition(selectionStart, previous, value),
+      shiftPosition(selectionEnd, previous, value)
+    );
+  }, [value]);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || !selectRange) return;
+    textarea.focus();
+    textarea.setSelectionRange(selectRange.start, selectRange.end);
+  }, [selectRange]);
+
+  const reportCursor = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    onCursor(textarea.selectionStart);
+    onSelectionChange?.({ start: textarea.selectionStart, end: textarea.selectionEnd });
+  };
+
+  const syncScroll = () => {
+    if (overlayRef.current && textareaRef.current) {
+      overlayRef.current.scrollTop = textareaRef.current.scrollTop;
+    }
+  };
+
+  // The overlay comes and goes with the cursors, so catch it up when it appears
+  useLayoutEffect(syncScroll);
+
+  // Split the text wherever a caret sits or a highlight starts or ends
+  const boundaries = [
+    ...new Set([
+      0,
+      value.length,
+      ...cursors.map(cursor => cursor.position),
+      ...highlights.flatMap(range => [range.start, range.end]),
+    ]),
+  ]
+    .filter(position => position >= 0 && position <= value.length)
+    .sort((a, b) => a - b);
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          lastValueRef.current = e.target.value;
+          onChange(e.target.value);
+        }}
+        onSelect={reportCursor}
+        onKeyUp={reportCursor}
+        onScroll={syncScroll}
+        readOnly={readOnly}
+        placeholder={placeholder}
+        className={`${TEXT_CLASSES} ${className}`}
+      />
+      {(cursors.length > 0 || highlights.length > 0) && (
+        <div
+          ref={overlayRef}
+          aria-hidden
+          className={`${TEXT_CLASSES} absolute inset-0 border-transparent text-transparent overflow-hidden pointer-events-none`}
+        >
+          {boundaries.map((position, i) => {
+            const end = boundaries[i + 1] ?? position;
+            const highlighted = highlights.some(range => range.start <= position && end <= range.end && position < end);
+            return (
+              <Fragment key={position}>
+                {cursors.filter(cursor => cursor.position === position).map(cursor => (
+                  <span key={cursor.client} className="relative border-l-2 -ml-px" style={{ borderColor: cursor.color }}>
+                    <span
+                      className="absolute bottom-full left-0 px-1 rounded text-[10px] leading-4 text-white whitespace-nowrap font-sans"
+                      style={{ backgroundColor: cursor.color }}
+                    >
+                      {cursor.name}
+                    </span>
+                  </span>
+                ))}
+                {highlighted ? (
+                  <mark className="bg-amber-400/25 text-transparent rounded-sm">{value.slice(position, end)}</mark>
+                ) : (
+                  value.slice(position, end)
+                )}
+              </Fragment>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import type { Collaborator } from '@/lib/supabase';
+
+interface CollaboratorAvatarsProps {
+  collaborators: Collaborator[];
+  // Beyond this many, the rest are summed up as "+n"
+  max?: number;
+}
+
+const initials = (name: string) =>
+  name
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('');
+
+/**
+ * Overlapping initials of the people viewing a book or chapter, in the colour
+ * of their cursor. Someone with the book open in two tabs appears once.
+ */
+export function CollaboratorAvatars({ collaborators, max = 4 }: CollaboratorAvatarsProps) {
+  const people = collaborators.filter(
+    (collaborator, i) => collaborators.findIndex(c => c.userId === collaborator.userId) === i
+  );
+  if (people.length === 0) return null;
+
+  const hidden = people.length - max;
+
+  return (
+    <div className="flex items-center -space-x-2">
+      {people.slice(0, max).map(person => (
+        <span
+          key={person.userId}
+          title={person.name}
+          className="flex items-center justify-center h-7 w-7 rounded-full border-2 border-gray-900 text-[11px] font-semibold text-white"
+          style={{ backgroundColor: person.color }}
+        >
+          {initials(person.name)}
+        </span>
+      ))}
+      {hidden > 0 && (
+        <span
+          title={people.slice(max).map(person => person.name).join(', ')}
+          className="flex items-center justify-center h-7 w-7 rounded-full border-2 border-gray-900 bg-gray-700 text-[11px] font-semibold text-gray-300"
+        >
+          +{hidden}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Check, ListChecks, Sparkles, X } from 'lucide-react';
+import { applyTransformations, type AppliedTransformation } from '@/lib/formatters';
+
+interface FormattingReviewModalProps {
+  // The text the transformations were made against
+  original: string;
+  transformations: AppliedTransformation[];
+  onApply: (content: string, accepted: AppliedTransformation[]) => void;
+  onClose: () => void;
+}
+
+// Unchanged stretches longer than this are collapsed to their first and last lines
+const CONTEXT_LINES = 3;
+
+const TYPE_LABELS: Record<AppliedTransformation['type'], string> = {
+  admonition: 'Admonitions',
+  'code-language': 'Code languages',
+  'code-block': 'Code blocks',
+  list: 'Lists',
+  quote: 'Quotes',
+  heading: 'Headings',
+  directive: 'Directives',
+  label: 'Labels',
+  'tab-set': 'Tab sets',
+};
+
+type Chunk =
+  | { kind: 'stable'; lines: string[] }
+  | { kind: 'hunk'; index: number; transformation: AppliedTransformation };
+
+/**
+ * Review of a formatting run, one hunk per transformation over the original
+ * text. Only the accepted hunks are applied, so the result is the original
+ * with exactly those changes.
+ */
+export function FormattingReviewModal({ original, transformations, onApply, onClose }: FormattingReviewModalProps) {
+  const [accepted, setAccepted] = useState<boolean[]>(() => transformations.map(() => true));
+
+  const chunks = useMemo(() => {
+    const lines = original.split('\n');
+    const result: Chunk[] = [];
+    let nextLine = 0;
+    transformations
+      .map((transformation, index) => ({ transformation, index }))
+      .sort((a, b) => a.transformation.startLine - b.transformation.startLine)
+      .forEach(({ transformation, index }) => {
+        if (transformation.startLine > nextLine) {
+          result.push({ kind: 'stable', lines: lines.slice(nextLine, transformation.startLine) });
+        }
+        result.push({ kind: 'hunk', index, transformation });
+        nextLine = Math.max(nextLine, transformation.endLine + 1);
+      });
+    if (nextLine < lines.length) result.push({ kind: 'stable', lines: lines.slice(nextLine) });
+    return result;
+  }, [original, transformations]);
+
+  const types = useMemo(
+    () => Array.from(new Set(transformations.map(t => t.type))),
+    [transformations]
+  );
+
+  const acceptedCount = accepted.filter(Boolean).length;
+
+  const setOne = (index: number, value: boolean) => {
+    setAccepted(prev => prev.map((a, i) => (i === index ? value : a)));
+  };
+
+  const setType = (type: AppliedTransformation['type'], value: boolean) => {
+    setAccepted(prev => prev.map((a, i) => (transformations[i].type === type ? value : a)));
+  };
+
+  const handleApply = () => {
+    const chosen = transformations.filter((_, i) => accepted[i]);
+    // Nothing accepted leaves the chapter exactly as it was
+    if (chosen.length === 0) {
+      onClose();
+      return;
+    }
+    onApply(applyTransformations(original, chosen), chosen);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-6xl w-full h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+              <ListChecks className="h-5 w-5 text-blue-600" />
+              Review Formatting
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
+              {acceptedCount} of {transformations.length} change{transformations.length === 1 ? '' : 's'} accepted.
+              Rejected changes leave the original text as it was.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-500 dark:text-gray-400"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-gray-200 dark:border-gray-700 text-sm">
+          {types.map(type => {
+            const ofType = transformations.filter(t => t.type === type).length;
+            const acceptedOfType = transformations.filter((t, i) => t.type === type && accepted[i]).length;
+            return (
+              <div key={type} className="flex items-center gap-1 px-2 py-1 rounded-lg bg-gray-100 dark:bg-gray-700">
+                <span className="text-gray-700 dark:text-gray-200">
+                  {TYPE_LABELS[type]} ({acceptedOfType}/{ofType})
+                </span>
+                <button
+                  onClick={() => setType(type, true)}
+                  className="px-2 py-0.5 rounded text-xs text-green-700 dark:text-green-400 hover:bg-gray-200 dark:hover:bg-gray-600"
+                >
+                  Accept all
+                </button>
+                <button
+                  onClick={() => setType(type, false)}
+                  className="px-2 py-0.5 rounded text-xs text-red-700 dark:text-red-400 hover:bg-gray-200 dark:hover:bg-gray-600"
+                >
+                  Reject all
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-3">
+          {chunks.map((chunk, chunkIndex) => {
+            if (chunk.kind === 'stable') {
+              const collapsed = chunk.lines.length > CONTEXT_LINES * 2 + 1;
+              const lines = collapsed
+                ? [...chunk.lines.slice(0, CONTEXT_LINES), null, ...chunk.lines.slice(-CONTEXT_LINES)]
+                : chunk.lines;
+              return (
+                <pre
+                  key={chunkIndex}
+                  className="px-3 font-mono text-xs whitespace-pre-wrap break-words text-gray-500 dark:text-gray-400"
+                >
+                  {lines.map((line, i) =>
+                    line === null
+                      ? <div key={i} className="italic my-1">… {chunk.lines.length - CONTEXT_LINES * 2} unchanged lines …</div>
+                      : <div key={i}>{line || ' '}</div>
+                  )}
+                </pre>
+              );
+            }
+
+            const { index, transformation } = chunk;
+            const isAccepted = accepted[index];
+            return (
+              <div
+                key={chunkIndex}
+                className={`border rounded-lg overflow-hidden ${
+                  isAccepted ? 'border-green-300 dark:border-green-700' : 'border-gray-200 dark:border-gray-700'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-3 px-3 py-2 bg-gray-50 dark:bg-gray-900/40">
+                  <div className="min-w-0">
+                    <span className="text-sm font-medium text-gray-800 dark:text-gray-200 flex items-center gap-2">
+                      {transformation.description}
+                      {transformation.source === 'ai' && (
+                        <span className="flex items-center gap-1 px-1.5 py-0.5 text-xs rounded bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300">
+                          <Sparkles className="h-3 w-3" />
+                          AI
+                        </span>
+                      )}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      Line{transformation.endLine > transformation.startLine
+                        ? `s ${transformation.startLine + 1}–${transformation.endLine + 1}`
+                        : ` ${transformation.startLine + 1}`}
+                    </span>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <button
+                      onClick={() => setOne(index, true)}
+                      className={`flex items-center gap-1 px-2 py-1 rounded text-xs transition-colors ${
+                        isAccepted
+                          ? 'bg-green-600 text-white'
+                          : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600'
+                      }`}
+                    >
+                      <Check className="h-3 w-3" />
+                      Accept
+                    </button>
+                    <button
+                      onClick={() => setOne(index, false)}
+                      className={`flex items-center gap-1 px-2 py-1 rounded text-xs transition-colors ${
+                        !isAccepted
+                          ? 'bg-red-600 text-white'
+                          : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600'
+                      }`}
+                    >
+                      <X className="h-3 w-3" />
+                      Reject
+                    </button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 border-t border-gray-200 dark:border-gray-700">
+                  <div className={isAccepted ? 'opacity-40' : ''}>
+                    <div className="px-3 pt-1 text-xs text-gray-500 dark:text-gray-400">Original</div>
+                    <pre className="px-3 py-2 font-mono text-xs whitespace-pre-wrap break-words text-gray-800 dark:text-gray-200 bg-red-50 dark:bg-red-900/20">
+                      {transformation.originalContent}
+                    </pre>
+                  </div>
+                  <div className={`border-l border-gray-200 dark:border-gray-700 ${isAccepted ? '' : 'opacity-40'}`}>
+                    <div className="px-3 pt-1 text-xs text-gray-500 dark:text-gray-400">Formatted</div>
+                    <pre className="px-3 py-2 font-mono text-xs whitespace-pre-wrap break-words text-gray-800 dark:text-gray-200 bg-green-50 dark:bg-green-900/20">
+                      {transformation.transformedContent}
+                    </pre>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            Apply {acceptedCount} change{acceptedCount === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { useState } from 'react';
+import { GitMerge, Loader2, X } from 'lucide-react';
+import { applyResolutions, type ConflictResolution, type MergeResult } from '@/lib/textMerge';
+
+interface MergeConflictModalProps {
+  chapterTitle: string;
+  merge: MergeResult;
+  onResolve: (content: string) => void | Promise<void>;
+  onClose: () => void;
+}
+
+// Unchanged stretches longer than this are collapsed to their first and last lines
+const CONTEXT_LINES = 3;
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  local: 'Keep library',
+  remote: 'Keep GitHub',
+  both: 'Keep both',
+};
+
+function LinesBlock({ lines, className }: { lines: string[]; className: string }) {
+  return (
+    <pre className={`px-3 py-2 font-mono text-xs whitespace-pre-wrap break-words min-h-[2rem] ${className}`}>
+      {lines.length > 0 ? lines.join('\n') : <span className="italic opacity-60">(removed)</span>}
+    </pre>
+  );
+}
+
+/**
+ * Three-way merge of a chapter edited both in the library and on GitHub.
+ * Lines only one side changed are already merged; each conflict is resolved
+ * by keeping the library version, the GitHub version or both.
+ */
+export function MergeConflictModal({ chapterTitle, merge, onResolve, onClose }: MergeConflictModalProps) {
+  const [resolutions, setResolutions] = useState<(ConflictResolution | null)[]>(
+    () => Array(merge.conflicts).fill(null)
+  );
+  const [showBase, setShowBase] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const resolvedCount = resolutions.filter(Boolean).length;
+  const hasBase = merge.chunks.some(chunk => chunk.type === 'conflict' && chunk.base.length > 0);
+
+  const setResolution = (index: number, resolution: ConflictResolution) => {
+    setResolutions(prev => prev.map((r, i) => (i === index ? resolution : r)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onResolve(applyResolutions(merge, resolutions as ConflictResolution[]));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Position of each conflict chunk among the conflicts
+  const conflictNumbers = merge.chunks.map((chunk, index) =>
+    merge.chunks.slice(0, index).filter(c => c.type === 'conflict').length
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-6xl w-full h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+              <GitMerge className="h-5 w-5 text-blue-600" />
+              Resolve Conflicts: {chapterTitle}
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
+              This chapter was edited in the library and on GitHub. {resolvedCount} of {merge.conflicts} conflict
+              {merge.conflicts === 1 ? '' : 's'} resolved.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-500 dark:text-gray-400"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-200 dark:border-gray-700 text-sm">
+          <button
+            onClick={() => setResolutions(prev => prev.map(() => 'local'))}
+            className="px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600"
+          >
+            Keep library for all
+          </button>
+          <button
+            onClick={() => setResolutions(prev => prev.map(() => 'remote'))}
+            className="px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600"
+          >
+            Keep GitHub for all
+          </button>
+          {hasBase && (
+            <label className="ml-auto flex items-center gap-2 text-gray-600 dark:text-gray-300">
+              <input type="checkbox" checked={showBase} onChange={(e) => setShowBase(e.target.checked)} />
+              Show last synced version
+            </label>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-3">
+          {merge.chunks.map((chunk, index) => {
+            if (chunk.type === 'stable') {
+              const collapsed = chunk.lines.length > CONTEXT_LINES * 2 + 1;
+              const lines = collapsed
+                ? [...chunk.lines.slice(0, CONTEXT_LINES), null, ...chunk.lines.slice(-CONTEXT_LINES)]
+                : chunk.lines;
+              return (
+                <pre
+                  key={index}
+                  className="px-3 font-mono text-xs whitespace-pre-wrap break-words text-gray-500 dark:text-gray-400"
+                >
+                  {lines.map((line, i) =>
+                    line === null
+                      ? <div key={i} className="italic my-1">… {chunk.lines.length - CONTEXT_LINES * 2} unchanged lines …</div>
+                      : <div key={i}>{line || ' '}</div>
+                  )}
+                </pre>
+              );
+            }
+
+            const current = conflictNumbers[index];
+            const resolution = resolutions[current];
+            return (
+              <div key={index} className="border border-orange-300 dark:border-orange-700 rounded-lg overflow-hidden">
+                <div className="flex items-center justify-between px-3 py-2 bg-orange-50 dark:bg-orange-900/20">
+                  <span className="text-sm font-medium text-orange-800 dark:text-orange-300">
+                    Conflict {current + 1}
+                  </span>
+                  <div className="flex gap-1">
+                    {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => setResolution(current, option)}
+                        className={`px-2 py-1 rounded text-xs transition-colors ${
+                          resolution === option
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600'
+                        }`}
+                      >
+                        {RESOLUTION_LABELS[option]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {showBase && chunk.base.length > 0 && (
+                  <div className="border-t border-orange-200 dark:border-orange-800">
+                    <div className="px-3 pt-1 text-xs text-gray-500 dark:text-gray-400">Last synced</div>
+                    <LinesBlock lines={chunk.base} className="text-gray-600 dark:text-gray-400" />
+                  </div>
+                )}
+                <div className="grid grid-cols-2 border-t border-orange-200 dark:border-orange-800">
+                  <div className={resolution === 'remote' ? 'opacity-40' : ''}>
+                    <div className="px-3 pt-1 text-xs text-gray-500 dark:text-gray-400">Library</div>
+                    <LinesBlock lines={chunk.local} className="text-gray-800 dark:text-gray-200 bg-blue-50 dark:bg-blue-900/20" />
+                  </div>
+                  <div className={`border-l border-orange-200 dark:border-orange-800 ${resolution === 'local' ? 'opacity-40' : ''}`}>
+                    <div className="px-3 pt-1 text-xs text-gray-500 dark:text-gray-400">GitHub</div>
+                    <LinesBlock lines={chunk.remote} className="text-gray-800 dark:text-gray-200 bg-green-50 dark:bg-green-900/20" />
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={resolvedCount < merge.conflicts || isSaving}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Save merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useDeferredValue, useMemo, useState } from 'react';
+import { AlertCircle, AlertTriangle, ChevronDown, ChevronRight, Wrench } from 'lucide-react';
+import { applyFixes, fixAllMyst, lintMyst, type LintDiagnostic } from '@/lib/formatters';
+
+interface MystProblemsPanelProps {
+  // The chapter as MyST; fixes are made against this text
+  content: string;
+  onFix: (content: string) => void;
+}
+
+const RULE_LABELS: Record<LintDiagnostic['rule'], string> = {
+  'missing-braces': 'missing braces',
+  'unclosed-fence': 'unclosed fence',
+  'fence-depth': 'fence depth',
+  'unknown-directive': 'unknown directive',
+  'unknown-role': 'unknown role',
+  'invalid-option': 'invalid option',
+  'duplicate-label': 'duplicate label',
+};
+
+/**
+ * MyST problems in the chapter, with one-click fixes where the fix is safe.
+ * Renders nothing while there are none.
+ */
+export function MystProblemsPanel({ content, onFix }: MystProblemsPanelProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  // Linting parses the whole chapter, so let typing win over it
+  const deferredContent = useDeferredValue(content);
+  const diagnostics = useMemo(() => lintMyst(deferredContent), [deferredContent]);
+  // Fixes are offsets into the text they were found in, so wait until that's current
+  const isStale = deferredContent !== content;
+
+  if (diagnostics.length === 0) return null;
+
+  const errors = diagnostics.filter(d => d.severity === 'error').length;
+  const warnings = diagnostics.length - errors;
+  const fixable = diagnostics.filter(d => d.fix).length;
+
+  return (
+    <div className="mt-2 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm">
+      <div className="flex items-center justify-between gap-2 px-3 py-2">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-2 font-medium text-gray-700 dark:text-gray-300"
+        >
+          {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          Problems
+          {errors > 0 && (
+            <span className="flex items-center gap-1 text-xs text-red-600 dark:text-red-400">
+              <AlertCircle className="h-3.5 w-3.5" />
+              {errors}
+            </span>
+          )}
+          {warnings > 0 && (
+            <span className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+              <AlertTriangle className="h-3.5 w-3.5" />
+              {warnings}
+            </span>
+          )}
+        </button>
+        {fixable > 0 && (
+          <button
+            onClick={() => onFix(fixAllMyst(content).content)}
+            disabled={isStale}
+            className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-900/50 disabled:opacity-50 transition-colors"
+          >
+            <Wrench className="h-3.5 w-3.5" />
+            Fix all ({fixable})
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <ul className="max-h-48 overflow-y-auto border-t border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700">
+          {diagnostics.map((diagnostic, index) => (
+            <li key={`${diagnostic.line}:${diagnostic.column}:${diagnostic.rule}:${index}`} className="flex items-start gap-2 px-3 py-2">
+              {diagnostic.severity === 'error' ? (
+                <AlertCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-500" />
+              ) : (
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-500" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-gray-800 dark:text-gray-200">{diagnostic.message}</p>
+                <p className="text-xs text-gray-500">
+                  Line {diagnostic.line} · {RULE_LABELS[diagnostic.rule]}
+                </p>
+              </div>
+              {diagnostic.fix && (
+                <button
+                  onClick={() => onFix(applyFixes(content, [diagnostic.fix!]).content)}
+                  disabled={isStale}
+                  title={diagnostic.fix.description}
+                  className="shrink-0 px-2 py-0.5 text-xs font-medium rounded text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-blue-900/30 disabled:opacity-50 transition-colors"
+                >
+                  Fix
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
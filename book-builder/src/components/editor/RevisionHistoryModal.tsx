@@ -0,0 +1,227 @@
+'use client';
+
+import { useState, useMemo, useEffect } from 'react';
+import { History, Loader2, RotateCcw, X } from 'lucide-react';
+import { useChapterRevisions } from '@/lib/supabase/hooks/useChapterRevisions';
+import { LQ21ChapterRevision } from '@/lib/supabase/types';
+import { diffLines, summarizeDiff, DiffRow } from '@/lib/textDiff';
+
+interface RevisionHistoryModalProps {
+  bookId?: string | null;
+  chapterKey: string;
+  chapterTitle: string;
+  // Unsaved editor content, offered as a "Current" version to compare against
+  currentContent: string;
+  onRestore: (revision: LQ21ChapterRevision) => void | Promise<void>;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+const SOURCE_LABELS: Record<LQ21ChapterRevision['source'], string> = {
+  manual: 'Manual edit',
+  'ai-generate': 'AI generated',
+  'ai-format': 'AI formatted',
+  remediation: 'Remediation',
+  restore: 'Restored',
+  'github-sync': 'From GitHub',
+};
+
+const SOURCE_STYLES: Record<LQ21ChapterRevision['source'], string> = {
+  manual: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  'ai-generate': 'bg-purple-100 text-purple-700 dark:bg-purple-500/20 dark:text-purple-300',
+  'ai-format': 'bg-blue-100 text-blue-700 dark:bg-blue-500/20 dark:text-blue-300',
+  remediation: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-500/20 dark:text-yellow-300',
+  restore: 'bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-300',
+  'github-sync': 'bg-slate-100 text-slate-700 dark:bg-slate-500/20 dark:text-slate-300',
+};
+
+const ROW_STYLES: Record<DiffRow['type'], { left: string; right: string }> = {
+  equal: { left: '', right: '' },
+  added: { left: 'bg-gray-50 dark:bg-gray-900/40', right: 'bg-green-50 dark:bg-green-900/30' },
+  removed: { left: 'bg-red-50 dark:bg-red-900/30', right: 'bg-gray-50 dark:bg-gray-900/40' },
+  changed: { left: 'bg-red-50 dark:bg-red-900/30', right: 'bg-green-50 dark:bg-green-900/30' },
+};
+
+const revisionLabel = (revision: LQ21ChapterRevision) =>
+  `${new Date(revision.created_at).toLocaleString()} — ${SOURCE_LABELS[revision.source]}`;
+
+export function RevisionHistoryModal({
+  bookId,
+  chapterKey,
+  chapterTitle,
+  currentContent,
+  onRestore,
+  onClose,
+}: RevisionHistoryModalProps) {
+  const { revisions, loading, error } = useChapterRevisions(bookId, chapterKey);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string>(CURRENT);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  // Default to comparing the latest saved revision with the editor
+  useEffect(() => {
+    if (!baseId && revisions.length > 0) {
+      setBaseId(revisions[0].id);
+    }
+  }, [baseId, revisions]);
+
+  const rows = useMemo(() => {
+    const contentFor = (id: string | null): string => {
+      if (id === CURRENT) return currentContent;
+      return revisions.find(r => r.id === id)?.content ?? '';
+    };
+    return diffLines(contentFor(baseId), contentFor(compareId));
+  }, [baseId, compareId, revisions, currentContent]);
+  const summary = summarizeDiff(rows);
+
+  const handleRestore = async (revision: LQ21ChapterRevision) => {
+    setRestoringId(revision.id);
+    try {
+      await onRestore(revision);
+      onClose();
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const versionOptions = (
+    <>
+      <option value={CURRENT}>Current editor content</option>
+      {revisions.map(revision => (
+        <option key={revision.id} value={revision.id}>
+          {revisionLabel(revision)}
+        </option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-7xl w-full h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <History className="h-5 w-5 text-blue-600" />
+            Version History: {chapterTitle}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-500 dark:text-gray-400"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+          </div>
+        ) : error ? (
+          <div className="m-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-300 text-sm">
+            {error}
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-center text-gray-500 dark:text-gray-400 p-8">
+            <div>
+              <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No saved versions yet.</p>
+              <p className="text-sm mt-1">A version is kept every time this chapter is saved.</p>
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            {/* Revision list */}
+            <div className="w-72 border-r border-gray-200 dark:border-gray-700 overflow-y-auto">
+              {revisions.map(revision => (
+                <div
+                  key={revision.id}
+                  onClick={() => setBaseId(revision.id)}
+                  className={`p-3 border-b border-gray-100 dark:border-gray-700/50 cursor-pointer ${
+                    baseId === revision.id
+                      ? 'bg-blue-50 dark:bg-blue-900/20'
+                      : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${SOURCE_STYLES[revision.source]}`}>
+                      {SOURCE_LABELS[revision.source]}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {revision.word_count.toLocaleString()} words
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-900 dark:text-white mt-1.5">
+                    {new Date(revision.created_at).toLocaleString()}
+                  </p>
+                  {revision.author_name && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{revision.author_name}</p>
+                  )}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleRestore(revision);
+                    }}
+                    disabled={restoringId !== null}
+                    className="mt-2 flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                  >
+                    {restoringId === revision.id ? (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-3 w-3" />
+                    )}
+                    Restore this version
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {/* Side-by-side diff */}
+            <div className="flex-1 flex flex-col min-w-0">
+              <div className="grid grid-cols-2 gap-4 p-3 border-b border-gray-200 dark:border-gray-700">
+                <select
+                  value={baseId || ''}
+                  onChange={(e) => setBaseId(e.target.value)}
+                  className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                >
+                  {versionOptions}
+                </select>
+                <select
+                  value={compareId}
+                  onChange={(e) => setCompareId(e.target.value)}
+                  className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                >
+                  {versionOptions}
+                </select>
+              </div>
+              <div className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                {summary.added + summary.removed + summary.changed === 0
+                  ? 'No differences'
+                  : `${summary.changed} changed, ${summary.added} added, ${summary.removed} removed lines`}
+              </div>
+              <div className="flex-1 overflow-auto font-mono text-xs">
+                <table className="w-full table-fixed border-collapse">
+                  <tbody>
+                    {rows.map((row, index) => (
+                      <tr key={index} className="align-top">
+                        <td className="w-10 px-2 text-right text-gray-400 select-none">{row.left?.lineNumber}</td>
+                        <td className={`px-2 whitespace-pre-wrap break-words text-gray-800 dark:text-gray-200 ${ROW_STYLES[row.type].left}`}>
+                          {row.left?.text}
+                        </td>
+                        <td className="w-10 px-2 text-right text-gray-400 select-none border-l border-gray-200 dark:border-gray-700">
+                          {row.right?.lineNumber}
+                        </td>
+                        <td className={`px-2 whitespace-pre-wrap break-words text-gray-800 dark:text-gray-200 ${ROW_STYLES[row.type].right}`}>
+                          {row.right?.text}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,8 +2,10 @@
 
 import { useState } from 'react';
 import { useApiKeys, ApiKeyProvider } from '@/lib/supabase/hooks/useApiKeys';
+import { useUserSettings } from '@/lib/supabase/hooks/useUserSettings';
+import { DEFAULT_LOCAL_BASE_URL } from '@/types';
 
-const PROVIDER_INFO: Record<
+export const PROVIDER_INFO: Record<
   ApiKeyProvider,
   { name: string; description: string; placeholder: string; docsUrl: string }
 > = {
@@ -31,6 +33,18 @@ const PROVIDER_INFO: Record<
     placeholder: 'AIzaxxxxxxxxxxxxxxxxxxxx',
     docsUrl: 'https://aistudio.google.com/app/apikey',
   },
+  openrouter: {
+    name: 'OpenRouter',
+    description: 'API key for models routed through OpenRouter',
+    placeholder: 'sk-or-v1-xxxxxxxxxxxxxxxxxxxx',
+    docsUrl: 'https://openrouter.ai/settings/keys',
+  },
+  local: {
+    name: 'Local Endpoint',
+    description: 'Optional key for a self-hosted OpenAI-compatible server (Ollama, llama.cpp, vLLM)',
+    placeholder: 'Only needed if the server was started with --api-key',
+    docsUrl: 'https://github.com/ollama/ollama/blob/main/docs/openai.md',
+  },
 };
 
 interface ApiKeyInputProps {
@@ -42,7 +56,7 @@ interface ApiKeyInputProps {
   onDelete: () => Promise<boolean>;
 }
 
-function ApiKeyInput({
+export function ApiKeyInput({
   provider,
   hasKey,
   keyHint,
@@ -164,13 +178,66 @@ function ApiKeyInput({
   );
 }
 
+function LocalBaseUrlInput() {
+  const { localBaseUrl, setLocalBaseUrl } = useUserSettings();
+  const [value, setValue] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const current = value ?? localBaseUrl ?? '';
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await setLocalBaseUrl(current.trim() || null);
+      setValue(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save base URL');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+      <h4 className="font-medium text-gray-900 dark:text-white">
+        Local Endpoint Base URL
+      </h4>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+        OpenAI-compatible URL including the version path. It must be reachable
+        from the server running Book Builder.
+      </p>
+      <div className="flex gap-2 mt-4">
+        <input
+          type="url"
+          value={current}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder={DEFAULT_LOCAL_BASE_URL}
+          className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white font-mono text-sm"
+        />
+        <button
+          onClick={handleSave}
+          disabled={saving || value === null}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm font-medium rounded-lg transition-colors"
+        >
+          {saving ? 'Saving...' : 'Save URL'}
+        </button>
+      </div>
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mt-2">{error}</p>
+      )}
+    </div>
+  );
+}
+
 export function ApiKeySettings() {
   const { apiKeys, loading, error, saveApiKey, deleteApiKey } = useApiKeys();
 
   if (loading) {
     return (
       <div className="space-y-4">
-        {[1, 2, 3, 4].map((i) => (
+        {[1, 2, 3, 4, 5, 6].map((i) => (
           <div
             key={i}
             className="h-32 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse"
@@ -210,6 +277,7 @@ export function ApiKeySettings() {
             onDelete={() => deleteApiKey(keyInfo.provider)}
           />
         ))}
+        <LocalBaseUrlInput />
       </div>
 
       <div className="p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
@@ -0,0 +1,206 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Trash2, UserPlus, Users, X } from 'lucide-react';
+import { useOrganizationMembers } from '@/lib/supabase/hooks/useOrganizations';
+import { ApiKeyProvider } from '@/lib/supabase/hooks/useApiKeys';
+import { LQ21OrganizationWithRole } from '@/lib/supabase/types';
+import {
+  ORGANIZATION_ROLES,
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+  canManage,
+  type OrganizationRole,
+} from '@/lib/organizations';
+import { ApiKeyInput, PROVIDER_INFO } from './ApiKeySettings';
+
+// GitHub first: a shared token lets every editor publish the team's books
+const SHARED_PROVIDERS: ApiKeyProvider[] = ['github', 'claude', 'openai', 'gemini', 'openrouter'];
+
+interface TeamSettingsModalProps {
+  organization: LQ21OrganizationWithRole;
+  userId: string | undefined;
+  onDeleteTeam: () => void;
+  onClose: () => void;
+}
+
+export function TeamSettingsModal({ organization, userId, onDeleteTeam, onClose }: TeamSettingsModalProps) {
+  const {
+    members,
+    sharedKeys,
+    loading,
+    error,
+    addMember,
+    updateMemberRole,
+    removeMember,
+    saveSharedKey,
+    deleteSharedKey,
+  } = useOrganizationMembers(organization.id);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OrganizationRole>('editor');
+  const [adding, setAdding] = useState(false);
+  const isOwner = canManage(organization.role);
+
+  const handleAdd = async () => {
+    setAdding(true);
+    if (await addMember(email, role)) setEmail('');
+    setAdding(false);
+  };
+
+  const handleRemove = async (memberId: string, name: string, isSelf: boolean) => {
+    if (!confirm(isSelf ? `Leave ${organization.name}?` : `Remove ${name} from ${organization.name}?`)) return;
+    if (await removeMember(memberId) && isSelf) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-xl border border-gray-700 p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Users className="h-5 w-5 text-purple-400" />
+            {organization.name}
+          </h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-900/30 border border-red-800 rounded-lg text-sm text-red-400">
+            {error}
+          </div>
+        )}
+
+        <h4 className="text-sm font-medium text-gray-300 mb-2">Members</h4>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-purple-400" />
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-700/50 mb-4">
+            {members.map(member => {
+              const isSelf = member.user_id === userId;
+              const name = member.display_name || member.email || 'Unknown member';
+
+              return (
+                <li key={member.id} className="flex items-center gap-3 py-2 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-white truncate">
+                      {name}
+                      {isSelf && <span className="text-gray-500"> (you)</span>}
+                    </div>
+                    {member.display_name && member.email && (
+                      <div className="text-xs text-gray-500 truncate">{member.email}</div>
+                    )}
+                  </div>
+                  {isOwner && !isSelf ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) => updateMemberRole(member.id, e.target.value as OrganizationRole)}
+                      className="px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+                    >
+                      {ORGANIZATION_ROLES.map(r => (
+                        <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-gray-400">{ROLE_LABELS[member.role]}</span>
+                  )}
+                  {(isOwner || isSelf) && (
+                    <button
+                      onClick={() => handleRemove(member.id, name, isSelf)}
+                      title={isSelf ? 'Leave team' : 'Remove member'}
+                      className="p-1.5 text-gray-400 hover:text-red-400 hover:bg-red-900/30 rounded-lg transition-colors"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {isOwner && (
+          <div className="mb-6">
+            <div className="flex gap-2">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="colleague@example.com"
+                className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-500 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as OrganizationRole)}
+                className="px-2 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+              >
+                {ORGANIZATION_ROLES.map(r => (
+                  <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleAdd}
+                disabled={adding || !email.trim()}
+                className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors"
+              >
+                {adding ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+                Add
+              </button>
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              {ROLE_LABELS[role]}: {ROLE_DESCRIPTIONS[role]}. They need a Book Builder account first.
+            </p>
+          </div>
+        )}
+
+        <h4 className="text-sm font-medium text-gray-300 mb-1">Shared credentials</h4>
+        <p className="text-xs text-gray-500 mb-3">
+          Used for the team&apos;s books, and by members who haven&apos;t saved a key of their own.
+        </p>
+        {isOwner ? (
+          <div className="space-y-3">
+            {SHARED_PROVIDERS.map(provider => {
+              const shared = sharedKeys.find(k => k.provider === provider);
+              return (
+                <ApiKeyInput
+                  key={provider}
+                  provider={provider}
+                  hasKey={!!shared}
+                  keyHint={shared?.key_hint ?? null}
+                  isValid
+                  onSave={(key) => saveSharedKey(provider, key)}
+                  onDelete={() => deleteSharedKey(provider)}
+                />
+              );
+            })}
+          </div>
+        ) : sharedKeys.length === 0 ? (
+          <p className="text-sm text-gray-400">The team hasn&apos;t shared any credentials.</p>
+        ) : (
+          <ul className="space-y-1 text-sm">
+            {sharedKeys.map(key => (
+              <li key={key.provider} className="flex items-center justify-between text-gray-300">
+                <span>{PROVIDER_INFO[key.provider as ApiKeyProvider]?.name || key.provider}</span>
+                <span className="font-mono text-gray-500">{key.key_hint}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {isOwner && (
+          <div className="mt-6 pt-4 border-t border-gray-700 flex justify-end">
+            <button
+              onClick={onDeleteTeam}
+              className="flex items-center gap-2 px-4 py-2 text-sm text-red-400 hover:bg-red-900/30 hover:text-red-300 rounded-lg transition-colors"
+            >
+              <Trash2 className="h-4 w-4" />
+              Delete team
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
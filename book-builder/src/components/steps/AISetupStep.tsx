@@ -2,10 +2,10 @@
 
 import { useState, useEffect } from 'react';
 import { useBookStore } from '@/store/useBookStore';
-import { AIProvider, AIModel } from '@/types';
-import { Key, Eye, EyeOff, Loader2, CheckCircle, AlertCircle, ArrowRight, Sparkles, Settings } from 'lucide-react';
+import { AIProvider, AIModel, DEFAULT_LOCAL_BASE_URL } from '@/types';
+import { Key, Eye, EyeOff, Loader2, CheckCircle, AlertCircle, ArrowRight, Sparkles, Settings, Server } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
-import { useApiKeys } from '@/lib/supabase/hooks/useApiKeys';
+import { useApiKeys, ApiKeyProvider } from '@/lib/supabase/hooks/useApiKeys';
 import { useUserSettings } from '@/lib/supabase/hooks/useUserSettings';
 import Link from 'next/link';
 
@@ -25,6 +25,16 @@ const PROVIDERS: { id: AIProvider; name: string; description: string }[] = [
     name: 'OpenAI (GPT)',
     description: 'GPT-4 and GPT-3.5 models',
   },
+  {
+    id: 'openrouter',
+    name: 'OpenRouter',
+    description: 'One key for hundreds of models from many providers',
+  },
+  {
+    id: 'local',
+    name: 'Local Endpoint',
+    description: 'Self-hosted Ollama, llama.cpp or vLLM server',
+  },
 ];
 
 export function AISetupStep() {
@@ -35,12 +45,14 @@ export function AISetupStep() {
     setSelectedModel,
     setAvailableModels,
     setCurrentStep,
+    getProviderConfig,
+    setProviderConfig,
   } = useBookStore();
 
   // Auth and saved settings hooks
   const { isAuthenticated } = useAuth();
-  const { apiKeys, loading: keysLoading, getApiKey } = useApiKeys();
-  const { settings, loading: settingsLoading, defaultProvider, defaultModel } = useUserSettings();
+  const { apiKeys, loading: keysLoading, hasSavedKey } = useApiKeys();
+  const { settings, loading: settingsLoading, defaultProvider, defaultModel, localBaseUrl } = useUserSettings();
 
   const [showKey, setShowKey] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -49,10 +61,14 @@ export function AISetupStep() {
   const [usingSavedSettings, setUsingSavedSettings] = useState(false);
   const [loadingSavedKey, setLoadingSavedKey] = useState(false);
 
+  // Local servers usually run without a key, so a saved base URL is enough
+  const isLocal = aiConfig.provider === 'local';
+  const baseUrl = getProviderConfig('local')?.baseUrl || '';
+
   // Check if user has saved API key for the default provider
-  const hasSavedKeyForDefaultProvider = apiKeys.some(
-    k => k.provider === defaultProvider && k.hasKey && k.isValid
-  );
+  const hasSavedKeyForDefaultProvider = defaultProvider === 'local'
+    ? !!localBaseUrl
+    : apiKeys.some(k => k.provider === defaultProvider && k.hasKey && k.isValid);
   const hasSavedSettings = isAuthenticated && hasSavedKeyForDefaultProvider && settings;
 
   // Auto-load saved settings if user is authenticated and has saved keys
@@ -69,16 +85,12 @@ export function AISetupStep() {
     setError(null);
 
     try {
-      // Get the saved API key for the default provider
-      const savedKey = await getApiKey(defaultProvider as 'claude' | 'openai' | 'gemini');
-
-      if (!savedKey) {
-        throw new Error('Could not retrieve saved API key');
-      }
-
-      // Set the provider, API key
+      // The saved key stays on the server - routes look it up from the session
       setAIProvider(defaultProvider as AIProvider);
-      setAIApiKey(savedKey);
+      setProviderConfig(defaultProvider as AIProvider, {
+        hasSavedKey: hasSavedKey(defaultProvider as ApiKeyProvider),
+        ...(defaultProvider === 'local' && { baseUrl: localBaseUrl || undefined }),
+      });
       setUsingSavedSettings(true);
 
       // Now validate the key and fetch models
@@ -87,7 +99,7 @@ export function AISetupStep() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           provider: defaultProvider,
-          apiKey: savedKey,
+          baseUrl: defaultProvider === 'local' ? localBaseUrl : undefined,
         }),
       });
 
@@ -123,7 +135,7 @@ export function AISetupStep() {
   };
 
   const handleValidateKey = async () => {
-    if (!aiConfig.provider || !aiConfig.apiKey) {
+    if (!aiConfig.provider || (!aiConfig.apiKey && !isLocal)) {
       setError('Please select a provider and enter an API key');
       return;
     }
@@ -138,6 +150,7 @@ export function AISetupStep() {
         body: JSON.stringify({
           provider: aiConfig.provider,
           apiKey: aiConfig.apiKey,
+          baseUrl: isLocal ? baseUrl : undefined,
         }),
       });
 
@@ -257,7 +270,7 @@ export function AISetupStep() {
         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
           Select AI Provider
         </label>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {PROVIDERS.map((provider) => (
             <button
               key={provider.id}
@@ -285,8 +298,37 @@ export function AISetupStep() {
       {/* API Key Input */}
       {aiConfig.provider && (
         <div className="space-y-4">
+          {isLocal && (
+            <>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Endpoint Base URL
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Server className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  type="url"
+                  value={baseUrl}
+                  onChange={(e) => {
+                    setProviderConfig('local', { baseUrl: e.target.value });
+                    setIsValidated(false);
+                  }}
+                  placeholder={DEFAULT_LOCAL_BASE_URL}
+                  className="
+                    block w-full pl-10 pr-4 py-3 border border-gray-300 dark:border-gray-600
+                    rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                    placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500
+                  "
+                />
+              </div>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Any OpenAI-compatible server. Leave empty to use {DEFAULT_LOCAL_BASE_URL} (Ollama).
+              </p>
+            </>
+          )}
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-            API Key
+            {isLocal ? 'API Key (optional)' : 'API Key'}
           </label>
           <div className="relative">
             <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -299,7 +341,7 @@ export function AISetupStep() {
                 setAIApiKey(e.target.value);
                 setIsValidated(false);
               }}
-              placeholder={`Enter your ${aiConfig.provider} API key`}
+              placeholder={isLocal ? 'Only needed if your server checks keys' : `Enter your ${aiConfig.provider} API key`}
               className="
                 block w-full pl-10 pr-12 py-3 border border-gray-300 dark:border-gray-600
                 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white
@@ -321,12 +363,12 @@ export function AISetupStep() {
 
           <button
             onClick={handleValidateKey}
-            disabled={isLoading || !aiConfig.apiKey}
+            disabled={isLoading || (!aiConfig.apiKey && !isLocal)}
             className={`
               flex items-center gap-2 px-4 py-2 rounded-lg font-medium
               transition-colors
               ${
-                isLoading || !aiConfig.apiKey
+                isLoading || (!aiConfig.apiKey && !isLocal)
                   ? 'bg-gray-300 dark:bg-gray-700 text-gray-500 cursor-not-allowed'
                   : 'bg-blue-600 hover:bg-blue-700 text-white'
               }
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useBookStore } from '@/store/useBookStore';
 import { Chapter, AIProvider, BookLevelFeature, BookLevelFeatureCategory } from '@/types';
 import { MYST_FEATURES_DATA, getFeaturesByCategory, MystFeatureCategory } from '@/data/mystFeatures';
@@ -13,6 +13,20 @@ import {
   remarkDirectiveToMyst,
 } from '@/components/editor/ForwardRefEditor';
 import { useImageUpload } from '@/hooks/useImageUpload';
+import { trackGenerationRun } from '@/lib/supabase/generationHistory';
+import { recordChapterRevision, type ChapterRevisionSource } from '@/lib/supabase/chapterRevisions';
+import { saveFeatureAudit, enqueueRemediation, type FeatureAuditSource } from '@/lib/supabase/featureAudits';
+import { useRemediationQueue } from '@/lib/supabase/hooks/useRemediationQueue';
+import { LQ21ChapterRevision, LQ21FeatureAudit, LQ21RemediationQueue } from '@/lib/supabase/types';
+import { auditChapterFeatures, type FeatureAuditResult } from '@/lib/featureAudit';
+import { runRemediationQueue } from '@/lib/remediationWorker';
+import { RevisionHistoryModal } from '@/components/editor/RevisionHistoryModal';
+import { MergeConflictModal } from '@/components/editor/MergeConflictModal';
+import { ChapterReviewPanel } from '@/components/editor/ChapterReviewPanel';
+import { MystProblemsPanel } from '@/components/editor/MystProblemsPanel';
+import { FormattingReviewModal } from '@/components/editor/FormattingReviewModal';
+import { findQuote, type TextRange } from '@/lib/reviewAnchors';
+import type { ChapterFields, ChapterSyncResult } from '@/lib/githubSync';
 import {
   ArrowLeft,
   ChevronUp,
@@ -34,6 +48,7 @@ import {
   X,
   GripVertical,
   Wand2,
+  ListChecks,
   Pencil,
   MessageSquare,
   BarChart3,
@@ -46,6 +61,7 @@ import {
   Image,
   Maximize2,
   Minimize2,
+  History,
 } from 'lucide-react';
 import {
   smartFormat,
@@ -54,11 +70,15 @@ import {
   parseContent,
   hasMystFormatting,
   stripFormatting,
+  verifyPreservation,
+  transformContent,
   type AISuggestion,
+  type AppliedTransformation,
+  type TransformationResult,
 } from '@/lib/formatters';
 
 type EditorTab = 'ai-generate' | 'format-content' | 'manual-write';
-type ModalType = 'none' | 'features' | 'book-features' | 'system-prompt' | 'add-chapter' | 'analytics' | 'cover-image';
+type ModalType = 'none' | 'features' | 'book-features' | 'system-prompt' | 'add-chapter' | 'analytics' | 'cover-image' | 'revision-history' | 'merge-conflict' | 'formatting-review';
 
 interface ChapterRowProps {
   chapter: Chapter;
@@ -218,6 +238,14 @@ function ChapterRow({
   );
 }
 
+const REMEDIATION_STATUS_STYLES: Record<LQ21RemediationQueue['status'], string> = {
+  pending: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300',
+  in_progress: 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300',
+  completed: 'bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300',
+  failed: 'bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300',
+  skipped: 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400',
+};
+
 export function ChapterEditorStep() {
   const {
     bookConfig,
@@ -241,6 +269,7 @@ export function ChapterEditorStep() {
     setBookCoverImage,
     toggleBookFeature,
     syncChapterFeatures,
+    libraryBookId,
   } = useBookStore();
 
   const [selectedChapter, setSelectedChapter] = useState<Chapter | null>(null);
@@ -258,14 +287,22 @@ export function ChapterEditorStep() {
     actionsUrl?: string;
     workflowTriggered?: boolean;
     workflowRunUrl?: string;
+    // Review mode: the draft's pull request and preview site
+    pullRequestUrl?: string;
+    pullRequestNumber?: number;
+    previewUrl?: string;
   } | null>(null);
   const [editedContent, setEditedContent] = useState('');
+  // What produced the editor content, recorded with the next revision
+  const [contentSource, setContentSource] = useState<ChapterRevisionSource>('manual');
   const [expandedChapters, setExpandedChapters] = useState<Set<string>>(new Set());
   const [viewMode, setViewMode] = useState<'edit' | 'preview'>('edit');
   const [editorTab, setEditorTab] = useState<EditorTab>('ai-generate');
   const [chapterDescription, setChapterDescription] = useState('');
   const [targetWordCount, setTargetWordCount] = useState<number>(2000);
   const [modalType, setModalType] = useState<ModalType>('none');
+  // Edits on GitHub that overlap the chapter being saved
+  const [saveConflict, setSaveConflict] = useState<ChapterSyncResult | null>(null);
   const [modalChapter, setModalChapter] = useState<Chapter | null>(null);
   const [tempSystemPrompt, setTempSystemPrompt] = useState('');
   const [showDefaultPrompt, setShowDefaultPrompt] = useState(false);
@@ -306,6 +343,12 @@ Create a complete book cover with both the title and author name integrated into
 
   // Format result state for rule-based formatter
   const [formatResult, setFormatResult] = useState<FormatResult | null>(null);
+  // Rule-based formatting waiting for the author to accept or reject each change
+  const [formattingReview, setFormattingReview] = useState<{
+    original: string;
+    result: TransformationResult;
+    selectedFeatures: string[];
+  } | null>(null);
 
   // Format model override - allows selecting model directly in Format My Content tab
   const [formatModelOverride, setFormatModelOverride] = useState<string>('');
@@ -332,17 +375,25 @@ Create a complete book cover with both the title and author name integrated into
     characterCount?: number;
     model?: string;
   } | null>(null);
-  const [featureAudit, setFeatureAudit] = useState<{
-    selectedFeatures: string[];
-    foundFeatures: string[];
-    missingFeatures: string[];
-  } | null>(null);
+  const [featureAudit, setFeatureAudit] = useState<FeatureAuditResult | null>(null);
+  // Stored copy of the latest audit, needed to queue remediation jobs
+  const [savedAudit, setSavedAudit] = useState<LQ21FeatureAudit | null>(null);
+  const [isRemediating, setIsRemediating] = useState(false);
+  const remediationAbortRef = useRef<AbortController | null>(null);
+  const {
+    jobs: remediationJobs,
+    refetch: refetchRemediationJobs,
+    upsertJob: upsertRemediationJob,
+  } = useRemediationQueue(libraryBookId, selectedChapter?.id ?? null);
   const [isContinuing, setIsContinuing] = useState(false);
   const [continuationAttempts, setContinuationAttempts] = useState(0);
   const MAX_CONTINUATION_ATTEMPTS = 5; // Max times to auto-continue
   const [isEditorExpanded, setIsEditorExpanded] = useState(false);
   const [isContentEditorFullscreen, setIsContentEditorFullscreen] = useState(false);
   const [useRawEditor, setUseRawEditor] = useState(false); // Fallback to textarea when MDXEditor fails
+  // Review comments panel (library books only) and the text selected for it
+  const [showReview, setShowReview] = useState(false);
+  const [reviewSelection, setReviewSelection] = useState<TextRange | null>(null);
   const [editorParseError, setEditorParseError] = useState<string | null>(null);
   const [userRawContent, setUserRawContent] = useState(''); // User's content to format with features
 
@@ -353,11 +404,6 @@ Create a complete book cover with both the title and author name integrated into
     setUseRawEditor(true);
   }, []);
 
-  // Build status polling
-  const [buildStatus, setBuildStatus] = useState<'idle' | 'polling' | 'building' | 'success' | 'failed'>('idle');
-  const [buildPollCount, setBuildPollCount] = useState(0);
-  const MAX_BUILD_POLLS = 40; // 40 polls * 5 seconds = ~3 minutes max
-
   // MDXEditor ref for programmatic control
   const editorRef = useRef<MDXEditorMethods>(null);
 
@@ -385,6 +431,8 @@ Create a complete book cover with both the title and author name integrated into
 
   // Track original MyST content (before conversion to remark directive format)
   const [originalMystContent, setOriginalMystContent] = useState<string>('');
+  // Last content pushed into the editor programmatically, so echoes aren't counted as manual edits
+  const programmaticContentRef = useRef('');
 
   // Helper function to update editor content (both state and MDXEditor ref)
   // Converts MyST syntax to remark-directive format for MDXEditor
@@ -393,6 +441,7 @@ Create a complete book cover with both the title and author name integrated into
     setOriginalMystContent(content);
     // Convert MyST syntax to remark-directive format that MDXEditor understands
     const convertedContent = mystToRemarkDirective(content);
+    programmaticContentRef.current = convertedContent;
     setEditedContent(convertedContent);
     // MDXEditor is not fully controlled, so we need to use setMarkdown via ref
     // Use setTimeout to ensure the state update happens first
@@ -407,6 +456,46 @@ Create a complete book cover with both the title and author name integrated into
     return remarkDirectiveToMyst(content);
   }, []);
 
+  // Comments are anchored to the MyST text, which neither editor shows as-is
+  const reviewContent = useMemo(
+    () => (showReview ? getContentAsMyst(editedContent) : ''),
+    [showReview, editedContent, getContentAsMyst]
+  );
+
+  // Lint the MyST text too, so problem lines and fixes line up with what gets saved
+  const problemsContent = useMemo(() => getContentAsMyst(editedContent), [editedContent, getContentAsMyst]);
+
+  // Find what's selected in either editor in the MyST text
+  const captureReviewSelection = useCallback((e: React.SyntheticEvent) => {
+    if (!showReview) return;
+    const target = e.target;
+    if (target instanceof HTMLTextAreaElement) {
+      const selected = target.value.slice(target.selectionStart, target.selectionEnd);
+      setReviewSelection(findQuote(reviewContent, selected, target.selectionStart));
+    } else {
+      setReviewSelection(findQuote(reviewContent, window.getSelection()?.toString() || ''));
+    }
+  }, [showReview, reviewContent]);
+
+  const handleManualEdit = useCallback((content: string) => {
+    setEditedContent(content);
+    if (content !== programmaticContentRef.current) {
+      setContentSource('manual');
+    }
+  }, []);
+
+  // Keep the editor's current text as a revision before AI output replaces it
+  const snapshotBeforeAIChange = useCallback(() => {
+    if (!selectedChapter || !editedContent.trim()) return Promise.resolve(null);
+    return recordChapterRevision({
+      bookId: libraryBookId,
+      chapterKey: selectedChapter.id,
+      title: selectedChapter.title,
+      content: getContentAsMyst(editedContent),
+      source: contentSource,
+    });
+  }, [selectedChapter, editedContent, libraryBookId, getContentAsMyst, contentSource]);
+
   // Initialize all chapters' features from book-level selections on mount
   useEffect(() => {
     // Map book-level features to MYST_FEATURES_DATA categories/IDs
@@ -521,197 +610,27 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
   }, [bookConfig.title, bookConfig.description]);
 
   // Feature audit function - checks which selected features are present in the content
-  const auditFeatures = useCallback((content: string, selectedFeatureIds: string[]) => {
+  const auditFeatures = useCallback((
+    content: string,
+    selectedFeatureIds: string[],
+    chapterKey: string,
+    source: FeatureAuditSource
+  ) => {
+    setSavedAudit(null);
     if (!selectedFeatureIds || selectedFeatureIds.length === 0) {
       setFeatureAudit(null);
       return;
     }
 
-    const foundFeatures: string[] = [];
-    const missingFeatures: string[] = [];
-
-    for (const featureId of selectedFeatureIds) {
-      const feature = MYST_FEATURES_DATA.find(f => f.id === featureId);
-      if (!feature) continue;
-
-      // Check for various patterns that indicate the feature is used
-      let isFound = false;
-
-      // Check based on feature category and type
-      switch (feature.id) {
-        // Admonitions - check for :::{type} or ```{type}
-        case 'note':
-        case 'tip':
-        case 'hint':
-        case 'important':
-        case 'warning':
-        case 'caution':
-        case 'attention':
-        case 'danger':
-        case 'error':
-        case 'seealso':
-          isFound = content.includes(`:::{${feature.id}}`) || content.includes(`\`\`\`{${feature.id}}`);
-          break;
-
-        // Dropdown admonition
-        case 'admonition-dropdown':
-          isFound = content.includes(':class: dropdown');
-          break;
-
-        // Custom admonition
-        case 'admonition-custom':
-          isFound = content.includes(':::{admonition}');
-          break;
-
-        // UI Components
-        case 'dropdown':
-          isFound = content.includes(':::{dropdown}');
-          break;
-        case 'card':
-        case 'card-link':
-          isFound = content.includes(':::{card}') || content.includes('```{card}');
-          break;
-        case 'grid':
-          isFound = content.includes('::::{grid}') || content.includes(':::{grid}');
-          break;
-        case 'tab-set':
-          isFound = content.includes('::::{tab-set}') || content.includes(':::{tab-item}');
-          break;
-        case 'button':
-          isFound = content.includes('{button}');
-          break;
-
-        // Code features
-        case 'code-block':
-          isFound = /```\w+\n/.test(content);
-          break;
-        case 'code-caption':
-        case 'code-linenos':
-        case 'code-emphasize':
-        case 'code-filename':
-          isFound = content.includes('```{code}');
-          break;
-        case 'code-cell':
-          isFound = content.includes('```{code-cell}');
-          break;
-
-        // Math
-        case 'inline-math':
-          isFound = /\$[^$]+\$/.test(content) && !content.includes('$$');
-          break;
-        case 'equation-block':
-        case 'dollar-math':
-          isFound = content.includes('$$') || content.includes('```{math}');
-          break;
-
-        // Diagrams
-        case 'mermaid-flowchart':
-        case 'mermaid-sequence':
-        case 'mermaid-class':
-        case 'mermaid-state':
-        case 'mermaid-gantt':
-        case 'mermaid-pie':
-          isFound = content.includes('```{mermaid}') || content.includes('```mermaid');
-          break;
-
-        // Exercises
-        case 'exercise':
-          isFound = content.includes('```{exercise}');
-          break;
-        case 'solution':
-          isFound = content.includes('```{solution}') || content.includes('````{solution}');
-          break;
-
-        // Figures
-        case 'figure':
-          isFound = content.includes('```{figure}') || content.includes(':::{figure}');
-          break;
-        case 'image':
-          isFound = content.includes('```{image}') || content.includes('![');
-          break;
-
-        // Tables
-        case 'markdown-table':
-          isFound = /\|.*\|.*\n\|[-:]+\|/.test(content);
-          break;
-        case 'list-table':
-          isFound = content.includes('```{list-table}');
-          break;
-        case 'csv-table':
-          isFound = content.includes('```{csv-table}');
-          break;
-
-        // References
-        case 'cross-reference':
-          isFound = content.includes('[](#') || content.includes('{ref}');
-          break;
-        case 'footnote':
-          isFound = /\[\^\w+\]/.test(content);
-          break;
-
-        // Proofs and theorems
-        case 'theorem':
-        case 'proof':
-        case 'lemma':
-        case 'definition':
-        case 'corollary':
-        case 'proposition':
-        case 'axiom':
-        case 'algorithm':
-          isFound = content.includes(`:::{prf:${feature.id}}`);
-          break;
-
-        // Interactive code
-        case 'jupyterlite':
-          isFound = content.includes('[jupyterlite]');
-          break;
-        case 'pyodide':
-          isFound = content.includes('[pyodide]');
-          break;
-        case 'thebe':
-          isFound = content.includes('[thebe');
-          break;
-
-        // Default: check if syntax pattern appears in content
-        default:
-          // Try to extract a key pattern from the syntax
-          const syntaxParts = feature.syntax.split('\n')[0];
-          if (syntaxParts.includes(':::')) {
-            const match = syntaxParts.match(/:::{?(\w+)/);
-            if (match) {
-              isFound = content.toLowerCase().includes(match[0].toLowerCase());
-            }
-          } else if (syntaxParts.includes('```')) {
-            const match = syntaxParts.match(/```{?(\w+)/);
-            if (match) {
-              isFound = content.toLowerCase().includes(match[0].toLowerCase());
-            }
-          } else if (syntaxParts.includes('{')) {
-            const match = syntaxParts.match(/{(\w+)}/);
-            if (match) {
-              isFound = content.includes(`{${match[1]}`);
-            }
-          }
-          break;
-      }
-
-      if (isFound) {
-        foundFeatures.push(featureId);
-      } else {
-        missingFeatures.push(featureId);
-      }
-    }
-
-    setFeatureAudit({
-      selectedFeatures: selectedFeatureIds,
-      foundFeatures,
-      missingFeatures,
-    });
-  }, []);
+    const result = auditChapterFeatures(content, selectedFeatureIds);
+    setFeatureAudit(result);
+    void saveFeatureAudit({ bookId: libraryBookId, chapterKey, result, source }).then(setSavedAudit);
+  }, [libraryBookId]);
 
   const selectChapter = useCallback((chapter: Chapter) => {
     setSelectedChapter(chapter);
     updateEditorContent(chapter.content || '');
+    setContentSource('manual');
     setChapterDescription(chapter.description || '');
     setTargetWordCount(chapter.targetWordCount || 2000);
     setSaveStatus('idle');
@@ -831,7 +750,7 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
       updateChapterProvider(modalChapter.id, tempSelectedProvider);
 
       // Save provider API key if set
-      if (tempSelectedProvider && tempProviderApiKey) {
+      if (tempSelectedProvider && (tempProviderApiKey || tempSelectedProvider === 'local')) {
         setProviderConfig(tempSelectedProvider, {
           apiKey: tempProviderApiKey,
           availableModels: providerModels,
@@ -857,7 +776,7 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
 
   // Load models for a provider with given API key
   const loadModelsForProvider = useCallback(async (provider: AIProvider, apiKey: string) => {
-    if (!apiKey) {
+    if (!apiKey && provider !== 'local' && !getProviderConfig(provider)?.hasSavedKey) {
       setProviderModels([]);
       return;
     }
@@ -867,7 +786,7 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
       const response = await fetch('/api/models', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ provider, apiKey }),
+        body: JSON.stringify({ provider, apiKey, baseUrl: getProviderConfig(provider)?.baseUrl }),
       });
 
       const data = await response.json();
@@ -889,7 +808,7 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
     } finally {
       setIsLoadingModels(false);
     }
-  }, [setProviderConfig]);
+  }, [getProviderConfig, setProviderConfig]);
 
   // Handle provider change in modal
   const handleProviderChange = useCallback((provider: AIProvider | undefined) => {
@@ -899,13 +818,13 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
     if (provider) {
       // Try to load existing config for this provider
       const provConfig = getProviderConfig(provider);
-      if (provConfig?.apiKey) {
-        setTempProviderApiKey(provConfig.apiKey);
-        if (provConfig.availableModels.length > 0) {
+      if (provConfig?.isConfigured || provider === 'local') {
+        setTempProviderApiKey(provConfig?.apiKey || '');
+        if (provConfig?.availableModels.length) {
           setProviderModels(provConfig.availableModels);
         } else {
           // Fetch models if not loaded
-          loadModelsForProvider(provider, provConfig.apiKey);
+          loadModelsForProvider(provider, provConfig?.apiKey || '');
         }
       } else {
         setTempProviderApiKey('');
@@ -988,7 +907,8 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
     console.log('API key present:', effectiveApiKey ? 'yes' : 'no');
     console.log('aiConfig.selectedModel:', aiConfig.selectedModel);
 
-    if (!effectiveApiKey) {
+    // Local endpoints and saved keys are resolved by the server
+    if (!effectiveApiKey && !(chapterProvider && getProviderConfig(chapterProvider)?.isConfigured)) {
       console.error('No API key!');
       const providerName = chapterProvider || 'AI';
       alert(`API key is missing for ${providerName}. Please configure the API key in Chapter Settings or go back to AI Setup.`);
@@ -1001,10 +921,13 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
       return;
     }
 
+    void snapshotBeforeAIChange();
+    setContentSource('ai-generate');
     setIsGenerating(true);
     setEditedContent(''); // Clear content for streaming
     setGenerationMetadata(null); // Reset metadata
     setFeatureAudit(null); // Reset audit
+    setSavedAudit(null);
     console.log('Starting generation...');
 
     try {
@@ -1045,6 +968,7 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
         body: JSON.stringify({
           provider: chapterProvider,
           apiKey: effectiveApiKey,
+          baseUrl: chapterProvider ? getProviderConfig(chapterProvider)?.baseUrl : undefined,
           model: effectiveModel,
           prompt: `Write comprehensive content for the chapter "${selectedChapter.title}"${
             chapterDescription ? `: ${chapterDescription}` : selectedChapter.description ? `: ${selectedChapter.description}` : ''
@@ -1057,8 +981,11 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
             systemPromptOverride,
             targetWordCount,
           },
+          bookId: libraryBookId,
+          chapterId: selectedChapter.id,
         }),
       });
+      trackGenerationRun(response, libraryBookId);
 
       console.log('API response status:', response.status);
       console.log('Content-Type:', response.headers.get('content-type'));
@@ -1138,7 +1065,7 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
                     });
                   }
 
-                  // Check if Claude stopped early (end_turn) before reaching word count target
+                  // Check if the model stopped early (end_turn) before reaching word count target
                   const currentWordCount = accumulatedContent.split(/\s+/).length;
                   const shouldContinue =
                     data.metadata?.stopReason === 'end_turn' &&
@@ -1147,7 +1074,7 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
 
                   if (shouldContinue) {
                     console.log('%c[AUTO-CONTINUATION TRIGGERED]', 'background: #ff6b6b; color: white; font-size: 14px; padding: 4px;');
-                    console.log(`Claude stopped early (end_turn) at ${currentWordCount}/${targetWordCount} words (${((currentWordCount/targetWordCount)*100).toFixed(1)}%). Auto-continuing... (attempt ${continuationAttempts + 1}/${MAX_CONTINUATION_ATTEMPTS})`);
+                    console.log(`Model stopped early (end_turn) at ${currentWordCount}/${targetWordCount} words (${((currentWordCount/targetWordCount)*100).toFixed(1)}%). Auto-continuing... (attempt ${continuationAttempts + 1}/${MAX_CONTINUATION_ATTEMPTS})`);
                     setGenerationMetadata({
                       stopReason: 'continuing',
                       wordCount: currentWordCount,
@@ -1166,7 +1093,7 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
 
                   // Run feature audit
                   if (selectedChapter.selectedFeatures?.length) {
-                    auditFeatures(accumulatedContent, selectedChapter.selectedFeatures);
+                    auditFeatures(accumulatedContent, selectedChapter.selectedFeatures, selectedChapter.id, 'ai-generate');
                   }
                 }
               } catch (parseError) {
@@ -1222,7 +1149,7 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
         // Save the word count setting to the chapter
         updateChapterWordCount(selectedChapter.id, targetWordCount);
       } else {
-        // Handle non-streaming response (other providers)
+        // Handle non-streaming response (validation errors are returned as JSON)
         const data = await response.json();
         console.log('API response data:', data);
 
@@ -1256,11 +1183,8 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
       return;
     }
 
+    // The chapter only changes once the edits have been reviewed and applied
     setIsGenerating(true);
-    setEditedContent('');
-    setFormatResult(null);
-    setGenerationMetadata(null);
-    setFeatureAudit(null);
     setFormatStatus('Preparing content...');
     setFormatElapsed(0);
 
@@ -1300,41 +1224,47 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
 
       // Determine provider and model
       const chapterProvider = selectedChapter.selectedProvider || aiConfig.provider;
-      let provider: 'gemini' | 'claude' | 'openai' | null = null;
+      let provider: AIProvider | null = null;
       let apiKey = '';
       let model = '';
 
       if (chapterProvider) {
         const provConfig = getProviderConfig(chapterProvider);
-        if (provConfig?.apiKey) {
-          provider = chapterProvider as 'gemini' | 'claude' | 'openai';
+        // Local endpoints and saved keys are resolved by the server
+        if (provConfig?.isConfigured) {
+          provider = chapterProvider;
           apiKey = provConfig.apiKey;
           model = selectedChapter.selectedModel || aiConfig.selectedModel || provConfig.selectedModel || '';
         }
       }
 
       // Fallback: try any configured provider
-      if (!provider || !apiKey) {
+      if (!provider) {
         const geminiConfig = getProviderConfig('gemini');
         const claudeConfig = getProviderConfig('claude');
         const openaiConfig = getProviderConfig('openai');
+        const openrouterConfig = getProviderConfig('openrouter');
 
-        if (geminiConfig?.apiKey) {
+        if (geminiConfig?.isConfigured) {
           provider = 'gemini';
           apiKey = geminiConfig.apiKey;
           model = model || geminiConfig.selectedModel || 'gemini-2.5-pro';
-        } else if (claudeConfig?.apiKey) {
+        } else if (claudeConfig?.isConfigured) {
           provider = 'claude';
           apiKey = claudeConfig.apiKey;
           model = model || claudeConfig.selectedModel || 'claude-opus-4-5-20250514';
-        } else if (openaiConfig?.apiKey) {
+        } else if (openaiConfig?.isConfigured) {
           provider = 'openai';
           apiKey = openaiConfig.apiKey;
           model = model || openaiConfig.selectedModel || 'gpt-4o';
+        } else if (openrouterConfig?.isConfigured) {
+          provider = 'openrouter';
+          apiKey = openrouterConfig.apiKey;
+          model = model || openrouterConfig.selectedModel || 'openai/gpt-4o';
         }
       }
 
-      if (!provider || !apiKey) {
+      if (!provider) {
         clearInterval(elapsedInterval);
         alert('No API key found. Please configure an AI provider in Settings.');
         setIsGenerating(false);
@@ -1347,13 +1277,14 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
         if (provider === 'gemini') model = 'gemini-2.5-pro';
         else if (provider === 'claude') model = 'claude-opus-4-5-20250514';
         else if (provider === 'openai') model = 'gpt-4o';
+        else if (provider === 'openrouter') model = 'openai/gpt-4o';
       }
 
       // OVERRIDE: If formatModelOverride is set, use it (and force Gemini provider)
       if (formatModelOverride) {
         model = formatModelOverride;
         const geminiConfig = getProviderConfig('gemini');
-        if (geminiConfig?.apiKey) {
+        if (geminiConfig?.isConfigured) {
           provider = 'gemini';
           apiKey = geminiConfig.apiKey;
         }
@@ -1374,9 +1305,13 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
           selectedFeatures,
           provider,
           apiKey,
+          baseUrl: getProviderConfig(provider)?.baseUrl,
+          bookId: libraryBookId,
+          chapterId: selectedChapter.id,
           model,
         }),
       });
+      trackGenerationRun(response, libraryBookId);
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -1385,53 +1320,34 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
 
       const data = await response.json();
 
-      if (!data.success || !data.formattedContent) {
+      if (!data.success) {
         throw new Error('No formatted content returned');
       }
 
-      // Clean, simple result log
-      const preservationPct = Math.round((data.formattedWordCount / data.originalWordCount) * 100);
-      console.log(`[FORMAT] ✓ Complete: ${data.originalWordCount} → ${data.formattedWordCount} words (${preservationPct}%), ${data.featuresApplied} features`);
-
       setFormatStatus('');
 
-      // Set the formatted content (convert MyST to remark-directive for MDXEditor)
-      setEditedContent(mystToRemarkDirective(data.formattedContent));
-
-      // Create a result object for compatibility with existing UI
-      const wordCountDiff = data.formattedWordCount - data.originalWordCount;
-      const preservationPctExact = (Math.min(data.formattedWordCount, data.originalWordCount) / Math.max(data.formattedWordCount, data.originalWordCount)) * 100;
-      const result: FormatResult = {
-        formattedContent: data.formattedContent,
-        originalWordCount: data.originalWordCount,
-        formattedWordCount: data.formattedWordCount,
-        appliedTransformations: [],
-        suggestions: [],
-        warnings: [],
-        verification: {
-          isPreserved: Math.abs(wordCountDiff) < data.originalWordCount * 0.1,
+      const transformations: AppliedTransformation[] = data.transformations ?? [];
+      console.log(`[FORMAT] ✓ Complete: ${transformations.length} edit(s) applied, ${data.rejected?.length ?? 0} rejected`);
+
+      if (transformations.length === 0) {
+        alert('The AI did not suggest any formatting changes that could be applied.');
+        return;
+      }
+
+      // Each edit is reviewed as a hunk over the text that was sent
+      setFormattingReview({
+        original: contentToFormat,
+        result: {
+          formattedContent: data.formattedContent,
           originalWordCount: data.originalWordCount,
           formattedWordCount: data.formattedWordCount,
-          wordCountDifference: wordCountDiff,
-          preservationPercentage: preservationPctExact,
-          issues: [],
-          originalSentences: 0,
-          formattedSentences: 0,
-          sentencePreservationRate: 100,
+          appliedTransformations: transformations,
+          suggestions: [],
+          warnings: [],
         },
-      };
-      setFormatResult(result);
-
-      // Set metadata
-      setGenerationMetadata({
-        wordCount: data.formattedWordCount,
-        characterCount: data.formattedContent.length,
+        selectedFeatures,
       });
-
-      // Audit features in the formatted content
-      if (selectedFeatures.length > 0) {
-        auditFeatures(data.formattedContent, selectedFeatures);
-      }
+      setModalType('formatting-review');
 
     } catch (error) {
       console.error('[FORMAT] Error:', error);
@@ -1444,6 +1360,60 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
     }
   };
 
+  // Run the rule-based formatter and open its changes for review instead of applying them
+  const reviewRuleBasedFormatting = () => {
+    if (!selectedChapter || !userRawContent.trim()) return;
+
+    let selectedFeatures = selectedChapter.selectedFeatures || [];
+    if (selectedFeatures.length === 0) {
+      const enabledBookFeatures = bookConfig.features.filter(f => f.enabled).map(f => f.id);
+      if (enabledBookFeatures.length === 0) {
+        alert('No features enabled! Please enable features in the Feature Selection step.');
+        return;
+      }
+      syncChapterFeatures();
+      selectedFeatures = enabledBookFeatures;
+    }
+
+    // Formatting already in the text is left as written (the engine skips
+    // existing directives and fences), so every change it makes is a hunk
+    // over exactly what the author typed
+    const result = transformContent(userRawContent, { selectedFeatures });
+
+    if (result.appliedTransformations.length === 0) {
+      alert('The rule-based formatter found nothing to change for the selected features.');
+      return;
+    }
+    setFormattingReview({ original: userRawContent, result, selectedFeatures });
+    setModalType('formatting-review');
+  };
+
+  const applyFormattingReview = (content: string, accepted: AppliedTransformation[]) => {
+    if (!formattingReview || !selectedChapter) return;
+
+    void snapshotBeforeAIChange();
+    setContentSource('ai-format');
+    setEditedContent(mystToRemarkDirective(content));
+
+    const formattedWordCount = countWords(content);
+    setFormatResult({
+      ...formattingReview.result,
+      formattedContent: content,
+      formattedWordCount,
+      appliedTransformations: accepted,
+      warnings: [],
+      verification: verifyPreservation(formattingReview.original, content),
+    });
+    setGenerationMetadata({
+      wordCount: formattedWordCount,
+      characterCount: content.length,
+    });
+
+    auditFeatures(content, formattingReview.selectedFeatures, selectedChapter.id, 'ai-format');
+    setModalType('none');
+    setFormattingReview(null);
+  };
+
   // Generate book cover with AI
   const generateCover = async () => {
     if (!coverPrompt.trim()) {
@@ -1506,6 +1476,7 @@ IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT s
     chapter: Chapter
   ) => {
     console.log('continueFromTruncation called, existing word count:', existingContent.split(/\s+/).length);
+    setContentSource('ai-generate');
 
     try {
       // Get the last ~500 characters for context (avoiding mid-word cuts)
@@ -1543,6 +1514,7 @@ Continue from this exact point (do not include the text above - just continue fr
         body: JSON.stringify({
           provider,
           apiKey,
+          baseUrl: provider ? getProviderConfig(provider)?.baseUrl : undefined,
           model,
           prompt: continuationPrompt,
           type: 'chapter',
@@ -1552,8 +1524,11 @@ Continue from this exact point (do not include the text above - just continue fr
             chapterTitle: chapter.title,
             targetWordCount: remainingWords,
           },
+          bookId: libraryBookId,
+          chapterId: chapter.id,
         }),
       });
+      trackGenerationRun(response, libraryBookId);
 
       console.log('Continuation response status:', response.status);
 
@@ -1618,7 +1593,7 @@ Continue from this exact point (do not include the text above - just continue fr
                     outputTokens: data.metadata?.outputTokens,
                   });
 
-                  // Check if Claude stopped early again during continuation
+                  // Check if the model stopped early again during continuation
                   const shouldContinueAgain =
                     data.metadata?.stopReason === 'end_turn' &&
                     totalWordCount < targetWordCount * 0.8 &&
@@ -1639,7 +1614,7 @@ Continue from this exact point (do not include the text above - just continue fr
 
                   // Run feature audit
                   if (chapter.selectedFeatures?.length) {
-                    auditFeatures(fullContent, chapter.selectedFeatures);
+                    auditFeatures(fullContent, chapter.selectedFeatures, chapter.id, 'ai-generate');
                   }
                 }
               } catch (parseError) {
@@ -1723,11 +1698,13 @@ Continue from this exact point (do not include the text above - just continue fr
       }
     }
 
-    if (!chapterProvider || !effectiveApiKey) {
+    if (!chapterProvider || (!effectiveApiKey && !getProviderConfig(chapterProvider)?.isConfigured)) {
       alert('Please configure an AI provider and API key first. Click the gear icon to open Chapter Settings.');
       return;
     }
 
+    void snapshotBeforeAIChange();
+    setContentSource('ai-format');
     setIsFormatting(true);
 
     try {
@@ -1758,6 +1735,7 @@ Continue from this exact point (do not include the text above - just continue fr
         body: JSON.stringify({
           provider: chapterProvider,
           apiKey: effectiveApiKey,
+          baseUrl: chapterProvider ? getProviderConfig(chapterProvider)?.baseUrl : undefined,
           model: effectiveModel,
           prompt: `Format and enhance the following content using MyST Markdown. Improve structure, add appropriate headings, apply MyST features like admonitions, code blocks, and other formatting. Keep the original meaning and information but make it more professional and well-structured.${featuresContext}
 
@@ -1768,16 +1746,51 @@ ${editedContent}`,
             bookTitle: bookConfig.title,
             chapterTitle: selectedChapter.title,
           },
+          bookId: libraryBookId,
+          chapterId: selectedChapter.id,
         }),
       });
-
-      const data = await response.json();
+      trackGenerationRun(response, libraryBookId);
 
       if (!response.ok) {
+        const data = await response.json();
         throw new Error(data.error || 'Failed to format content');
       }
 
-      updateEditorContent(data.content);
+      // The generate endpoint streams every provider - collect the full text
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new Error('No response body');
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let formatted = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data: ')) continue;
+          const data = JSON.parse(line.slice(6));
+          if (data.error) {
+            throw new Error(data.error);
+          }
+          if (data.chunk) {
+            formatted += data.chunk;
+          }
+          if (data.done && data.content) {
+            formatted = data.content;
+          }
+        }
+      }
+
+      updateEditorContent(formatted);
     } catch (error) {
       console.error('Formatting error:', error);
       alert(error instanceof Error ? error.message : 'Failed to format content');
@@ -1786,7 +1799,79 @@ ${editedContent}`,
     }
   };
 
-  const saveChapter = async () => {
+  const restoreRevision = async (revision: LQ21ChapterRevision) => {
+    if (!selectedChapter) return;
+
+    // The text being replaced becomes a revision too, so a restore can be undone
+    await snapshotBeforeAIChange();
+    updateEditorContent(revision.content);
+    updateChapterContent(selectedChapter.id, revision.content);
+    setContentSource('restore');
+    await recordChapterRevision({
+      bookId: libraryBookId,
+      chapterKey: selectedChapter.id,
+      title: selectedChapter.title,
+      content: revision.content,
+      source: 'restore',
+    });
+  };
+
+  // Queue one job per missing feature from the latest audit and work through them
+  const remediateMissingFeatures = async () => {
+    if (!selectedChapter || !savedAudit || isRemediating) return;
+
+    const provider = selectedChapter.selectedProvider || aiConfig.provider;
+    const provConfig = provider ? getProviderConfig(provider) : undefined;
+    if (!provider || !provConfig?.isConfigured) {
+      alert('No API key found. Please configure an AI provider in Settings.');
+      return;
+    }
+
+    const chapter = selectedChapter;
+    const audit = savedAudit;
+    const controller = new AbortController();
+    remediationAbortRef.current = controller;
+    setIsRemediating(true);
+
+    try {
+      await enqueueRemediation(audit);
+      await refetchRemediationJobs();
+      await snapshotBeforeAIChange();
+      setContentSource('remediation');
+
+      const result = await runRemediationQueue({
+        scope: { bookId: libraryBookId, chapterKey: chapter.id },
+        auditId: audit.id,
+        chapterTitle: chapter.title,
+        content: getContentAsMyst(editedContent),
+        provider,
+        model: chapter.selectedModel || aiConfig.selectedModel || provConfig.selectedModel || '',
+        apiKey: provConfig.apiKey,
+        baseUrl: provConfig.baseUrl,
+        signal: controller.signal,
+        onJobUpdate: upsertRemediationJob,
+        onContent: (content) => {
+          updateEditorContent(content);
+          updateChapterContent(chapter.id, content);
+        },
+      });
+
+      console.log(`[REMEDIATION] ${result.completed} completed, ${result.failed} failed`);
+      if (result.completed > 0 && chapter.selectedFeatures?.length) {
+        auditFeatures(result.content, chapter.selectedFeatures, chapter.id, 'remediation');
+      }
+    } catch (error) {
+      console.error('[REMEDIATION] Error:', error);
+      alert(error instanceof Error ? error.message : 'Failed to remediate missing features');
+    } finally {
+      remediationAbortRef.current = null;
+      setIsRemediating(false);
+      void refetchRemediationJobs();
+    }
+  };
+
+  // `resolved` is the outcome of a merge with the GitHub version `baseSha`
+  const saveChapter = async (resolved?: ChapterFields & { baseSha: string }) => {
     if (!selectedChapter || !bookConfig.github) return;
 
     setIsSaving(true);
@@ -1795,10 +1880,24 @@ ${editedContent}`,
 
     try {
       // Convert content back to MyST format for saving
-      const mystContent = getContentAsMyst(editedContent);
+      const mystContent = resolved ? resolved.content : getContentAsMyst(editedContent);
+      const chapterFields = resolved
+        ? { title: resolved.title, description: resolved.description }
+        : { title: selectedChapter.title, description: selectedChapter.description };
 
       // Update local state
+      if (resolved) {
+        updateEditorContent(mystContent);
+        updateChapter(selectedChapter.id, chapterFields);
+      }
       updateChapterContent(selectedChapter.id, mystContent);
+      void recordChapterRevision({
+        bookId: libraryBookId,
+        chapterKey: selectedChapter.id,
+        title: selectedChapter.title,
+        content: mystContent,
+        source: contentSource,
+      });
       // Map 'format-content' to 'ai-generate' since the result is AI-formatted
       const savedInputMode = editorTab === 'format-content' ? 'ai-generate' : editorTab;
       updateChapterInputMode(selectedChapter.id, savedInputMode);
@@ -1813,18 +1912,41 @@ ${editedContent}`,
           repoName: bookConfig.github.repoName,
           chapter: {
             ...selectedChapter,
+            ...chapterFields,
             content: mystContent,
           },
           bookConfig, // Pass full config to sync myst.yml
+          bookId: libraryBookId, // Recorded in the book's deployment history
+          baseSha: resolved?.baseSha,
         }),
       });
 
       const data = await response.json();
 
+      if (response.status === 409 && data.conflict) {
+        setSaveConflict(data.conflict);
+        setModalType('merge-conflict');
+      }
+
       if (!response.ok) {
         throw new Error(data.error || 'Failed to save to GitHub');
       }
 
+      // Edits made on GitHub were merged in before pushing - show the combined chapter
+      const merged: ChapterFields | undefined = data.merged;
+      if (merged) {
+        updateEditorContent(merged.content);
+        updateChapter(selectedChapter.id, { title: merged.title, description: merged.description });
+        updateChapterContent(selectedChapter.id, merged.content);
+        void recordChapterRevision({
+          bookId: libraryBookId,
+          chapterKey: selectedChapter.id,
+          title: merged.title,
+          content: merged.content,
+          source: 'github-sync',
+        });
+      }
+
       // Store the verification details
       setSaveDetails({
         commitUrl: data.commitUrl,
@@ -1835,6 +1957,9 @@ ${editedContent}`,
         actionsUrl: data.actionsUrl,
         workflowTriggered: data.workflowTriggered,
         workflowRunUrl: data.workflowRunUrl,
+        pullRequestUrl: data.pullRequest?.url,
+        pullRequestNumber: data.pullRequest?.number,
+        previewUrl: data.pullRequest?.previewUrl,
       });
 
       // Set status based on verification
@@ -2174,7 +2299,7 @@ ${editedContent}`,
 
     const selectedModelInfo = providerModels.find(m => m.id === tempSelectedModel);
     const isGeminiSelected = selectedModelInfo?.provider === 'gemini' || tempSelectedProvider === 'gemini';
-    const providers: AIProvider[] = ['claude', 'openai', 'gemini', 'openrouter'];
+    const providers: AIProvider[] = ['claude', 'openai', 'gemini', 'openrouter', 'local'];
 
     const getProviderLabel = (provider: AIProvider): string => {
       switch (provider) {
@@ -2182,6 +2307,7 @@ ${editedContent}`,
         case 'openai': return 'OpenAI';
         case 'gemini': return 'Gemini (Google)';
         case 'openrouter': return 'OpenRouter';
+        case 'local': return 'Local Endpoint';
         default: return provider;
       }
     };
@@ -2250,7 +2376,7 @@ ${editedContent}`,
                       />
                       <button
                         onClick={() => loadModelsForProvider(tempSelectedProvider, tempProviderApiKey)}
-                        disabled={!tempProviderApiKey || isLoadingModels}
+                        disabled={(!tempProviderApiKey && tempSelectedProvider !== 'local') || isLoadingModels}
                         className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
                       >
                         {isLoadingModels ? (
@@ -2658,6 +2784,55 @@ ${editedContent}`,
     );
   };
 
+  const renderRevisionHistoryModal = () => {
+    if (modalType !== 'revision-history' || !selectedChapter) return null;
+
+    return (
+      <RevisionHistoryModal
+        bookId={libraryBookId}
+        chapterKey={selectedChapter.id}
+        chapterTitle={selectedChapter.title}
+        currentContent={getContentAsMyst(editedContent)}
+        onRestore={restoreRevision}
+        onClose={() => setModalType('none')}
+      />
+    );
+  };
+
+  const renderMergeConflictModal = () => {
+    if (modalType !== 'merge-conflict' || !selectedChapter || !saveConflict?.merge || !saveConflict.chapter) return null;
+    const { chapter: mergedFields, remoteSha } = saveConflict;
+
+    return (
+      <MergeConflictModal
+        chapterTitle={selectedChapter.title}
+        merge={saveConflict.merge}
+        onResolve={(content) => {
+          setModalType('none');
+          setSaveConflict(null);
+          void saveChapter({ ...mergedFields, content, baseSha: remoteSha! });
+        }}
+        onClose={() => setModalType('none')}
+      />
+    );
+  };
+
+  const renderFormattingReviewModal = () => {
+    if (modalType !== 'formatting-review' || !formattingReview) return null;
+
+    return (
+      <FormattingReviewModal
+        original={formattingReview.original}
+        transformations={formattingReview.result.appliedTransformations}
+        onApply={applyFormattingReview}
+        onClose={() => {
+          setModalType('none');
+          setFormattingReview(null);
+        }}
+      />
+    );
+  };
+
   const renderAnalyticsModal = () => {
     if (modalType !== 'analytics') return null;
 
@@ -3295,6 +3470,56 @@ ${editedContent}`,
                                     );
                                   })}
                                 </div>
+                                <div className="flex items-center gap-2 mt-2">
+                                  <button
+                                    onClick={remediateMissingFeatures}
+                                    disabled={!savedAudit || isRemediating || isGenerating}
+                                    title={savedAudit ? 'Ask the AI to add each missing feature' : 'Sign in to keep audits and queue remediation'}
+                                    className="flex items-center gap-1.5 px-2.5 py-1 text-xs bg-orange-600 text-white rounded hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                  >
+                                    {isRemediating ? (
+                                      <Loader2 className="h-3 w-3 animate-spin" />
+                                    ) : (
+                                      <Wand2 className="h-3 w-3" />
+                                    )}
+                                    Remediate missing features
+                                  </button>
+                                  {isRemediating && (
+                                    <button
+                                      onClick={() => remediationAbortRef.current?.abort()}
+                                      className="px-2.5 py-1 text-xs text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                                    >
+                                      Stop
+                                    </button>
+                                  )}
+                                </div>
+                              </div>
+                            )}
+
+                            {/* Remediation queue for the latest audit */}
+                            {remediationJobs.length > 0 && (
+                              <div className="mt-3 pt-2 border-t border-gray-200 dark:border-gray-700">
+                                <p className="text-xs text-gray-600 dark:text-gray-400 font-medium mb-1">
+                                  Remediation queue:
+                                </p>
+                                <ul className="space-y-1">
+                                  {remediationJobs
+                                    .filter(job => job.audit_id === remediationJobs[0].audit_id)
+                                    .map(job => (
+                                      <li key={job.id} className="flex items-start gap-2 text-xs">
+                                        <span className={`px-1.5 py-0.5 rounded shrink-0 ${REMEDIATION_STATUS_STYLES[job.status]}`}>
+                                          {job.status.replace('_', ' ')}
+                                        </span>
+                                        <span className="text-gray-700 dark:text-gray-300">
+                                          {job.feature_name}
+                                          {job.attempts > 1 && ` (attempt ${job.attempts}/${job.max_attempts})`}
+                                          {job.error_message && job.status !== 'completed' && (
+                                            <span className="block text-red-600 dark:text-red-400">{job.error_message}</span>
+                                          )}
+                                        </span>
+                                      </li>
+                                    ))}
+                                </ul>
                               </div>
                             )}
                           </div>
@@ -3344,6 +3569,20 @@ ${editedContent}`,
                               >
                                 Raw Markdown
                               </button>
+                              {libraryBookId && (
+                                <button
+                                  onClick={() => setShowReview(!showReview)}
+                                  className={`flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded-lg transition-colors ${
+                                    showReview
+                                      ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                                      : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                                  }`}
+                                  title="Comments and suggested edits"
+                                >
+                                  <MessageSquare className="h-3.5 w-3.5" />
+                                  Review
+                                </button>
+                              )}
                             </div>
                             <button
                               onClick={() => setIsContentEditorFullscreen(!isContentEditorFullscreen)}
@@ -3358,37 +3597,70 @@ ${editedContent}`,
                             </button>
                           </div>
                           {/* Editor content */}
-                          <div className={isContentEditorFullscreen ? 'flex-1 overflow-auto p-4 pt-0' : ''}>
-                            {useRawEditor ? (
-                              <textarea
-                                value={editedContent}
-                                onChange={(e) => setEditedContent(e.target.value)}
-                                placeholder="Write your content in MyST Markdown format..."
-                                className={`w-full p-4 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-                                  isContentEditorFullscreen ? 'h-full' : 'min-h-[300px]'
-                                }`}
-                              />
-                            ) : (
-                              <ForwardRefEditor
-                                ref={editorRef}
-                                markdown={editedContent}
-                                onChange={setEditedContent}
-                                onImageUpload={uploadImage}
-                                onError={handleEditorError}
+                          <div
+                            className={`${isContentEditorFullscreen ? 'flex-1 overflow-auto p-4 pt-0' : ''} ${
+                              showReview && libraryBookId && selectedChapter ? 'grid gap-4 lg:grid-cols-[minmax(0,1fr)_18rem]' : ''
+                            }`}
+                          >
+                            <div
+                              className={isContentEditorFullscreen ? 'h-full' : ''}
+                              onMouseUp={captureReviewSelection}
+                              onKeyUp={captureReviewSelection}
+                            >
+                              {useRawEditor ? (
+                                <textarea
+                                  value={editedContent}
+                                  onChange={(e) => handleManualEdit(e.target.value)}
+                                  placeholder="Write your content in MyST Markdown format..."
+                                  className={`w-full p-4 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                                    isContentEditorFullscreen ? 'h-full' : 'min-h-[300px]'
+                                  }`}
+                                />
+                              ) : (
+                                <ForwardRefEditor
+                                  ref={editorRef}
+                                  markdown={editedContent}
+                                  onChange={handleManualEdit}
+                                  onImageUpload={uploadImage}
+                                  onError={handleEditorError}
+                                />
+                              )}
+                              {editorParseError && useRawEditor && (
+                                <div className="mt-2 p-2 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded text-sm text-amber-700 dark:text-amber-300">
+                                  <strong>Note:</strong> Rich Editor couldn&apos;t parse the content. Using Raw Markdown mode.
+                                  <button
+                                    onClick={() => {
+                                      setEditorParseError(null);
+                                      setUseRawEditor(false);
+                                    }}
+                                    className="ml-2 underline hover:no-underline"
+                                  >
+                                    Try Rich Editor again
+                                  </button>
+                                </div>
+                              )}
+                              <MystProblemsPanel
+                                content={problemsContent}
+                                onFix={(content) => {
+                                  updateEditorContent(content);
+                                  setContentSource('manual');
+                                }}
                               />
-                            )}
-                            {editorParseError && useRawEditor && (
-                              <div className="mt-2 p-2 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded text-sm text-amber-700 dark:text-amber-300">
-                                <strong>Note:</strong> Rich Editor couldn&apos;t parse the content. Using Raw Markdown mode.
-                                <button
-                                  onClick={() => {
-                                    setEditorParseError(null);
-                                    setUseRawEditor(false);
+                            </div>
+                            {showReview && libraryBookId && selectedChapter && (
+                              <div className="h-[500px]">
+                                <ChapterReviewPanel
+                                  bookId={libraryBookId}
+                                  chapterKey={selectedChapter.id}
+                                  content={reviewContent}
+                                  selection={reviewSelection}
+                                  canComment
+                                  canSettle
+                                  onAcceptSuggestion={(content) => {
+                                    updateEditorContent(content);
+                                    setContentSource('manual');
                                   }}
-                                  className="ml-2 underline hover:no-underline"
-                                >
-                                  Try Rich Editor again
-                                </button>
+                                />
                               </div>
                             )}
                           </div>
@@ -3508,6 +3780,15 @@ ${editedContent}`,
                             </>
                           )}
                         </button>
+                        <button
+                          onClick={reviewRuleBasedFormatting}
+                          disabled={isGenerating || !userRawContent.trim()}
+                          title="Format with the rule-based engine and accept or reject each change"
+                          className="flex items-center gap-2 px-4 py-3 rounded-lg font-medium border border-green-600 text-green-700 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          <ListChecks className="h-5 w-5" />
+                          Review Changes
+                        </button>
                         {!userRawContent.trim() && !isGenerating && (
                           <span className="text-sm text-gray-500 dark:text-gray-400">
                             Paste your content above to enable formatting
@@ -3550,7 +3831,7 @@ ${editedContent}`,
                         <div className="relative">
                           <textarea
                             value={editedContent}
-                            onChange={(e) => setEditedContent(e.target.value)}
+                            onChange={(e) => handleManualEdit(e.target.value)}
                             className="w-full h-64 p-4 rounded-lg border border-green-300 dark:border-green-700 bg-green-50 dark:bg-green-900/20 text-gray-900 dark:text-white text-sm resize-none focus:ring-2 focus:ring-green-500 focus:border-transparent font-mono"
                             placeholder="Formatted content will appear here..."
                           />
@@ -3559,7 +3840,7 @@ ${editedContent}`,
                           <div className="space-y-3">
                             <div className="flex items-center gap-2">
                               <button
-                                onClick={saveChapter}
+                                onClick={() => saveChapter()}
                                 disabled={isSaving}
                                 className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 transition-colors"
                               >
@@ -3621,6 +3902,32 @@ ${editedContent}`,
                                     </span>
                                   </div>
                                 </div>
+                                {formatResult.verification.issues.length > 0 && (
+                                  <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+                                    <span className="text-xs text-gray-500 dark:text-gray-400">Issues:</span>
+                                    <ul className="mt-1 space-y-1">
+                                      {formatResult.verification.issues.slice(0, 5).map((issue, i) => (
+                                        <li
+                                          key={i}
+                                          className={`text-xs ${issue.severity === 'error' ? 'text-red-600 dark:text-red-400' : 'text-yellow-700 dark:text-yellow-400'}`}
+                                          title={issue.originalText}
+                                        >
+                                          {issue.description}
+                                          {issue.location?.formattedLine
+                                            ? ` (line ${issue.location.formattedLine})`
+                                            : issue.location?.originalLine
+                                              ? ` (original line ${issue.location.originalLine})`
+                                              : ''}
+                                        </li>
+                                      ))}
+                                      {formatResult.verification.issues.length > 5 && (
+                                        <li className="text-xs text-gray-500 dark:text-gray-400">
+                                          +{formatResult.verification.issues.length - 5} more
+                                        </li>
+                                      )}
+                                    </ul>
+                                  </div>
+                                )}
                                 {formatResult.appliedTransformations.length > 0 && (
                                   <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-700">
                                     <span className="text-xs text-gray-500 dark:text-gray-400">Applied:</span>
@@ -3776,6 +4083,20 @@ ${editedContent}`,
                               >
                                 Raw Markdown
                               </button>
+                              {libraryBookId && (
+                                <button
+                                  onClick={() => setShowReview(!showReview)}
+                                  className={`flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded-lg transition-colors ${
+                                    showReview
+                                      ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                                      : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                                  }`}
+                                  title="Comments and suggested edits"
+                                >
+                                  <MessageSquare className="h-3.5 w-3.5" />
+                                  Review
+                                </button>
+                              )}
                             </div>
                             <button
                               onClick={() => setIsContentEditorFullscreen(!isContentEditorFullscreen)}
@@ -3790,37 +4111,70 @@ ${editedContent}`,
                             </button>
                           </div>
                           {/* Editor content */}
-                          <div className={isContentEditorFullscreen ? 'flex-1 overflow-auto p-4 pt-0' : ''}>
-                            {useRawEditor ? (
-                              <textarea
-                                value={editedContent}
-                                onChange={(e) => setEditedContent(e.target.value)}
-                                placeholder="Write your content in MyST Markdown format..."
-                                className={`w-full p-4 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-                                  isContentEditorFullscreen ? 'h-full' : 'min-h-[300px]'
-                                }`}
-                              />
-                            ) : (
-                              <ForwardRefEditor
-                                ref={editorRef}
-                                markdown={editedContent}
-                                onChange={setEditedContent}
-                                onImageUpload={uploadImage}
-                                onError={handleEditorError}
+                          <div
+                            className={`${isContentEditorFullscreen ? 'flex-1 overflow-auto p-4 pt-0' : ''} ${
+                              showReview && libraryBookId && selectedChapter ? 'grid gap-4 lg:grid-cols-[minmax(0,1fr)_18rem]' : ''
+                            }`}
+                          >
+                            <div
+                              className={isContentEditorFullscreen ? 'h-full' : ''}
+                              onMouseUp={captureReviewSelection}
+                              onKeyUp={captureReviewSelection}
+                            >
+                              {useRawEditor ? (
+                                <textarea
+                                  value={editedContent}
+                                  onChange={(e) => handleManualEdit(e.target.value)}
+                                  placeholder="Write your content in MyST Markdown format..."
+                                  className={`w-full p-4 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                                    isContentEditorFullscreen ? 'h-full' : 'min-h-[300px]'
+                                  }`}
+                                />
+                              ) : (
+                                <ForwardRefEditor
+                                  ref={editorRef}
+                                  markdown={editedContent}
+                                  onChange={handleManualEdit}
+                                  onImageUpload={uploadImage}
+                                  onError={handleEditorError}
+                                />
+                              )}
+                              {editorParseError && useRawEditor && (
+                                <div className="mt-2 p-2 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded text-sm text-amber-700 dark:text-amber-300">
+                                  <strong>Note:</strong> Rich Editor couldn&apos;t parse the content. Using Raw Markdown mode.
+                                  <button
+                                    onClick={() => {
+                                      setEditorParseError(null);
+                                      setUseRawEditor(false);
+                                    }}
+                                    className="ml-2 underline hover:no-underline"
+                                  >
+                                    Try Rich Editor again
+                                  </button>
+                                </div>
+                              )}
+                              <MystProblemsPanel
+                                content={problemsContent}
+                                onFix={(content) => {
+                                  updateEditorContent(content);
+                                  setContentSource('manual');
+                                }}
                               />
-                            )}
-                            {editorParseError && useRawEditor && (
-                              <div className="mt-2 p-2 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded text-sm text-amber-700 dark:text-amber-300">
-                                <strong>Note:</strong> Rich Editor couldn&apos;t parse the content. Using Raw Markdown mode.
-                                <button
-                                  onClick={() => {
-                                    setEditorParseError(null);
-                                    setUseRawEditor(false);
+                            </div>
+                            {showReview && libraryBookId && selectedChapter && (
+                              <div className="h-[500px]">
+                                <ChapterReviewPanel
+                                  bookId={libraryBookId}
+                                  chapterKey={selectedChapter.id}
+                                  content={reviewContent}
+                                  selection={reviewSelection}
+                                  canComment
+                                  canSettle
+                                  onAcceptSuggestion={(content) => {
+                                    updateEditorContent(content);
+                                    setContentSource('manual');
                                   }}
-                                  className="ml-2 underline hover:no-underline"
-                                >
-                                  Try Rich Editor again
-                                </button>
+                                />
                               </div>
                             )}
                           </div>
@@ -3842,7 +4196,7 @@ ${editedContent}`,
                     <div className="text-green-600 dark:text-green-400">
                       <div className="flex items-center gap-1 font-medium">
                         <Check className="h-4 w-4" />
-                        Verified: Saved to GitHub
+                        {saveDetails.pullRequestUrl ? 'Verified: Saved to a draft on GitHub' : 'Verified: Saved to GitHub'}
                       </div>
                       <div className="flex flex-wrap gap-3 mt-1 text-xs">
                         {saveDetails.fileUrl && (
@@ -3867,6 +4221,17 @@ ${editedContent}`,
                             View Commit
                           </a>
                         )}
+                        {saveDetails.pullRequestUrl && (
+                          <a
+                            href={saveDetails.pullRequestUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:underline"
+                          >
+                            <ExternalLink className="h-3 w-3" />
+                            View Pull Request #{saveDetails.pullRequestNumber}
+                          </a>
+                        )}
                         {saveDetails.commitSha && (
                           <span className="text-gray-500 dark:text-gray-400">
                             SHA: {saveDetails.commitSha.slice(0, 7)}
@@ -3895,17 +4260,19 @@ ${editedContent}`,
                               )}
                             </div>
                             <p className="text-blue-600 dark:text-blue-400 text-xs mt-1">
-                              Your live book will update in 1-2 minutes once the build completes.
+                              {saveDetails.previewUrl
+                                ? 'The preview will update in 1-2 minutes. The live book updates when the pull request is merged.'
+                                : 'Your live book will update in 1-2 minutes once the build completes.'}
                             </p>
                             {bookConfig.github && (
                               <a
-                                href={`https://${bookConfig.github.username}.github.io/${bookConfig.github.repoName}`}
+                                href={saveDetails.previewUrl || `https://${bookConfig.github.username}.github.io/${bookConfig.github.repoName}`}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="inline-flex items-center gap-1.5 mt-2 px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white text-xs font-medium rounded-md transition-colors"
                               >
                                 <ExternalLink className="h-3 w-3" />
-                                View Live Book
+                                {saveDetails.previewUrl ? 'View Preview' : 'View Live Book'}
                               </a>
                             )}
                           </div>
@@ -3929,17 +4296,19 @@ ${editedContent}`,
                               )}
                             </div>
                             <p className="text-yellow-600 dark:text-yellow-400 text-xs mt-1">
-                              The build may start shortly. Your book will update in 1-2 minutes.
+                              {saveDetails.previewUrl
+                                ? 'The preview build may start shortly. The live book updates when the pull request is merged.'
+                                : 'The build may start shortly. Your book will update in 1-2 minutes.'}
                             </p>
                             {bookConfig.github && (
                               <a
-                                href={`https://${bookConfig.github.username}.github.io/${bookConfig.github.repoName}`}
+                                href={saveDetails.previewUrl || `https://${bookConfig.github.username}.github.io/${bookConfig.github.repoName}`}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="inline-flex items-center gap-1.5 mt-2 px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white text-xs font-medium rounded-md transition-colors"
                               >
                                 <ExternalLink className="h-3 w-3" />
-                                View Live Book
+                                {saveDetails.previewUrl ? 'View Preview' : 'View Live Book'}
                               </a>
                             )}
                           </div>
@@ -4018,23 +4387,33 @@ ${editedContent}`,
                     </div>
                   )}
                 </div>
-                <button
-                  onClick={saveChapter}
-                  disabled={isSaving || !editedContent}
-                  className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                >
-                  {isSaving ? (
-                    <>
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                      Saving...
-                    </>
-                  ) : (
-                    <>
-                      <Save className="h-4 w-4" />
-                      Save to GitHub
-                    </>
-                  )}
-                </button>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setModalType('revision-history')}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 transition-colors"
+                    title="Compare and restore saved versions"
+                  >
+                    <History className="h-4 w-4" />
+                    History
+                  </button>
+                  <button
+                    onClick={() => saveChapter()}
+                    disabled={isSaving || !editedContent}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {isSaving ? (
+                      <>
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      <>
+                        <Save className="h-4 w-4" />
+                        Save to GitHub
+                      </>
+                    )}
+                  </button>
+                </div>
               </div>
             </>
           ) : (
@@ -4076,6 +4455,9 @@ ${editedContent}`,
       {renderAddChapterModal()}
       {renderAnalyticsModal()}
       {renderCoverImageModal()}
+      {renderRevisionHistoryModal()}
+      {renderMergeConflictModal()}
+      {renderFormattingReviewModal()}
     </div>
   );
 }
@@ -3,6 +3,11 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useBookStore } from '@/store/useBookStore';
 import { useBooks } from '@/hooks/useBooks';
+import { assignUnassignedRuns } from '@/lib/supabase/generationHistory';
+import { assignUnassignedRevisions } from '@/lib/supabase/chapterRevisions';
+import { assignUnassignedAudits } from '@/lib/supabase/featureAudits';
+import { assignDeploymentToBook } from '@/lib/supabase/githubDeployments';
+import { downloadProjectZip } from '@/lib/projectDownload';
 import {
   ArrowLeft,
   Rocket,
@@ -17,6 +22,7 @@ import {
   Workflow,
   RefreshCw,
   Puzzle,
+  Download,
 } from 'lucide-react';
 import { BOOK_LEVEL_FEATURES } from '@/data/bookLevelFeatures';
 import { BookLevelFeature } from '@/types';
@@ -28,6 +34,7 @@ type DeploymentStatus = 'checking' | 'building' | 'deploying' | 'live' | 'error'
 interface GenerationResult {
   repoUrl?: string;
   deployedUrl?: string;
+  deploymentId?: string | null;
   error?: string;
   isRateLimit?: boolean;
   retryAfter?: number;
@@ -45,7 +52,7 @@ interface DeploymentInfo {
 }
 
 export function GenerateBookStep() {
-  const { bookConfig, setCurrentStep } = useBookStore();
+  const { bookConfig, setCurrentStep, libraryBookId, setLibraryBookId } = useBookStore();
   const { saveBookConfig } = useBooks();
   const [status, setStatus] = useState<GenerationStatus>('idle');
   const [saveError, setSaveError] = useState<string | null>(null);
@@ -56,6 +63,8 @@ export function GenerateBookStep() {
   const [pollCount, setPollCount] = useState(0);
   const pollCountRef = useRef(0);
   const [rateLimitCountdown, setRateLimitCountdown] = useState<number | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
 
   // Countdown timer for rate limit
   useEffect(() => {
@@ -88,6 +97,7 @@ export function GenerateBookStep() {
           token: bookConfig.github.token,
           username: bookConfig.github.username,
           repoName: bookConfig.github.repoName,
+          deploymentId: result?.deploymentId,
         }),
       });
 
@@ -131,7 +141,7 @@ export function GenerateBookStep() {
       setDeploymentStatus('error');
       return true; // Stop polling on error
     }
-  }, [bookConfig.github]);
+  }, [bookConfig.github, result?.deploymentId]);
 
   // Start polling when generation succeeds
   useEffect(() => {
@@ -201,6 +211,7 @@ export function GenerateBookStep() {
           token: bookConfig.github.token,
           repoName: bookConfig.github.repoName,
           bookConfig,
+          bookId: libraryBookId,
         }),
       });
 
@@ -232,6 +243,15 @@ export function GenerateBookStep() {
         if (!savedBook) {
           console.warn('Book was not saved to library - user may not be authenticated');
           setSaveError('Book created on GitHub but not saved to library. Sign in to save books.');
+        } else {
+          setLibraryBookId(savedBook.id);
+          // Generation runs, chapter revisions and feature audits from the wizard now belong to this book
+          await assignUnassignedRuns(savedBook.id);
+          await assignUnassignedRevisions(savedBook.id);
+          await assignUnassignedAudits(savedBook.id);
+          if (data.deploymentId) {
+            await assignDeploymentToBook(data.deploymentId, savedBook.id);
+          }
         }
       } catch (saveErr) {
         console.error('Error saving book to library:', saveErr);
@@ -242,6 +262,7 @@ export function GenerateBookStep() {
       setResult({
         repoUrl: data.repoUrl,
         deployedUrl: data.deployedUrl,
+        deploymentId: data.deploymentId,
       });
     } catch (error) {
       setStatus('error');
@@ -251,6 +272,18 @@ export function GenerateBookStep() {
     }
   };
 
+  const handleDownloadProject = async () => {
+    setIsDownloading(true);
+    setDownloadError(null);
+    try {
+      await downloadProjectZip(bookConfig);
+    } catch (error) {
+      setDownloadError(error instanceof Error ? error.message : 'Failed to download project');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
   const handleBack = () => {
     setCurrentStep('github-setup');
   };
@@ -697,6 +730,10 @@ export function GenerateBookStep() {
         </div>
       )}
 
+      {downloadError && (
+        <p className="text-sm text-red-600 dark:text-red-400">{downloadError}</p>
+      )}
+
       {/* Navigation */}
       <div className="flex justify-between pt-6 border-t border-gray-200 dark:border-gray-700">
         <button
@@ -712,31 +749,48 @@ export function GenerateBookStep() {
           Back
         </button>
 
-        {status === 'idle' && (
+        <div className="flex items-center gap-3">
           <button
-            onClick={handleGenerate}
+            onClick={handleDownloadProject}
+            disabled={isDownloading || status === 'generating'}
+            title="Download the MyST project as a ZIP to build or host it yourself"
             className="
               flex items-center gap-2 px-6 py-3 rounded-lg font-semibold
-              bg-blue-600 hover:bg-blue-700 text-white transition-colors
+              text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600
+              hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors
+              disabled:opacity-50 disabled:cursor-not-allowed
             "
           >
-            <Rocket className="h-5 w-5" />
-            Generate Book
+            {isDownloading ? <Loader2 className="h-5 w-5 animate-spin" /> : <Download className="h-5 w-5" />}
+            Download project
           </button>
-        )}
 
-        {status === 'success' && (
-          <button
-            onClick={handleEditChapters}
-            className="
-              flex items-center gap-2 px-6 py-3 rounded-lg font-semibold
-              bg-blue-600 hover:bg-blue-700 text-white transition-colors
-            "
-          >
-            Edit Chapters with AI
-            <FileText className="h-5 w-5" />
-          </button>
-        )}
+          {status === 'idle' && (
+            <button
+              onClick={handleGenerate}
+              className="
+                flex items-center gap-2 px-6 py-3 rounded-lg font-semibold
+                bg-blue-600 hover:bg-blue-700 text-white transition-colors
+              "
+            >
+              <Rocket className="h-5 w-5" />
+              Generate Book
+            </button>
+          )}
+
+          {status === 'success' && (
+            <button
+              onClick={handleEditChapters}
+              className="
+                flex items-center gap-2 px-6 py-3 rounded-lg font-semibold
+                bg-blue-600 hover:bg-blue-700 text-white transition-colors
+              "
+            >
+              Edit Chapters with AI
+              <FileText className="h-5 w-5" />
+            </button>
+          )}
+        </div>
       </div>
     </div>
   );
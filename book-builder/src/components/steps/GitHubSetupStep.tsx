@@ -2,7 +2,8 @@
 
 import { useState } from 'react';
 import { useBookStore } from '@/store/useBookStore';
-import { ArrowLeft, ArrowRight, Github, Eye, EyeOff, CheckCircle, AlertCircle, Loader2, Shield } from 'lucide-react';
+import { GitHubPublishMode } from '@/types';
+import { ArrowLeft, ArrowRight, Github, Eye, EyeOff, CheckCircle, AlertCircle, Loader2, Shield, GitPullRequest } from 'lucide-react';
 
 export function GitHubSetupStep() {
   const { bookConfig, setGitHubConfig, setCurrentStep } = useBookStore();
@@ -12,6 +13,7 @@ export function GitHubSetupStep() {
     bookConfig.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') ||
     'my-book'
   );
+  const [publishMode, setPublishMode] = useState<GitHubPublishMode>(bookConfig.github?.publishMode || 'direct');
   const [showToken, setShowToken] = useState(false);
   const [useDefaultPat, setUseDefaultPat] = useState(true);
   const [isValidating, setIsValidating] = useState(false);
@@ -20,6 +22,7 @@ export function GitHubSetupStep() {
     username?: string;
     error?: string;
     usingDefault?: boolean;
+    usingSaved?: boolean;
   } | null>(null);
 
   const validateToken = async () => {
@@ -36,11 +39,17 @@ export function GitHubSetupStep() {
           throw new Error(data.error || 'Default PAT validation failed');
         }
 
-        setValidationResult({ valid: true, username: data.username, usingDefault: true });
+        setValidationResult({
+          valid: true,
+          username: data.username,
+          usingDefault: data.source !== 'saved',
+          usingSaved: data.source === 'saved',
+        });
         setGitHubConfig({
           token: '', // Empty token means use server default
           repoName,
           username: data.username,
+          publishMode,
         });
       } catch (error) {
         setValidationResult({
@@ -80,6 +89,7 @@ export function GitHubSetupStep() {
         token,
         repoName,
         username: data.login,
+        publishMode,
       });
     } catch (error) {
       setValidationResult({
@@ -101,6 +111,7 @@ export function GitHubSetupStep() {
         token,
         repoName,
         username: validationResult.username!,
+        publishMode,
       });
       setCurrentStep('generate-book');
     }
@@ -239,6 +250,7 @@ export function GitHubSetupStep() {
                 <span>
                   Connected as <strong>{validationResult.username}</strong>
                   {validationResult.usingDefault && ' (Liquid Books account)'}
+                  {validationResult.usingSaved && ' (your saved token)'}
                 </span>
               </>
             ) : (
@@ -282,6 +294,28 @@ export function GitHubSetupStep() {
             </p>
           )}
         </div>
+
+        {/* Publish Mode */}
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={publishMode === 'pull-request'}
+            onChange={(e) => setPublishMode(e.target.checked ? 'pull-request' : 'direct')}
+            className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <div className="flex-1">
+            <div className="flex items-center gap-2">
+              <GitPullRequest className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+              <span className="font-medium text-gray-900 dark:text-white">
+                Review changes in pull requests
+              </span>
+            </div>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              After the first publish, saves go to draft branches with a pull request and a preview site.
+              The live book only updates when you merge.
+            </p>
+          </div>
+        </label>
       </div>
 
       {/* Info Box */}
@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { useBookStore } from '@/store/useBookStore';
 import { Chapter } from '@/types';
+import { trackGenerationRun } from '@/lib/supabase/generationHistory';
 import {
   ArrowLeft,
   ArrowRight,
@@ -34,6 +35,8 @@ export function TOCGenerationStep() {
     updateChapter,
     removeChapter,
     setCurrentStep,
+    libraryBookId,
+    getProviderConfig,
   } = useBookStore();
 
   const [mode, setMode] = useState<Mode>('choose');
@@ -77,7 +80,7 @@ Rules:
 - Output ONLY the JSON array`;
 
   const handleGenerateTOC = async () => {
-    if (!aiConfig.provider || !aiConfig.apiKey || !aiConfig.selectedModel) {
+    if (!aiConfig.provider || !getProviderConfig(aiConfig.provider)?.isConfigured || !aiConfig.selectedModel) {
       setError('AI is not configured properly');
       return;
     }
@@ -107,8 +110,10 @@ Rules:
         body: JSON.stringify({
           provider: aiConfig.provider,
           apiKey: aiConfig.apiKey,
+          baseUrl: aiConfig.providers[aiConfig.provider]?.baseUrl,
           model: aiConfig.selectedModel,
           type: 'toc',
+          bookId: libraryBookId,
           prompt: `Create a comprehensive table of contents for a book with the following details:
 
 Title: ${bookConfig.title}
@@ -121,8 +126,9 @@ Generate a logical, well-structured table of contents that covers all the topics
           } : undefined,
         }),
       });
+      trackGenerationRun(response, libraryBookId);
 
-      // Check if this is a streaming response (Claude)
+      // Check if this is a streaming response
       const contentType = response.headers.get('content-type');
       let content: string;
 
@@ -196,7 +202,7 @@ Generate a logical, well-structured table of contents that covers all the topics
   };
 
   const handleImportTOC = async () => {
-    if (!aiConfig.provider || !aiConfig.apiKey || !aiConfig.selectedModel) {
+    if (!aiConfig.provider || !getProviderConfig(aiConfig.provider)?.isConfigured || !aiConfig.selectedModel) {
       setError('AI is not configured properly');
       return;
     }
@@ -230,8 +236,10 @@ Generate a logical, well-structured table of contents that covers all the topics
         body: JSON.stringify({
           provider: aiConfig.provider,
           apiKey: aiConfig.apiKey,
+          baseUrl: aiConfig.providers[aiConfig.provider]?.baseUrl,
           model: aiConfig.selectedModel,
           type: 'toc',
+          bookId: libraryBookId,
           prompt: `Parse this outline into COMPACT JSON. CRITICAL: NO descriptions, use short IDs.
 
 TEXT:
@@ -250,8 +258,9 @@ Rules:
 - Output ONLY the JSON array`,
         }),
       });
+      trackGenerationRun(response, libraryBookId);
 
-      // Check if this is a streaming response (Claude)
+      // Check if this is a streaming response
       const contentType = response.headers.get('content-type');
       let content: string;
 
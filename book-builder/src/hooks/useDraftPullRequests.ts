@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { DraftPullRequest } from '@/lib/githubPullRequests';
+
+interface UseDraftPullRequestsOptions {
+  bookId: string;
+  username?: string | null;
+  repoName?: string | null;
+  /** Token from wizard settings, if any - saved tokens are used server-side */
+  githubToken?: string;
+  /** Only books published through pull requests have drafts to list */
+  enabled: boolean;
+}
+
+/**
+ * Open pull requests from a book's draft branches, with merge and close actions
+ */
+export function useDraftPullRequests({
+  bookId,
+  username,
+  repoName,
+  githubToken,
+  enabled,
+}: UseDraftPullRequestsOptions) {
+  const [pullRequests, setPullRequests] = useState<DraftPullRequest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Pull request being merged or closed
+  const [busyNumber, setBusyNumber] = useState<number | null>(null);
+
+  const callPulls = useCallback(async (action: 'list' | 'merge' | 'close', number?: number) => {
+    const response = await fetch('/api/github/pulls', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: githubToken, username, repoName, bookId, action, number }),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || `Failed to ${action} pull request`);
+    return data;
+  }, [githubToken, username, repoName, bookId]);
+
+  const loadPullRequests = useCallback(async () => {
+    if (!enabled || !username || !repoName) {
+      setPullRequests([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await callPulls('list');
+      setPullRequests(data.pullRequests);
+    } catch (err) {
+      console.error('Error fetching pull requests:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch pull requests');
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled, username, repoName, callPulls]);
+
+  useEffect(() => {
+    loadPullRequests();
+  }, [loadPullRequests]);
+
+  const runAction = async (action: 'merge' | 'close', number: number) => {
+    setBusyNumber(number);
+    setError(null);
+    try {
+      await callPulls(action, number);
+      setPullRequests(prev => prev.filter(pr => pr.number !== number));
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} pull request`);
+      return false;
+    } finally {
+      setBusyNumber(null);
+    }
+  };
+
+  return {
+    pullRequests,
+    loading,
+    error,
+    busyNumber,
+    refetch: loadPullRequests,
+    mergePullRequest: (number: number) => runAction('merge', number),
+    closePullRequest: (number: number) => runAction('close', number),
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Claude (Anthropic) adapter
+ */
+
+import type { AIModel } from '../../types/index.ts';
+import type { CompletionRequest, CompletionResult, ProviderAdapter, StopReason, StreamEvent } from './types.ts';
+import { readErrorMessage, readSSEData } from './sse.ts';
+
+const ANTHROPIC_API = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+function formatClaudeModelName(modelId: string): string {
+  // Convert claude-3-5-sonnet-20241022 to "Claude 3.5 Sonnet"
+  return modelId
+    .replace(/^claude-/, 'Claude ')
+    .replace(/-(\d+)-(\d+)-/, ' $1.$2 ')
+    .replace(/-(\d+)-/, ' $1 ')
+    .replace(/-\d{8}$/, '')
+    .replace(/-/g, ' ')
+    .replace(/\b\w/g, c => c.toUpperCase());
+}
+
+function extractClaudeVersion(modelId: string): number {
+  // Extract version number for sorting (4 > 3.5 > 3)
+  if (modelId.includes('opus-4') || modelId.includes('sonnet-4')) return 4;
+  if (modelId.includes('3-5') || modelId.includes('3.5')) return 3.5;
+  if (modelId.includes('claude-3')) return 3;
+  return 0;
+}
+
+async function listModels(apiKey: string): Promise<AIModel[]> {
+  try {
+    // Use Anthropic's models API to get actual available models
+    const response = await fetch(`${ANTHROPIC_API}/models`, {
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(await readErrorMessage(response, 'Invalid API key'));
+    }
+
+    const data = await response.json();
+
+    // Filter to only claude models and format them
+    return data.data
+      .filter((model: { id: string; type: string }) =>
+        model.type === 'model' && model.id.includes('claude')
+      )
+      .map((model: { id: string; display_name?: string }) => ({
+        id: model.id,
+        name: model.display_name || formatClaudeModelName(model.id),
+        provider: 'claude' as const,
+      }))
+      .sort((a: AIModel, b: AIModel) => {
+        // Sort newer models first (claude-4 before claude-3.5 before claude-3)
+        const aVersion = extractClaudeVersion(a.id);
+        const bVersion = extractClaudeVersion(b.id);
+        if (bVersion !== aVersion) return bVersion - aVersion;
+        return a.id.localeCompare(b.id);
+      });
+  } catch (error) {
+    throw new Error(`Claude API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+async function* stream(apiKey: string, request: CompletionRequest): AsyncGenerator<StreamEvent> {
+  const response = await fetch(`${ANTHROPIC_API}/messages`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+      // Lifts the output cap to 128K tokens for long chapters
+      'anthropic-beta': 'output-128k-2025-02-19',
+    },
+    body: JSON.stringify({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      stream: true,
+      system: request.systemPrompt,
+      messages: [{ role: 'user', content: request.userPrompt }],
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Claude API failed'));
+  }
+
+  let stopReason: StopReason = '';
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  for await (const data of readSSEData(response)) {
+    let parsed;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      continue; // Skip invalid JSON lines
+    }
+
+    if (parsed.type === 'content_block_delta' && parsed.delta?.text) {
+      yield { type: 'text', text: parsed.delta.text };
+    }
+
+    // message_start carries the input token count
+    if (parsed.type === 'message_start' && parsed.message?.usage) {
+      inputTokens = parsed.message.usage.input_tokens || 0;
+    }
+
+    // message_delta carries the stop reason and running output token count
+    if (parsed.type === 'message_delta') {
+      if (parsed.delta?.stop_reason) {
+        stopReason = parsed.delta.stop_reason;
+      }
+      if (parsed.usage?.output_tokens) {
+        outputTokens = parsed.usage.output_tokens;
+      }
+    }
+
+    if (parsed.type === 'error') {
+      throw new Error(parsed.error?.message || 'Stream error');
+    }
+  }
+
+  yield { type: 'stop', stopReason, usage: { inputTokens, outputTokens } };
+}
+
+/**
+ * Claude completions are collected from the stream - long non-streaming
+ * requests risk hitting the API's idle timeout
+ */
+async function complete(apiKey: string, request: CompletionRequest): Promise<CompletionResult> {
+  let content = '';
+  let stopReason: StopReason = '';
+  let usage = { inputTokens: 0, outputTokens: 0 };
+
+  for await (const event of stream(apiKey, request)) {
+    if (event.type === 'text') {
+      content += event.text;
+    } else {
+      stopReason = event.stopReason;
+      usage = event.usage;
+    }
+  }
+
+  return { content, stopReason, usage };
+}
+
+export const claudeAdapter: ProviderAdapter = {
+  id: 'claude',
+  name: 'Claude',
+  envKey: 'ANTHROPIC_API_KEY',
+  requiresApiKey: true,
+  // Claude models support large context windows (200K) and 128K output with the beta header
+  defaultMaxTokens: { toc: 4096, chapter: 64000, content: 64000 },
+  listModels,
+  complete,
+  stream,
+};
@@ -0,0 +1,237 @@
+/**
+ * Gemini (Google) adapter
+ */
+
+import type { AIModel } from '../../types/index.ts';
+import type { CompletionRequest, CompletionResult, ProviderAdapter, StopReason, StreamEvent } from './types.ts';
+import { readErrorMessage, readSSEData } from './sse.ts';
+
+// Use v1beta to support all models, including the newest previews
+const GEMINI_API = 'https://generativelanguage.googleapis.com/v1beta';
+
+function extractGeminiVersion(modelId: string): number {
+  if (modelId.includes('3.0') || modelId.includes('3-') || modelId.includes('gemini-3')) return 3.0;
+  if (modelId.includes('2.0') || modelId.includes('2-') || modelId.includes('gemini-2')) return 2.0;
+  if (modelId.includes('1.5') || modelId.includes('1-5')) return 1.5;
+  if (modelId.includes('1.0') || modelId.includes('1-0')) return 1.0;
+  return 0;
+}
+
+/**
+ * Map Gemini finish reasons onto the Claude stop reasons the client understands
+ */
+export function normalizeGeminiFinishReason(finishReason: string | null | undefined): StopReason {
+  switch (finishReason) {
+    case 'STOP':
+      return 'end_turn';
+    case 'MAX_TOKENS':
+      return 'max_tokens';
+    case 'SAFETY':
+    case 'RECITATION':
+    case 'BLOCKLIST':
+    case 'PROHIBITED_CONTENT':
+      return 'content_filter';
+    default:
+      return finishReason || '';
+  }
+}
+
+async function listModels(apiKey: string): Promise<AIModel[]> {
+  try {
+    const response = await fetch(`${GEMINI_API}/models?key=${apiKey}`);
+
+    if (!response.ok) {
+      throw new Error(await readErrorMessage(response, 'Invalid API key'));
+    }
+
+    const data = await response.json();
+
+    // Log all available models for debugging
+    console.log('[GEMINI MODELS] All models from API:', data.models?.map((m: { name: string }) => m.name));
+
+    // Filter to only models that support generateContent
+    const generationModels: AIModel[] = data.models
+      .filter((model: { name: string; supportedGenerationMethods?: string[] }) => {
+        // Only include models that support generateContent
+        const supportsGeneration = model.supportedGenerationMethods?.includes('generateContent');
+        // Only include gemini models (not embedding, aqa, etc.)
+        const isGeminiModel = model.name.includes('gemini');
+        return supportsGeneration && isGeminiModel;
+      })
+      .map((model: { name: string; displayName: string }) => ({
+        id: model.name.replace('models/', ''),
+        name: model.displayName || model.name.replace('models/', ''),
+        provider: 'gemini' as const,
+      }))
+      .sort((a: AIModel, b: AIModel) => {
+        // Sort by version (3.0 > 2.0 > 1.5 > 1.0) and then pro > flash
+        const aVersion = extractGeminiVersion(a.id);
+        const bVersion = extractGeminiVersion(b.id);
+        if (bVersion !== aVersion) return bVersion - aVersion;
+        // Pro before Flash
+        if (a.id.includes('pro') && !b.id.includes('pro')) return -1;
+        if (!a.id.includes('pro') && b.id.includes('pro')) return 1;
+        return a.id.localeCompare(b.id);
+      });
+
+    // Add known Gemini 3 Pro models as fallback if not already present
+    const knownGemini3ProModels: AIModel[] = [
+      { id: 'gemini-3-pro-preview', name: 'Gemini 3.0 Pro (Preview)', provider: 'gemini' },
+      { id: 'gemini-3.0-pro', name: 'Gemini 3.0 Pro', provider: 'gemini' },
+    ];
+
+    for (const proModel of knownGemini3ProModels) {
+      const exists = generationModels.some((m) => m.id === proModel.id);
+      if (!exists) {
+        // Add to the beginning since it's a top-tier model
+        generationModels.unshift(proModel);
+      }
+    }
+
+    console.log('[GEMINI MODELS] Filtered models:', generationModels.map((m) => m.id));
+
+    return generationModels;
+  } catch (error) {
+    throw new Error(`Gemini API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+function generateContentUrl(apiKey: string, model: string, method: 'generateContent' | 'streamGenerateContent'): string {
+  // Strip models/ prefix if present (it shouldn't be, but just in case)
+  const modelId = model.replace(/^models\//, '');
+  const sse = method === 'streamGenerateContent' ? 'alt=sse&' : '';
+  return `${GEMINI_API}/models/${modelId}:${method}?${sse}key=${apiKey}`;
+}
+
+function buildBody(request: CompletionRequest): string {
+  return JSON.stringify({
+    contents: [
+      {
+        parts: [
+          { text: `${request.systemPrompt}\n\n${request.userPrompt}` },
+        ],
+      },
+    ],
+    generationConfig: {
+      maxOutputTokens: request.maxTokens,
+      temperature: request.temperature ?? 0.7,
+    },
+  });
+}
+
+function assertNotBlocked(data: {
+  promptFeedback?: { blockReason?: string };
+  candidates?: { finishReason?: string; safetyRatings?: { category: string; probability: string }[] }[];
+}): void {
+  // Check if the prompt itself was blocked by safety filters
+  if (data.promptFeedback?.blockReason) {
+    throw new Error(`Content blocked by Gemini safety filters: ${data.promptFeedback.blockReason}`);
+  }
+
+  // Check if this specific candidate was blocked
+  const candidate = data.candidates?.[0];
+  if (candidate?.finishReason === 'SAFETY') {
+    const safetyRatings = candidate.safetyRatings?.map((r) => `${r.category}: ${r.probability}`).join(', ');
+    throw new Error(`Content blocked by safety filters. Ratings: ${safetyRatings || 'unknown'}`);
+  }
+}
+
+async function complete(apiKey: string, request: CompletionRequest): Promise<CompletionResult> {
+  const response = await fetch(generateContentUrl(apiKey, request.model, 'generateContent'), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: buildBody(request),
+  });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Gemini API request failed'));
+  }
+
+  const data = await response.json();
+
+  assertNotBlocked(data);
+
+  // Check for valid response structure
+  if (!data.candidates || data.candidates.length === 0) {
+    throw new Error('Gemini returned no candidates. The request may have been filtered or rate limited.');
+  }
+
+  const candidate = data.candidates[0];
+
+  if (!candidate.content?.parts?.[0]?.text) {
+    throw new Error(`Gemini returned an invalid response structure. Finish reason: ${candidate.finishReason || 'unknown'}`);
+  }
+
+  return {
+    content: candidate.content.parts.map((part: { text?: string }) => part.text || '').join(''),
+    stopReason: normalizeGeminiFinishReason(candidate.finishReason),
+    usage: {
+      inputTokens: data.usageMetadata?.promptTokenCount || 0,
+      outputTokens: data.usageMetadata?.candidatesTokenCount || 0,
+    },
+  };
+}
+
+async function* stream(apiKey: string, request: CompletionRequest): AsyncGenerator<StreamEvent> {
+  const response = await fetch(generateContentUrl(apiKey, request.model, 'streamGenerateContent'), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: buildBody(request),
+  });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Gemini API failed'));
+  }
+
+  let stopReason: StopReason = '';
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  for await (const data of readSSEData(response)) {
+    let parsed;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      continue; // Skip invalid JSON lines
+    }
+
+    if (parsed.error) {
+      throw new Error(parsed.error.message || 'Stream error');
+    }
+
+    assertNotBlocked(parsed);
+
+    const candidate = parsed.candidates?.[0];
+    const text = candidate?.content?.parts?.map((part: { text?: string }) => part.text || '').join('');
+    if (text) {
+      yield { type: 'text', text };
+    }
+    if (candidate?.finishReason) {
+      stopReason = normalizeGeminiFinishReason(candidate.finishReason);
+    }
+
+    // Every chunk carries cumulative usage, so the last one wins
+    if (parsed.usageMetadata) {
+      inputTokens = parsed.usageMetadata.promptTokenCount || 0;
+      outputTokens = parsed.usageMetadata.candidatesTokenCount || 0;
+    }
+  }
+
+  yield { type: 'stop', stopReason, usage: { inputTokens, outputTokens } };
+}
+
+export const geminiAdapter: ProviderAdapter = {
+  id: 'gemini',
+  name: 'Gemini',
+  envKey: 'GEMINI_API_KEY',
+  requiresApiKey: true,
+  // Gemini models support generous output limits (up to 65K for some models)
+  defaultMaxTokens: { toc: 32768, chapter: 65536, content: 65536 },
+  listModels,
+  complete,
+  stream,
+};
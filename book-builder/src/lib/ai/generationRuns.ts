@@ -0,0 +1,171 @@
+/**
+ * Generation history (lq21_generation_history), recorded by the AI routes
+ *
+ * A row is opened when a route calls the provider and finished with the usage
+ * the provider reported, so the browser never writes its own usage and a run
+ * still finishes if the tab is closed. Users can read their history but not
+ * write it: rows are written with a service-role client, after checking with
+ * the user's own client that they can write the book the run is for.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LQ21GenerationHistory } from '../supabase/types.ts';
+import type { TokenUsage } from './types.ts';
+
+export type GenerationRunType = LQ21GenerationHistory['generation_type'];
+
+export interface GenerationRunInfo {
+  type: GenerationRunType;
+  provider: string;
+  model: string;
+  bookId?: string | null;
+  chapterId?: string | null;
+}
+
+export interface GenerationRunResult {
+  stopReason?: string | null;
+  usage?: TokenUsage | null;
+  wordCount?: number | null;
+  // Set when the call failed
+  error?: unknown;
+}
+
+export interface GenerationRun {
+  // Row id, or null when the run isn't being recorded
+  id: string | null;
+  // Only the first call is recorded, so error paths can call it freely
+  finish: (result?: GenerationRunResult) => Promise<void>;
+}
+
+// Sent back so the wizard can attach runs to the book once it is saved
+export const GENERATION_RUN_HEADER = 'X-Generation-Run-Id';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const unrecordedRun: GenerationRun = { id: null, finish: async () => {} };
+
+/**
+ * History type for a generate request: formatting passes are content runs
+ */
+export function generationRunType(type: string | null | undefined): GenerationRunType {
+  return type === 'toc' || type === 'chapter' ? type : 'content';
+}
+
+export function generationRunHeaders(run: GenerationRun | null | undefined): Record<string, string> {
+  return run?.id ? { [GENERATION_RUN_HEADER]: run.id } : {};
+}
+
+// The book and chapter a run may be filed under: the book only if the user can
+// write it, the chapter only if it belongs to that book
+async function resolveRunScope(
+  session: SupabaseClient,
+  userId: string,
+  info: GenerationRunInfo
+): Promise<Pick<LQ21GenerationHistory, 'book_id' | 'chapter_id'>> {
+  const none = { book_id: null, chapter_id: null };
+  if (!info.bookId || !UUID_PATTERN.test(info.bookId)) return none;
+
+  const { data: book } = await session
+    .from('lq21_books')
+    .select('owner_id, organization_id')
+    .eq('id', info.bookId)
+    .maybeSingle();
+  if (!book) return none;
+
+  if (book.owner_id !== userId) {
+    if (!book.organization_id) return none;
+    const { data: member } = await session
+      .from('lq21_organization_members')
+      .select('role')
+      .eq('organization_id', book.organization_id)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (member?.role !== 'owner' && member?.role !== 'editor') return none;
+  }
+
+  if (!info.chapterId || !UUID_PATTERN.test(info.chapterId)) {
+    return { book_id: info.bookId, chapter_id: null };
+  }
+
+  const { data: chapter } = await session
+    .from('lq21_chapters')
+    .select('id')
+    .eq('id', info.chapterId)
+    .eq('book_id', info.bookId)
+    .maybeSingle();
+  return { book_id: info.bookId, chapter_id: chapter ? info.chapterId : null };
+}
+
+/**
+ * Open a history row for a generation call. `recorder` is a service-role
+ * client; without one (or if the insert fails) the call goes unrecorded
+ * rather than failing.
+ */
+export async function startGenerationRun(
+  recorder: SupabaseClient | null,
+  session: SupabaseClient,
+  userId: string,
+  info: GenerationRunInfo
+): Promise<GenerationRun> {
+  if (!recorder) return unrecordedRun;
+
+  const startedAt = Date.now();
+
+  try {
+    const { data, error } = await recorder
+      .from('lq21_generation_history')
+      .insert({
+        ...(await resolveRunScope(session, userId, info)),
+        user_id: userId,
+        generation_type: info.type,
+        provider: info.provider,
+        model: info.model,
+        status: 'streaming',
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+
+    const id: string = data.id;
+    let finished = false;
+
+    return {
+      id,
+      finish: async ({ stopReason = null, usage = null, wordCount = null, error: runError } = {}) => {
+        if (finished) return;
+        finished = true;
+
+        const status: LQ21GenerationHistory['status'] = runError
+          ? 'failed'
+          : stopReason === 'max_tokens' ? 'truncated' : 'completed';
+
+        try {
+          const { error: updateError } = await recorder
+            .from('lq21_generation_history')
+            .update({
+              prompt_tokens: usage?.inputTokens ?? null,
+              completion_tokens: usage?.outputTokens ?? null,
+              total_tokens: usage ? usage.inputTokens + usage.outputTokens : null,
+              word_count: wordCount,
+              stop_reason: stopReason || null,
+              duration_ms: Date.now() - startedAt,
+              status,
+              error_message: runError
+                ? runError instanceof Error ? runError.message : String(runError)
+                : null,
+              completed_at: new Date().toISOString(),
+            })
+            .eq('id', id);
+
+          if (updateError) throw updateError;
+        } catch (err) {
+          console.warn('[HISTORY] Failed to finish generation run:', err);
+        }
+      },
+    };
+  } catch (err) {
+    console.warn('[HISTORY] Failed to record generation run:', err);
+    return unrecordedRun;
+  }
+}
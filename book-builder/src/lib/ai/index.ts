@@ -0,0 +1,149 @@
+/**
+ * AI Provider Adapters
+ *
+ * Single entry point for talking to AI providers. Every AI route and the
+ * Netlify edge function resolve an adapter here instead of calling vendor
+ * APIs directly.
+ *
+ * Imports inside this directory use explicit `.ts` extensions so the Deno
+ * edge function can load the same modules.
+ */
+
+import type { AIProvider } from '../../types/index.ts';
+import type { ProviderAdapter } from './types.ts';
+import { claudeAdapter } from './claude.ts';
+import { openaiAdapter } from './openai.ts';
+import { geminiAdapter } from './gemini.ts';
+import { openrouterAdapter } from './openrouter.ts';
+import { localAdapter, createLocalAdapter } from './local.ts';
+
+// Types
+export type {
+  GenerationType,
+  StopReason,
+  TokenUsage,
+  CompletionRequest,
+  CompletionResult,
+  StreamEvent,
+  ProviderAdapter,
+} from './types.ts';
+
+// Adapters
+export { claudeAdapter } from './claude.ts';
+export { openaiAdapter } from './openai.ts';
+export { geminiAdapter } from './gemini.ts';
+export { openrouterAdapter } from './openrouter.ts';
+export { localAdapter, createLocalAdapter } from './local.ts';
+export { normalizeFinishReason } from './openaiCompatible.ts';
+export { normalizeGeminiFinishReason } from './gemini.ts';
+
+// Prompts
+export { getSystemPrompt } from './prompts.ts';
+export type { GenerationContext } from './prompts.ts';
+
+// Pricing
+export { getModelPrice, estimateCost } from './pricing.ts';
+export type { ModelPrice } from './pricing.ts';
+
+// SSE
+export { createStreamResponse, readSSEData, readErrorMessage, countWords } from './sse.ts';
+
+// Generation history
+export {
+  GENERATION_RUN_HEADER,
+  generationRunType,
+  generationRunHeaders,
+  startGenerationRun,
+} from './generationRuns.ts';
+export type {
+  GenerationRun,
+  GenerationRunInfo,
+  GenerationRunResult,
+  GenerationRunType,
+} from './generationRuns.ts';
+
+export const PROVIDER_ADAPTERS: Record<AIProvider, ProviderAdapter> = {
+  claude: claudeAdapter,
+  openai: openaiAdapter,
+  gemini: geminiAdapter,
+  openrouter: openrouterAdapter,
+  local: localAdapter,
+};
+
+type GetEnv = (name: string) => string | undefined;
+
+const processEnv: GetEnv = (name) => process.env[name];
+
+export interface AdapterOptions {
+  /** Base URL for the local provider from the request; only followed to allowed origins */
+  baseUrl?: string | null;
+  getEnv?: GetEnv;
+}
+
+function originOf(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a base URL from a request points at a server the deployment allows,
+ * listed as origins in LOCAL_LLM_ALLOWED_ORIGINS (comma separated). With none
+ * listed, requests can't choose a URL at all.
+ */
+export function isAllowedLocalBaseUrl(baseUrl: string, getEnv: GetEnv = processEnv): boolean {
+  const origin = originOf(baseUrl);
+  if (!origin) return false;
+  const allowed = (getEnv('LOCAL_LLM_ALLOWED_ORIGINS') || '')
+    .split(',')
+    .map(entry => originOf(entry.trim()))
+    .filter(Boolean);
+  return allowed.includes(origin);
+}
+
+/**
+ * Look up the adapter for a provider id, or null if the provider is unknown
+ */
+export function getProviderAdapter(
+  provider: string | null | undefined,
+  options: AdapterOptions = {}
+): ProviderAdapter | null {
+  if (!provider || !Object.prototype.hasOwnProperty.call(PROVIDER_ADAPTERS, provider)) {
+    return null;
+  }
+
+  if (provider === 'local') {
+    const getEnv = options.getEnv || processEnv;
+    const configuredUrl = getEnv('LOCAL_LLM_BASE_URL');
+    const requestedUrl = options.baseUrl?.replace(/\/+$/, '');
+    if (requestedUrl && requestedUrl !== configuredUrl?.replace(/\/+$/, '') && isAllowedLocalBaseUrl(requestedUrl, getEnv)) {
+      return { ...createLocalAdapter(requestedUrl), requestBaseUrl: true };
+    }
+    return configuredUrl ? createLocalAdapter(configuredUrl) : localAdapter;
+  }
+
+  return PROVIDER_ADAPTERS[provider as AIProvider];
+}
+
+/**
+ * Whether saved or environment keys may be sent to this adapter's endpoint
+ */
+export function canUseStoredKeys(adapter: ProviderAdapter): boolean {
+  return !adapter.requestBaseUrl;
+}
+
+/**
+ * Use the API key from the request, falling back to the provider's environment variable
+ */
+export function resolveApiKey(
+  adapter: ProviderAdapter,
+  providedKey: string | null | undefined,
+  getEnv: GetEnv = processEnv
+): string {
+  if (!canUseStoredKeys(adapter)) return providedKey || '';
+  return providedKey || getEnv(adapter.envKey) || '';
+}
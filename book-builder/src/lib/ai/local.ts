@@ -0,0 +1,76 @@
+/**
+ * Local endpoint adapter
+ *
+ * Targets any self-hosted server that speaks the OpenAI chat completions API
+ * (Ollama, llama.cpp server, vLLM, LM Studio). The base URL must be reachable
+ * from wherever the API routes run, so this is mainly useful for local
+ * development and self-hosted deployments.
+ *
+ * The server uses LOCAL_LLM_BASE_URL. A URL sent with a request is only
+ * followed when its origin is in LOCAL_LLM_ALLOWED_ORIGINS, and then only
+ * with the key from that same request (see getProviderAdapter).
+ */
+
+import type { AIModel } from '../../types/index.ts';
+import { DEFAULT_LOCAL_BASE_URL } from '../../types/index.ts';
+import type { ChatEndpoint } from './openaiCompatible.ts';
+import type { ProviderAdapter } from './types.ts';
+import { completeChat, streamChat } from './openaiCompatible.ts';
+import { readErrorMessage } from './sse.ts';
+
+function endpoint(baseUrl: string, apiKey: string): ChatEndpoint {
+  return {
+    baseUrl,
+    name: 'Local endpoint',
+    // Most local servers ignore auth, but vLLM and llama.cpp can be started with --api-key
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+  };
+}
+
+export function createLocalAdapter(baseUrl: string = DEFAULT_LOCAL_BASE_URL): ProviderAdapter {
+  // Accept URLs pasted with a trailing slash
+  const url = baseUrl.replace(/\/+$/, '');
+
+  async function listModels(apiKey: string): Promise<AIModel[]> {
+    try {
+      let response: Response;
+      try {
+        response = await fetch(`${url}/models`, {
+          headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        });
+      } catch {
+        throw new Error(`Could not reach ${url}. Is the server running?`);
+      }
+
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, 'Failed to list models'));
+      }
+
+      const data = await response.json();
+
+      return (data.data || [])
+        .map((model: { id: string }) => ({
+          id: model.id,
+          name: model.id,
+          provider: 'local' as const,
+        }))
+        .sort((a: AIModel, b: AIModel) => a.id.localeCompare(b.id));
+    } catch (error) {
+      throw new Error(`Local endpoint error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return {
+    id: 'local',
+    name: 'Local endpoint',
+    envKey: 'LOCAL_LLM_API_KEY',
+    requiresApiKey: false,
+    // Local models usually run with small context windows
+    defaultMaxTokens: { toc: 4096, chapter: 8192, content: 8192 },
+    listModels,
+    complete: (apiKey, request) => completeChat(endpoint(url, apiKey), request),
+    stream: (apiKey, request) => streamChat(endpoint(url, apiKey), request),
+  };
+}
+
+export const localAdapter = createLocalAdapter();
@@ -0,0 +1,73 @@
+/**
+ * OpenAI adapter
+ */
+
+import type { AIModel } from '../../types/index.ts';
+import type { ChatEndpoint } from './openaiCompatible.ts';
+import type { ProviderAdapter } from './types.ts';
+import { completeChat, streamChat } from './openaiCompatible.ts';
+import { readErrorMessage } from './sse.ts';
+
+const OPENAI_API = 'https://api.openai.com/v1';
+
+function endpoint(apiKey: string): ChatEndpoint {
+  return {
+    baseUrl: OPENAI_API,
+    name: 'OpenAI',
+    headers: { Authorization: `Bearer ${apiKey}` },
+  };
+}
+
+function formatModelName(modelId: string): string {
+  return modelId
+    .replace(/-/g, ' ')
+    .replace(/gpt/gi, 'GPT')
+    .replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+async function listModels(apiKey: string): Promise<AIModel[]> {
+  try {
+    const response = await fetch(`${OPENAI_API}/models`, {
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(await readErrorMessage(response, 'Invalid API key'));
+    }
+
+    const data = await response.json();
+
+    // Filter to only GPT models suitable for text generation
+    return data.data
+      .filter((model: { id: string }) =>
+        model.id.includes('gpt-4') || model.id.includes('gpt-3.5')
+      )
+      .map((model: { id: string }) => ({
+        id: model.id,
+        name: formatModelName(model.id),
+        provider: 'openai' as const,
+      }))
+      .sort((a: AIModel, b: AIModel) => {
+        // Sort by model version (4 before 3.5)
+        if (a.id.includes('gpt-4') && !b.id.includes('gpt-4')) return -1;
+        if (!a.id.includes('gpt-4') && b.id.includes('gpt-4')) return 1;
+        return a.id.localeCompare(b.id);
+      });
+  } catch (error) {
+    throw new Error(`OpenAI API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export const openaiAdapter: ProviderAdapter = {
+  id: 'openai',
+  name: 'OpenAI',
+  envKey: 'OPENAI_API_KEY',
+  requiresApiKey: true,
+  // GPT-4o supports up to 16K output
+  defaultMaxTokens: { toc: 16384, chapter: 16384, content: 16384 },
+  listModels,
+  complete: (apiKey, request) => completeChat(endpoint(apiKey), request),
+  stream: (apiKey, request) => streamChat(endpoint(apiKey), request),
+};
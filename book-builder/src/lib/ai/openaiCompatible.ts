@@ -0,0 +1,121 @@
+/**
+ * OpenAI-compatible chat completions
+ *
+ * OpenAI and OpenRouter share the same request/response shape, so both
+ * adapters are built on these helpers.
+ */
+
+import type { CompletionRequest, CompletionResult, StopReason, StreamEvent } from './types.ts';
+import { readErrorMessage, readSSEData } from './sse.ts';
+
+export interface ChatEndpoint {
+  /** Base URL up to and including the version segment, e.g. https://api.openai.com/v1 */
+  baseUrl: string;
+  /** Provider name used in error messages */
+  name: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Map OpenAI-style finish reasons onto the Claude stop reasons the client understands
+ */
+export function normalizeFinishReason(finishReason: string | null | undefined): StopReason {
+  switch (finishReason) {
+    case 'stop':
+      return 'end_turn';
+    case 'length':
+      return 'max_tokens';
+    case 'content_filter':
+      return 'content_filter';
+    default:
+      return finishReason || '';
+  }
+}
+
+function buildBody(request: CompletionRequest, stream: boolean) {
+  return JSON.stringify({
+    model: request.model,
+    messages: [
+      { role: 'system', content: request.systemPrompt },
+      { role: 'user', content: request.userPrompt },
+    ],
+    max_tokens: request.maxTokens,
+    temperature: request.temperature ?? 0.7,
+    ...(stream && { stream: true, stream_options: { include_usage: true } }),
+  });
+}
+
+export async function completeChat(
+  endpoint: ChatEndpoint,
+  request: CompletionRequest
+): Promise<CompletionResult> {
+  const response = await fetch(`${endpoint.baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...endpoint.headers },
+    body: buildBody(request, false),
+  });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, `${endpoint.name} API request failed`));
+  }
+
+  const data = await response.json();
+  const choice = data.choices?.[0];
+
+  return {
+    content: choice?.message?.content || '',
+    stopReason: normalizeFinishReason(choice?.finish_reason),
+    usage: {
+      inputTokens: data.usage?.prompt_tokens || 0,
+      outputTokens: data.usage?.completion_tokens || 0,
+    },
+  };
+}
+
+export async function* streamChat(
+  endpoint: ChatEndpoint,
+  request: CompletionRequest
+): AsyncGenerator<StreamEvent> {
+  const response = await fetch(`${endpoint.baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...endpoint.headers },
+    body: buildBody(request, true),
+  });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, `${endpoint.name} API failed`));
+  }
+
+  let stopReason: StopReason = '';
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  for await (const data of readSSEData(response)) {
+    let parsed;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      continue; // Skip invalid JSON lines
+    }
+
+    if (parsed.error) {
+      throw new Error(parsed.error.message || 'Stream error');
+    }
+
+    const choice = parsed.choices?.[0];
+    if (choice?.delta?.content) {
+      yield { type: 'text', text: choice.delta.content };
+    }
+    if (choice?.finish_reason) {
+      stopReason = normalizeFinishReason(choice.finish_reason);
+    }
+
+    // Usage arrives on the final chunk when include_usage is set
+    if (parsed.usage) {
+      inputTokens = parsed.usage.prompt_tokens || 0;
+      outputTokens = parsed.usage.completion_tokens || 0;
+    }
+  }
+
+  yield { type: 'stop', stopReason, usage: { inputTokens, outputTokens } };
+}
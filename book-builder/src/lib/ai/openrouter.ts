@@ -0,0 +1,82 @@
+/**
+ * OpenRouter adapter
+ *
+ * OpenRouter exposes an OpenAI-compatible API in front of many vendors.
+ */
+
+import type { AIModel } from '../../types/index.ts';
+import type { ChatEndpoint } from './openaiCompatible.ts';
+import type { ProviderAdapter } from './types.ts';
+import { completeChat, streamChat } from './openaiCompatible.ts';
+import { readErrorMessage } from './sse.ts';
+
+const OPENROUTER_API = 'https://openrouter.ai/api/v1';
+
+function endpoint(apiKey: string): ChatEndpoint {
+  return {
+    baseUrl: OPENROUTER_API,
+    name: 'OpenRouter',
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      // Attribution shown on the OpenRouter dashboard
+      'X-Title': 'Book Builder',
+    },
+  };
+}
+
+async function listModels(apiKey: string): Promise<AIModel[]> {
+  try {
+    // The catalogue itself is public, so validate the key separately first
+    const keyResponse = await fetch(`${OPENROUTER_API}/key`, {
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+      },
+    });
+
+    if (!keyResponse.ok) {
+      throw new Error(await readErrorMessage(keyResponse, 'Invalid API key'));
+    }
+
+    const response = await fetch(`${OPENROUTER_API}/models`, {
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(await readErrorMessage(response, 'Failed to load model catalogue'));
+    }
+
+    const data = await response.json();
+
+    // Only keep models that take and produce text (skip image/audio-only models)
+    return data.data
+      .filter((model: { id: string; architecture?: { input_modalities?: string[]; output_modalities?: string[] } }) => {
+        const inputs = model.architecture?.input_modalities;
+        const outputs = model.architecture?.output_modalities;
+        const acceptsText = !inputs || inputs.includes('text');
+        const producesText = !outputs || outputs.includes('text');
+        return acceptsText && producesText;
+      })
+      .map((model: { id: string; name?: string }) => ({
+        id: model.id,
+        name: model.name || model.id,
+        provider: 'openrouter' as const,
+      }))
+      .sort((a: AIModel, b: AIModel) => a.name.localeCompare(b.name));
+  } catch (error) {
+    throw new Error(`OpenRouter API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export const openrouterAdapter: ProviderAdapter = {
+  id: 'openrouter',
+  name: 'OpenRouter',
+  envKey: 'OPENROUTER_API_KEY',
+  requiresApiKey: true,
+  // Output limits vary by upstream model; OpenRouter clamps to each model's maximum
+  defaultMaxTokens: { toc: 16384, chapter: 32768, content: 32768 },
+  listModels,
+  complete: (apiKey, request) => completeChat(endpoint(apiKey), request),
+  stream: (apiKey, request) => streamChat(endpoint(apiKey), request),
+};
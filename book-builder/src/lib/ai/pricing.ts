@@ -0,0 +1,78 @@
+/**
+ * Model pricing for usage estimates
+ *
+ * Prices are USD per million tokens from each vendor's public price list.
+ * They only feed the library usage page, so an approximate match is fine.
+ */
+
+import type { AIProvider } from '../../types/index.ts';
+
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Matched by model id prefix, most specific first
+const MODEL_PRICES: Array<{ prefix: string; price: ModelPrice }> = [
+  // Claude
+  { prefix: 'claude-opus-4-5', price: { input: 5, output: 25 } },
+  { prefix: 'claude-opus-4', price: { input: 15, output: 75 } },
+  { prefix: 'claude-sonnet-4', price: { input: 3, output: 15 } },
+  { prefix: 'claude-3-7-sonnet', price: { input: 3, output: 15 } },
+  { prefix: 'claude-3-5-sonnet', price: { input: 3, output: 15 } },
+  { prefix: 'claude-3-5-haiku', price: { input: 0.8, output: 4 } },
+  { prefix: 'claude-haiku-4', price: { input: 1, output: 5 } },
+  { prefix: 'claude-3-opus', price: { input: 15, output: 75 } },
+  { prefix: 'claude-3-haiku', price: { input: 0.25, output: 1.25 } },
+  // OpenAI
+  { prefix: 'gpt-4o-mini', price: { input: 0.15, output: 0.6 } },
+  { prefix: 'gpt-4o', price: { input: 2.5, output: 10 } },
+  { prefix: 'gpt-4.1-nano', price: { input: 0.1, output: 0.4 } },
+  { prefix: 'gpt-4.1-mini', price: { input: 0.4, output: 1.6 } },
+  { prefix: 'gpt-4.1', price: { input: 2, output: 8 } },
+  { prefix: 'gpt-4-turbo', price: { input: 10, output: 30 } },
+  { prefix: 'gpt-4', price: { input: 30, output: 60 } },
+  { prefix: 'gpt-3.5-turbo', price: { input: 0.5, output: 1.5 } },
+  // Gemini
+  { prefix: 'gemini-2.5-pro', price: { input: 1.25, output: 10 } },
+  { prefix: 'gemini-2.5-flash', price: { input: 0.3, output: 2.5 } },
+  { prefix: 'gemini-2.0-flash', price: { input: 0.1, output: 0.4 } },
+  { prefix: 'gemini-1.5-pro', price: { input: 1.25, output: 5 } },
+  { prefix: 'gemini-1.5-flash', price: { input: 0.075, output: 0.3 } },
+];
+
+/**
+ * Look up the price for a model, or null if we don't know it
+ */
+export function getModelPrice(provider: AIProvider | string, model: string): ModelPrice | null {
+  // Nothing to pay for models served from the user's own machine
+  if (provider === 'local') {
+    return { input: 0, output: 0 };
+  }
+
+  // OpenRouter ids are "vendor/model" - price by the upstream model
+  let modelId = provider === 'openrouter' ? model.split('/').pop() || model : model;
+  // OpenRouter writes Claude versions with dots (claude-opus-4.5, claude-3.5-sonnet)
+  // where Anthropic's ids, and the prefixes above, use dashes
+  if (modelId.startsWith('claude-')) {
+    modelId = modelId.replace(/(\d)\.(\d)/g, '$1-$2');
+  }
+
+  const match = MODEL_PRICES.find(({ prefix }) => modelId.startsWith(prefix));
+  return match ? match.price : null;
+}
+
+/**
+ * Estimate the cost of a run in USD, or null if the model price is unknown
+ */
+export function estimateCost(
+  provider: AIProvider | string,
+  model: string,
+  promptTokens: number | null,
+  completionTokens: number | null
+): number | null {
+  const price = getModelPrice(provider, model);
+  if (!price) return null;
+
+  return ((promptTokens || 0) * price.input + (completionTokens || 0) * price.output) / 1_000_000;
+}
@@ -0,0 +1,109 @@
+/**
+ * Generation prompts
+ *
+ * System prompts for TOC, chapter and content generation, shared by the
+ * Next.js route and the Netlify edge function.
+ */
+
+import type { GenerationType } from './types.ts';
+
+export interface GenerationContext {
+  bookTitle?: string;
+  bookDescription?: string;
+  chapterTitle?: string;
+  previousContent?: string;
+  systemPromptOverride?: string;
+  targetWordCount?: number;
+  inputWordCount?: number;
+}
+
+export function getSystemPrompt(
+  type: GenerationType,
+  context?: GenerationContext
+): string {
+  switch (type) {
+    case 'toc': {
+      // Use custom system prompt if provided for TOC
+      if (context?.systemPromptOverride) {
+        return context.systemPromptOverride;
+      }
+      return `You are an expert technical book author. Generate a table of contents as a JSON array.
+
+CRITICAL: Output COMPACT JSON with NO descriptions to avoid truncation. Use this minimal structure:
+[{"id":"ch-1","title":"Chapter Title","slug":"chapter-slug","children":[{"id":"ch-1-1","title":"Sub Title","slug":"sub-slug"}]}]
+
+Rules:
+- NO description field (saves tokens)
+- Short IDs: ch-1, ch-1-1, ch-2, etc.
+- Slugs: lowercase with hyphens
+- Keep hierarchy flat when possible (max 2 levels deep)
+- Aim for 8-15 main chapters
+- Output ONLY valid JSON array, no markdown, no explanation
+- Ensure JSON is COMPLETE - do not truncate`;
+    }
+
+    case 'chapter': {
+      // Use custom system prompt if provided
+      if (context?.systemPromptOverride) {
+        const wordCountNote = context?.targetWordCount
+          ? `\n\nIMPORTANT: You MUST write approximately ${context.targetWordCount} words. This is a hard requirement - do not stop early.`
+          : '';
+        return `${context.systemPromptOverride}${wordCountNote}`;
+      }
+
+      const wordCountRequirement = context?.targetWordCount
+        ? `\n\nCRITICAL WORD COUNT REQUIREMENT: You MUST write approximately ${context.targetWordCount} words. This is NON-NEGOTIABLE. Do NOT stop until you reach this target. Count your words as you write. If you finish the main topics before reaching the word count, add more examples, exercises, detailed explanations, and practical applications.`
+        : '';
+
+      return `You are an expert technical writer creating content for the book "${context?.bookTitle || 'Technical Book'}".
+
+Book Description: ${context?.bookDescription || 'A technical book'}
+
+You are writing the chapter: "${context?.chapterTitle || 'Chapter'}"
+
+CRITICAL INSTRUCTION: The chapter title defines ALL topics you MUST cover. If the title contains multiple topics (separated by "and", commas, or listed), you MUST write comprehensive sections for EACH topic. DO NOT stop after covering only the first topic.
+
+For example:
+- "Univariate, Bivariate, and Multivariate Analysis" = You MUST cover ALL THREE types
+- "Data Cleaning and Preprocessing" = You MUST cover BOTH cleaning AND preprocessing
+- "Introduction to Python and Pandas" = You MUST cover BOTH Python AND Pandas
+
+Guidelines:
+- Write in MyST Markdown format
+- Use appropriate headings (## for main sections, ### for subsections)
+- Include code examples with proper syntax highlighting using triple backticks and language identifiers
+- Use admonitions for important notes:
+  \`\`\`{note}
+  Important information here
+  \`\`\`
+- Include practical examples and explanations
+- Use cross-references where appropriate
+- Add figures and diagrams descriptions where helpful
+- Make content accessible and educational
+- Include exercises or practice sections where appropriate
+${wordCountRequirement}
+
+IMPORTANT: Write the COMPLETE chapter covering ALL topics in the title. Do NOT stop early. Do NOT truncate. Continue writing until you have thoroughly covered every topic mentioned in the chapter title with equal depth and detail.`;
+    }
+
+    case 'content': {
+      // Use custom system prompt if provided for content
+      if (context?.systemPromptOverride) {
+        return context.systemPromptOverride;
+      }
+      return `You are a technical writing assistant. Help improve and expand the provided content while maintaining MyST Markdown format.
+
+Context:
+- Book: ${context?.bookTitle || 'Technical Book'}
+- Chapter: ${context?.chapterTitle || 'Chapter'}
+
+Previous content for reference:
+${context?.previousContent || 'No previous content'}
+
+Maintain consistency with the existing style and format.`;
+    }
+
+    default:
+      return 'You are a helpful assistant.';
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Server-Sent Events helpers
+ *
+ * Reading: iterate the `data:` payloads of an upstream provider stream.
+ * Writing: turn adapter stream events into the event format the client parses
+ *   { chunk }                                  - incremental text
+ *   { done, content, metadata }                - final content, stop reason and usage
+ *   { error }                                  - failure (stream is closed afterwards)
+ */
+
+import type { CompletionRequest, ProviderAdapter, StopReason, TokenUsage } from './types.ts';
+import { generationRunHeaders, type GenerationRun } from './generationRuns.ts';
+
+/**
+ * Yield each `data:` payload from an SSE response body, skipping comments and `[DONE]`
+ */
+export async function* readSSEData(response: Response): AsyncGenerator<string> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No response body');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    // Gemini terminates events with \r\n
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.startsWith('data: ')) continue;
+      const data = line.slice(6);
+      if (data === '[DONE]') continue;
+      yield data;
+    }
+  }
+
+  // Flush a final line that wasn't newline-terminated
+  const last = buffer.trimEnd();
+  if (last.startsWith('data: ') && last.slice(6) !== '[DONE]') {
+    yield last.slice(6);
+  }
+}
+
+/**
+ * Build an error message from a failed provider response, preferring the JSON error body
+ */
+export async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  const errorText = await response.text();
+  try {
+    const error = JSON.parse(errorText);
+    return error.error?.message || error.message || `${fallback}: ${response.status}`;
+  } catch {
+    return `${fallback}: ${response.status}${errorText ? ` - ${errorText.substring(0, 200)}` : ''}`;
+  }
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(w => w.length > 0).length;
+}
+
+/**
+ * Stream a completion to the client as SSE using the adapter's native stream.
+ * The generation run, if given, is finished with the provider's usage once the
+ * stream ends - even if the client went away, since the rest is still read.
+ */
+export function createStreamResponse(
+  adapter: ProviderAdapter,
+  apiKey: string,
+  request: CompletionRequest,
+  extraHeaders: Record<string, string> = {},
+  run?: GenerationRun
+): Response {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+  const send = (controller: ReadableStreamDefaultController, payload: unknown) => {
+    if (cancelled) return;
+    controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+  };
+
+  console.log(`[AI] ${adapter.name} stream - model: ${request.model}, max tokens: ${request.maxTokens}`);
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let fullContent = '';
+      let stopReason: StopReason = '';
+      let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+      let runError: unknown;
+
+      try {
+        for await (const event of adapter.stream(apiKey, request)) {
+          if (event.type === 'text') {
+            fullContent += event.text;
+            send(controller, { chunk: event.text });
+          } else {
+            stopReason = event.stopReason;
+            usage = event.usage;
+          }
+        }
+
+        const wordCount = countWords(fullContent);
+        console.log(`[AI] ${adapter.name} complete - stop reason: ${stopReason || 'stream_ended'}, words: ${wordCount}, output tokens: ${usage.outputTokens}`);
+
+        send(controller, {
+          done: true,
+          content: fullContent,
+          metadata: {
+            stopReason: stopReason || 'stream_ended',
+            inputTokens: usage.inputTokens,
+            outputTokens: usage.outputTokens,
+            wordCount,
+          },
+        });
+      } catch (error) {
+        console.error(`[AI] ${adapter.name} stream error:`, error);
+        runError = error;
+        send(controller, { error: error instanceof Error ? error.message : 'Stream failed' });
+      } finally {
+        await run?.finish(runError
+          ? { error: runError, wordCount: countWords(fullContent) }
+          : { stopReason: stopReason || 'stream_ended', usage, wordCount: countWords(fullContent) });
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      ...generationRunHeaders(run),
+      ...extraHeaders,
+    },
+  });
+}
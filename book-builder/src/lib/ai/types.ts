@@ -0,0 +1,61 @@
+/**
+ * Provider Adapter Types
+ *
+ * Shared contract implemented by every AI provider. Routes only talk to
+ * adapters, so request/response quirks of each vendor live in one place.
+ */
+
+import type { AIProvider, AIModel } from '../../types/index.ts';
+
+export type GenerationType = 'toc' | 'chapter' | 'content';
+
+/**
+ * Stop reasons are normalized to the Claude vocabulary, which is what the
+ * client-side truncation/continuation logic understands.
+ */
+export type StopReason =
+  | 'end_turn'
+  | 'max_tokens'
+  | 'content_filter'
+  | 'stream_ended'
+  | (string & {});
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CompletionRequest {
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+  maxTokens: number;
+  temperature?: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  stopReason: StopReason;
+  usage: TokenUsage;
+}
+
+export type StreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'stop'; stopReason: StopReason; usage: TokenUsage };
+
+export interface ProviderAdapter {
+  id: AIProvider;
+  name: string;
+  /** Environment variable used when the request doesn't carry an API key */
+  envKey: string;
+  /** Self-hosted servers can run without a key */
+  requiresApiKey: boolean;
+  /** Set when a local adapter points at a base URL the request chose, which must never get a stored key */
+  requestBaseUrl?: boolean;
+  /** Output token budget per generation type when the caller doesn't specify one */
+  defaultMaxTokens: Record<GenerationType, number>;
+  listModels(apiKey: string): Promise<AIModel[]>;
+  complete(apiKey: string, request: CompletionRequest): Promise<CompletionResult>;
+  /** Stream text as it is generated, ending with a single stop event */
+  stream(apiKey: string, request: CompletionRequest): AsyncGenerator<StreamEvent>;
+}
@@ -0,0 +1,77 @@
+/**
+ * API request authorization
+ *
+ * Every AI, image, GitHub and model route runs through `authorizeApiRequest`:
+ * it requires a Supabase session, applies the user's rate limit and decides
+ * whether the server's own provider keys (ANTHROPIC_API_KEY, GITHUB_PAT, ...)
+ * may be used. Those are only shared with users listed in ENV_KEY_ALLOWED_USERS
+ * (comma-separated user ids or emails).
+ */
+
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import type { GetEnv } from '../apiKeys/encryption.ts';
+import { consumeRateLimit, type RateLimitBucket, type RateLimitResult } from './rateLimit.ts';
+
+const ALLOWED_USERS_ENV = 'ENV_KEY_ALLOWED_USERS';
+
+export interface AuthorizedRequest {
+  ok: true;
+  user: User;
+  // Reads server-side keys for whitelisted users, nothing for everyone else
+  getEnvKey: GetEnv;
+  rateLimit: RateLimitResult;
+}
+
+export interface RejectedRequest {
+  ok: false;
+  status: 401 | 429 | 503;
+  error: string;
+  rateLimit?: RateLimitResult;
+}
+
+const noEnvKeys: GetEnv = () => undefined;
+
+/**
+ * Whether a user may fall back to the server's environment keys
+ */
+export function canUseEnvKeys(user: Pick<User, 'id' | 'email'>, getEnv: GetEnv): boolean {
+  const allowed = (getEnv(ALLOWED_USERS_ENV) || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+  return allowed.includes(user.id.toLowerCase()) ||
+    (!!user.email && allowed.includes(user.email.toLowerCase()));
+}
+
+export async function authorizeApiRequest(
+  supabase: SupabaseClient,
+  bucket: RateLimitBucket,
+  getEnv: GetEnv
+): Promise<AuthorizedRequest | RejectedRequest> {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { ok: false, status: 401, error: 'Authentication required' };
+  }
+
+  const rateLimit = await consumeRateLimit(supabase, bucket, getEnv);
+  if (rateLimit.unavailable) {
+    return { ok: false, status: 503, error: 'Rate limiting is unavailable, try again shortly', rateLimit };
+  }
+  if (!rateLimit.allowed) {
+    return {
+      ok: false,
+      status: 429,
+      error: `Rate limit exceeded: ${rateLimit.limit} ${bucket} requests per minute`,
+      rateLimit,
+    };
+  }
+
+  return {
+    ok: true,
+    user,
+    getEnvKey: canUseEnvKeys(user, getEnv) ? getEnv : noEnvKeys,
+    rateLimit,
+  };
+}
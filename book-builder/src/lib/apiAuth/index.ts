@@ -0,0 +1,12 @@
+/**
+ * Authentication, rate limits and env-key access for API routes
+ *
+ * Imports inside this directory use explicit `.ts` extensions so the Deno
+ * edge function can load the same modules.
+ */
+
+export { authorizeApiRequest, canUseEnvKeys } from './authorize.ts';
+export type { AuthorizedRequest, RejectedRequest } from './authorize.ts';
+
+export { consumeRateLimit, rateLimitHeaders } from './rateLimit.ts';
+export type { RateLimitBucket, RateLimitResult } from './rateLimit.ts';
@@ -0,0 +1,85 @@
+/**
+ * Per-user rate limits
+ *
+ * Counters live in Supabase (lq21_rate_limits via lq21_consume_rate_limit) so
+ * limits hold across serverless instances and the Netlify edge function.
+ * Limits can be tuned with RATE_LIMIT_<BUCKET>_PER_MINUTE, e.g. RATE_LIMIT_AI_PER_MINUTE=60.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { GetEnv } from '../apiKeys/encryption.ts';
+
+export type RateLimitBucket = 'ai' | 'image' | 'github' | 'models' | 'export' | 'import';
+
+const DEFAULT_LIMITS: Record<RateLimitBucket, number> = {
+  ai: 30,
+  image: 10,
+  github: 60,
+  models: 30,
+  export: 20,
+  import: 10,
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // ISO timestamp when the current window ends
+  resetAt: string | null;
+  // The counter couldn't be checked, so the request is refused rather than uncounted
+  unavailable?: boolean;
+}
+
+function getLimit(bucket: RateLimitBucket, getEnv: GetEnv): number {
+  const override = Number(getEnv(`RATE_LIMIT_${bucket.toUpperCase()}_PER_MINUTE`));
+  return Number.isFinite(override) && override > 0 ? override : DEFAULT_LIMITS[bucket];
+}
+
+/**
+ * Count a request against the signed-in user's bucket. The window is a minute,
+ * fixed in lq21_consume_rate_limit so callers can't shorten it.
+ */
+export async function consumeRateLimit(
+  supabase: SupabaseClient,
+  bucket: RateLimitBucket,
+  getEnv: GetEnv
+): Promise<RateLimitResult> {
+  const limit = getLimit(bucket, getEnv);
+
+  const { data, error } = await supabase
+    .rpc('lq21_consume_rate_limit', { p_bucket: bucket })
+    .single<{ request_count: number; reset_at: string }>();
+
+  if (error || !data) {
+    // Fail closed: a broken counter mustn't turn every limit off
+    console.error(`[RATE_LIMIT] Could not check ${bucket} limit:`, error?.message);
+    return { allowed: false, limit, remaining: 0, resetAt: null, unavailable: true };
+  }
+
+  return {
+    allowed: data.request_count <= limit,
+    limit,
+    remaining: Math.max(limit - data.request_count, 0),
+    resetAt: data.reset_at,
+  };
+}
+
+/**
+ * Standard rate limit headers for a response
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+  };
+
+  if (result.resetAt) {
+    const secondsLeft = Math.max(Math.ceil((new Date(result.resetAt).getTime() - Date.now()) / 1000), 0);
+    headers['X-RateLimit-Reset'] = String(Math.floor(new Date(result.resetAt).getTime() / 1000));
+    if (!result.allowed) {
+      headers['Retry-After'] = String(secondsLeft);
+    }
+  }
+
+  return headers;
+}
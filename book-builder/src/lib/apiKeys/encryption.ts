@@ -0,0 +1,190 @@
+/**
+ * API key encryption
+ *
+ * Stored keys are encrypted with AES-256-GCM using a server-held keyring from
+ * API_KEY_ENCRYPTION_KEYS, a comma-separated list of `id:base64key` entries.
+ * The first entry encrypts new keys; the rest are only used to decrypt, which
+ * is what makes rotation possible:
+ *
+ *   1. Prepend a new entry:  API_KEY_ENCRYPTION_KEYS="k2:<new>,k1:<old>"
+ *   2. Re-encrypt stored keys (POST /api/keys/rotate, or lazily on next use)
+ *   3. Drop the old entry once nothing references it
+ *
+ * Each secret is bound to the row it belongs to: the owner (user or
+ * organization) and provider go in as additional authenticated data, so
+ * ciphertext copied into another row fails to decrypt. Payloads from before
+ * that (enc:v1, or plaintext) are only read by the rotation job, which
+ * rewrites them bound to their row.
+ *
+ * Uses Web Crypto only so it runs in Node, the Edge runtime and Deno.
+ */
+
+export type GetEnv = (name: string) => string | undefined;
+
+const KEYRING_ENV = 'API_KEY_ENCRYPTION_KEYS';
+
+// enc:v2:<keyId>:<iv>:<ciphertext>, authenticated with the secret's context
+const PAYLOAD_PREFIX = 'enc:v2:';
+// Same layout, without additional authenticated data
+const LEGACY_PAYLOAD_PREFIX = 'enc:v1:';
+
+/** The row a secret belongs to; decrypting under any other context fails */
+export interface SecretContext {
+  scope: 'user' | 'organization';
+  ownerId: string;
+  provider: string;
+}
+
+interface KeyringEntry {
+  id: string;
+  secret: Uint8Array;
+}
+
+const processEnv: GetEnv = (name) => process.env[name];
+
+function base64ToBytes(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function readKeyring(getEnv: GetEnv): KeyringEntry[] {
+  const raw = getEnv(KEYRING_ENV);
+  if (!raw) {
+    throw new Error(`${KEYRING_ENV} is not configured`);
+  }
+
+  return raw.split(',').map((entry) => {
+    const [id, secret] = entry.trim().split(':');
+    if (!id || !secret) {
+      throw new Error(`${KEYRING_ENV} entries must look like "id:base64key"`);
+    }
+
+    const bytes = base64ToBytes(secret);
+    if (bytes.length !== 32) {
+      throw new Error(`Encryption key "${id}" must be 32 bytes (got ${bytes.length})`);
+    }
+
+    return { id, secret: bytes };
+  });
+}
+
+function importKey(entry: KeyringEntry): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', entry.secret as BufferSource, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Whether the server has a keyring to encrypt with
+ */
+export function isEncryptionConfigured(getEnv: GetEnv = processEnv): boolean {
+  return !!getEnv(KEYRING_ENV);
+}
+
+function additionalData(context: SecretContext): BufferSource {
+  return new TextEncoder().encode(`${context.scope}:${context.ownerId}:${context.provider}`);
+}
+
+/**
+ * Whether a stored value was written by `encryptSecret` (older rows hold the raw key)
+ */
+export function isEncryptedSecret(payload: string): boolean {
+  return payload.startsWith(PAYLOAD_PREFIX);
+}
+
+/**
+ * Encrypt a secret with the current (first) key in the keyring, bound to its row
+ */
+export async function encryptSecret(
+  plaintext: string,
+  context: SecretContext,
+  getEnv: GetEnv = processEnv
+): Promise<string> {
+  const [current] = readKeyring(getEnv);
+  const key = await importKey(current);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: additionalData(context) },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return `${PAYLOAD_PREFIX}${current.id}:${bytesToBase64(iv)}:${bytesToBase64(new Uint8Array(ciphertext))}`;
+}
+
+async function decryptPayload(body: string, getEnv: GetEnv, context?: SecretContext): Promise<string> {
+  const [keyId, iv, ciphertext] = body.split(':');
+  const entry = readKeyring(getEnv).find((k) => k.id === keyId);
+  if (!entry) {
+    throw new Error(`Encryption key "${keyId}" is no longer in ${KEYRING_ENV}`);
+  }
+
+  const key = await importKey(entry);
+  const plaintext = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: base64ToBytes(iv) as BufferSource,
+      ...(context && { additionalData: additionalData(context) }),
+    },
+    key,
+    base64ToBytes(ciphertext) as BufferSource
+  );
+
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Decrypt a stored secret. Fails unless it was encrypted for this same context,
+ * and for payloads written before secrets were bound to their row.
+ */
+export async function decryptSecret(
+  payload: string,
+  context: SecretContext,
+  getEnv: GetEnv = processEnv
+): Promise<string> {
+  if (!isEncryptedSecret(payload)) {
+    throw new Error('Stored key predates row binding; run key rotation to migrate it');
+  }
+
+  try {
+    return await decryptPayload(payload.slice(PAYLOAD_PREFIX.length), getEnv, context);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes(KEYRING_ENV)) throw error;
+    throw new Error('Stored key does not belong to this account and provider');
+  }
+}
+
+/**
+ * Read a payload written before secrets were bound to their row: enc:v1, or
+ * the raw key. Only for migrating rows onto `encryptSecret`.
+ */
+export async function decryptLegacySecret(payload: string, getEnv: GetEnv = processEnv): Promise<string> {
+  if (!payload.startsWith(LEGACY_PAYLOAD_PREFIX)) {
+    return payload;
+  }
+  return decryptPayload(payload.slice(LEGACY_PAYLOAD_PREFIX.length), getEnv);
+}
+
+/**
+ * Whether a stored secret is legacy or encrypted with a key other than the current one
+ */
+export function needsReencryption(payload: string, getEnv: GetEnv = processEnv): boolean {
+  if (!isEncryptedSecret(payload)) {
+    return true;
+  }
+
+  const [current] = readKeyring(getEnv);
+  const keyId = payload.slice(PAYLOAD_PREFIX.length).split(':')[0];
+  return keyId !== current.id;
+}
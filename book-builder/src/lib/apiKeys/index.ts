@@ -0,0 +1,26 @@
+/**
+ * Encrypted API key storage
+ *
+ * Imports inside this directory use explicit `.ts` extensions so the Deno
+ * edge function can load the same modules.
+ */
+
+export {
+  isEncryptionConfigured,
+  isEncryptedSecret,
+  encryptSecret,
+  decryptSecret,
+  decryptLegacySecret,
+  needsReencryption,
+} from './encryption.ts';
+export type { GetEnv, SecretContext } from './encryption.ts';
+
+export {
+  STORED_KEY_PROVIDERS,
+  getStoredApiKey,
+  saveStoredApiKey,
+  getOrganizationApiKey,
+  saveOrganizationApiKey,
+  reencryptStoredApiKeys,
+} from './storage.ts';
+export type { StoredKeyProvider, ReencryptionResult } from './storage.ts';
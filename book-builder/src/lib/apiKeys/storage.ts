@@ -0,0 +1,217 @@
+/**
+ * Stored API keys (lq21_api_keys, and lq21_organization_api_keys for keys an
+ * organization shares with its members)
+ *
+ * Server-side only: keys are encrypted before they are written and decrypted
+ * only to be forwarded to the provider. Nothing here returns a key to the client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LQ21ApiKey, LQ21OrganizationApiKey } from '../supabase/types.ts';
+import type { GetEnv } from './encryption.ts';
+import { decryptLegacySecret, decryptSecret, encryptSecret, isEncryptedSecret, needsReencryption } from './encryption.ts';
+
+export type StoredKeyProvider = LQ21ApiKey['provider'];
+
+export const STORED_KEY_PROVIDERS: StoredKeyProvider[] = ['claude', 'openai', 'gemini', 'openrouter', 'local', 'github'];
+
+const processEnv: GetEnv = (name) => process.env[name];
+
+export interface ReencryptionResult {
+  total: number;
+  reencrypted: number;
+  failed: number;
+}
+
+/**
+ * Read and decrypt a user's saved key, or null if they haven't saved one
+ */
+export async function getStoredApiKey(
+  supabase: SupabaseClient,
+  userId: string,
+  provider: StoredKeyProvider,
+  getEnv: GetEnv = processEnv
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('lq21_api_keys')
+    .select('encrypted_key')
+    .eq('user_id', userId)
+    .eq('provider', provider)
+    .maybeSingle();
+
+  if (error || !data) {
+    return null;
+  }
+
+  const context = { scope: 'user', ownerId: userId, provider } as const;
+  const apiKey = await decryptSecret(data.encrypted_key, context, getEnv);
+
+  // Update last used timestamp, moving rotated rows onto the current key while we're here
+  const updates: Record<string, string> = { last_used_at: new Date().toISOString() };
+  if (needsReencryption(data.encrypted_key, getEnv)) {
+    updates.encrypted_key = await encryptSecret(apiKey, context, getEnv);
+  }
+
+  await supabase
+    .from('lq21_api_keys')
+    .update(updates)
+    .eq('user_id', userId)
+    .eq('provider', provider);
+
+  return apiKey;
+}
+
+/**
+ * Encrypt and save a user's key, replacing any existing key for the provider
+ */
+export async function saveStoredApiKey(
+  supabase: SupabaseClient,
+  userId: string,
+  provider: StoredKeyProvider,
+  apiKey: string,
+  getEnv: GetEnv = processEnv
+): Promise<{ keyHint: string }> {
+  // Create hint from last 4 characters
+  const keyHint = `...${apiKey.slice(-4)}`;
+
+  const { error } = await supabase
+    .from('lq21_api_keys')
+    .upsert(
+      {
+        user_id: userId,
+        provider,
+        encrypted_key: await encryptSecret(apiKey, { scope: 'user', ownerId: userId, provider }, getEnv),
+        key_hint: keyHint,
+        is_valid: true,
+        updated_at: new Date().toISOString(),
+      },
+      {
+        onConflict: 'user_id,provider',
+      }
+    );
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return { keyHint };
+}
+
+/**
+ * Read and decrypt a key shared by an organization, or null if it has none.
+ * Members can only see key hints, so this needs a service-role client; callers
+ * check the member's role first.
+ */
+export async function getOrganizationApiKey(
+  supabase: SupabaseClient,
+  organizationId: string,
+  provider: StoredKeyProvider,
+  getEnv: GetEnv = processEnv
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('lq21_organization_api_keys')
+    .select('encrypted_key')
+    .eq('organization_id', organizationId)
+    .eq('provider', provider)
+    .maybeSingle();
+
+  if (error || !data) {
+    return null;
+  }
+
+  // Re-encryption is left to the rotation job
+  return decryptSecret(
+    data.encrypted_key,
+    { scope: 'organization', ownerId: organizationId, provider },
+    getEnv
+  );
+}
+
+/**
+ * Encrypt and save an organization's shared key. RLS only lets owners write.
+ */
+export async function saveOrganizationApiKey(
+  supabase: SupabaseClient,
+  organizationId: string,
+  userId: string,
+  provider: StoredKeyProvider,
+  apiKey: string,
+  getEnv: GetEnv = processEnv
+): Promise<{ keyHint: string }> {
+  const keyHint = `...${apiKey.slice(-4)}`;
+
+  const { error } = await supabase
+    .from('lq21_organization_api_keys')
+    .upsert(
+      {
+        organization_id: organizationId,
+        provider,
+        encrypted_key: await encryptSecret(apiKey, { scope: 'organization', ownerId: organizationId, provider }, getEnv),
+        key_hint: keyHint,
+        created_by: userId,
+        updated_at: new Date().toISOString(),
+      },
+      {
+        onConflict: 'organization_id,provider',
+      }
+    );
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return { keyHint };
+}
+
+/**
+ * Re-encrypt every stored key that is plaintext or uses an old keyring entry.
+ * Needs a service-role client since it crosses users.
+ */
+export async function reencryptStoredApiKeys(
+  supabase: SupabaseClient,
+  getEnv: GetEnv = processEnv
+): Promise<ReencryptionResult> {
+  const result: ReencryptionResult = { total: 0, reencrypted: 0, failed: 0 };
+
+  const tables = [
+    { table: 'lq21_api_keys', scope: 'user', ownerColumn: 'user_id' },
+    { table: 'lq21_organization_api_keys', scope: 'organization', ownerColumn: 'organization_id' },
+  ] as const;
+
+  for (const { table, scope, ownerColumn } of tables) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(`id, provider, encrypted_key, ${ownerColumn}`);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const rows = (data || []) as Array<Pick<LQ21ApiKey | LQ21OrganizationApiKey, 'id' | 'provider' | 'encrypted_key'> & Record<string, string>>;
+    result.total += rows.length;
+
+    for (const row of rows) {
+      if (!needsReencryption(row.encrypted_key, getEnv)) continue;
+
+      try {
+        const context = { scope, ownerId: row[ownerColumn], provider: row.provider };
+        // Rows from before secrets were bound to their row are trusted here, once, as they stand
+        const apiKey = isEncryptedSecret(row.encrypted_key)
+          ? await decryptSecret(row.encrypted_key, context, getEnv)
+          : await decryptLegacySecret(row.encrypted_key, getEnv);
+        const { error: updateError } = await supabase
+          .from(table)
+          .update({ encrypted_key: await encryptSecret(apiKey, context, getEnv) })
+          .eq('id', row.id);
+
+        if (updateError) throw updateError;
+        result.reencrypted++;
+      } catch (err) {
+        console.error(`[KEYS] Failed to re-encrypt key ${row.id}:`, err);
+        result.failed++;
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,191 @@
+/**
+ * Downloadable exports (PDF, LaTeX, Word, EPUB) built by the book's GitHub
+ * workflow from the enabled export features
+ */
+
+import { BookConfig, Chapter } from '@/types';
+import { BOOK_LEVEL_FEATURES } from '@/data/bookLevelFeatures';
+import { generateBookMatterPages } from './bookMatter';
+
+export type BookExportFormat = 'pdf' | 'tex' | 'docx' | 'epub';
+
+export interface BookExport {
+  id: string;
+  featureId: string;
+  label: string;
+  format: BookExportFormat;
+  template?: string;
+  // Path of the built file, relative to the repository root
+  output: string;
+  // Source files in reading order
+  articles: string[];
+}
+
+// Where the workflow writes exports; copied into the Pages site and attached to the release
+export const EXPORTS_DIR = 'exports';
+// Rolling release that always holds the latest downloads
+export const EXPORTS_RELEASE_TAG = 'book-downloads';
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '') || 'book';
+
+/**
+ * Chapters with their markdown file paths, matching the layout the GitHub route
+ * writes them in: top-level chapters and the first chapter's sections at the
+ * root, other sections under their parent's slug
+ */
+export function getChapterFiles(
+  chapters: Chapter[],
+  prefix = '',
+  isTopLevel = true
+): { chapter: Chapter; path: string }[] {
+  const files: { chapter: Chapter; path: string }[] = [];
+
+  chapters.forEach((chapter, index) => {
+    files.push({ chapter, path: prefix ? `${prefix}/${chapter.slug}.md` : `${chapter.slug}.md` });
+
+    if (chapter.children && chapter.children.length > 0) {
+      const childPrefix = isTopLevel && index === 0 ? '' : chapter.slug;
+      files.push(...getChapterFiles(chapter.children, childPrefix, false));
+    }
+  });
+
+  return files;
+}
+
+export const getChapterFilePaths = (chapters: Chapter[], prefix = '', isTopLevel = true): string[] =>
+  getChapterFiles(chapters, prefix, isTopLevel).map(file => file.path);
+
+/**
+ * One export per enabled export feature. Per-chapter PDFs produce one export
+ * for each top-level chapter.
+ */
+export function getBookExports(bookConfig: BookConfig): BookExport[] {
+  const bookFeatures = bookConfig.bookFeatures || BOOK_LEVEL_FEATURES;
+  const enabled = new Set(
+    bookFeatures.filter(f => f.enabled && f.category === 'export').map(f => f.id)
+  );
+  if (enabled.size === 0) return [];
+
+  const name = slugify(bookConfig.github?.repoName || bookConfig.title);
+  const matterPages = generateBookMatterPages(bookConfig);
+  const articles = [
+    ...matterPages.filter(p => p.category === 'front-matter').map(p => p.path),
+    ...getChapterFilePaths(bookConfig.tableOfContents.chapters),
+    ...matterPages.filter(p => p.category === 'back-matter').map(p => p.path),
+  ];
+
+  const exports: BookExport[] = [];
+
+  if (enabled.has('pdf-download')) {
+    exports.push({
+      id: 'book-pdf',
+      featureId: 'pdf-download',
+      label: 'PDF',
+      format: 'pdf',
+      template: 'plain_latex_book',
+      output: `${EXPORTS_DIR}/${name}.pdf`,
+      articles,
+    });
+  }
+
+  if (enabled.has('latex-export')) {
+    exports.push({
+      id: 'book-tex',
+      featureId: 'latex-export',
+      label: 'LaTeX source (.zip)',
+      format: 'tex',
+      template: 'plain_latex_book',
+      output: `${EXPORTS_DIR}/${name}-latex.zip`,
+      articles,
+    });
+  }
+
+  if (enabled.has('docx-export')) {
+    exports.push({
+      id: 'book-docx',
+      featureId: 'docx-export',
+      label: 'Word document',
+      format: 'docx',
+      output: `${EXPORTS_DIR}/${name}.docx`,
+      articles,
+    });
+  }
+
+  if (enabled.has('epub-export')) {
+    // MyST has no EPUB export - the workflow converts the same articles with pandoc
+    exports.push({
+      id: 'book-epub',
+      featureId: 'epub-export',
+      label: 'EPUB',
+      format: 'epub',
+      output: `${EXPORTS_DIR}/${name}.epub`,
+      articles,
+    });
+  }
+
+  if (enabled.has('chapter-pdf')) {
+    const chapters = bookConfig.tableOfContents.chapters;
+    chapters.forEach((chapter, index) => {
+      exports.push({
+        id: `chapter-${chapter.slug}-pdf`,
+        featureId: 'chapter-pdf',
+        label: `Chapter ${index + 1}: ${chapter.title}`,
+        format: 'pdf',
+        template: 'plain_latex',
+        output: `${EXPORTS_DIR}/chapters/${chapter.slug}.pdf`,
+        articles: getChapterFilePaths([chapter], '', index === 0),
+      });
+    });
+  }
+
+  return exports;
+}
+
+/**
+ * project.exports entries for myst.yml. EPUB is left out as MyST can't build it.
+ */
+export function generateExportsYaml(exports: BookExport[], indent: number): string {
+  const mystExports = exports.filter(e => e.format !== 'epub');
+  if (mystExports.length === 0) return '';
+
+  const spaces = ' '.repeat(indent);
+  const lines = [`${spaces}exports:`];
+  for (const exp of mystExports) {
+    lines.push(`${spaces}  - id: ${exp.id}`);
+    lines.push(`${spaces}    format: ${exp.format}`);
+    if (exp.template) {
+      lines.push(`${spaces}    template: ${exp.template}`);
+    }
+    lines.push(`${spaces}    output: ${exp.output}`);
+    lines.push(`${spaces}    articles:`);
+    for (const article of exp.articles) {
+      lines.push(`${spaces}      - ${article}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Downloads section for index.md
+ */
+export function generateDownloadLinks(bookConfig: BookConfig, exports: BookExport[]): string {
+  if (exports.length === 0) return '';
+
+  const bookDownloads = exports.filter(e => e.featureId !== 'chapter-pdf');
+  const chapterDownloads = exports.filter(e => e.featureId === 'chapter-pdf');
+
+  let section = `## 📥 Downloads\n\n`;
+  section += bookDownloads.map(e => `- [${e.label}](${e.output})`).join('\n');
+
+  if (chapterDownloads.length > 0) {
+    section += `${bookDownloads.length > 0 ? '\n\n' : ''}**Individual chapters (PDF)**\n\n`;
+    section += chapterDownloads.map(e => `- [${e.label}](${e.output})`).join('\n');
+  }
+
+  if (bookConfig.github) {
+    section += `\n\nAll downloads are also attached to the [latest release](https://github.com/${bookConfig.github.username}/${bookConfig.github.repoName}/releases/tag/${EXPORTS_RELEASE_TAG}).`;
+  }
+
+  return section;
+}
@@ -0,0 +1,774 @@
+/**
+ * Book project generation - everything that goes into a book's repository.
+ * Used when publishing to GitHub and when exporting the project as a ZIP.
+ */
+
+import { BookConfig, Chapter, BookLevelFeature } from '@/types';
+import { BOOK_LEVEL_FEATURES } from '@/data/bookLevelFeatures';
+import { generateBookMatterPages, generateMatterTocYaml } from './bookMatter';
+import { generateDownloadLinks, generateExportsYaml, getBookExports, EXPORTS_DIR, EXPORTS_RELEASE_TAG } from './bookExports';
+import { DRAFT_BRANCH_PREFIX, PREVIEWS_DIR } from './githubPullRequests';
+
+export interface GeneratedFile {
+  path: string;
+  content: string;
+  encoding?: 'utf-8' | 'base64';
+}
+
+/**
+ * The complete file tree of a generated MyST book: myst.yml, index page,
+ * chapters, front/back matter, deploy workflow, styles and cover image
+ */
+export function generateBookFiles(bookConfig: BookConfig): GeneratedFile[] {
+  const files: GeneratedFile[] = [];
+
+  // Process cover image - extract base64 and create actual image file
+  let coverImagePath: string | null = null;
+  if (bookConfig.coverImage && bookConfig.coverImage.startsWith('data:')) {
+    // Extract mime type and base64 data from data URL
+    const match = bookConfig.coverImage.match(/^data:([^;]+);base64,(.+)$/);
+    if (match) {
+      const mimeType = match[1];
+      const base64Data = match[2];
+
+      // Determine file extension based on mime type
+      let extension = 'png';
+      if (mimeType === 'image/jpeg' || mimeType === 'image/jpg') {
+        extension = 'jpg';
+      } else if (mimeType === 'image/gif') {
+        extension = 'gif';
+      } else if (mimeType === 'image/webp') {
+        extension = 'webp';
+      }
+
+      coverImagePath = `images/cover.${extension}`;
+
+      // Add the image file with base64 encoding
+      files.push({
+        path: coverImagePath,
+        content: base64Data,
+        encoding: 'base64',
+      });
+
+      console.log(`Cover image extracted: ${mimeType} -> ${coverImagePath}`);
+    }
+  } else if (bookConfig.coverImage) {
+    // It's already a URL, use it directly
+    coverImagePath = bookConfig.coverImage;
+  }
+
+  // Create a modified bookConfig with the new cover image path for file generation
+  const modifiedBookConfig = {
+    ...bookConfig,
+    coverImage: coverImagePath ? `./${coverImagePath}` : undefined,
+  };
+
+  // Generate myst.yml configuration (with relative cover path)
+  files.push({
+    path: 'myst.yml',
+    content: generateMystConfig(modifiedBookConfig),
+  });
+
+  // Generate index.md (root page)
+  files.push({
+    path: 'index.md',
+    content: generateIndexPage(modifiedBookConfig),
+  });
+
+  // Generate chapter files
+  const chapterFiles = generateChapterFiles(bookConfig.tableOfContents.chapters);
+  files.push(...chapterFiles);
+
+  // Generate front and back matter pages for the enabled book-level features
+  for (const matterPage of generateBookMatterPages(bookConfig)) {
+    files.push({
+      path: matterPage.path,
+      content: matterPage.content,
+    });
+  }
+
+  // Generate GitHub Actions workflow
+  files.push({
+    path: '.github/workflows/deploy.yml',
+    content: generateGitHubWorkflow(bookConfig),
+  });
+
+  // Generate .gitignore
+  files.push({
+    path: '.gitignore',
+    content: generateGitignore(),
+  });
+
+  // Generate package.json for npm-based MyST
+  files.push({
+    path: 'package.json',
+    content: generatePackageJson(bookConfig),
+  });
+
+  // Generate custom footer for Liquid Books branding
+  files.push({
+    path: 'footer.md',
+    content: generateFooter(),
+  });
+
+  // Generate custom CSS to hide MyST branding and show book title
+  files.push({
+    path: 'styles.css',
+    content: generateCustomStyles(bookConfig.title),
+  });
+
+  return files;
+}
+
+function generateMystConfig(bookConfig: BookConfig): string {
+  const enabledFeatures = bookConfig.features.filter((f) => f.enabled);
+  const hasJupyter = enabledFeatures.some((f) => f.id === 'jupyter-execution' || f.id === 'binder');
+
+  // Get book-level features (use defaults if not set)
+  const bookFeatures = bookConfig.bookFeatures || BOOK_LEVEL_FEATURES;
+  const enabledBookFeatures = bookFeatures.filter((f: BookLevelFeature) => f.enabled);
+
+  // Build site options from book-level features
+  // Always hide MyST branding and use Liquid Books branding
+  const siteOptions: Record<string, unknown> = {
+    style: 'styles.css',  // Load custom CSS to hide MyST branding
+  };
+  const jupyterOptions: Record<string, unknown> = {};
+
+  // Process enabled book features
+  for (const feature of enabledBookFeatures) {
+    if (!feature.configKey) continue;
+
+    const parts = feature.configKey.split('.');
+    const value = feature.configValue;
+
+    // Route to appropriate options object based on configKey prefix
+    if (parts[0] === 'site' && parts[1] === 'options' && parts[2]) {
+      siteOptions[parts[2]] = value;
+    } else if (parts[0] === 'jupyter' && parts[1]) {
+      jupyterOptions[parts[1]] = value;
+    }
+  }
+
+  // Generate site options YAML
+  const generateOptionsYaml = (options: Record<string, unknown>, indent: number): string => {
+    const spaces = ' '.repeat(indent);
+    const lines: string[] = [];
+    for (const [key, value] of Object.entries(options)) {
+      if (typeof value === 'boolean') {
+        lines.push(`${spaces}${key}: ${value}`);
+      } else if (typeof value === 'object' && value !== null) {
+        lines.push(`${spaces}${key}:`);
+        for (const [subKey, subValue] of Object.entries(value as Record<string, unknown>)) {
+          lines.push(`${spaces}  ${subKey}: ${subValue}`);
+        }
+      } else {
+        lines.push(`${spaces}${key}: ${value}`);
+      }
+    }
+    return lines.join('\n');
+  };
+
+  // Build options section
+  let optionsSection = '';
+  if (Object.keys(siteOptions).length > 0 || bookConfig.coverImage) {
+    optionsSection = `  options:\n`;
+    if (bookConfig.coverImage) {
+      optionsSection += `    logo: "${bookConfig.coverImage}"\n`;
+    }
+    if (Object.keys(siteOptions).length > 0) {
+      optionsSection += generateOptionsYaml(siteOptions, 4) + '\n';
+    }
+  }
+
+  // Build project.exports from the enabled export features
+  const exportsYaml = generateExportsYaml(getBookExports(bookConfig), 2);
+  const exportsSection = exportsYaml ? `${exportsYaml}
+` : '';
+
+  // Build jupyter section - collect all enabled jupyter options into a single object to prevent duplicates
+  // Use a Map to ensure unique keys
+  const jupyterConfig = new Map<string, boolean>();
+
+  // Add from hasJupyter flag (chapter-level jupyter features)
+  if (hasJupyter) {
+    jupyterConfig.set('lite', true);
+  }
+
+  // Add from book-level features (will overwrite if key exists)
+  for (const [key, value] of Object.entries(jupyterOptions)) {
+    if (typeof value === 'object' && value !== null && (value as Record<string, unknown>).enabled) {
+      jupyterConfig.set(key, true);
+    } else if (typeof value === 'boolean' && value) {
+      jupyterConfig.set(key, true);
+    }
+  }
+
+  let jupyterSection = '';
+  if (jupyterConfig.size > 0) {
+    jupyterSection = `  jupyter:\n`;
+    for (const [key, value] of jupyterConfig) {
+      jupyterSection += `    ${key}: ${value}\n`;
+    }
+  }
+
+  // Detailed logging for book-level features
+  console.log('=== BOOK-LEVEL FEATURES CONFIGURATION ===');
+  console.log(`Total book features: ${bookFeatures.length}, Enabled: ${enabledBookFeatures.length}`);
+  if (enabledBookFeatures.length > 0) {
+    console.log('Enabled book-level features:');
+    for (const f of enabledBookFeatures) {
+      console.log(`  - ${f.id} (${f.name}): configKey=${f.configKey || 'none'}, category=${f.category}`);
+    }
+  }
+  console.log('Site options:', JSON.stringify(siteOptions, null, 2));
+  console.log('Jupyter config:', Array.from(jupyterConfig.entries()));
+  console.log('==========================================');
+
+  // Build a comment listing enabled features for visibility in the generated file
+  const enabledFeaturesList = enabledBookFeatures.length > 0
+    ? enabledBookFeatures.map((f: BookLevelFeature) => f.name).join(', ')
+    : 'none';
+
+  return `# Liquid Books Configuration
+# Generated by Liquid Books (https://liquid-books.netlify.app)
+# Book-level features (${enabledBookFeatures.length}): ${enabledFeaturesList}
+
+version: 1
+
+project:
+  title: "${bookConfig.title}"
+${bookConfig.description ? `  description: "${bookConfig.description}"` : ''}
+  authors:
+    - name: "${bookConfig.author}"
+${bookConfig.github ? `  github: https://github.com/${bookConfig.github.username}/${bookConfig.github.repoName}` : ''}
+${jupyterSection ? jupyterSection : ''}  toc:
+${generateBookTocYaml(bookConfig)}
+${exportsSection}
+site:
+  template: book-theme
+  title: "${bookConfig.title}"
+${bookConfig.github ? `  base: /${bookConfig.github.repoName}` : ''}
+  logo:
+    text: "${bookConfig.title}"
+  nav:
+    - title: "${bookConfig.title}"
+      url: .
+${optionsSection}  actions:
+    - title: "${bookConfig.title}"
+      url: .
+  parts:
+    footer: footer.md
+`;
+}
+
+// Front matter, then chapters, then back matter
+function generateBookTocYaml(bookConfig: BookConfig): string {
+  const matterPages = generateBookMatterPages(bookConfig);
+  return [
+    generateMatterTocYaml(matterPages, 'front-matter', 4),
+    generateTocYaml(bookConfig.tableOfContents.chapters, 4),
+    generateMatterTocYaml(matterPages, 'back-matter', 4),
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+function generateTocConfig(chapters: Chapter[]): { file: string; children?: unknown[] }[] {
+  return chapters.map((chapter) => {
+    const entry: { file: string; children?: unknown[] } = {
+      file: `${chapter.slug}.md`,
+    };
+    if (chapter.children && chapter.children.length > 0) {
+      entry.children = generateTocConfig(chapter.children);
+    }
+    return entry;
+  });
+}
+
+function generateTocYaml(chapters: Chapter[], indent: number, isTopLevel = true): string {
+  const spaces = ' '.repeat(indent);
+
+  // MyST rule: First TOC item cannot have children
+  // So we flatten any children of the first item into top-level entries
+  if (isTopLevel && chapters.length > 0) {
+    const result: string[] = [];
+
+    chapters.forEach((chapter, index) => {
+      if (index === 0 && chapter.children && chapter.children.length > 0) {
+        // First item with children: add it without children, then add its children as top-level
+        result.push(`${spaces}- file: ${chapter.slug}.md`);
+        // Add children as top-level entries (they can have their own children)
+        chapter.children.forEach((child) => {
+          let entry = `${spaces}- file: ${child.slug}.md`;
+          if (child.children && child.children.length > 0) {
+            entry += `\n${spaces}  children:\n${generateTocYaml(child.children, indent + 4, false)}`;
+          }
+          result.push(entry);
+        });
+      } else {
+        // Other items: normal behavior
+        let entry = `${spaces}- file: ${chapter.slug}.md`;
+        if (chapter.children && chapter.children.length > 0) {
+          entry += `\n${spaces}  children:\n${generateTocYaml(chapter.children, indent + 4, false)}`;
+        }
+        result.push(entry);
+      }
+    });
+
+    return result.join('\n');
+  }
+
+  // Non-top-level: normal recursive behavior
+  return chapters
+    .map((chapter) => {
+      let entry = `${spaces}- file: ${chapter.slug}.md`;
+      if (chapter.children && chapter.children.length > 0) {
+        entry += `\n${spaces}  children:\n${generateTocYaml(chapter.children, indent + 4, false)}`;
+      }
+      return entry;
+    })
+    .join('\n');
+}
+
+function generateIndexPage(bookConfig: BookConfig): string {
+  // Header section with cover, title, and author
+  const headerSection = bookConfig.coverImage
+    ? `
+::::{grid} 1 1 2 2
+:gutter: 4
+:class-container: book-header
+
+:::{grid-item}
+:columns: 12 12 4 4
+:class: cover-image
+
+![${bookConfig.title}](${bookConfig.coverImage})
+:::
+
+:::{grid-item}
+:columns: 12 12 8 8
+:class: book-info
+
+# ${bookConfig.title}
+
+**by ${bookConfig.author}**
+
+---
+
+${bookConfig.description}
+:::
+::::
+`
+    : `
+# ${bookConfig.title}
+
+**by ${bookConfig.author}**
+
+---
+
+${bookConfig.description}
+`;
+
+  // Generate numbered chapter list
+  const numberedChapters = bookConfig.tableOfContents.chapters
+    .map((ch, index) => {
+      const chapterNum = index + 1;
+      return `${chapterNum}. [**Chapter ${chapterNum}:** ${ch.title}](${ch.slug}.md)${ch.description ? `\n   > ${ch.description}` : ''}`;
+    })
+    .join('\n\n');
+
+  const downloadsSection = generateDownloadLinks(bookConfig, getBookExports(bookConfig));
+
+  return `---
+title: "${bookConfig.title} by ${bookConfig.author}"
+${bookConfig.coverImage ? `thumbnail: ${bookConfig.coverImage}` : ''}
+---
+
+${headerSection}
+
+## 📚 Table of Contents
+
+${numberedChapters}
+${downloadsSection ? `\n${downloadsSection}\n` : ''}
+---
+
+*Created with [Liquid Books](https://github.com/fenago/Liquid-Books-21)*
+`;
+}
+
+function generateChapterFiles(
+  chapters: Chapter[],
+  prefix = '',
+  isTopLevel = true,
+  startIndex = 1
+): GeneratedFile[] {
+  const files: GeneratedFile[] = [];
+
+  for (let i = 0; i < chapters.length; i++) {
+    const chapter = chapters[i];
+    const chapterNumber = isTopLevel ? startIndex + i : undefined; // Only number top-level chapters
+    const filePath = prefix ? `${prefix}/${chapter.slug}.md` : `${chapter.slug}.md`;
+
+    files.push({
+      path: filePath,
+      content: generateChapterContent(chapter, chapterNumber),
+    });
+
+    if (chapter.children && chapter.children.length > 0) {
+      // MyST rule: First TOC item cannot have children
+      // So first chapter's children go at root level (no prefix)
+      if (isTopLevel && i === 0) {
+        // First chapter's children: put at root level to match flattened TOC
+        files.push(...generateChapterFiles(chapter.children, '', false));
+      } else {
+        // Other chapters: children go in subdirectory
+        files.push(...generateChapterFiles(chapter.children, chapter.slug, false));
+      }
+    }
+  }
+
+  return files;
+}
+
+function generateChapterContent(chapter: Chapter, chapterNumber?: number): string {
+  const content = chapter.content || generatePlaceholderContent(chapter);
+
+  // Format title with chapter number if provided
+  const displayTitle = chapterNumber
+    ? `Chapter ${chapterNumber}: ${chapter.title}`
+    : chapter.title;
+
+  return `---
+title: ${displayTitle}
+---
+
+# ${displayTitle}
+
+${chapter.description ? `> ${chapter.description}\n` : ''}
+
+${content}
+`;
+}
+
+function generatePlaceholderContent(chapter: Chapter): string {
+  return `
+:::{note}
+This chapter is a placeholder. Use the AI-powered chapter editor to generate content.
+:::
+
+## Overview
+
+This chapter covers **${chapter.title}**.
+
+${chapter.description || 'Content coming soon...'}
+
+## Key Topics
+
+- Topic 1
+- Topic 2
+- Topic 3
+
+## Examples
+
+\`\`\`python
+# Example code will be added here
+print("Hello from ${chapter.title}")
+\`\`\`
+
+## Summary
+
+Summary of ${chapter.title} will be added here.
+
+---
+
+*Last updated: ${new Date().toISOString().split('T')[0]}*
+`;
+}
+
+/**
+ * A workflow env value holding user text. Book details never go into a run:
+ * line, where the shell would expand $(...), backticks and $VAR in them; as a
+ * quoted YAML scalar they reach the step as a plain variable. Actions still
+ * evaluates ${{ }} in env values, so that is written as a literal.
+ */
+function workflowEnvValue(value: string): string {
+  return JSON.stringify(value).replace(/\$\{\{/g, "${{ '${{' }}");
+}
+
+function generateGitHubWorkflow(bookConfig: BookConfig): string {
+  // Based on official MyST docs: https://mystmd.org/guide/deployment-github-pages
+  // BASE_URL uses GitHub's dynamic variable - no hardcoding needed
+  const exports = getBookExports(bookConfig);
+  const mystFormats = Array.from(new Set(exports.map((e) => e.format).filter((f) => f !== 'epub')));
+  const epubExport = exports.find((e) => e.format === 'epub');
+  const needsLatex = mystFormats.includes('pdf');
+
+  const aptPackages = [
+    ...(needsLatex ? ['texlive-xetex', 'texlive-latex-extra', 'texlive-fonts-recommended', 'latexmk'] : []),
+    ...(epubExport ? ['pandoc'] : []),
+  ];
+
+  // Exports are built before the HTML so index.md's download links resolve to real files
+  let exportSteps = '';
+  if (aptPackages.length > 0) {
+    exportSteps += `
+      - name: Install export toolchain
+        run: sudo apt-get update && sudo apt-get install -y ${aptPackages.join(' ')}
+`;
+  }
+  if (mystFormats.length > 0) {
+    exportSteps += `
+      - name: Build exports
+        run: myst build ${mystFormats.map((f) => `--${f}`).join(' ')}
+`;
+  }
+  if (epubExport) {
+    exportSteps += `
+      - name: Build EPUB
+        env:
+          BOOK_TITLE: ${workflowEnvValue(bookConfig.title)}
+          BOOK_AUTHOR: ${workflowEnvValue(bookConfig.author)}
+        run: |
+          mkdir -p ${EXPORTS_DIR}
+          pandoc --from markdown --to epub3 --toc --metadata title="$BOOK_TITLE" --metadata author="$BOOK_AUTHOR" -o ${epubExport.output} \\
+            ${epubExport.articles.join(' ')}
+`;
+  }
+
+  const copyExportsStep = exports.length > 0
+    ? `
+      - name: Add exports to the site
+        run: |
+          mkdir -p _build/html/${EXPORTS_DIR}
+          cp -r ${EXPORTS_DIR}/. _build/html/${EXPORTS_DIR}/
+`
+    : '';
+
+  // Review mode: every draft branch is built under previews/<branch> of the same
+  // site, since Pages only serves one deployment. Previews are HTML only.
+  const reviewMode = bookConfig.github?.publishMode === 'pull-request';
+  const draftRefs = `refs/remotes/origin/${DRAFT_BRANCH_PREFIX.replace(/\/$/, '')}`;
+  const previewsStep = reviewMode
+    ? `
+      - name: Build draft previews
+        run: |
+          for branch in $(git for-each-ref --format='%(refname:lstrip=4)' ${draftRefs}); do
+            slug="\${branch//\\//-}"
+            git worktree add "../preview-$slug" "origin/${DRAFT_BRANCH_PREFIX}$branch"
+            if (cd "../preview-$slug" && BASE_URL="$BASE_URL/${PREVIEWS_DIR}/$slug" myst build --html); then
+              mkdir -p "_build/html/${PREVIEWS_DIR}/$slug"
+              cp -r "../preview-$slug/_build/html/." "_build/html/${PREVIEWS_DIR}/$slug/"
+            else
+              echo "::warning::Preview of ${DRAFT_BRANCH_PREFIX}$branch failed to build"
+            fi
+          done
+`
+    : '';
+
+  // The release tag is recreated on every build so it always points at the latest commit
+  const releaseStep = exports.length > 0
+    ? `
+      - name: Attach exports to release
+        env:
+          GH_TOKEN: \${{ github.token }}
+        run: |
+          gh release delete ${EXPORTS_RELEASE_TAG} --yes --cleanup-tag || true
+          gh release create ${EXPORTS_RELEASE_TAG} $(find ${EXPORTS_DIR} -type f) \\
+            --title "Book downloads" \\
+            --notes "PDF, LaTeX, Word and EPUB downloads built from \${{ github.sha }}" \\
+            --target \${{ github.sha }}
+`
+    : '';
+
+  return `# Liquid Books Deploy
+# Created by Dr. Lee
+# Based on: https://mystmd.org/guide/deployment-github-pages
+
+name: Liquid Books Deploy
+
+on:
+  push:
+    branches: [main]
+  workflow_dispatch:
+
+env:
+  # BASE_URL determines the website is served from, including CSS & JS assets
+  # Uses GitHub's dynamic variable to get the repository name
+  BASE_URL: /\${{ github.event.repository.name }}
+
+permissions:
+  contents: ${exports.length > 0 ? 'write' : 'read'}
+  pages: write
+  id-token: write
+
+concurrency:
+  group: 'pages'
+  cancel-in-progress: false
+
+jobs:
+  deploy:
+    environment:
+      name: github-pages
+      url: \${{ steps.deployment.outputs.page_url }}
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/checkout@v4${reviewMode ? `
+        with:
+          # Draft branches are needed for the previews
+          fetch-depth: 0` : ''}
+
+      - name: Setup Pages
+        uses: actions/configure-pages@v3
+
+      - uses: actions/setup-node@v4
+        with:
+          node-version: 18.x
+
+      - name: Install MyST Markdown
+        run: npm install -g mystmd
+${exportSteps}
+      - name: Build HTML Assets
+        run: myst build --html
+${copyExportsStep}${previewsStep}
+      - name: Upload artifact
+        uses: actions/upload-pages-artifact@v3
+        with:
+          path: './_build/html'
+
+      - name: Deploy to GitHub Pages
+        id: deployment
+        uses: actions/deploy-pages@v4
+${releaseStep}`;
+}
+
+function generateGitignore(): string {
+  return `# Build outputs
+_build/
+.myst/
+
+# Dependencies
+node_modules/
+
+# Environment
+.env
+.env.local
+
+# IDE
+.vscode/
+.idea/
+*.swp
+*.swo
+
+# OS
+.DS_Store
+Thumbs.db
+
+# Logs
+*.log
+npm-debug.log*
+`;
+}
+
+function generatePackageJson(bookConfig: BookConfig): string {
+  return JSON.stringify(
+    {
+      name: bookConfig.github?.repoName || 'my-book',
+      version: '1.0.0',
+      description: bookConfig.description,
+      scripts: {
+        start: 'myst start',
+        build: 'myst build --html',
+        clean: 'myst clean --all',
+      },
+      keywords: ['liquid-books', 'myst', 'jupyter-book', 'documentation'],
+      author: bookConfig.author,
+      license: 'MIT',
+      devDependencies: {
+        mystmd: '^1.0.0',
+      },
+    },
+    null,
+    2
+  );
+}
+
+function generateFooter(): string {
+  return `**Created with [Liquid Books](https://liquid-books.netlify.app) by Dr. Lee**
+`;
+}
+
+function generateHeader(bookTitle: string): string {
+  return `::::{div}
+:class: header-branding
+
+# ${bookTitle}
+
+*A Liquid Books Publication*
+
+::::
+`;
+}
+
+function generateCustomStyles(bookTitle: string): string {
+  // CSS to hide MyST branding and show book title instead
+  // The MyST theme ignores logo: text: config, so we use CSS to override
+  return `/* Liquid Books Custom Styles */
+
+/* ========================================
+   HIDE MYST BRANDING - SPECIFIC ELEMENTS
+   ======================================== */
+
+/* Hide the "Made with MyST" text in the header home link */
+.myst-home-link span {
+  font-size: 0 !important;
+  visibility: hidden !important;
+}
+
+/* Replace with book title using CSS */
+.myst-home-link span::after {
+  content: "${bookTitle.replace(/"/g, '\\"')}" !important;
+  font-size: 1rem !important;
+  visibility: visible !important;
+  font-weight: bold;
+}
+
+/* Hide the "Made with MyST" link in sidebar footer */
+.myst-made-with-myst {
+  display: none !important;
+}
+
+/* Also hide any links to mystmd.org */
+a[href*="mystmd.org"],
+a[href*="myst-tools"],
+a[href*="jupyter-book"] {
+  display: none !important;
+}
+
+/* Hide generic powered-by sections */
+.powered-by,
+.made-with,
+.built-with,
+.myst-branding,
+.myst-powered-by {
+  display: none !important;
+}
+
+/* ========================================
+   BOOK TITLE STYLING
+   ======================================== */
+.site-nav .nav-title,
+.navbar-brand,
+.site-title,
+.sidebar-title {
+  font-weight: bold;
+  font-size: 1.2rem;
+}
+
+/* Ensure our custom footer is visible */
+.page-footer,
+article footer {
+  display: block !important;
+}
+`;
+}
@@ -0,0 +1,19 @@
+/**
+ * Import existing MyST / Jupyter Book projects into the library
+ *
+ * 1. Sources - list and read files from a GitHub repository or a ZIP upload
+ * 2. Parser - TOC, chapter content and inferred features as a BookConfig
+ * 3. Save - library book and chapter rows, linked to the repository
+ */
+
+export { createGitHubSource, createZipSource, type GitHubProjectSource } from './sources';
+export {
+  extractPage,
+  parseBookProject,
+  type ImportedBook,
+  type ImportFormat,
+  type PageContent,
+  type ProjectSource,
+} from './parseProject';
+export { saveImportedBook, type ImportOrigin } from './saveImportedBook';
+export { parseYaml, type YamlValue } from './yaml';
@@ -0,0 +1,485 @@
+/**
+ * Turn the files of an existing MyST or Jupyter Book project into a BookConfig:
+ * TOC from myst.yml (or legacy _toc.yml/_config.yml), chapter content from
+ * markdown and notebooks, and features inferred from what the content uses.
+ */
+
+import { BookConfig, BookLevelFeature, Chapter, MYST_FEATURES, MystFeature } from '@/types';
+import { BOOK_LEVEL_FEATURES } from '@/data/bookLevelFeatures';
+import { MYST_FEATURES_DATA } from '@/data/mystFeatures';
+import { isFeaturePresent } from '@/lib/featureAudit';
+import { getMatterFeatureId } from '@/lib/bookMatter';
+import { parseYaml, type YamlValue } from './yaml';
+
+export interface ProjectSource {
+  // Every file path in the project, relative to its root
+  files: string[];
+  readFile(path: string): Promise<string | null>;
+}
+
+export type ImportFormat = 'myst' | 'jupyter-book' | 'markdown';
+
+export interface ImportedBook {
+  config: BookConfig;
+  format: ImportFormat;
+  // Directory the book config was found in ('' for the repository root)
+  rootDir: string;
+  warnings: string[];
+}
+
+interface TocEntry {
+  // Path relative to the repository root
+  path: string;
+  title?: string;
+  children: TocEntry[];
+}
+
+type YamlMap = { [key: string]: YamlValue };
+
+const MAX_CHAPTERS = 300;
+const CONTENT_EXTENSIONS = ['.md', '.ipynb', '.myst.md'];
+// Repository files that are never chapters (footer.md is the Liquid Books site footer)
+const NON_CHAPTER_FILES = new Set(['footer.md', 'README.md', 'LICENSE.md', 'CHANGELOG.md', 'CONTRIBUTING.md']);
+
+// Book-config features that can be recognised from content
+const BOOK_FEATURE_PATTERNS: Record<string, RegExp> = {
+  admonitions: /[:`]{3,}\{(note|tip|hint|important|warning|caution|attention|danger|error|seealso|admonition)\}/,
+  figures: /\{figure\}|!\[[^\]]*\]\(/,
+  math: /\$\$|\{math\}|\{eq\}/,
+  citations: /\{cite(:[a-z]+)?\}/,
+  tables: /^\s*\|.*\|\s*$|\{list-table\}|\{table\}/m,
+  'code-blocks': /^\s*(```|~~~)/m,
+  'jupyter-execution': /\{code-cell\}/,
+  tabs: /\{tab-set\}/,
+  dropdowns: /\{dropdown\}|:class: dropdown/,
+  cards: /\{card\}/,
+  exercises: /\{exercise\}|\{solution\}/,
+};
+
+// MyST export formats and the export feature that produces them
+const EXPORT_FORMAT_FEATURES: Record<string, string> = {
+  pdf: 'pdf-download',
+  tex: 'latex-export',
+  docx: 'docx-export',
+};
+
+const isMap = (value: YamlValue | undefined): value is YamlMap =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: YamlValue | undefined): string | undefined =>
+  typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+
+const asList = (value: YamlValue | undefined): YamlValue[] => (Array.isArray(value) ? value : []);
+
+const dirname = (path: string) => (path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '');
+
+const joinPath = (dir: string, path: string) =>
+  (dir ? `${dir}/${path}` : path).replace(/^\.\//, '').replace(/\/\.\//g, '/');
+
+const stripExtension = (path: string) => path.replace(/(\.myst)?\.(md|ipynb)$/, '');
+
+const titleFromPath = (path: string) =>
+  stripExtension(path.split('/').pop() || path)
+    .replace(/^\d+[-_.\s]*/, '')
+    .replace(/[-_]+/g, ' ')
+    .replace(/\b\w/g, (c) => c.toUpperCase()) || path;
+
+/**
+ * Resolve a TOC file reference, which may leave off the extension
+ */
+function resolveFile(files: Set<string>, dir: string, file: string): string | null {
+  const base = joinPath(dir, file);
+  if (files.has(base)) return base;
+  for (const ext of CONTENT_EXTENSIONS) {
+    if (files.has(`${base}${ext}`)) return `${base}${ext}`;
+  }
+  return null;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*\/?/g, '\u0000')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\u0000/g, '(.*/)?');
+  return new RegExp(`^${escaped}$`);
+}
+
+// ---------------------------------------------------------------------------
+// TOC parsing
+// ---------------------------------------------------------------------------
+
+function parseMystToc(
+  items: YamlValue[],
+  dir: string,
+  files: Set<string>,
+  warnings: string[]
+): TocEntry[] {
+  const entries: TocEntry[] = [];
+
+  for (const item of items) {
+    if (!isMap(item)) continue;
+
+    const children = parseMystToc(asList(item.children), dir, files, warnings);
+    const file = asString(item.file);
+    const pattern = asString(item.pattern);
+    const title = asString(item.title);
+
+    if (file) {
+      const path = resolveFile(files, dir, file);
+      if (path) {
+        entries.push({ path, title, children });
+      } else {
+        warnings.push(`TOC entry "${file}" was not found and was skipped`);
+        entries.push(...children);
+      }
+    } else if (pattern) {
+      const matcher = globToRegExp(joinPath(dir, pattern));
+      const matched = Array.from(files)
+        .filter((f) => matcher.test(f) && CONTENT_EXTENSIONS.some((ext) => f.endsWith(ext)))
+        .sort();
+      entries.push(...matched.map((path) => ({ path, children: [] })));
+    } else if (children.length > 0) {
+      // Parts (a title grouping chapters) have no page of their own
+      warnings.push(`Part "${title || 'untitled'}" was flattened - its chapters were imported at the top level`);
+      entries.push(...children);
+    }
+  }
+
+  return entries;
+}
+
+function parseJupyterBookToc(
+  toc: YamlMap,
+  dir: string,
+  files: Set<string>,
+  warnings: string[]
+): TocEntry[] {
+  const toEntries = (items: YamlValue[]): TocEntry[] => {
+    const entries: TocEntry[] = [];
+    for (const item of items) {
+      if (!isMap(item)) continue;
+      const children = toEntries([...asList(item.sections), ...asList(item.chapters)]);
+      const file = asString(item.file);
+      const glob = asString(item.glob);
+
+      if (file) {
+        const path = resolveFile(files, dir, file);
+        if (path) {
+          entries.push({ path, title: asString(item.title), children });
+        } else {
+          warnings.push(`TOC entry "${file}" was not found and was skipped`);
+          entries.push(...children);
+        }
+      } else if (glob) {
+        const matcher = globToRegExp(joinPath(dir, glob));
+        entries.push(
+          ...Array.from(files)
+            .filter((f) => CONTENT_EXTENSIONS.some((ext) => f.endsWith(ext)) && matcher.test(stripExtension(f)))
+            .sort()
+            .map((path) => ({ path, children: [] }))
+        );
+      }
+    }
+    return entries;
+  };
+
+  const entries: TocEntry[] = [];
+  const root = asString(toc.root);
+  if (root) {
+    const path = resolveFile(files, dir, root);
+    if (path) entries.push({ path, children: [] });
+  }
+
+  const parts = asList(toc.parts);
+  if (parts.length > 0) {
+    for (const part of parts) {
+      if (!isMap(part)) continue;
+      if (asString(part.caption)) {
+        warnings.push(`Part "${asString(part.caption)}" was flattened - its chapters were imported at the top level`);
+      }
+      entries.push(...toEntries(asList(part.chapters)));
+    }
+  }
+
+  entries.push(...toEntries([...asList(toc.chapters), ...asList(toc.sections)]));
+  return entries;
+}
+
+// Without a TOC, every markdown file and notebook becomes a chapter
+function listContentFiles(files: string[], dir: string): TocEntry[] {
+  const prefix = dir ? `${dir}/` : '';
+  const rank = (path: string) => {
+    const name = stripExtension(path.split('/').pop() || '').toLowerCase();
+    return name === 'index' || name === 'intro' ? 0 : 1;
+  };
+
+  return files
+    .filter((f) =>
+      f.startsWith(prefix) &&
+      CONTENT_EXTENSIONS.some((ext) => f.endsWith(ext)) &&
+      !NON_CHAPTER_FILES.has(f.slice(prefix.length)) &&
+      !f.split('/').some((part) => part.startsWith('.') || part.startsWith('_') || part === 'node_modules')
+    )
+    .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+    .map((path) => ({ path, children: [] }));
+}
+
+// ---------------------------------------------------------------------------
+// Content
+// ---------------------------------------------------------------------------
+
+interface NotebookCell {
+  cell_type: 'markdown' | 'code' | 'raw';
+  source: string | string[];
+}
+
+/**
+ * Notebook cells as MyST markdown: markdown cells as-is, code cells as
+ * {code-cell} blocks. Outputs are dropped - they're regenerated on build.
+ */
+function notebookToMyst(raw: string): string {
+  const notebook = JSON.parse(raw) as {
+    cells?: NotebookCell[];
+    metadata?: { kernelspec?: { language?: string }; language_info?: { name?: string } };
+  };
+  const language = notebook.metadata?.kernelspec?.language || notebook.metadata?.language_info?.name || 'python';
+
+  return (notebook.cells || [])
+    .map((cell) => {
+      const source = (Array.isArray(cell.source) ? cell.source.join('') : cell.source || '').trimEnd();
+      if (!source) return null;
+      if (cell.cell_type === 'markdown') return source;
+      if (cell.cell_type === 'code') return `\`\`\`{code-cell} ${language}\n${source}\n\`\`\``;
+      return null;
+    })
+    .filter((block): block is string => block !== null)
+    .join('\n\n');
+}
+
+export interface PageContent {
+  title?: string;
+  description?: string;
+  content: string;
+}
+
+/**
+ * Split off frontmatter and the leading H1. Pages generated by Liquid Books
+ * ("Chapter N: Title", or a frontmatter title repeated as the H1, followed by
+ * a quoted description) are mapped back to the plain title and description.
+ */
+export function extractPage(markdown: string): PageContent {
+  let body = markdown.replace(/\r\n?/g, '\n');
+  let title: string | undefined;
+
+  const frontmatter = body.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (frontmatter) {
+    const data = parseYaml(frontmatter[1]);
+    if (isMap(data)) title = asString(data.title);
+    body = body.slice(frontmatter[0].length);
+  }
+
+  const heading = body.match(/^\s*#\s+(.+)\n?/);
+  if (heading) {
+    title = title || heading[1].trim();
+    body = body.slice(heading[0].length);
+  }
+
+  let description: string | undefined;
+  const numbered = title?.match(/^Chapter \d+:\s*(.+)$/);
+  if (numbered) title = numbered[1];
+  if (numbered || (frontmatter && heading && heading[1].trim() === title)) {
+    const quote = body.match(/^\s*> (.+)\n/);
+    if (quote) {
+      description = quote[1].trim();
+      body = body.slice(quote[0].length);
+    }
+  }
+
+  return { title, description, content: body.trim() };
+}
+
+// ---------------------------------------------------------------------------
+// Project
+// ---------------------------------------------------------------------------
+
+function authorFrom(value: YamlValue | undefined): string | undefined {
+  if (typeof value === 'string') return value;
+  const names = asList(value)
+    .map((a) => (isMap(a) ? asString(a.name) : asString(a)))
+    .filter(Boolean);
+  return names.length > 0 ? names.join(', ') : undefined;
+}
+
+// Config at the shallowest path wins, so examples/ or docs/ subprojects don't shadow the book
+function findConfig(files: string[], name: string): string | undefined {
+  return files
+    .filter((f) => f === name || f.endsWith(`/${name}`))
+    .filter((f) => !f.split('/').some((part) => part === 'node_modules' || part.startsWith('.')))
+    .sort((a, b) => a.split('/').length - b.split('/').length)[0];
+}
+
+/**
+ * Parse a MyST or Jupyter Book project into a BookConfig with chapter content
+ */
+export async function parseBookProject(source: ProjectSource, fallbackTitle: string): Promise<ImportedBook> {
+  const files = new Set(source.files);
+  const warnings: string[] = [];
+
+  let format: ImportFormat = 'markdown';
+  let rootDir = '';
+  let title: string | undefined;
+  let author: string | undefined;
+  let description: string | undefined;
+  let entries: TocEntry[] | null = null;
+  const exportFormats = new Set<string>();
+
+  const mystPath = findConfig(source.files, 'myst.yml');
+  const tocPath = findConfig(source.files, '_toc.yml');
+
+  if (mystPath) {
+    format = 'myst';
+    rootDir = dirname(mystPath);
+    const myst = parseYaml((await source.readFile(mystPath)) || '');
+    const project = isMap(myst) && isMap(myst.project) ? myst.project : {};
+    const site = isMap(myst) && isMap(myst.site) ? myst.site : {};
+
+    title = asString(project.title) || asString(site.title);
+    author = authorFrom(project.authors) || authorFrom(project.author);
+    description = asString(project.description);
+    for (const exp of asList(project.exports)) {
+      if (isMap(exp) && asString(exp.format)) exportFormats.add(asString(exp.format)!);
+    }
+    if (Array.isArray(project.toc)) {
+      entries = parseMystToc(project.toc, rootDir, files, warnings);
+    }
+  } else if (tocPath) {
+    format = 'jupyter-book';
+    rootDir = dirname(tocPath);
+    const toc = parseYaml((await source.readFile(tocPath)) || '');
+    if (isMap(toc)) entries = parseJupyterBookToc(toc, rootDir, files, warnings);
+
+    const configPath = joinPath(rootDir, '_config.yml');
+    if (files.has(configPath)) {
+      const config = parseYaml((await source.readFile(configPath)) || '');
+      if (isMap(config)) {
+        title = asString(config.title);
+        author = authorFrom(config.author);
+        description = asString(config.description);
+      }
+    }
+  }
+
+  if (!entries || entries.length === 0) {
+    if (format !== 'markdown') warnings.push('No table of contents found - imported every markdown file and notebook');
+    entries = listContentFiles(source.files, rootDir);
+  }
+
+  if (rootDir) {
+    warnings.push(`The book lives in "${rootDir}/" - publishing from Book Builder writes myst.yml at the repository root`);
+  }
+
+  // Liquid Books front/back matter pages turn back into book-level features
+  const prefix = rootDir ? `${rootDir}/` : '';
+  const matterFeatures = new Set<string>();
+  const splitMatter = (list: TocEntry[]): TocEntry[] =>
+    list.filter((entry) => {
+      const featureId = getMatterFeatureId(entry.path.slice(prefix.length));
+      if (featureId) matterFeatures.add(featureId);
+      return !featureId;
+    });
+  entries = splitMatter(entries);
+
+  let chapterCount = 0;
+  let hasNotebooks = false;
+  const allContent: string[] = [];
+
+  const buildChapters = async (list: TocEntry[]): Promise<Chapter[]> => {
+    const chapters: Chapter[] = [];
+
+    for (const entry of list) {
+      if (chapterCount >= MAX_CHAPTERS) {
+        const message = `Only the first ${MAX_CHAPTERS} chapters were imported`;
+        if (!warnings.includes(message)) warnings.push(message);
+        break;
+      }
+      chapterCount++;
+
+      const raw = await source.readFile(entry.path);
+      if (raw === null) {
+        warnings.push(`Could not read "${entry.path}"`);
+        continue;
+      }
+
+      let page: PageContent;
+      if (entry.path.endsWith('.ipynb')) {
+        hasNotebooks = true;
+        try {
+          page = extractPage(notebookToMyst(raw));
+        } catch {
+          warnings.push(`"${entry.path}" is not a valid notebook and was skipped`);
+          continue;
+        }
+      } else {
+        page = extractPage(raw);
+      }
+
+      allContent.push(page.content);
+      chapters.push({
+        id: `imported-${chapterCount}`,
+        title: entry.title || page.title || titleFromPath(entry.path),
+        // The slug keeps the repository path so edits push back to the same file
+        slug: stripExtension(entry.path),
+        description: page.description,
+        content: page.content,
+        order: chapters.length + 1,
+        selectedFeatures: MYST_FEATURES_DATA
+          .filter((f) => isFeaturePresent(page.content, f.id))
+          .map((f) => f.id),
+        children: entry.children.length > 0 ? await buildChapters(splitMatter(entry.children)) : undefined,
+      });
+    }
+
+    return chapters;
+  };
+
+  const chapters = await buildChapters(entries);
+  if (chapters.length === 0) {
+    throw new Error('No chapters found - expected myst.yml, _toc.yml, or markdown files');
+  }
+
+  if (hasNotebooks) {
+    warnings.push('Notebooks were imported as MyST markdown with {code-cell} blocks; edits are pushed as .md files next to them');
+  }
+
+  const combined = allContent.join('\n\n');
+  const features: MystFeature[] = MYST_FEATURES.map((feature) => {
+    const pattern = BOOK_FEATURE_PATTERNS[feature.id];
+    if (feature.id === 'jupyter-execution' && hasNotebooks) return { ...feature, enabled: true };
+    return pattern ? { ...feature, enabled: pattern.test(combined) } : { ...feature };
+  });
+
+  const exportFeatures = new Set(
+    Array.from(exportFormats).map((f) => EXPORT_FORMAT_FEATURES[f]).filter(Boolean)
+  );
+  const bookFeatures: BookLevelFeature[] = BOOK_LEVEL_FEATURES.map((feature) => {
+    if (feature.category === 'front-matter' || feature.category === 'back-matter') {
+      return { ...feature, enabled: matterFeatures.has(feature.id) };
+    }
+    return exportFeatures.has(feature.id) ? { ...feature, enabled: true } : { ...feature };
+  });
+
+  return {
+    config: {
+      title: title || fallbackTitle,
+      description: description || '',
+      author: author || 'Unknown Author',
+      features,
+      bookFeatures,
+      tableOfContents: { chapters },
+    },
+    format,
+    rootDir,
+    warnings,
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Create the library book and chapter rows for an imported project.
+ * Server-only: runs with the caller's session so RLS applies.
+ */
+
+import type { ApiUser } from '@/lib/supabase/server';
+import { LQ21Book } from '@/lib/supabase/types';
+import { Chapter } from '@/types';
+import type { ImportedBook } from './parseProject';
+
+export interface ImportOrigin {
+  source: 'github' | 'zip';
+  github?: {
+    username: string;
+    repoName: string;
+    defaultBranch: string;
+  };
+  // Team library to import into; personal library when absent
+  organizationId?: string | null;
+}
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '') || 'imported-book';
+
+/**
+ * Insert the book, then its chapters one level at a time so children can
+ * point at their parent's id. Returns the new book.
+ */
+export async function saveImportedBook(
+  apiUser: ApiUser,
+  imported: ImportedBook,
+  origin: ImportOrigin
+): Promise<LQ21Book> {
+  const { config } = imported;
+  const github = origin.github;
+
+  const bookConfig = {
+    ...config,
+    github: github ? { username: github.username, repoName: github.repoName } : undefined,
+  };
+
+  const { data: book, error: bookError } = await apiUser.supabase
+    .from('lq21_books')
+    .insert({
+      owner_id: apiUser.user.id,
+      organization_id: origin.organizationId || null,
+      title: config.title,
+      slug: github?.repoName || slugify(config.title),
+      description: config.description || null,
+      author: config.author,
+      status: 'draft',
+      github_repo_url: github ? `https://github.com/${github.username}/${github.repoName}` : null,
+      github_username: github?.username || null,
+      github_repo_name: github?.repoName || null,
+      config: {
+        ...bookConfig,
+        importedFrom: {
+          source: origin.source,
+          format: imported.format,
+          rootDir: imported.rootDir,
+          branch: github?.defaultBranch || null,
+          importedAt: new Date().toISOString(),
+        },
+      },
+      book_features: config.bookFeatures || [],
+    })
+    .select()
+    .single();
+
+  if (bookError) throw bookError;
+
+  const insertLevel = async (chapters: Chapter[], parentId: string | null) => {
+    if (chapters.length === 0) return;
+
+    const { data: rows, error } = await apiUser.supabase
+      .from('lq21_chapters')
+      .insert(
+        chapters.map((chapter, index) => ({
+          book_id: book.id,
+          parent_id: parentId,
+          title: chapter.title,
+          slug: chapter.slug,
+          description: chapter.description || null,
+          content: chapter.content || null,
+          sort_order: index,
+          status: chapter.content ? 'complete' : 'draft',
+          word_count: countWords(chapter.content || ''),
+          chapter_features: chapter.selectedFeatures || [],
+          generation_metadata: { imported_from: chapter.slug },
+        }))
+      )
+      .select('id, sort_order');
+
+    if (error) throw error;
+
+    for (const row of rows || []) {
+      const children = chapters[row.sort_order]?.children;
+      if (children?.length) await insertLevel(children, row.id);
+    }
+  };
+
+  try {
+    await insertLevel(config.tableOfContents.chapters, null);
+  } catch (err) {
+    // Don't leave a half-imported book behind
+    await apiUser.supabase.from('lq21_books').delete().eq('id', book.id);
+    throw err;
+  }
+
+  return book;
+}
@@ -0,0 +1,98 @@
+/**
+ * Project sources for import - a GitHub repository or an uploaded ZIP archive
+ */
+
+import type { Octokit } from '@octokit/rest';
+import { readZip } from '@/lib/zip';
+import type { ProjectSource } from './parseProject';
+
+// Only these files are read; everything else in a repository is ignored
+const IMPORTABLE_FILE = /\.(md|ipynb|ya?ml)$/i;
+
+export interface GitHubProjectSource extends ProjectSource {
+  owner: string;
+  repo: string;
+  defaultBranch: string;
+  // Commit that was read, and the blob of each importable file at it
+  commitSha: string;
+  blobShas: Map<string, string>;
+  // GitHub cuts off very large trees; some files may be missing
+  truncated: boolean;
+}
+
+/**
+ * Read a repository's default branch through the Git trees API. File contents
+ * are fetched lazily, so only the files in the book's TOC are downloaded.
+ */
+export async function createGitHubSource(octokit: Octokit, owner: string, repo: string): Promise<GitHubProjectSource> {
+  const { data: repository } = await octokit.repos.get({ owner, repo });
+  const defaultBranch = repository.default_branch;
+
+  const { data: ref } = await octokit.git.getRef({ owner, repo, ref: `heads/${defaultBranch}` });
+  const commitSha = ref.object.sha;
+
+  const { data: tree } = await octokit.git.getTree({
+    owner,
+    repo,
+    tree_sha: commitSha,
+    recursive: 'true',
+  });
+
+  const blobs = new Map<string, string>();
+  for (const item of tree.tree) {
+    if (item.type === 'blob' && item.path && item.sha && IMPORTABLE_FILE.test(item.path)) {
+      blobs.set(item.path, item.sha);
+    }
+  }
+
+  const cache = new Map<string, string | null>();
+
+  return {
+    owner: repository.owner.login,
+    repo: repository.name,
+    defaultBranch,
+    commitSha,
+    blobShas: blobs,
+    truncated: tree.truncated,
+    files: Array.from(blobs.keys()),
+    async readFile(path: string) {
+      if (cache.has(path)) return cache.get(path)!;
+
+      const sha = blobs.get(path);
+      let content: string | null = null;
+      if (sha) {
+        try {
+          const { data: blob } = await octokit.git.getBlob({ owner, repo, file_sha: sha });
+          content = Buffer.from(blob.content, blob.encoding === 'base64' ? 'base64' : 'utf-8').toString('utf-8');
+        } catch (err) {
+          console.warn(`[IMPORT] Could not read ${path}:`, err);
+        }
+      }
+      cache.set(path, content);
+      return content;
+    },
+  };
+}
+
+/**
+ * Read an uploaded ZIP. A single top-level folder (as in GitHub's "Download
+ * ZIP") is treated as the project root.
+ */
+export function createZipSource(archive: Buffer): ProjectSource {
+  const entries = readZip(archive, (path) => IMPORTABLE_FILE.test(path) && !path.startsWith('__MACOSX/'));
+
+  const topLevel = new Set(entries.map((entry) => entry.path.split('/')[0]));
+  const singleRoot = topLevel.size === 1 && entries.every((entry) => entry.path.includes('/'));
+  const strip = singleRoot ? `${Array.from(topLevel)[0]}/` : '';
+
+  const files = new Map(
+    entries.map((entry) => [entry.path.slice(strip.length), entry.data.toString('utf-8')])
+  );
+
+  return {
+    files: Array.from(files.keys()),
+    async readFile(path: string) {
+      return files.get(path) ?? null;
+    },
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * YAML subset reader for book configuration files (myst.yml, _toc.yml, _config.yml)
+ *
+ * Handles block mappings and sequences, quoted and plain scalars, flow lists
+ * ([a, b]), block scalars (| and >) and comments - everything these files use
+ * in practice. Anchors, tags and multi-document streams are not supported.
+ */
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+interface Line {
+  indent: number;
+  text: string;
+  // Original line, for block scalars where comments and spacing matter
+  raw: string;
+}
+
+const KEY_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"{[][^:#]*?)\s*:(?:\s+|$)/;
+
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+function toLines(source: string): Line[] {
+  return source
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((raw) => {
+      const indent = raw.length - raw.trimStart().length;
+      return { indent, text: stripComment(raw.trim()), raw };
+    });
+}
+
+function splitFlow(inner: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+  for (const ch of inner) {
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ']' || ch === '}') {
+      depth--;
+    } else if (ch === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function parseScalar(text: string): YamlValue {
+  const value = text.trim();
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    return value.slice(1, -1).replace(/\\"/g, '"').replace(/\\n/g, '\n').replace(/\\\\/g, '\\');
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return splitFlow(value.slice(1, -1)).map(parseScalar);
+  }
+  if (value.startsWith('{') && value.endsWith('}')) {
+    const result: Record<string, YamlValue> = {};
+    for (const part of splitFlow(value.slice(1, -1))) {
+      const match = part.match(KEY_PATTERN);
+      if (match) result[unquoteKey(match[1])] = parseScalar(part.slice(match[0].length));
+    }
+    return result;
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+function unquoteKey(key: string): string {
+  const parsed = parseScalar(key);
+  return typeof parsed === 'string' ? parsed : key;
+}
+
+class YamlReader {
+  private pos = 0;
+
+  constructor(private lines: Line[]) {}
+
+  private peek(): Line | undefined {
+    while (this.pos < this.lines.length && (this.lines[this.pos].text === '' || this.lines[this.pos].text === '---')) {
+      this.pos++;
+    }
+    return this.lines[this.pos];
+  }
+
+  private isSequenceItem(line: Line): boolean {
+    return line.text === '-' || line.text.startsWith('- ');
+  }
+
+  parseBlock(indent: number): YamlValue {
+    const line = this.peek();
+    if (!line || line.indent < indent) return null;
+    return this.isSequenceItem(line) ? this.parseSequence(line.indent) : this.parseMapping(line.indent);
+  }
+
+  private parseSequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+
+    for (let line = this.peek(); line && line.indent === indent && this.isSequenceItem(line); line = this.peek()) {
+      const itemText = line.text.slice(1).trimStart();
+      const itemIndent = indent + (line.text.length - itemText.length);
+
+      if (itemText === '') {
+        this.pos++;
+        const next = this.peek();
+        items.push(next && next.indent > indent ? this.parseBlock(next.indent) : null);
+      } else if (KEY_PATTERN.test(itemText) || itemText.startsWith('- ')) {
+        // "- key: value" starts a mapping whose keys line up with "key"
+        this.lines[this.pos] = { ...line, indent: itemIndent, text: itemText };
+        items.push(this.parseBlock(itemIndent));
+      } else {
+        this.pos++;
+        items.push(parseScalar(itemText));
+      }
+    }
+
+    return items;
+  }
+
+  private parseMapping(indent: number): Record<string, YamlValue> {
+    const result: Record<string, YamlValue> = {};
+
+    for (let line = this.peek(); line && line.indent === indent && !this.isSequenceItem(line); line = this.peek()) {
+      const match = line.text.match(KEY_PATTERN);
+      this.pos++;
+      if (!match) continue;
+
+      const key = unquoteKey(match[1]);
+      const rest = line.text.slice(match[0].length).trim();
+
+      if (rest === '') {
+        const next = this.peek();
+        if (next && next.indent > indent) {
+          result[key] = this.parseBlock(next.indent);
+        } else if (next && next.indent === indent && this.isSequenceItem(next)) {
+          // Sequences are allowed at the same indent as their key
+          result[key] = this.parseSequence(indent);
+        } else {
+          result[key] = null;
+        }
+      } else if (/^[|>][+-]?$/.test(rest)) {
+        result[key] = this.parseBlockScalar(indent, rest.startsWith('>'));
+      } else {
+        result[key] = parseScalar(rest);
+      }
+    }
+
+    return result;
+  }
+
+  private parseBlockScalar(indent: number, folded: boolean): string {
+    const collected: string[] = [];
+    let blockIndent: number | null = null;
+
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos];
+      const blank = line.raw.trim() === '';
+      if (!blank && line.indent <= indent) break;
+      if (!blank && blockIndent === null) blockIndent = line.indent;
+      collected.push(blank ? '' : line.raw.slice(blockIndent ?? line.indent));
+      this.pos++;
+    }
+
+    while (collected.length > 0 && collected[collected.length - 1] === '') collected.pop();
+    return folded ? collected.join('\n').replace(/([^\n])\n(?=[^\n])/g, '$1 ') : collected.join('\n');
+  }
+}
+
+/**
+ * Parse a YAML document. Returns null for an empty document.
+ */
+export function parseYaml(source: string): YamlValue {
+  const reader = new YamlReader(toLines(source));
+  return reader.parseBlock(0);
+}
@@ -0,0 +1,334 @@
+/**
+ * Front and back matter pages generated from the enabled book-level features
+ * (copyright page, dedication, glossary, colophon, ...)
+ */
+
+import { BookConfig, BookLevelFeature, Chapter } from '@/types';
+import { BOOK_LEVEL_FEATURES } from '@/data/bookLevelFeatures';
+
+export interface BookMatterPage {
+  featureId: string;
+  category: 'front-matter' | 'back-matter';
+  // Repository path, e.g. frontmatter/copyright.md
+  path: string;
+  title: string;
+  content: string;
+}
+
+const MATTER_DIRS = {
+  'front-matter': 'frontmatter',
+  'back-matter': 'backmatter',
+} as const;
+
+// Slugs stay fixed so re-publishing a book updates the same files
+const MATTER_SLUGS: Record<string, string> = {
+  'copyright-page': 'copyright',
+  dedication: 'dedication',
+  epigraph: 'epigraph',
+  foreword: 'foreword',
+  preface: 'preface',
+  'acknowledgments-front': 'acknowledgments',
+  'how-to-use': 'how-to-use',
+  prerequisites: 'prerequisites',
+  conventions: 'conventions',
+  'about-authors': 'about-the-authors',
+  'note-from-authors': 'note-from-the-authors',
+  glossary: 'glossary',
+  bibliography: 'bibliography',
+  'further-reading': 'further-reading',
+  'index-book': 'index',
+  colophon: 'colophon',
+};
+
+const MAX_APPENDICES = 26;
+
+const configString = (feature: BookLevelFeature, key: string): string => {
+  const value = (feature.configValue as Record<string, unknown> | undefined)?.[key];
+  return typeof value === 'string' ? value.trim() : '';
+};
+
+const configNumber = (feature: BookLevelFeature, key: string): number => {
+  const value = (feature.configValue as Record<string, unknown> | undefined)?.[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+};
+
+const placeholder = (text: string) => `:::{note}
+${text}
+:::`;
+
+const page = (title: string, body: string) => `---
+title: ${title}
+---
+
+# ${title}
+
+${body}
+`;
+
+function copyrightPage(bookConfig: BookConfig): string {
+  const year = new Date().getFullYear();
+  return `---
+title: Copyright
+---
+
+**${bookConfig.title}**
+
+Copyright © ${year} ${bookConfig.author}. All rights reserved.
+
+No part of this publication may be reproduced, distributed, or transmitted in any form or by any means without the prior written permission of the author, except for brief quotations in reviews and certain other non-commercial uses permitted by copyright law.
+
+While every precaution has been taken in the preparation of this book, the author assumes no responsibility for errors or omissions, or for damages resulting from the use of the information contained herein.
+
+First published ${year}.
+`;
+}
+
+function dedicationPage(feature: BookLevelFeature): string {
+  const content = configString(feature, 'content');
+  return `---
+title: Dedication
+---
+
+${content ? `*${content}*` : placeholder('Add your dedication in the book settings.')}
+`;
+}
+
+function epigraphPage(feature: BookLevelFeature): string {
+  const quote = configString(feature, 'quote');
+  const attribution = configString(feature, 'attribution');
+
+  if (!quote) {
+    return `---
+title: Epigraph
+---
+
+${placeholder('Add an opening quotation in the book settings.')}
+`;
+  }
+
+  return `---
+title: Epigraph
+---
+
+:::{epigraph}
+${quote}
+${attribution ? `\n-- ${attribution}` : ''}
+:::
+`;
+}
+
+function forewordPage(feature: BookLevelFeature): string {
+  const author = configString(feature, 'author');
+  return page(
+    'Foreword',
+    `${placeholder('The foreword is written by someone other than the author. Replace this text with it.')}
+
+${author ? `— *${author}*` : ''}`
+  );
+}
+
+function aboutAuthorsPage(bookConfig: BookConfig): string {
+  return page(
+    'About the Author(s)',
+    `## ${bookConfig.author}
+
+${placeholder('Add a short biography, credentials and background for each author.')}`
+  );
+}
+
+function colophonPage(bookConfig: BookConfig): string {
+  return page(
+    'Colophon',
+    `*${bookConfig.title}* was written by ${bookConfig.author} and produced with [Liquid Books](https://liquid-books.netlify.app).
+
+The book is authored in [MyST Markdown](https://mystmd.org) and built with [Jupyter Book 2](https://jupyterbook.org). Each commit to the repository is built by GitHub Actions and published to GitHub Pages.
+
+Last built: ${new Date().toISOString().split('T')[0]}`
+  );
+}
+
+// Chapter paths mirror generateChapterFiles: the first chapter's sections sit at
+// the repository root, other sections live under their chapter's directory
+function topicIndexPage(bookConfig: BookConfig): string {
+  const entries: { title: string; path: string }[] = [];
+  bookConfig.tableOfContents.chapters.forEach((chapter: Chapter, index) => {
+    entries.push({ title: chapter.title, path: `${chapter.slug}.md` });
+    chapter.children?.forEach(child => {
+      entries.push({
+        title: child.title,
+        path: index === 0 ? `${child.slug}.md` : `${chapter.slug}/${child.slug}.md`,
+      });
+    });
+  });
+
+  entries.sort((a, b) => a.title.localeCompare(b.title));
+
+  const groups = new Map<string, string[]>();
+  for (const entry of entries) {
+    const letter = entry.title.charAt(0).toUpperCase() || '#';
+    const key = /[A-Z]/.test(letter) ? letter : '#';
+    groups.set(key, [...(groups.get(key) || []), `- [${entry.title}](../${entry.path})`]);
+  }
+
+  const body = Array.from(groups.entries())
+    .map(([letter, links]) => `## ${letter}\n\n${links.join('\n')}`)
+    .join('\n\n');
+
+  return page('Index', body || placeholder('Topics will be listed here once the book has chapters.'));
+}
+
+function appendixPages(feature: BookLevelFeature, dir: string): BookMatterPage[] {
+  const count = Math.min(Math.max(configNumber(feature, 'count') || 1, 1), MAX_APPENDICES);
+  return Array.from({ length: count }, (_, i) => {
+    const letter = String.fromCharCode(65 + i);
+    const title = `Appendix ${letter}`;
+    return {
+      featureId: feature.id,
+      category: 'back-matter' as const,
+      path: `${dir}/appendix-${letter.toLowerCase()}.md`,
+      title,
+      content: page(title, placeholder('Add supplementary material such as reference tables, extended examples or derivations.')),
+    };
+  });
+}
+
+function matterContent(feature: BookLevelFeature, bookConfig: BookConfig): string {
+  switch (feature.id) {
+    case 'copyright-page':
+      return copyrightPage(bookConfig);
+    case 'dedication':
+      return dedicationPage(feature);
+    case 'epigraph':
+      return epigraphPage(feature);
+    case 'foreword':
+      return forewordPage(feature);
+    case 'preface':
+      return page('Preface', `${placeholder('Explain why you wrote this book, who it is for and what it covers.')}
+
+## Who This Book Is For
+
+## What This Book Covers
+
+${bookConfig.description || ''}`);
+    case 'acknowledgments-front':
+      return page('Acknowledgments', placeholder('Thank the contributors, reviewers and supporters who helped with this book.'));
+    case 'how-to-use':
+      return page('How to Use This Book', `This book is organized into ${bookConfig.tableOfContents.chapters.length} chapters. Each chapter builds on the ones before it, so reading them in order is recommended.
+
+Use the table of contents in the sidebar to move between chapters, and the search bar to find a topic.
+
+${placeholder('Describe any alternative reading paths or how the exercises should be approached.')}`);
+    case 'prerequisites':
+      return page('Prerequisites', `Before starting, you should be comfortable with the following:
+
+${placeholder('List the background knowledge, software and tools readers need.')}`);
+    case 'conventions':
+      return page('Conventions Used', `The following conventions are used throughout this book.
+
+**Bold** text marks new terms, and \`constant width\` text marks code, commands and file names.
+
+Code examples look like this:
+
+\`\`\`python
+print("Hello, ${bookConfig.title}")
+\`\`\`
+
+:::{tip}
+Tips give helpful suggestions.
+:::
+
+:::{note}
+Notes give additional context.
+:::
+
+:::{warning}
+Warnings point out common mistakes.
+:::`);
+    case 'about-authors':
+      return aboutAuthorsPage(bookConfig);
+    case 'note-from-authors':
+      return page('Note from the Author(s)', placeholder('Add a personal message to your readers.'));
+    case 'glossary':
+      return page('Glossary', `:::{glossary}
+Term
+: Definition of the term. Replace these entries with the key terms used in the book.
+:::`);
+    case 'bibliography':
+      return page('Bibliography', placeholder('List the sources and references cited in this book.'));
+    case 'further-reading':
+      return page('Further Reading', `Recommended resources for going further with the topics covered in this book.
+
+${placeholder('Add books, papers, courses and websites.')}`);
+    case 'index-book':
+      return topicIndexPage(bookConfig);
+    case 'colophon':
+      return colophonPage(bookConfig);
+    default:
+      return page(feature.name, feature.description);
+  }
+}
+
+/**
+ * One MyST page per enabled front/back matter feature, in the order the
+ * features are defined (which is the order they appear in the book)
+ */
+export function generateBookMatterPages(bookConfig: BookConfig): BookMatterPage[] {
+  const bookFeatures = bookConfig.bookFeatures || BOOK_LEVEL_FEATURES;
+  const pages: BookMatterPage[] = [];
+
+  for (const feature of bookFeatures) {
+    if (!feature.enabled) continue;
+    if (feature.category !== 'front-matter' && feature.category !== 'back-matter') continue;
+
+    const dir = MATTER_DIRS[feature.category];
+
+    if (feature.id === 'appendices') {
+      pages.push(...appendixPages(feature, dir));
+      continue;
+    }
+
+    const slug = MATTER_SLUGS[feature.id] || feature.id;
+    pages.push({
+      featureId: feature.id,
+      category: feature.category,
+      path: `${dir}/${slug}.md`,
+      title: feature.name,
+      content: matterContent(feature, bookConfig),
+    });
+  }
+
+  return pages;
+}
+
+/**
+ * The book-level feature a generated matter page belongs to, e.g.
+ * "backmatter/appendix-b.md" -> "appendices". Null for any other path.
+ */
+export function getMatterFeatureId(path: string): string | null {
+  const match = path.match(/^(frontmatter|backmatter)\/([a-z0-9-]+)\.md$/);
+  if (!match) return null;
+
+  const [, dir, slug] = match;
+  if (dir === MATTER_DIRS['back-matter'] && /^appendix-[a-z]$/.test(slug)) return 'appendices';
+
+  const feature = BOOK_LEVEL_FEATURES.find(
+    (f) => f.category && MATTER_DIRS[f.category as keyof typeof MATTER_DIRS] === dir &&
+      (MATTER_SLUGS[f.id] || f.id) === slug
+  );
+  return feature?.id || null;
+}
+
+/**
+ * TOC entries for the matter pages of one category
+ */
+export function generateMatterTocYaml(
+  pages: BookMatterPage[],
+  category: BookMatterPage['category'],
+  indent: number
+): string {
+  const spaces = ' '.repeat(indent);
+  return pages
+    .filter(p => p.category === category)
+    .map(p => `${spaces}- file: ${p.path}`)
+    .join('\n');
+}
@@ -0,0 +1,117 @@
+/**
+ * The review workflow a chapter moves through on its way to publishing.
+ * lq21_transition_chapter and lq21_set_book_status enforce the same rules;
+ * these decide what the UI offers, and the publishing routes check readiness
+ * with them too.
+ */
+
+import type { LQ21Book, LQ21Chapter, LQ21ChapterReview } from '@/lib/supabase/types';
+import { canEdit, canReview, type OrganizationRole } from '@/lib/organizations';
+
+export type ChapterStatus = LQ21Chapter['status'];
+export type ChapterAction = LQ21ChapterReview['action'];
+
+export const CHAPTER_STATUSES: ChapterStatus[] = ['draft', 'generating', 'review', 'complete'];
+
+export const STATUS_LABELS: Record<ChapterStatus, string> = {
+  draft: 'Draft',
+  generating: 'Generating',
+  review: 'In review',
+  complete: 'Complete',
+};
+
+export const ACTION_LABELS: Record<ChapterAction, string> = {
+  submit: 'Submit for review',
+  approve: 'Approve',
+  reject: 'Request changes',
+  reopen: 'Reopen',
+  complete: 'Mark complete',
+};
+
+// Past tense, for the review trail
+export const ACTION_SUMMARIES: Record<ChapterAction, string> = {
+  submit: 'submitted for review',
+  approve: 'approved',
+  reject: 'requested changes',
+  reopen: 'reopened',
+  complete: 'marked complete',
+};
+
+const TRANSITIONS: Record<ChapterAction, { from: ChapterStatus; to: ChapterStatus }> = {
+  submit: { from: 'draft', to: 'review' },
+  complete: { from: 'draft', to: 'complete' },
+  approve: { from: 'review', to: 'complete' },
+  reject: { from: 'review', to: 'draft' },
+  reopen: { from: 'complete', to: 'draft' },
+};
+
+// Sending a chapter back without saying why leaves the writer guessing
+export const NOTES_REQUIRED: ChapterAction[] = ['reject'];
+
+export interface WorkflowContext {
+  role: OrganizationRole | null;
+  userId: string | undefined;
+  // Team books need someone other than the writer to sign chapters off
+  isTeamBook: boolean;
+  // Who submitted the chapter for its current review, if it's in review
+  submittedBy: string | null;
+}
+
+function isAllowed(action: ChapterAction, { role, userId, isTeamBook, submittedBy }: WorkflowContext): boolean {
+  switch (action) {
+    case 'submit':
+    case 'reopen':
+      return canEdit(role);
+    case 'complete':
+      return !isTeamBook && role === 'owner';
+    case 'approve':
+    case 'reject':
+      return canReview(role) && !(isTeamBook && submittedBy === userId);
+  }
+}
+
+/**
+ * What the user can do with a chapter in its current status, in the order
+ * the buttons are shown
+ */
+export function availableActions(status: ChapterStatus, context: WorkflowContext): ChapterAction[] {
+  return (Object.keys(TRANSITIONS) as ChapterAction[]).filter(
+    action => TRANSITIONS[action].from === status && isAllowed(action, context)
+  );
+}
+
+/** The action that moves a chapter from one status to another, for dragging it on the board */
+export function actionBetween(
+  from: ChapterStatus,
+  to: ChapterStatus,
+  context: WorkflowContext
+): ChapterAction | null {
+  return availableActions(from, context).find(action => TRANSITIONS[action].to === to) ?? null;
+}
+
+/**
+ * A book can be marked ready to publish once every chapter is complete
+ */
+export function getPublishReadiness(chapters: Pick<LQ21Chapter, 'id' | 'title' | 'status'>[]) {
+  const incomplete = chapters.filter(chapter => chapter.status !== 'complete');
+  return {
+    ready: chapters.length > 0 && incomplete.length === 0,
+    complete: chapters.length - incomplete.length,
+    incomplete,
+  };
+}
+
+/**
+ * Why a book can't go live yet, or null: every chapter has to be complete and
+ * the book marked ready to publish
+ */
+export function getPublishBlocker(
+  chapters: Pick<LQ21Chapter, 'id' | 'title' | 'status'>[],
+  bookStatus: LQ21Book['status']
+): string | null {
+  const readiness = getPublishReadiness(chapters);
+  if (!readiness.ready) {
+    return `${readiness.incomplete.length} of ${chapters.length} chapters still need to be completed`;
+  }
+  return bookStatus === 'review' || bookStatus === 'published' ? null : 'Mark the book ready to publish first';
+}
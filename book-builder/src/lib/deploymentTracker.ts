@@ -0,0 +1,285 @@
+/**
+ * Deployment tracking - records each push to GitHub in lq21_github_deployments
+ * and moves the row along as the Actions workflow and Pages deploy progress.
+ *
+ * Server-only: used by the /api/github routes with the caller's session, so
+ * RLS keeps every user to their own deployments, and by the scheduled refresh
+ * with a service-role client.
+ */
+
+import type { Octokit } from '@octokit/rest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ApiUser } from '@/lib/supabase/server';
+import { LQ21GitHubDeployment } from '@/lib/supabase/types';
+
+export type DeploymentStatus = LQ21GitHubDeployment['status'];
+export type DeploymentTrigger = LQ21GitHubDeployment['trigger'];
+
+export interface DeploymentInfo {
+  bookId?: string | null;
+  repoUrl: string;
+  commitSha?: string | null;
+  trigger: DeploymentTrigger;
+  workflowRunId?: number | null;
+  workflowRunUrl?: string | null;
+}
+
+// A push that never started a workflow within this window is marked failed
+const NO_RUN_TIMEOUT_MS = 30 * 60 * 1000;
+// Per failed job, the tail of its log is usually where the error is
+const LOG_TAIL_LINES = 60;
+const MAX_BUILD_LOG_CHARS = 12000;
+
+export const isActiveDeployment = (deployment: Pick<LQ21GitHubDeployment, 'status'>) =>
+  deployment.status === 'pending' || deployment.status === 'building';
+
+/**
+ * Owner and repository name from a github.com repository URL
+ */
+export function parseRepoUrl(repoUrl: string): { owner: string; repo: string } | null {
+  const match = repoUrl.match(/github\.com\/([^/]+)\/([^/#?]+)/);
+  return match ? { owner: match[1], repo: match[2].replace(/\.git$/, '') } : null;
+}
+
+/**
+ * Insert a pending deployment for a push. Returns the new row id, or null if it
+ * couldn't be recorded - the push itself already succeeded, so never throw.
+ */
+export async function recordDeployment(apiUser: ApiUser, info: DeploymentInfo): Promise<string | null> {
+  try {
+    const { data, error } = await apiUser.supabase
+      .from('lq21_github_deployments')
+      .insert({
+        user_id: apiUser.user.id,
+        book_id: info.bookId || null,
+        github_repo_url: info.repoUrl,
+        trigger: info.trigger,
+        commit_sha: info.commitSha || null,
+        workflow_run_id: info.workflowRunId ? String(info.workflowRunId) : null,
+        workflow_run_url: info.workflowRunUrl || null,
+        status: info.workflowRunId ? 'building' : 'pending',
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    return data.id;
+  } catch (err) {
+    console.warn('[DEPLOYMENTS] Failed to record deployment:', err);
+    return null;
+  }
+}
+
+type WorkflowRun = Awaited<ReturnType<Octokit['actions']['getWorkflowRun']>>['data'];
+
+async function findWorkflowRun(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  deployment: LQ21GitHubDeployment
+): Promise<WorkflowRun | null> {
+  if (deployment.workflow_run_id) {
+    const { data } = await octokit.actions.getWorkflowRun({
+      owner,
+      repo,
+      run_id: Number(deployment.workflow_run_id),
+    });
+    return data;
+  }
+
+  if (!deployment.commit_sha) return null;
+  const { data } = await octokit.actions.listWorkflowRunsForRepo({
+    owner,
+    repo,
+    head_sha: deployment.commit_sha,
+    per_page: 1,
+  });
+  return data.workflow_runs[0] || null;
+}
+
+function statusFromRun(run: WorkflowRun): DeploymentStatus {
+  if (run.status !== 'completed') {
+    return run.status === 'in_progress' ? 'building' : 'pending';
+  }
+  switch (run.conclusion) {
+    case 'success':
+      return 'success';
+    case 'cancelled':
+    case 'skipped':
+      return 'cancelled';
+    default:
+      return 'failed';
+  }
+}
+
+// Drop the ISO timestamp GitHub puts at the start of every log line
+const stripLogTimestamp = (line: string) => line.replace(/^\d{4}-\d{2}-\d{2}T[\d:.]+Z\s?/, '');
+
+/**
+ * Log excerpts from the failed jobs of a run, plus a one-line summary of where it failed
+ */
+async function fetchFailedJobLogs(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  runId: number
+): Promise<{ summary: string | null; logs: string | null }> {
+  const { data } = await octokit.actions.listJobsForWorkflowRun({
+    owner,
+    repo,
+    run_id: runId,
+    filter: 'latest',
+  });
+
+  const failedJobs = data.jobs.filter(job => job.conclusion === 'failure');
+  if (failedJobs.length === 0) return { summary: null, logs: null };
+
+  const sections: string[] = [];
+  const failures: string[] = [];
+
+  for (const job of failedJobs) {
+    const failedStep = job.steps?.find(step => step.conclusion === 'failure');
+    failures.push(failedStep ? `"${job.name}" failed at step "${failedStep.name}"` : `"${job.name}" failed`);
+
+    let excerpt = '(log not available)';
+    try {
+      // Octokit follows the redirect to the raw log text
+      const { data: log } = await octokit.actions.downloadJobLogsForWorkflowRun({
+        owner,
+        repo,
+        job_id: job.id,
+      });
+      const lines = String(log).split('\n').map(stripLogTimestamp);
+      excerpt = lines.slice(-LOG_TAIL_LINES).join('\n');
+    } catch (err) {
+      console.warn(`[DEPLOYMENTS] Could not download logs for job ${job.id}:`, err);
+    }
+
+    sections.push(`=== ${job.name}${failedStep ? ` / ${failedStep.name}` : ''} ===\n${excerpt}`);
+  }
+
+  const logs = sections.join('\n\n');
+  return {
+    summary: `Job ${failures.join('; ')}`,
+    logs: logs.length > MAX_BUILD_LOG_CHARS ? logs.slice(-MAX_BUILD_LOG_CHARS) : logs,
+  };
+}
+
+async function getPagesUrl(octokit: Octokit, owner: string, repo: string): Promise<string> {
+  try {
+    const { data: pages } = await octokit.repos.getPages({ owner, repo });
+    if (pages.html_url) return pages.html_url;
+  } catch {
+    // Pages not enabled (yet) - fall back to the default project site URL
+  }
+  return `https://${owner}.github.io/${repo}`;
+}
+
+/**
+ * Check GitHub for the current state of a deployment and save it. Finished
+ * deployments are returned unchanged.
+ */
+export async function refreshDeployment(
+  supabase: SupabaseClient,
+  octokit: Octokit,
+  deployment: LQ21GitHubDeployment
+): Promise<LQ21GitHubDeployment> {
+  if (!isActiveDeployment(deployment)) return deployment;
+
+  const repoInfo = parseRepoUrl(deployment.github_repo_url);
+  if (!repoInfo) return deployment;
+  const { owner, repo } = repoInfo;
+
+  const updates: Partial<LQ21GitHubDeployment> = {};
+  const run = await findWorkflowRun(octokit, owner, repo, deployment);
+
+  if (!run) {
+    if (Date.now() - new Date(deployment.started_at).getTime() > NO_RUN_TIMEOUT_MS) {
+      updates.status = 'failed';
+      updates.error_message = 'No workflow run was started for this commit';
+      updates.completed_at = new Date().toISOString();
+    }
+  } else {
+    updates.workflow_run_id = String(run.id);
+    updates.workflow_run_url = run.html_url;
+    updates.status = statusFromRun(run);
+
+    if (updates.status === 'success') {
+      updates.deployed_url = await getPagesUrl(octokit, owner, repo);
+    } else if (updates.status === 'failed') {
+      try {
+        const { summary, logs } = await fetchFailedJobLogs(octokit, owner, repo, run.id);
+        updates.error_message = summary || `Workflow ${run.conclusion || 'failed'}`;
+        updates.build_logs = logs;
+      } catch (err) {
+        console.warn('[DEPLOYMENTS] Could not fetch failed job logs:', err);
+        updates.error_message = `Workflow ${run.conclusion || 'failed'}`;
+      }
+    }
+
+    if (!isActiveDeployment({ status: updates.status })) {
+      updates.completed_at = run.updated_at || new Date().toISOString();
+    }
+  }
+
+  const changed = (Object.keys(updates) as (keyof LQ21GitHubDeployment)[])
+    .some(key => updates[key] !== deployment[key]);
+  if (!changed) return deployment;
+
+  const { data, error } = await supabase
+    .from('lq21_github_deployments')
+    .update(updates)
+    .eq('id', deployment.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export interface ScheduledRefreshResult {
+  checked: number;
+  finished: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Refresh every in-flight deployment, whoever it belongs to, so they finish
+ * even when nobody has the library open. Needs a service-role client;
+ * getOctokit authenticates as whoever pushed each deployment, and deployments
+ * it returns null for are left for the next run.
+ */
+export async function refreshActiveDeployments(
+  supabase: SupabaseClient,
+  getOctokit: (deployment: LQ21GitHubDeployment) => Promise<Octokit | null>,
+  limit: number
+): Promise<ScheduledRefreshResult> {
+  const result: ScheduledRefreshResult = { checked: 0, finished: 0, skipped: 0, failed: 0 };
+
+  const { data, error } = await supabase
+    .from('lq21_github_deployments')
+    .select('*')
+    .in('status', ['pending', 'building'])
+    .order('started_at', { ascending: true })
+    .limit(limit);
+  if (error) throw error;
+
+  for (const deployment of (data || []) as LQ21GitHubDeployment[]) {
+    result.checked++;
+    try {
+      const octokit = await getOctokit(deployment);
+      if (!octokit) {
+        result.skipped++;
+        continue;
+      }
+      const updated = await refreshDeployment(supabase, octokit, deployment);
+      if (!isActiveDeployment(updated)) result.finished++;
+    } catch (err) {
+      console.warn(`[DEPLOYMENTS] Scheduled refresh of ${deployment.id} failed:`, err);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
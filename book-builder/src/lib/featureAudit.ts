@@ -0,0 +1,207 @@
+/**
+ * Feature audit - checks which selected MyST features a chapter actually uses
+ */
+
+import { MYST_FEATURES_DATA } from '@/data/mystFeatures';
+
+export interface FeatureAuditResult {
+  selectedFeatures: string[];
+  foundFeatures: string[];
+  missingFeatures: string[];
+}
+
+/**
+ * Check whether a feature's syntax appears in the content
+ */
+export function isFeaturePresent(content: string, featureId: string): boolean {
+  const feature = MYST_FEATURES_DATA.find(f => f.id === featureId);
+  if (!feature) return false;
+
+  // Check for various patterns that indicate the feature is used
+  let isFound = false;
+
+  // Check based on feature category and type
+  switch (feature.id) {
+    // Admonitions - check for :::{type} or ```{type}
+    case 'note':
+    case 'tip':
+    case 'hint':
+    case 'important':
+    case 'warning':
+    case 'caution':
+    case 'attention':
+    case 'danger':
+    case 'error':
+    case 'seealso':
+      isFound = content.includes(`:::{${feature.id}}`) || content.includes(`\`\`\`{${feature.id}}`);
+      break;
+
+    // Dropdown admonition
+    case 'admonition-dropdown':
+      isFound = content.includes(':class: dropdown');
+      break;
+
+    // Custom admonition
+    case 'admonition-custom':
+      isFound = content.includes(':::{admonition}');
+      break;
+
+    // UI Components
+    case 'dropdown':
+      isFound = content.includes(':::{dropdown}');
+      break;
+    case 'card':
+    case 'card-link':
+      isFound = content.includes(':::{card}') || content.includes('```{card}');
+      break;
+    case 'grid':
+      isFound = content.includes('::::{grid}') || content.includes(':::{grid}');
+      break;
+    case 'tab-set':
+      isFound = content.includes('::::{tab-set}') || content.includes(':::{tab-item}');
+      break;
+    case 'button':
+      isFound = content.includes('{button}');
+      break;
+
+    // Code features
+    case 'code-block':
+      isFound = /```\w+\n/.test(content);
+      break;
+    case 'code-caption':
+    case 'code-linenos':
+    case 'code-emphasize':
+    case 'code-filename':
+      isFound = content.includes('```{code}');
+      break;
+    case 'code-cell':
+      isFound = content.includes('```{code-cell}');
+      break;
+
+    // Math
+    case 'inline-math':
+      isFound = /\$[^$]+\$/.test(content) && !content.includes('$$');
+      break;
+    case 'equation-block':
+    case 'dollar-math':
+      isFound = content.includes('$$') || content.includes('```{math}');
+      break;
+
+    // Diagrams
+    case 'mermaid-flowchart':
+    case 'mermaid-sequence':
+    case 'mermaid-class':
+    case 'mermaid-state':
+    case 'mermaid-gantt':
+    case 'mermaid-pie':
+      isFound = content.includes('```{mermaid}') || content.includes('```mermaid');
+      break;
+
+    // Exercises
+    case 'exercise':
+      isFound = content.includes('```{exercise}');
+      break;
+    case 'solution':
+      isFound = content.includes('```{solution}') || content.includes('````{solution}');
+      break;
+
+    // Figures
+    case 'figure':
+      isFound = content.includes('```{figure}') || content.includes(':::{figure}');
+      break;
+    case 'image':
+      isFound = content.includes('```{image}') || content.includes('![');
+      break;
+
+    // Tables
+    case 'markdown-table':
+      isFound = /\|.*\|.*\n\|[-:]+\|/.test(content);
+      break;
+    case 'list-table':
+      isFound = content.includes('```{list-table}');
+      break;
+    case 'csv-table':
+      isFound = content.includes('```{csv-table}');
+      break;
+
+    // References
+    case 'cross-reference':
+      isFound = content.includes('[](#') || content.includes('{ref}');
+      break;
+    case 'footnote':
+      isFound = /\[\^\w+\]/.test(content);
+      break;
+
+    // Proofs and theorems
+    case 'theorem':
+    case 'proof':
+    case 'lemma':
+    case 'definition':
+    case 'corollary':
+    case 'proposition':
+    case 'axiom':
+    case 'algorithm':
+      isFound = content.includes(`:::{prf:${feature.id}}`);
+      break;
+
+    // Interactive code
+    case 'jupyterlite':
+      isFound = content.includes('[jupyterlite]');
+      break;
+    case 'pyodide':
+      isFound = content.includes('[pyodide]');
+      break;
+    case 'thebe':
+      isFound = content.includes('[thebe');
+      break;
+
+    // Default: check if syntax pattern appears in content
+    default:
+      // Try to extract a key pattern from the syntax
+      const syntaxParts = feature.syntax.split('\n')[0];
+      if (syntaxParts.includes(':::')) {
+        const match = syntaxParts.match(/:::{?(\w+)/);
+        if (match) {
+          isFound = content.toLowerCase().includes(match[0].toLowerCase());
+        }
+      } else if (syntaxParts.includes('```')) {
+        const match = syntaxParts.match(/```{?(\w+)/);
+        if (match) {
+          isFound = content.toLowerCase().includes(match[0].toLowerCase());
+        }
+      } else if (syntaxParts.includes('{')) {
+        const match = syntaxParts.match(/{(\w+)}/);
+        if (match) {
+          isFound = content.includes(`{${match[1]}`);
+        }
+      }
+      break;
+  }
+
+  return isFound;
+}
+
+/**
+ * Split the selected features into those found in the content and those missing.
+ * Unknown feature ids are skipped.
+ */
+export function auditChapterFeatures(content: string, selectedFeatureIds: string[]): FeatureAuditResult {
+  const foundFeatures: string[] = [];
+  const missingFeatures: string[] = [];
+
+  for (const featureId of selectedFeatureIds) {
+    if (!MYST_FEATURES_DATA.some(f => f.id === featureId)) continue;
+
+    if (isFeaturePresent(content, featureId)) {
+      foundFeatures.push(featureId);
+    } else {
+      missingFeatures.push(featureId);
+    }
+  }
+
+  return {
+    selectedFeatures: selectedFeatureIds,
+    foundFeatures,
+    missingFeatures,
+  };
+}
@@ -215,13 +215,6 @@ function calculateAdmonitionScore(
   return { score: maxScore, reason: bestReason, suggestedTitle };
 }
 
-/**
- * Check if content already has admonition formatting
- */
-function hasExistingAdmonition(content: string): boolean {
-  return /^:::\{?(note|tip|hint|important|warning|caution|attention|danger|error|seealso)\}?/mi.test(content);
-}
-
 /**
  * Check if content is too short for an admonition
  */
@@ -262,18 +255,12 @@ export function detectAdmonitionCandidates(
   const suggestions: AdmonitionSuggestion[] = [];
 
   for (const block of blocks) {
-    // Only consider paragraphs
+    // Only consider paragraphs - existing admonitions are 'directive' blocks
     if (block.type !== 'paragraph') {
       console.log(`Block ${block.id}: skipped (type=${block.type}, not paragraph)`);
       continue;
     }
 
-    // Skip if already has admonition
-    if (hasExistingAdmonition(block.content)) {
-      console.log(`Block ${block.id}: skipped (already has admonition)`);
-      continue;
-    }
-
     // Skip if too short
     if (isTooShort(block.content)) {
       console.log(`Block ${block.id}: skipped (too short, content: "${block.content.slice(0, 50)}...")`);
@@ -338,7 +325,6 @@ export function shouldBeAdmonition(
   minConfidence: number = 0.6
 ): AdmonitionSuggestion | null {
   if (block.type !== 'paragraph') return null;
-  if (hasExistingAdmonition(block.content)) return null;
   if (isTooShort(block.content)) return null;
 
   for (const type of TYPE_PRIORITY) {
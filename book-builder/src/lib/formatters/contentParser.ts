@@ -1,10 +1,15 @@
 /**
- * Content Parser - Rule-based parsing of raw content into typed blocks
+ * Content Parser - Split raw content into typed blocks
  *
  * This module parses raw text content into structured blocks that can be
  * transformed with MyST formatting while preserving 100% of the original content.
+ * The blocks come from the MyST syntax tree (see mystAst.ts), so directives,
+ * targets and code are recognised the way MyST itself reads them.
  */
 
+import type { Nodes, Root, RootContent } from 'mdast';
+import { parseMyst } from './mystAst';
+
 export type BlockType =
   | 'paragraph'
   | 'code'
@@ -13,6 +18,9 @@ export type BlockType =
   | 'heading'
   | 'table'
   | 'math'
+  | 'directive'
+  | 'target'
+  | 'other'
   | 'empty';
 
 export interface ContentBlock {
@@ -23,6 +31,7 @@ export interface ContentBlock {
   metadata: BlockMetadata;
   startLine: number;
   endLine: number;
+  node?: RootContent; // The syntax tree node the block was parsed from; unset for empty lines
 }
 
 export interface BlockMetadata {
@@ -33,6 +42,8 @@ export interface BlockMetadata {
   isIndented?: boolean;
   quoteDepth?: number;
   mathType?: 'inline' | 'block' | 'dollar';
+  directiveName?: string;
+  label?: string; // (label)= target, or a directive's :label: option
 }
 
 export interface ParsedContent {
@@ -40,17 +51,7 @@ export interface ParsedContent {
   rawContent: string;
   totalLines: number;
   wordCount: number;
-}
-
-// Generate a unique ID for each block
-let blockIdCounter = 0;
-function generateBlockId(): string {
-  return `block-${++blockIdCounter}`;
-}
-
-// Reset counter (useful for testing)
-export function resetBlockIdCounter(): void {
-  blockIdCounter = 0;
+  tree: Root;
 }
 
 /**
@@ -72,114 +73,6 @@ export function countWords(text: string): number {
   return stripped.split(/\s+/).filter(word => word.length > 0).length;
 }
 
-/**
- * Detect if a line is a heading
- */
-function isHeading(line: string): { isHeading: boolean; level: number } {
-  const match = line.match(/^(#{1,6})\s+/);
-  if (match) {
-    return { isHeading: true, level: match[1].length };
-  }
-  return { isHeading: false, level: 0 };
-}
-
-/**
- * Detect if a line starts a fenced code block
- */
-function isFencedCodeStart(line: string): { isStart: boolean; language: string } {
-  const match = line.match(/^(`{3,}|~{3,})(\w+)?/);
-  if (match) {
-    return { isStart: true, language: match[2] || '' };
-  }
-  return { isStart: false, language: '' };
-}
-
-/**
- * Detect if a line ends a fenced code block
- */
-function isFencedCodeEnd(line: string, fenceChar: string, fenceLength: number): boolean {
-  const regex = new RegExp(`^${fenceChar}{${fenceLength},}\\s*$`);
-  return regex.test(line);
-}
-
-/**
- * Detect if a line is a quote
- */
-function isQuote(line: string): { isQuote: boolean; depth: number; content: string } {
-  const match = line.match(/^((?:>\s*)+)/);
-  if (match) {
-    const depth = (match[1].match(/>/g) || []).length;
-    const content = line.slice(match[1].length);
-    return { isQuote: true, depth, content };
-  }
-  return { isQuote: false, depth: 0, content: line };
-}
-
-/**
- * Detect if a line is a list item
- */
-function isListItem(line: string): { isList: boolean; type: 'bullet' | 'numbered'; content: string; indent: number } {
-  // Bullet list: -, *, +
-  const bulletMatch = line.match(/^(\s*)([-*+])\s+(.*)$/);
-  if (bulletMatch) {
-    return {
-      isList: true,
-      type: 'bullet',
-      content: bulletMatch[3],
-      indent: bulletMatch[1].length
-    };
-  }
-
-  // Numbered list: 1., 2., etc.
-  const numberedMatch = line.match(/^(\s*)(\d+)\.\s+(.*)$/);
-  if (numberedMatch) {
-    return {
-      isList: true,
-      type: 'numbered',
-      content: numberedMatch[3],
-      indent: numberedMatch[1].length
-    };
-  }
-
-  return { isList: false, type: 'bullet', content: line, indent: 0 };
-}
-
-/**
- * Detect if a line is part of a table
- */
-function isTableLine(line: string): boolean {
-  // Simple markdown table detection
-  return /^\|.*\|$/.test(line.trim()) || /^[\s|:-]+$/.test(line.trim());
-}
-
-/**
- * Detect if a line starts/is a math block
- */
-function isMathBlock(line: string): { isMath: boolean; type: 'block' | 'inline'; isStart?: boolean; isEnd?: boolean } {
-  // Block math: $$ or ```{math}
-  if (line.trim() === '$$') {
-    return { isMath: true, type: 'block', isStart: true, isEnd: true };
-  }
-  if (line.trim().startsWith('```{math}')) {
-    return { isMath: true, type: 'block', isStart: true };
-  }
-  return { isMath: false, type: 'inline' };
-}
-
-/**
- * Detect if a line is a MyST directive start
- */
-function isMystDirectiveStart(line: string): boolean {
-  return /^:{2,3}\{[\w-]+\}/.test(line.trim()) || /^`{3,}\{[\w-]+\}/.test(line.trim());
-}
-
-/**
- * Detect if a line is a MyST directive end
- */
-function isMystDirectiveEnd(line: string): boolean {
-  return /^:{2,3}$/.test(line.trim()) || /^`{3,}$/.test(line.trim());
-}
-
 /**
  * Check if line is empty or whitespace only
  */
@@ -187,195 +80,129 @@ function isEmptyLine(line: string): boolean {
   return line.trim() === '';
 }
 
+const BLOCK_TYPES: Partial<Record<RootContent['type'], BlockType>> = {
+  paragraph: 'paragraph',
+  heading: 'heading',
+  code: 'code',
+  list: 'list',
+  blockquote: 'quote',
+  table: 'table',
+  math: 'math',
+  mystDirective: 'directive',
+  mystTarget: 'target',
+};
+
+/**
+ * Work out a block's type and metadata from the syntax tree node it came from
+ */
+function describeNode(node: RootContent, firstLine: string): { type: BlockType; metadata: BlockMetadata } {
+  switch (node.type) {
+    case 'heading':
+      return { type: 'heading', metadata: { headingLevel: node.depth } };
+    case 'code': {
+      const isFenced = /^\s*(`{3,}|~{3,})/.test(firstLine);
+      return {
+        type: 'code',
+        metadata: { language: node.lang || '', isFenced, isIndented: !isFenced },
+      };
+    }
+    case 'list':
+      return { type: 'list', metadata: { listType: node.ordered ? 'numbered' : 'bullet' } };
+    case 'blockquote': {
+      let quoteDepth = 1;
+      let inner: Nodes | undefined = node.children[0];
+      while (inner?.type === 'blockquote') {
+        quoteDepth++;
+        inner = inner.children[0];
+      }
+      return { type: 'quote', metadata: { quoteDepth } };
+    }
+    case 'math':
+      return { type: 'math', metadata: { mathType: 'dollar', label: node.label } };
+    case 'mystDirective':
+      // {math} is a directive in the source but still a math block to the formatter
+      if (node.name === 'math') {
+        return { type: 'math', metadata: { mathType: 'block', directiveName: node.name, label: node.options.label } };
+      }
+      return {
+        type: 'directive',
+        metadata: { directiveName: node.name, label: node.options.label },
+      };
+    case 'mystTarget':
+      return { type: 'target', metadata: { label: node.label } };
+    default:
+      return { type: BLOCK_TYPES[node.type] || 'other', metadata: {} };
+  }
+}
+
 /**
  * Parse raw content into structured blocks
+ *
+ * Each top-level node of the MyST syntax tree becomes one block, covering the
+ * whole lines it sits on, and every blank line between them becomes an
+ * 'empty' block. Joining the blocks' content with newlines therefore gives
+ * back the input exactly.
  */
 export function parseContent(rawContent: string): ParsedContent {
   const lines = rawContent.split('\n');
+  const tree = parseMyst(rawContent);
   const blocks: ContentBlock[] = [];
-  let currentBlock: ContentBlock | null = null;
-  let inFencedCode = false;
-  let fenceChar = '';
-  let fenceLength = 0;
-  let inMathBlock = false;
-  let inDirective = false;
-  let directiveNestingLevel = 0;
-
-  function finalizeBlock() {
-    if (currentBlock && currentBlock.content.trim()) {
-      currentBlock.rawContent = currentBlock.content;
-      blocks.push(currentBlock);
-    }
-    currentBlock = null;
-  }
 
-  function startNewBlock(type: BlockType, line: string, lineIndex: number, metadata: BlockMetadata = {}): ContentBlock {
-    return {
-      id: generateBlockId(),
+  const pushLines = (first: number, last: number, type: BlockType, metadata: BlockMetadata, node?: RootContent) => {
+    const content = lines.slice(first, last + 1).join('\n');
+    blocks.push({
+      // Numbered per parse, so the same text always gets the same IDs
+      id: `block-${blocks.length + 1}`,
       type,
-      content: line,
-      rawContent: line,
+      content,
+      rawContent: content,
       metadata,
-      startLine: lineIndex,
-      endLine: lineIndex,
-    };
-  }
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    // Handle fenced code blocks
-    if (!inFencedCode && !inDirective) {
-      const fencedStart = isFencedCodeStart(line);
-      if (fencedStart.isStart && !line.includes('{')) {
-        // Pure code block (not a directive like ```{mermaid})
-        finalizeBlock();
-        inFencedCode = true;
-        fenceChar = line[0];
-        fenceLength = (line.match(new RegExp(`^${fenceChar}+`)) || [''])[0].length;
-        currentBlock = startNewBlock('code', line + '\n', i, {
-          language: fencedStart.language,
-          isFenced: true
-        });
-        continue;
-      }
-    }
-
-    if (inFencedCode) {
-      currentBlock!.content += line + '\n';
-      currentBlock!.endLine = i;
-      if (isFencedCodeEnd(line, fenceChar, fenceLength)) {
-        inFencedCode = false;
-        finalizeBlock();
-      }
-      continue;
-    }
-
-    // Handle MyST directives (preserve as-is but track nesting)
-    if (isMystDirectiveStart(line)) {
-      finalizeBlock();
-      inDirective = true;
-      directiveNestingLevel = (line.match(/^:{2,}/)?.[0] || line.match(/^`{3,}/)?.[0] || '').length;
-      currentBlock = startNewBlock('paragraph', line + '\n', i);
-      continue;
-    }
-
-    if (inDirective) {
-      currentBlock!.content += line + '\n';
-      currentBlock!.endLine = i;
-      // Check for directive end at same nesting level
-      const endMatch = line.match(/^(:{2,}|`{3,})$/);
-      if (endMatch && endMatch[1].length === directiveNestingLevel) {
-        inDirective = false;
-        directiveNestingLevel = 0;
-        finalizeBlock();
-      }
-      continue;
-    }
-
-    // Handle math blocks
-    const mathCheck = isMathBlock(line);
-    if (mathCheck.isMath && mathCheck.type === 'block') {
-      if (!inMathBlock) {
-        finalizeBlock();
-        inMathBlock = true;
-        currentBlock = startNewBlock('math', line + '\n', i, { mathType: 'block' });
-      } else {
-        currentBlock!.content += line + '\n';
-        currentBlock!.endLine = i;
-        inMathBlock = false;
-        finalizeBlock();
-      }
-      continue;
-    }
-
-    if (inMathBlock) {
-      currentBlock!.content += line + '\n';
-      currentBlock!.endLine = i;
-      continue;
-    }
-
-    // Handle empty lines
-    if (isEmptyLine(line)) {
-      finalizeBlock();
-      // Don't create blocks for empty lines, but preserve them
-      blocks.push({
-        id: generateBlockId(),
-        type: 'empty',
-        content: line,
-        rawContent: line,
-        metadata: {},
-        startLine: i,
-        endLine: i,
-      });
-      continue;
-    }
-
-    // Handle headings
-    const headingCheck = isHeading(line);
-    if (headingCheck.isHeading) {
-      finalizeBlock();
-      currentBlock = startNewBlock('heading', line, i, { headingLevel: headingCheck.level });
-      finalizeBlock();
-      continue;
-    }
-
-    // Handle quotes
-    const quoteCheck = isQuote(line);
-    if (quoteCheck.isQuote) {
-      if (currentBlock?.type === 'quote') {
-        currentBlock.content += '\n' + line;
-        currentBlock.endLine = i;
-      } else {
-        finalizeBlock();
-        currentBlock = startNewBlock('quote', line, i, { quoteDepth: quoteCheck.depth });
-      }
-      continue;
-    }
+      startLine: first,
+      endLine: last,
+      node,
+    });
+  };
 
-    // Handle lists
-    const listCheck = isListItem(line);
-    if (listCheck.isList) {
-      if (currentBlock?.type === 'list' && currentBlock.metadata.listType === listCheck.type) {
-        currentBlock.content += '\n' + line;
-        currentBlock.endLine = i;
+  // Lines no node claimed: blank ones are spacing, anything else is kept as is
+  const pushGap = (first: number, last: number) => {
+    for (let i = first; i <= last; i++) {
+      if (isEmptyLine(lines[i])) {
+        pushLines(i, i, 'empty', {});
       } else {
-        finalizeBlock();
-        currentBlock = startNewBlock('list', line, i, { listType: listCheck.type });
+        let end = i;
+        while (end < last && !isEmptyLine(lines[end + 1])) end++;
+        pushLines(i, end, 'other', {});
+        i = end;
       }
-      continue;
     }
+  };
 
-    // Handle tables
-    if (isTableLine(line)) {
-      if (currentBlock?.type === 'table') {
-        currentBlock.content += '\n' + line;
-        currentBlock.endLine = i;
-      } else {
-        finalizeBlock();
-        currentBlock = startNewBlock('table', line, i);
-      }
-      continue;
+  let nextLine = 0;
+  for (let index = 0; index < tree.children.length; index++) {
+    const node = tree.children[index];
+    if (!node.position) continue;
+
+    const first = Math.max(node.position.start.line - 1, nextLine);
+    let last = node.position.end.line - 1;
+    // Nodes that share a line can't be split apart, so they become one block
+    while (index + 1 < tree.children.length && (tree.children[index + 1].position?.start.line ?? Infinity) - 1 <= last) {
+      index++;
+      last = Math.max(last, tree.children[index].position!.end.line - 1);
     }
 
-    // Default: paragraph
-    if (currentBlock?.type === 'paragraph') {
-      currentBlock.content += '\n' + line;
-      currentBlock.endLine = i;
-    } else {
-      finalizeBlock();
-      currentBlock = startNewBlock('paragraph', line, i);
-    }
+    pushGap(nextLine, first - 1);
+    const { type, metadata } = describeNode(node, lines[first]);
+    pushLines(first, last, type, metadata, node);
+    nextLine = last + 1;
   }
-
-  // Finalize any remaining block
-  finalizeBlock();
+  pushGap(nextLine, lines.length - 1);
 
   return {
     blocks,
     rawContent,
     totalLines: lines.length,
     wordCount: countWords(rawContent),
+    tree,
   };
 }
 
@@ -0,0 +1,270 @@
+/**
+ * Edit Operations - Structured formatting edits keyed to content blocks
+ *
+ * Rather than writing the chapter out again with formatting added, the AI
+ * describes each change as an operation on block IDs from parseContent.
+ * Every valid operation becomes an AppliedTransformation over the original
+ * lines, so text can only move into or out of MyST syntax where an
+ * operation says so, and the cost scales with the number of changes.
+ */
+
+import { ContentBlock, ParsedContent } from './contentParser';
+import { AppliedTransformation } from './transformationEngine';
+import { addLabel } from './mystTransformers';
+import { isKnownDirective } from './mystLint';
+
+export type EditOperation = WrapOperation | LabelOperation | TabSetOperation;
+
+// Wrap a run of blocks in a directive, e.g. a note or a dropdown
+export interface WrapOperation {
+  op: 'wrap';
+  startBlockId: string;
+  endBlockId: string;
+  directive: string;
+  title?: string;
+  options?: Record<string, string>;
+  reason?: string;
+}
+
+// Put a (label)= target on a block so it can be cross-referenced
+export interface LabelOperation {
+  op: 'label';
+  blockId: string;
+  label: string;
+  reason?: string;
+}
+
+// Turn consecutive runs of blocks into the items of a tab-set
+export interface TabSetOperation {
+  op: 'tab-set';
+  tabs: Array<{ title: string; startBlockId: string; endBlockId: string }>;
+  reason?: string;
+}
+
+export interface RejectedOperation {
+  operation: EditOperation;
+  reason: string;
+}
+
+export interface EditPlan {
+  transformations: AppliedTransformation[];
+  rejected: RejectedOperation[];
+}
+
+const LABEL = /^[A-Za-z][\w.:-]*$/;
+const OPTION_KEY = /^[\w-]+$/;
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+const singleLine = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+/**
+ * Keep the well-formed operations from a parsed AI response, which may be the
+ * list itself or an object with an `operations` list
+ */
+export function parseEditOperations(value: unknown): EditOperation[] {
+  const items = Array.isArray(value)
+    ? value
+    : (value as { operations?: unknown } | null)?.operations;
+  if (!Array.isArray(items)) return [];
+
+  const operations: EditOperation[] = [];
+  for (const item of items) {
+    if (!item || typeof item !== 'object') continue;
+    const reason = isString(item.reason) ? item.reason : undefined;
+
+    if (item.op === 'wrap' && isString(item.startBlockId) && isString(item.endBlockId) && isString(item.directive)) {
+      const options: Record<string, string> = {};
+      if (item.options && typeof item.options === 'object') {
+        for (const [key, optionValue] of Object.entries(item.options)) {
+          if (typeof optionValue === 'string' || typeof optionValue === 'number') options[key] = String(optionValue);
+        }
+      }
+      operations.push({
+        op: 'wrap',
+        startBlockId: item.startBlockId,
+        endBlockId: item.endBlockId,
+        directive: item.directive.trim(),
+        title: isString(item.title) ? item.title : undefined,
+        options,
+        reason,
+      });
+    } else if (item.op === 'label' && isString(item.blockId) && isString(item.label)) {
+      operations.push({ op: 'label', blockId: item.blockId, label: item.label.trim(), reason });
+    } else if (item.op === 'tab-set' && Array.isArray(item.tabs)) {
+      const tabs = item.tabs.filter((tab: unknown): tab is TabSetOperation['tabs'][number] => {
+        const t = tab as Record<string, unknown> | null;
+        return !!t && isString(t.title) && isString(t.startBlockId) && isString(t.endBlockId);
+      });
+      if (tabs.length === item.tabs.length) operations.push({ op: 'tab-set', tabs, reason });
+    }
+  }
+  return operations;
+}
+
+/**
+ * Enough colons for a fence around content that may hold colon fences of its own
+ */
+function colonFence(content: string): string {
+  let deepest = 2;
+  for (const match of content.matchAll(/^\s*(:{3,})/gm)) deepest = Math.max(deepest, match[1].length);
+  return ':'.repeat(deepest + 1);
+}
+
+/**
+ * Turn AI edit operations into transformations of the parsed content.
+ * Operations naming unknown blocks or directives, overlapping an earlier
+ * operation, or reusing a label are rejected with the reason, and never
+ * touch the text.
+ */
+export function planEditOperations(parsed: ParsedContent, operations: EditOperation[]): EditPlan {
+  const lines = parsed.rawContent.split('\n');
+  const indexById = new Map(parsed.blocks.map((block, index) => [block.id, index]));
+  const labels = new Set(parsed.blocks.map(block => block.metadata.label).filter(Boolean));
+  const claimed: Array<[number, number]> = [];
+  const transformations: AppliedTransformation[] = [];
+  const rejected: RejectedOperation[] = [];
+
+  const textOf = (first: ContentBlock, last: ContentBlock) =>
+    lines.slice(first.startLine, last.endLine + 1).join('\n');
+
+  // Blocks from start to end, without the blank lines at either end
+  const resolve = (startId: string, endId: string): [ContentBlock, ContentBlock] | string => {
+    let start = indexById.get(startId);
+    let end = indexById.get(endId);
+    if (start === undefined) return `unknown block ${startId}`;
+    if (end === undefined) return `unknown block ${endId}`;
+    if (start > end) return `${startId} comes after ${endId}`;
+    while (start <= end && parsed.blocks[start].type === 'empty') start++;
+    while (end >= start && parsed.blocks[end].type === 'empty') end--;
+    if (start > end) return `${startId} to ${endId} has no content`;
+    return [parsed.blocks[start], parsed.blocks[end]];
+  };
+
+  const isClaimed = (startLine: number, endLine: number) =>
+    claimed.some(([first, last]) => startLine <= last && endLine >= first);
+
+  const checkLabel = (label: string): string | null => {
+    if (!LABEL.test(label)) return `"${label}" is not a valid label`;
+    if (labels.has(label)) return `label "${label}" is already used`;
+    return null;
+  };
+
+  type Planned = { transformation: Omit<AppliedTransformation, 'source'>; label?: string };
+
+  const planWrap = (operation: WrapOperation): Planned | string => {
+    const range = resolve(operation.startBlockId, operation.endBlockId);
+    if (typeof range === 'string') return range;
+    if (!isKnownDirective(operation.directive)) return `unknown directive {${operation.directive}}`;
+
+    const optionEntries = Object.entries(operation.options ?? {}).map(([key, value]) => [key, singleLine(value)]);
+    const badOption = optionEntries.find(([key]) => !OPTION_KEY.test(key));
+    if (badOption) return `"${badOption[0]}" is not a valid option name`;
+    const label = optionEntries.find(([key]) => key === 'label' || key === 'name')?.[1];
+    const labelError = label ? checkLabel(label) : null;
+    if (labelError) return labelError;
+
+    const [first, last] = range;
+    const content = textOf(first, last);
+    const fence = colonFence(content);
+    const title = operation.title ? singleLine(operation.title) : '';
+    const options = optionEntries.map(([key, value]) => `:${key}: ${value}\n`).join('');
+    return {
+      label,
+      transformation: {
+        blockId: first.id,
+        type: 'directive',
+        description: `Wrapped in ${operation.directive}${title ? ` "${title}"` : ''}`,
+        originalContent: content,
+        transformedContent: `${fence}{${operation.directive}}${title ? ` ${title}` : ''}\n${options}${content}\n${fence}`,
+        startLine: first.startLine,
+        endLine: last.endLine,
+      },
+    };
+  };
+
+  const planLabel = (operation: LabelOperation): Planned | string => {
+    const range = resolve(operation.blockId, operation.blockId);
+    if (typeof range === 'string') return range;
+    const labelError = checkLabel(operation.label);
+    if (labelError) return labelError;
+
+    const [block] = range;
+    return {
+      label: operation.label,
+      transformation: {
+        blockId: block.id,
+        type: 'label',
+        description: `Added label: ${operation.label}`,
+        originalContent: block.content,
+        transformedContent: addLabel(block.content, operation.label),
+        startLine: block.startLine,
+        endLine: block.endLine,
+      },
+    };
+  };
+
+  const planTabSet = (operation: TabSetOperation): Planned | string => {
+    if (operation.tabs.length < 2) return 'a tab-set needs at least two tabs';
+
+    const tabRanges: Array<[ContentBlock, ContentBlock]> = [];
+    for (const tab of operation.tabs) {
+      const range = resolve(tab.startBlockId, tab.endBlockId);
+      if (typeof range === 'string') return range;
+      const previous = tabRanges[tabRanges.length - 1]?.[1];
+      if (previous && range[0].startLine <= previous.endLine) return 'tabs are out of order or overlap';
+      // Text between two tabs would end up in neither
+      if (previous && lines.slice(previous.endLine + 1, range[0].startLine).some(line => line.trim() !== '')) {
+        return 'tabs must be next to each other';
+      }
+      tabRanges.push(range);
+    }
+
+    const first = tabRanges[0][0];
+    const last = tabRanges[tabRanges.length - 1][1];
+    const content = textOf(first, last);
+    const itemFence = colonFence(content);
+    const setFence = `${itemFence}:`;
+    const titles = operation.tabs.map(tab => singleLine(tab.title));
+    const items = tabRanges.map(([tabFirst, tabLast], index) =>
+      `${itemFence}{tab-item} ${titles[index]}\n${textOf(tabFirst, tabLast)}\n${itemFence}`
+    );
+    return {
+      transformation: {
+        blockId: first.id,
+        type: 'tab-set',
+        description: `Converted to a tab-set: ${titles.join(', ')}`,
+        originalContent: content,
+        transformedContent: `${setFence}{tab-set}\n${items.join('\n')}\n${setFence}`,
+        startLine: first.startLine,
+        endLine: last.endLine,
+      },
+    };
+  };
+
+  for (const operation of operations) {
+    let planned = operation.op === 'wrap'
+      ? planWrap(operation)
+      : operation.op === 'label'
+        ? planLabel(operation)
+        : planTabSet(operation);
+
+    if (typeof planned !== 'string' && isClaimed(planned.transformation.startLine, planned.transformation.endLine)) {
+      planned = 'overlaps an earlier operation';
+    }
+    if (typeof planned === 'string') {
+      rejected.push({ operation, reason: planned });
+      continue;
+    }
+
+    const { transformation, label } = planned;
+    claimed.push([transformation.startLine, transformation.endLine]);
+    if (label) labels.add(label);
+    transformations.push({
+      ...transformation,
+      description: operation.reason ? `${transformation.description} (${operation.reason})` : transformation.description,
+      source: 'ai',
+    });
+  }
+
+  return { transformations, rejected };
+}
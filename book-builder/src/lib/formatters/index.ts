@@ -5,14 +5,32 @@
  * Guarantees 100% content preservation through deterministic transformations.
  *
  * Architecture:
- * 1. Content Parser - Parse raw content into typed blocks
+ * 0. MyST AST - Parse MyST Markdown into a syntax tree with source positions
+ * 1. Content Parser - Split the syntax tree into typed blocks
  * 2. Pattern Detector - Detect code, lists, quotes, etc.
  * 3. Admonition Detector - Rule-based admonition detection
  * 4. MyST Transformers - Individual feature formatters
  * 5. Transformation Engine - Apply transformations
  * 6. Verification - Content preservation verification
+ * 7. MyST Lint - Diagnostics and safe fixes for malformed MyST
+ * 8. Edit Operations - AI formatting edits keyed to block IDs
  */
 
+// MyST AST
+export {
+  parseMyst,
+  nodeSource,
+  walkTree,
+  findNodes,
+  toPlainText,
+  type MystDirective,
+  type MystTarget,
+  type MystComment,
+  type MystRole,
+  type BlockBreak,
+  type MathBlock,
+} from './mystAst';
+
 // Content Parser
 export {
   parseContent,
@@ -20,7 +38,6 @@ export {
   getBlocksByType,
   getParagraphBlocks,
   countWords,
-  resetBlockIdCounter,
   type ContentBlock,
   type BlockType,
   type BlockMetadata,
@@ -86,6 +103,7 @@ export {
 // Transformation Engine
 export {
   transformContent,
+  applyTransformations,
   transformContentWithLogging,
   quickFormatCodeBlocks,
   formatWithFeatures,
@@ -99,6 +117,7 @@ export {
 // Verification
 export {
   verifyPreservation,
+  verifyStructure,
   quickVerify,
   stripFormatting,
   extractSentences,
@@ -109,8 +128,34 @@ export {
   validateTransformation,
   type VerificationResult,
   type VerificationIssue,
+  type IssueLocation,
 } from './verification';
 
+// MyST Lint
+export {
+  lintMyst,
+  applyFixes,
+  fixAllMyst,
+  isKnownDirective,
+  type LintDiagnostic,
+  type LintFix,
+  type LintRule,
+  type LintSeverity,
+  type TextEdit,
+} from './mystLint';
+
+// Edit Operations
+export {
+  parseEditOperations,
+  planEditOperations,
+  type EditOperation,
+  type WrapOperation,
+  type LabelOperation,
+  type TabSetOperation,
+  type RejectedOperation,
+  type EditPlan,
+} from './editOperations';
+
 /**
  * Main formatting function - convenience wrapper
  *
@@ -132,6 +177,7 @@ export {
  */
 import { transformContent, TransformationConfig, TransformationResult } from './transformationEngine';
 import { verifyPreservation, VerificationResult, stripFormatting } from './verification';
+import { findNodes, parseMyst } from './mystAst';
 
 export interface FormatResult extends TransformationResult {
   verification: VerificationResult;
@@ -172,16 +218,17 @@ export function formatContentStrict(
  * Detect if content has MyST formatting (possibly broken)
  */
 export function hasMystFormatting(content: string): boolean {
-  // Check for MyST directive patterns
-  const mystPatterns = [
-    /^:::\{[\w-]+\}/m,           // :::{directive}
-    /^:::[\w-]+/m,               // :::directive
-    /^```\{[\w-]+\}/m,           // ```{directive}
-    /^\([^)]+\)=$/m,             // (label)=
-    /\{[\w-]+\}`[^`]+`/,         // {role}`content`
-  ];
-
-  return mystPatterns.some(pattern => pattern.test(content));
+  const tree = parseMyst(content);
+  if (
+    findNodes(tree, 'mystDirective').length > 0 ||
+    findNodes(tree, 'mystTarget').length > 0 ||
+    findNodes(tree, 'mystRole').length > 0
+  ) {
+    return true;
+  }
+
+  // :::directive without braces isn't a directive to MyST, but it's what broken formatting looks like
+  return /^:::[\w-]+/m.test(content);
 }
 
 /**
@@ -0,0 +1,562 @@
+/**
+ * MyST AST - Parse MyST Markdown into an mdast syntax tree with positions
+ *
+ * CommonMark and GFM are parsed by mdast-util-from-markdown. The MyST block
+ * syntax it doesn't know is split out first, line by line: colon and backtick
+ * directives (nested to any depth), `(label)=` targets, `$$` math, `%`
+ * comments, `+++` block breaks and front matter. MyST roles
+ * ({role}`content`) are picked out of the inline text afterwards.
+ *
+ * Every node keeps its position in the source, so any block can be sliced
+ * back out exactly as it was written.
+ */
+
+import { fromMarkdown } from 'mdast-util-from-markdown';
+import { gfmFromMarkdown } from 'mdast-util-gfm';
+import { gfm } from 'micromark-extension-gfm';
+import type {
+  BlockContent,
+  Code,
+  DefinitionContent,
+  Literal,
+  Node,
+  Nodes,
+  Parent,
+  PhrasingContent,
+  Root,
+  RootContent,
+  Text,
+  Yaml,
+} from 'mdast';
+import type { Point, Position } from 'unist';
+
+// A directive: :::{name} args or ```{name} args, then options and a body
+export interface MystDirective extends Parent {
+  type: 'mystDirective';
+  name: string;
+  args: string;
+  options: Record<string, string>;
+  // The body exactly as written, after the options
+  value: string;
+  // The opening fence, e.g. '::::' or '```'
+  fence: string;
+  // The parsed body; empty for directives whose body is literal (code, math, ...)
+  children: (BlockContent | DefinitionContent)[];
+}
+
+// (label)= - names the block that follows it
+export interface MystTarget extends Node {
+  type: 'mystTarget';
+  label: string;
+}
+
+// % comment lines, which MyST leaves out of the output
+export interface MystComment extends Literal {
+  type: 'mystComment';
+}
+
+// +++ - splits a page into blocks, with optional JSON metadata
+export interface BlockBreak extends Node {
+  type: 'blockBreak';
+  meta: string;
+}
+
+// $$ display math $$, with an optional (label) after the closing $$
+export interface MathBlock extends Literal {
+  type: 'math';
+  label?: string;
+}
+
+// {role}`content`
+export interface MystRole extends Literal {
+  type: 'mystRole';
+  name: string;
+}
+
+declare module 'mdast' {
+  interface BlockContentMap {
+    mystDirective: MystDirective;
+    mystTarget: MystTarget;
+    mystComment: MystComment;
+    blockBreak: BlockBreak;
+    math: MathBlock;
+  }
+
+  interface PhrasingContentMap {
+    mystRole: MystRole;
+  }
+
+  interface RootContentMap {
+    mystDirective: MystDirective;
+    mystTarget: MystTarget;
+    mystComment: MystComment;
+    blockBreak: BlockBreak;
+    math: MathBlock;
+    mystRole: MystRole;
+  }
+}
+
+// Directives whose body is content in its own right, not more markdown
+const LITERAL_DIRECTIVES = new Set([
+  'code',
+  'code-block',
+  'sourcecode',
+  'code-cell',
+  'literalinclude',
+  'math',
+  'mermaid',
+  'raw',
+  'csv-table',
+]);
+
+interface SourceLine {
+  text: string;
+  offset: number;
+}
+
+interface BlockMatch {
+  node: RootContent;
+  // Index of the first line after the block
+  next: number;
+}
+
+const FENCE = /^(`{3,}|~{3,})(.*)$/;
+const COLON_DIRECTIVE = /^(:{3,})\{([\w:.-]+)\}\s*(.*)$/;
+const DIRECTIVE_INFO = /^\{([\w:.-]+)\}\s*(.*)$/;
+const TARGET = /^\(([^()\s]+)\)=\s*$/;
+const OPTION = /^:([\w-]+):(?:\s+(.*))?\s*$/;
+const ROLE_NAME = /\{([\w:.-]+)\}$/;
+
+function splitLines(source: string): SourceLine[] {
+  const lines: SourceLine[] = [];
+  let offset = 0;
+  for (const text of source.split('\n')) {
+    lines.push({ text, offset });
+    offset += text.length + 1;
+  }
+  return lines;
+}
+
+function startOf(lines: SourceLine[], index: number): Point {
+  return { line: index + 1, column: 1, offset: lines[index].offset };
+}
+
+function endOf(lines: SourceLine[], index: number): Point {
+  const line = lines[index];
+  return { line: index + 1, column: line.text.length + 1, offset: line.offset + line.text.length };
+}
+
+function spanLines(lines: SourceLine[], first: number, last: number): Position {
+  return { start: startOf(lines, first), end: endOf(lines, last) };
+}
+
+function joinLines(lines: SourceLine[], first: number, end: number): string {
+  return lines.slice(first, end).map(line => line.text).join('\n');
+}
+
+/**
+ * Directive options: a `---` YAML block or `:key: value` lines at the top of
+ * the body. Returns them with the index of the first body line after them.
+ */
+function parseOptions(lines: SourceLine[], first: number, end: number): { options: Record<string, string>; next: number } {
+  const options: Record<string, string> = {};
+
+  if (first < end && lines[first].text.trim() === '---') {
+    for (let i = first + 1; i < end; i++) {
+      if (lines[i].text.trim() === '---') return { options, next: i + 1 };
+      const match = lines[i].text.match(/^\s*([\w-]+):\s*(.*)$/);
+      if (match) options[match[1]] = match[2].trim();
+    }
+    // Never closed: it was body text after all
+    return { options: {}, next: first };
+  }
+
+  let i = first;
+  for (; i < end; i++) {
+    const match = lines[i].text.match(OPTION);
+    if (!match) break;
+    options[match[1]] = (match[2] || '').trim();
+  }
+  return { options, next: i };
+}
+
+/**
+ * Parse a run of plain CommonMark lines and move its positions to where the
+ * run sits in the whole source
+ */
+function parseMarkdownRun(source: string, lines: SourceLine[], first: number, last: number): RootContent[] {
+  const startOffset = lines[first].offset;
+  const text = source.slice(startOffset, lines[last].offset + lines[last].text.length);
+  const tree = fromMarkdown(text, {
+    extensions: [gfm()],
+    mdastExtensions: [gfmFromMarkdown()],
+  });
+
+  const shift = (node: Nodes) => {
+    if (node.position) {
+      node.position.start.line += first;
+      node.position.end.line += first;
+      node.position.start.offset = (node.position.start.offset ?? 0) + startOffset;
+      node.position.end.offset = (node.position.end.offset ?? 0) + startOffset;
+    }
+    if ('children' in node) node.children.forEach(child => shift(child as Nodes));
+  };
+  tree.children.forEach(shift);
+  tree.children.forEach(extractRoles);
+
+  return tree.children;
+}
+
+/**
+ * {name}`value` comes out of CommonMark as text ending in "{name}" directly
+ * followed by inline code; merge each such pair into a role
+ */
+function extractRoles(node: Nodes): void {
+  if (!('children' in node)) return;
+  const children = node.children as PhrasingContent[];
+
+  for (let i = 0; i < children.length - 1; i++) {
+    const text = children[i];
+    const code = children[i + 1];
+    if (text.type !== 'text' || code.type !== 'inlineCode') continue;
+    if (!text.position || !code.position || text.position.end.offset !== code.position.start.offset) continue;
+
+    const match = text.value.match(ROLE_NAME);
+    if (!match) continue;
+
+    const nameLength = match[0].length;
+    const start: Point = {
+      line: text.position.end.line,
+      column: text.position.end.column - nameLength,
+      offset: (text.position.end.offset ?? 0) - nameLength,
+    };
+    const role: MystRole = {
+      type: 'mystRole',
+      name: match[1],
+      value: code.value,
+      position: { start, end: code.position.end },
+    };
+
+    const remaining = text.value.slice(0, -nameLength);
+    if (remaining) {
+      const shortened: Text = { ...text, value: remaining, position: { start: text.position.start, end: start } };
+      children.splice(i, 2, shortened, role);
+    } else {
+      children.splice(i, 2, role);
+    }
+  }
+
+  for (const child of node.children) extractRoles(child as Nodes);
+}
+
+/**
+ * The MyST block starting at line `index`, if there is one. Blocks must start
+ * at the beginning of the line; indented ones stay part of the markdown
+ * around them (list items, for instance).
+ */
+function matchMystBlock(source: string, lines: SourceLine[], index: number, end: number): BlockMatch | null {
+  const text = lines[index].text;
+
+  // Backtick/tilde fences: code, or ```{name} directives
+  const fence = text.match(FENCE);
+  if (fence && !(fence[1][0] === '`' && fence[2].includes('`'))) {
+    const marker = fence[1];
+    const closing = new RegExp(`^${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`);
+    let close = index + 1;
+    while (close < end && !closing.test(lines[close].text)) close++;
+    const last = Math.min(close, end - 1);
+    const next = Math.min(close + 1, end);
+    const info = fence[2].trim();
+    const directive = info.match(DIRECTIVE_INFO);
+
+    if (!directive) {
+      const [lang, ...meta] = info.split(/\s+/).filter(Boolean);
+      const code: Code = {
+        type: 'code',
+        lang: lang || null,
+        meta: meta.join(' ') || null,
+        value: joinLines(lines, index + 1, close),
+        position: spanLines(lines, index, last),
+      };
+      return { node: code, next };
+    }
+
+    // The body ends at the closing fence, so it can be parsed on its own
+    const name = directive[1];
+    const { options, next: bodyStart } = parseOptions(lines, index + 1, close);
+    const children = LITERAL_DIRECTIVES.has(name) ? [] : parseBlocks(source, lines, bodyStart, close).nodes;
+    return {
+      node: buildDirective(lines, { name, args: directive[2], fence: marker, options, children }, index, last, bodyStart, close),
+      next,
+    };
+  }
+
+  // Colon fences: :::{name}, closed by a fence at least as long. Nested
+  // directives use fewer colons than the one around them.
+  const colon = text.match(COLON_DIRECTIVE);
+  if (colon) {
+    const marker = colon[1];
+    const closing = new RegExp(`^:{${marker.length},}\\s*$`);
+    const name = colon[2];
+    const { options, next: bodyStart } = parseOptions(lines, index + 1, end);
+
+    // Literal bodies aren't markdown, so just look for the closing fence
+    let close = bodyStart;
+    let children: RootContent[] = [];
+    if (LITERAL_DIRECTIVES.has(name)) {
+      while (close < end && !closing.test(lines[close].text)) close++;
+    } else {
+      ({ nodes: children, next: close } = parseBlocks(source, lines, bodyStart, end, closing));
+    }
+    const last = Math.min(close, end - 1);
+
+    return {
+      node: buildDirective(lines, { name, args: colon[3], fence: marker, options, children }, index, last, bodyStart, close),
+      next: Math.min(close + 1, end),
+    };
+  }
+
+  // $$ display math $$ (label)
+  if (text.startsWith('$$')) {
+    const closing = /\$\$\s*(?:\(([^()\s]+)\))?\s*$/;
+    const singleLine = text.slice(2).match(closing);
+    if (singleLine) {
+      return {
+        node: {
+          type: 'math',
+          value: text.slice(2, singleLine.index! + 2).trim(),
+          ...(singleLine[1] ? { label: singleLine[1] } : {}),
+          position: spanLines(lines, index, index),
+        },
+        next: index + 1,
+      };
+    }
+    let close = index + 1;
+    while (close < end && !closing.test(lines[close].text)) close++;
+    const last = Math.min(close, end - 1);
+    const closeMatch = close < end ? lines[close].text.match(closing) : null;
+    const body = [text.slice(2), ...lines.slice(index + 1, close).map(line => line.text)];
+    if (closeMatch) body.push(lines[close].text.slice(0, closeMatch.index));
+    return {
+      node: {
+        type: 'math',
+        value: body.join('\n').trim(),
+        ...(closeMatch?.[1] ? { label: closeMatch[1] } : {}),
+        position: spanLines(lines, index, last),
+      },
+      next: last + 1,
+    };
+  }
+
+  const target = text.match(TARGET);
+  if (target) {
+    return {
+      node: { type: 'mystTarget', label: target[1], position: spanLines(lines, index, index) },
+      next: index + 1,
+    };
+  }
+
+  // Consecutive % lines are one comment
+  if (text.startsWith('%')) {
+    let last = index;
+    while (last + 1 < end && lines[last + 1].text.startsWith('%')) last++;
+    return {
+      node: {
+        type: 'mystComment',
+        value: lines.slice(index, last + 1).map(line => line.text.slice(1).trim()).join('\n'),
+        position: spanLines(lines, index, last),
+      },
+      next: last + 1,
+    };
+  }
+
+  const blockBreak = text.match(/^\+\+\+\s*(.*)$/);
+  if (blockBreak) {
+    return {
+      node: { type: 'blockBreak', meta: blockBreak[1].trim(), position: spanLines(lines, index, index) },
+      next: index + 1,
+    };
+  }
+
+  return null;
+}
+
+function buildDirective(
+  lines: SourceLine[],
+  { name, args, fence, options, children }: {
+    name: string;
+    args: string;
+    fence: string;
+    options: Record<string, string>;
+    children: RootContent[];
+  },
+  first: number,
+  last: number,
+  bodyStart: number,
+  bodyEnd: number
+): MystDirective {
+  return {
+    type: 'mystDirective',
+    name,
+    args: args.trim(),
+    options,
+    value: joinLines(lines, bodyStart, bodyEnd),
+    fence,
+    children: children as (BlockContent | DefinitionContent)[],
+    position: spanLines(lines, first, last),
+  };
+}
+
+/**
+ * Parse lines [first, end) into block nodes. With `closing`, stop at the
+ * first line that closes the enclosing directive and return its index.
+ */
+function parseBlocks(
+  source: string,
+  lines: SourceLine[],
+  first: number,
+  end: number,
+  closing?: RegExp
+): { nodes: RootContent[]; next: number } {
+  const nodes: RootContent[] = [];
+  let runStart = -1;
+
+  const flush = (runEnd: number) => {
+    if (runStart === -1) return;
+    // Blank lines on their own make no markdown
+    if (joinLines(lines, runStart, runEnd).trim()) {
+      nodes.push(...parseMarkdownRun(source, lines, runStart, runEnd - 1));
+    }
+    runStart = -1;
+  };
+
+  for (let i = first; i < end; ) {
+    if (closing?.test(lines[i].text)) {
+      flush(i);
+      return { nodes, next: i };
+    }
+
+    const block = matchMystBlock(source, lines, i, end);
+    if (block) {
+      flush(i);
+      nodes.push(block.node);
+      i = block.next;
+      continue;
+    }
+
+    if (runStart === -1) runStart = i;
+    i++;
+  }
+
+  flush(end);
+  return { nodes, next: end };
+}
+
+/**
+ * Parse MyST Markdown into an mdast tree
+ */
+export function parseMyst(source: string): Root {
+  const lines = splitLines(source);
+  const children: RootContent[] = [];
+  let first = 0;
+
+  // Front matter: a --- YAML block at the very top
+  if (lines[0].text.trim() === '---') {
+    const close = lines.findIndex((line, i) => i > 0 && /^(---|\.\.\.)\s*$/.test(line.text));
+    if (close !== -1) {
+      const yaml: Yaml = {
+        type: 'yaml',
+        value: joinLines(lines, 1, close),
+        position: spanLines(lines, 0, close),
+      };
+      children.push(yaml);
+      first = close + 1;
+    }
+  }
+
+  children.push(...parseBlocks(source, lines, first, lines.length).nodes);
+
+  return {
+    type: 'root',
+    children,
+    position: { start: startOf(lines, 0), end: endOf(lines, lines.length - 1) },
+  };
+}
+
+/**
+ * The source text of a node, exactly as written
+ */
+export function nodeSource(source: string, node: Node): string {
+  if (!node.position) return '';
+  return source.slice(node.position.start.offset ?? 0, node.position.end.offset ?? 0);
+}
+
+/**
+ * Call `visitor` for a node and everything under it, parents first
+ */
+export function walkTree(node: Nodes, visitor: (node: Nodes, parent: Parent | null) => void, parent: Parent | null = null): void {
+  visitor(node, parent);
+  if ('children' in node) {
+    for (const child of node.children) walkTree(child as Nodes, visitor, node);
+  }
+}
+
+/**
+ * All nodes of one type in a tree
+ */
+export function findNodes<T extends Nodes['type']>(tree: Nodes, type: T): Extract<Nodes, { type: T }>[] {
+  const found: Extract<Nodes, { type: T }>[] = [];
+  walkTree(tree, node => {
+    if (node.type === type) found.push(node as Extract<Nodes, { type: T }>);
+  });
+  return found;
+}
+
+/**
+ * The readable text of a node without any markup: paragraphs and other
+ * blocks are separated by blank lines, list items by line breaks. Code and
+ * math keep their content; targets, comments and directive options go.
+ */
+export function toPlainText(node: Nodes): string {
+  switch (node.type) {
+    case 'text':
+    case 'inlineCode':
+    case 'mystRole':
+    case 'code':
+    case 'math':
+    case 'html':
+      return node.value;
+    case 'break':
+      return '\n';
+    case 'image':
+    case 'imageReference':
+      return node.alt || '';
+    case 'yaml':
+    case 'mystTarget':
+    case 'mystComment':
+    case 'blockBreak':
+    case 'thematicBreak':
+    case 'definition':
+      return '';
+    case 'mystDirective': {
+      const body = node.children.length > 0
+        ? node.children.map(child => toPlainText(child)).filter(Boolean).join('\n\n')
+        : node.value;
+      return [node.args, body].filter(Boolean).join('\n\n');
+    }
+    case 'list':
+      return node.children.map(item => toPlainText(item)).join('\n');
+    case 'listItem':
+      return node.children.map(child => toPlainText(child)).filter(Boolean).join('\n');
+    case 'table':
+      return node.children.map(row => toPlainText(row)).join('\n');
+    case 'tableRow':
+      return node.children.map(cell => toPlainText(cell)).join(' ');
+    case 'root':
+    case 'blockquote':
+    case 'footnoteDefinition':
+      return node.children.map(child => toPlainText(child as Nodes)).filter(Boolean).join('\n\n');
+    default:
+      return 'children' in node ? node.children.map(child => toPlainText(child as Nodes)).join('') : '';
+  }
+}
@@ -0,0 +1,461 @@
+/**
+ * MyST Lint - Find malformed MyST and fix what can be fixed safely
+ *
+ * Works on the syntax tree from mystAst.ts. Each diagnostic carries the line
+ * it is on and, where the intent is unambiguous, a fix as text edits against
+ * the original source. Fixes never touch the words of the chapter, only the
+ * markup around them.
+ */
+
+import type { Nodes } from 'mdast';
+import { MYST_FEATURES_DATA } from '@/data/mystFeatures';
+import { parseMyst, walkTree, type MystDirective } from './mystAst';
+
+export type LintRule =
+  | 'missing-braces'
+  | 'unclosed-fence'
+  | 'fence-depth'
+  | 'unknown-directive'
+  | 'unknown-role'
+  | 'invalid-option'
+  | 'duplicate-label';
+
+export type LintSeverity = 'error' | 'warning';
+
+// Replace source[start, end) with text
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface LintFix {
+  description: string;
+  edits: TextEdit[];
+}
+
+export interface LintDiagnostic {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  fix?: LintFix;
+}
+
+// Core MyST and Sphinx names the feature list doesn't mention
+const STANDARD_DIRECTIVES = [
+  'code-block', 'sourcecode', 'epigraph', 'highlights', 'table', 'tabs',
+  'contents', 'parsed-literal', 'line-block', 'index', 'admonition',
+];
+const STANDARD_ROLES = [
+  'any', 'code', 'cite:t', 'cite:ps', 'cite:ts', 'keyboard', 'underline', 'strike',
+  'smallcaps', 'subscript', 'superscript', 'prf:ref', 'bdg', 'bdg-secondary',
+  'bdg-info', 'bdg-light', 'bdg-dark', 'glue', 'glue:text', 'glue:md', 'glue:figure',
+];
+
+let knownNames: { directives: Set<string>; roles: Set<string> } | null = null;
+
+/**
+ * Directive and role names the app knows about: everything the feature list
+ * shows syntax for, plus the core ones
+ */
+function getKnownNames() {
+  if (knownNames) return knownNames;
+
+  const directives = new Set(STANDARD_DIRECTIVES);
+  const roles = new Set(STANDARD_ROLES);
+  for (const feature of MYST_FEATURES_DATA) {
+    const text = `${feature.syntax}\n${feature.example}`;
+    for (const match of text.matchAll(/(?:^|\n)(?::{3,}|`{3,})\{([\w:.-]+)\}/g)) directives.add(match[1]);
+    for (const match of text.matchAll(/\{([\w:.-]+)\}`/g)) roles.add(match[1]);
+  }
+
+  knownNames = { directives, roles };
+  return knownNames;
+}
+
+/**
+ * Whether a directive name is one the app knows how to render
+ */
+export function isKnownDirective(name: string): boolean {
+  return getKnownNames().directives.has(name);
+}
+
+/**
+ * Edit distance counting a swap of two neighbouring letters as one edit, for
+ * suggesting the name that was probably meant
+ */
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/**
+ * The known name a misspelt one most likely meant - only when there's exactly
+ * one close candidate, so the fix is safe to apply without looking
+ */
+function closestName(name: string, known: Set<string>): string | null {
+  const lower = name.toLowerCase();
+  if (known.has(lower)) return lower;
+
+  const candidates = [...known].filter(candidate => editDistance(lower, candidate) <= 1);
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+interface SourceLines {
+  texts: string[];
+  offsets: number[];
+}
+
+function splitSource(source: string): SourceLines {
+  const texts = source.split('\n');
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const text of texts) {
+    offsets.push(offset);
+    offset += text.length + 1;
+  }
+  return { texts, offsets };
+}
+
+const fenceOf = (node: MystDirective) => node.fence[0];
+const isColon = (node: MystDirective) => fenceOf(node) === ':';
+
+const OPTION = /^:([\w-]+):(?:\s+(.*))?\s*$/;
+// :key:value, :key value or a bare :key
+const MALFORMED_OPTION = /^:([\w-]+)(?::(\S.*)|(?:\s+(.*))?)$/;
+
+/**
+ * Whether a fenced block ends with its closing fence, rather than running on
+ * to the end of whatever contains it
+ */
+function isClosed(lines: SourceLines, node: Nodes, fence: string): boolean {
+  const { start, end } = node.position!;
+  if (end.line === start.line) return false;
+  const closing = new RegExp(`^\\s*\\${fence[0]}{${fence.length},}\\s*$`);
+  return closing.test(lines.texts[end.line - 1]);
+}
+
+// The opening fence of fenced code; indented code has none
+function codeFence(lines: SourceLines, node: Nodes): string | undefined {
+  return lines.texts[node.position!.start.line - 1].match(/^\s*(`{3,}|~{3,})/)?.[1];
+}
+
+/**
+ * How many colons each colon directive needs: more than any colon directive
+ * nested inside it, or the inner closing fence would close the outer one too
+ */
+function requiredColons(directive: MystDirective, required: Map<MystDirective, number>): number {
+  let deepest = 0;
+  const visit = (node: Nodes) => {
+    if (node.type === 'mystDirective' && isColon(node)) {
+      deepest = Math.max(deepest, requiredColons(node, required));
+      return;
+    }
+    if ('children' in node) node.children.forEach(child => visit(child as Nodes));
+  };
+  directive.children.forEach(child => visit(child as Nodes));
+
+  const count = Math.max(directive.fence.length, deepest + 1, 3);
+  required.set(directive, count);
+  return count;
+}
+
+/**
+ * Check MyST content and return its problems in source order
+ */
+export function lintMyst(source: string): LintDiagnostic[] {
+  const tree = parseMyst(source);
+  const lines = splitSource(source);
+  const { directives: knownDirectives, roles: knownRoles } = getKnownNames();
+  const diagnostics: LintDiagnostic[] = [];
+
+  const directiveNodes: MystDirective[] = [];
+  walkTree(tree, node => {
+    if (node.type === 'mystDirective') directiveNodes.push(node);
+  });
+
+  // Colon counts are worked out for each nesting at once, so the fixes for its levels agree
+  const required = new Map<MystDirective, number>();
+  for (const node of tree.children) {
+    walkTree(node, child => {
+      if (child.type === 'mystDirective' && isColon(child) && !required.has(child)) requiredColons(child, required);
+    });
+  }
+
+  // :::note - braces missing, so MyST reads it as a paragraph
+  walkTree(tree, node => {
+    if (node.type !== 'paragraph' || !node.position) return;
+    for (let line = node.position.start.line; line <= node.position.end.line; line++) {
+      const text = lines.texts[line - 1];
+      const match = text.match(/^(\s*:{3,})([A-Za-z][\w:.-]*)/);
+      if (!match) continue;
+      const nameStart = lines.offsets[line - 1] + match[1].length;
+      diagnostics.push({
+        rule: 'missing-braces',
+        severity: 'error',
+        message: `Directive name needs curly braces: ${match[1].trim()}{${match[2]}}`,
+        line,
+        column: match[1].length + 1,
+        fix: {
+          description: `Change to ${match[1].trim()}{${match[2]}}`,
+          edits: [{ start: nameStart, end: nameStart + match[2].length, text: `{${match[2]}}` }],
+        },
+      });
+    }
+  });
+
+  // A backtick fence inside a backtick directive must be longer than the ones
+  // in it. Where the outer one really ends can't be known, so there's no fix,
+  // and the fences involved get no closing-fence fix either.
+  const misnested = new Set<Nodes>();
+  for (const node of directiveNodes) {
+    if (isColon(node)) continue;
+    walkTree(node, child => {
+      if (child === node || !child.position) return;
+      const inner = child.type === 'mystDirective' ? child.fence : child.type === 'code' ? codeFence(lines, child) : undefined;
+      if (!inner || inner[0] !== node.fence[0] || inner.length < node.fence.length) return;
+      misnested.add(child);
+      diagnostics.push({
+        rule: 'fence-depth',
+        severity: 'error',
+        message: `{${node.name}} needs more ${fenceOf(node) === '`' ? 'backticks' : 'tildes'} than the fence on line ${child.position.start.line} inside it (at least ${inner.length + 1})`,
+        line: node.position!.start.line,
+        column: 1,
+      });
+    });
+  }
+
+  // Plain code fences left open swallow everything after them
+  walkTree(tree, node => {
+    if (node.type !== 'code' || !node.position) return;
+    const fence = codeFence(lines, node);
+    if (!fence || isClosed(lines, node, fence)) return;
+    diagnostics.push({
+      rule: 'unclosed-fence',
+      severity: 'error',
+      message: `Code fence is never closed; it runs on to line ${node.position.end.line}`,
+      line: node.position.start.line,
+      column: 1,
+    });
+  });
+
+  for (const node of directiveNodes) {
+    const { start, end } = node.position!;
+    const openLine = lines.texts[start.line - 1];
+    const openOffset = lines.offsets[start.line - 1];
+    const closed = isClosed(lines, node, node.fence);
+    const fence = isColon(node) ? ':'.repeat(required.get(node)!) : node.fence;
+
+    if (!closed) {
+      diagnostics.push({
+        rule: 'unclosed-fence',
+        severity: 'error',
+        message: `{${node.name}} is never closed; it runs on to line ${end.line}`,
+        line: start.line,
+        column: 1,
+        fix: misnested.has(node)
+          ? undefined
+          : {
+              description: `Close it after line ${end.line}`,
+              edits: [{ start: end.offset!, end: end.offset!, text: `\n${fence}` }],
+            },
+      });
+    }
+
+    if (isColon(node) && fence.length > node.fence.length) {
+      const edits: TextEdit[] = [{ start: openOffset, end: openOffset + node.fence.length, text: fence }];
+      if (closed) {
+        const closeOffset = lines.offsets[end.line - 1];
+        const closeFence = lines.texts[end.line - 1].match(/^\s*(:+)/)!;
+        const fenceStart = closeOffset + closeFence[0].length - closeFence[1].length;
+        edits.push({ start: fenceStart, end: fenceStart + closeFence[1].length, text: fence });
+      }
+      diagnostics.push({
+        rule: 'fence-depth',
+        severity: 'error',
+        message: `{${node.name}} has directives nested inside it, so it needs ${fence.length} colons, not ${node.fence.length}`,
+        line: start.line,
+        column: 1,
+        fix: { description: `Use ${fence} for {${node.name}}`, edits },
+      });
+    }
+
+    if (!knownDirectives.has(node.name)) {
+      const nameColumn = openLine.indexOf(`{${node.name}}`) + 1;
+      const suggestion = closestName(node.name, knownDirectives);
+      diagnostics.push({
+        rule: 'unknown-directive',
+        severity: 'warning',
+        message: `Unknown directive {${node.name}}${suggestion ? ` - did you mean {${suggestion}}?` : ''}`,
+        line: start.line,
+        column: nameColumn,
+        fix: suggestion
+          ? {
+              description: `Rename to {${suggestion}}`,
+              edits: [{ start: openOffset + nameColumn, end: openOffset + nameColumn + node.name.length, text: suggestion }],
+            }
+          : undefined,
+      });
+    }
+
+    // Options must be :key: value lines straight after the directive line
+    let optionLine = start.line;
+    if (lines.texts[optionLine]?.trim() === '---') continue;
+    const seen = new Set<string>();
+    const bodyEnd = closed ? end.line - 1 : end.line;
+    while (optionLine < bodyEnd) {
+      const text = lines.texts[optionLine];
+      const option = text.match(OPTION);
+      if (option) {
+        if (seen.has(option[1])) {
+          diagnostics.push({
+            rule: 'invalid-option',
+            severity: 'warning',
+            message: `Option :${option[1]}: is given more than once on {${node.name}}; only the last one counts`,
+            line: optionLine + 1,
+            column: 1,
+          });
+        }
+        seen.add(option[1]);
+        optionLine++;
+        continue;
+      }
+
+      const malformed = text.match(MALFORMED_OPTION);
+      if (malformed) {
+        const value = (malformed[2] ?? malformed[3] ?? '').trim();
+        const fixed = `:${malformed[1]}:${value ? ` ${value}` : ''}`;
+        diagnostics.push({
+          rule: 'invalid-option',
+          severity: 'warning',
+          message: `Option on {${node.name}} should be written ${fixed}`,
+          line: optionLine + 1,
+          column: 1,
+          fix: {
+            description: `Change to ${fixed}`,
+            edits: [{ start: lines.offsets[optionLine], end: lines.offsets[optionLine] + text.length, text: fixed }],
+          },
+        });
+        optionLine++;
+        continue;
+      }
+
+      // Blank lines before an option turn it and everything after into body text
+      let next = optionLine;
+      while (next < bodyEnd && !lines.texts[next].trim()) next++;
+      if (next > optionLine && next < bodyEnd && OPTION.test(lines.texts[next])) {
+        diagnostics.push({
+          rule: 'invalid-option',
+          severity: 'warning',
+          message: `Options on {${node.name}} must come straight after the directive line, without blank lines`,
+          line: next + 1,
+          column: 1,
+          fix: {
+            description: 'Remove the blank lines before the option',
+            edits: [{ start: lines.offsets[optionLine], end: lines.offsets[next], text: '' }],
+          },
+        });
+      }
+      break;
+    }
+  }
+
+  walkTree(tree, node => {
+    if (node.type !== 'mystRole' || knownRoles.has(node.name) || !node.position) return;
+    const suggestion = closestName(node.name, knownRoles);
+    const nameStart = node.position.start.offset! + 1;
+    diagnostics.push({
+      rule: 'unknown-role',
+      severity: 'warning',
+      message: `Unknown role {${node.name}}${suggestion ? ` - did you mean {${suggestion}}?` : ''}`,
+      line: node.position.start.line,
+      column: node.position.start.column,
+      fix: suggestion
+        ? {
+            description: `Rename to {${suggestion}}`,
+            edits: [{ start: nameStart, end: nameStart + node.name.length, text: suggestion }],
+          }
+        : undefined,
+    });
+  });
+
+  // Labels are what references point at, so each must be unique
+  const labels = new Map<string, number>();
+  walkTree(tree, node => {
+    if (!node.position) return;
+    const found =
+      node.type === 'mystTarget' ? [node.label]
+        : node.type === 'mystDirective' ? [node.options.label, node.options.name]
+        : node.type === 'math' ? [node.label]
+        : [];
+    for (const label of found) {
+      if (!label) continue;
+      const firstLine = labels.get(label);
+      if (firstLine === undefined) {
+        labels.set(label, node.position.start.line);
+        continue;
+      }
+      diagnostics.push({
+        rule: 'duplicate-label',
+        severity: 'error',
+        message: `Label "${label}" is already used on line ${firstLine}`,
+        line: node.position.start.line,
+        column: 1,
+      });
+    }
+  });
+
+  return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+const overlaps = (a: TextEdit, b: TextEdit) =>
+  a.start === b.start || (a.start < b.end && b.start < a.end);
+
+/**
+ * Apply fixes to the source they were made for. A fix whose edits overlap an
+ * earlier one is left out; lint again and re-apply to pick it up.
+ */
+export function applyFixes(source: string, fixes: LintFix[]): { content: string; applied: number } {
+  const accepted: TextEdit[] = [];
+  let applied = 0;
+  for (const fix of fixes) {
+    if (fix.edits.some(edit => accepted.some(other => overlaps(edit, other)))) continue;
+    accepted.push(...fix.edits);
+    applied++;
+  }
+
+  let content = source;
+  for (const edit of [...accepted].sort((a, b) => b.start - a.start)) {
+    content = content.slice(0, edit.start) + edit.text + content.slice(edit.end);
+  }
+  return { content, applied };
+}
+
+/**
+ * Apply every available fix, re-linting until nothing more can be fixed
+ */
+export function fixAllMyst(source: string, maxPasses = 5): { content: string; applied: number } {
+  let content = source;
+  let applied = 0;
+  for (let pass = 0; pass < maxPasses; pass++) {
+    const fixes = lintMyst(content).flatMap(diagnostic => (diagnostic.fix ? [diagnostic.fix] : []));
+    if (fixes.length === 0) break;
+    const result = applyFixes(content, fixes);
+    content = result.content;
+    applied += result.applied;
+  }
+  return { content, applied };
+}
@@ -1,11 +1,13 @@
 /**
  * Pattern Detector - Rule-based detection of code, lists, quotes, and other patterns
  *
- * Uses regex patterns to detect various content structures without AI,
+ * Uses the syntax tree behind each block for structure that is already
+ * there, and regex patterns to spot structure that isn't yet, without AI,
  * ensuring deterministic and fast pattern detection.
  */
 
 import { ContentBlock } from './contentParser';
+import { findNodes } from './mystAst';
 
 export interface DetectedPattern {
   blockId: string;
@@ -234,7 +236,9 @@ export function detectCodeBlocks(blocks: ContentBlock[]): DetectedPattern[] {
       // Already a code block, check if it has a language
       const lang = block.metadata.language || '';
       if (!lang) {
-        const detected = detectLanguage(block.content);
+        // Guess from the code itself, not the fences around it
+        const code = block.node?.type === 'code' ? block.node.value : block.content;
+        const detected = detectLanguage(code);
         patterns.push({
           blockId: block.id,
           patternType: 'code',
@@ -242,7 +246,7 @@ export function detectCodeBlocks(blocks: ContentBlock[]): DetectedPattern[] {
           metadata: {
             language: detected.language,
             needsFormatting: true,
-            existingFormat: 'fenced',
+            existingFormat: block.metadata.isFenced ? 'fenced' : 'indented',
           },
           suggestion: detected.language ? `Add language: ${detected.language}` : undefined,
         });
@@ -414,13 +418,12 @@ export function detectLinksAndImages(blocks: ContentBlock[]): DetectedPattern[]
   const patterns: DetectedPattern[] = [];
 
   for (const block of blocks) {
-    if (block.type !== 'paragraph') continue;
+    if (block.type !== 'paragraph' || !block.node) continue;
 
     const content = block.content;
 
     // Markdown images
-    const imageMatches = content.match(/!\[([^\]]*)\]\(([^)]+)\)/g);
-    if (imageMatches && imageMatches.length > 0) {
+    if (findNodes(block.node, 'image').length > 0) {
       patterns.push({
         blockId: block.id,
         patternType: 'image',
@@ -430,9 +433,15 @@ export function detectLinksAndImages(blocks: ContentBlock[]): DetectedPattern[]
       });
     }
 
-    // Raw URLs that could be links
-    const rawUrls = content.match(/(?<!\()(https?:\/\/[^\s<>"']+)(?!\))/g);
-    if (rawUrls && rawUrls.length > 0) {
+    // Raw URLs that could be links - GFM parses them as links whose text is the URL itself
+    const rawUrls = findNodes(block.node, 'link').filter(link =>
+      link.children.length === 1 &&
+      link.children[0].type === 'text' &&
+      /^(https?:\/\/|www\.)/.test(link.children[0].value) &&
+      !content.includes(`<${link.children[0].value}>`) &&
+      !content.includes(`](${link.children[0].value}`)
+    );
+    if (rawUrls.length > 0) {
       patterns.push({
         blockId: block.id,
         patternType: 'link',
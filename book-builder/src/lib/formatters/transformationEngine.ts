@@ -5,7 +5,8 @@
  * while guaranteeing 100% content preservation.
  */
 
-import { ContentBlock, ParsedContent, parseContent, countWords } from './contentParser';
+import { ContentBlock, parseContent, countWords } from './contentParser';
+import { findNodes, parseMyst } from './mystAst';
 import { detectAllPatterns, detectLanguage, DetectedPattern } from './patternDetector';
 import { detectAdmonitionCandidates, AdmonitionSuggestion } from './admonitionDetector';
 import {
@@ -44,10 +45,14 @@ export interface TransformationResult {
 
 export interface AppliedTransformation {
   blockId: string;
-  type: 'admonition' | 'code-language' | 'code-block' | 'list' | 'quote' | 'heading';
+  type: 'admonition' | 'code-language' | 'code-block' | 'list' | 'quote' | 'heading' | 'directive' | 'label' | 'tab-set';
   description: string;
   originalContent: string;
   transformedContent: string;
+  source: 'rules' | 'ai';
+  // Lines of the original text the transformation replaces (0-based, inclusive)
+  startLine: number;
+  endLine: number;
 }
 
 export interface TransformationSuggestion {
@@ -187,6 +192,7 @@ function transformBlock(
   block: ContentBlock,
   patterns: DetectedPattern[],
   admonitionSuggestion: AdmonitionSuggestion | undefined,
+  admonitionSource: AppliedTransformation['source'],
   capabilities: Set<string>,
   config: TransformationConfig
 ): { content: string; transformation?: AppliedTransformation } {
@@ -196,7 +202,10 @@ function transformBlock(
   if (block.type === 'code' && capabilities.has('code-formatting')) {
     const codePattern = blockPatterns.find(p => p.patternType === 'code');
     if (codePattern?.metadata.needsFormatting && codePattern.metadata.language) {
-      const transformed = formatCodeBlock(block.content, codePattern.metadata.language);
+      // Fenced code only needs its opening fence touched; indented code gets fences
+      const transformed = block.metadata.isFenced
+        ? addFenceLanguage(block.content, codePattern.metadata.language)
+        : formatCodeBlock(block.node?.type === 'code' ? block.node.value : block.content, codePattern.metadata.language);
       return {
         content: transformed,
         transformation: {
@@ -205,6 +214,9 @@ function transformBlock(
           description: `Added language: ${codePattern.metadata.language}`,
           originalContent: block.content,
           transformedContent: transformed,
+          source: 'rules',
+          startLine: block.startLine,
+          endLine: block.endLine,
         },
       };
     }
@@ -231,6 +243,9 @@ function transformBlock(
             description: `Wrapped in ${admonitionSuggestion.type} admonition (${admonitionSuggestion.reason})`,
             originalContent: block.content,
             transformedContent: transformed,
+            source: admonitionSource,
+            startLine: block.startLine,
+            endLine: block.endLine,
           },
         };
       }
@@ -251,6 +266,9 @@ function transformBlock(
           description: `Converted to ${language} code block`,
           originalContent: block.content,
           transformedContent: transformed,
+          source: 'rules',
+          startLine: block.startLine,
+          endLine: block.endLine,
         },
       };
     }
@@ -261,33 +279,48 @@ function transformBlock(
 }
 
 /**
- * Ensure proper spacing around headings and directives
+ * Put a language on a fenced code block, leaving the rest of its lines alone
  */
-function ensureProperSpacing(content: string): string {
-  let result = content;
-
-  // Ensure blank line before headings
-  result = result.replace(/([^\n])\n(#{1,6}\s)/g, '$1\n\n$2');
-
-  // Ensure blank line after headings
-  result = result.replace(/(#{1,6}[^\n]+)\n([^\n#])/g, '$1\n\n$2');
-
-  // Ensure blank line before admonitions
-  result = result.replace(/([^\n])\n(:::\{)/g, '$1\n\n$2');
-
-  // Ensure blank line after admonitions
-  result = result.replace(/(:::)\n([^\n:])/g, '$1\n\n$2');
-
-  // Ensure blank line before code blocks
-  result = result.replace(/([^\n])\n(```)/g, '$1\n\n$2');
-
-  // Ensure blank line after code blocks
-  result = result.replace(/(```)\n([^\n`])/g, '$1\n\n$2');
+function addFenceLanguage(content: string, language: string): string {
+  const newline = content.indexOf('\n');
+  const fenceLine = newline === -1 ? content : content.slice(0, newline);
+  return fenceLine.replace(/^(\s*(?:`{3,}|~{3,}))\s*$/, `$1${language}`) + (newline === -1 ? '' : content.slice(newline));
+}
 
-  // Remove excessive blank lines (more than 2)
-  result = result.replace(/\n{4,}/g, '\n\n\n');
+/**
+ * Apply transformations to the text they were made against
+ *
+ * Each transformation replaces only its own lines of the original, so any
+ * subset of a transformContent result can be applied by itself and always
+ * gives the same text. Transformations that overlap one already applied, or
+ * whose lines no longer match what they were made from, are skipped.
+ */
+export function applyTransformations(
+  rawContent: string,
+  transformations: AppliedTransformation[]
+): string {
+  const lines = rawContent.split('\n');
+  const isBlank = (line: number) => lines[line].trim() === '';
+  const output: string[] = [];
+  let nextLine = 0;
+
+  for (const transformation of [...transformations].sort((a, b) => a.startLine - b.startLine)) {
+    const { startLine, endLine } = transformation;
+    if (startLine < nextLine || endLine >= lines.length) continue;
+    if (lines.slice(startLine, endLine + 1).join('\n') !== transformation.originalContent) continue;
+
+    output.push(...lines.slice(nextLine, startLine));
+    // A new directive or fence needs blank lines around it to stand as its own
+    // block; untouched lines keep the spacing they had
+    const padded = transformation.type !== 'code-language';
+    if (padded && startLine > 0 && !isBlank(startLine - 1)) output.push('');
+    output.push(transformation.transformedContent);
+    if (padded && endLine < lines.length - 1 && !isBlank(endLine + 1)) output.push('');
+    nextLine = endLine + 1;
+  }
+  output.push(...lines.slice(nextLine));
 
-  return result;
+  return output.join('\n');
 }
 
 /**
@@ -346,6 +379,7 @@ export function transformContent(
   }
 
   // Then override with AI suggestions (higher priority)
+  const aiBlockIds = new Set<string>();
   if (fullConfig.aiSuggestions && fullConfig.aiSuggestions.length > 0) {
     console.log('AI suggestions provided:', fullConfig.aiSuggestions.length);
     console.log('AI suggestions:', fullConfig.aiSuggestions);
@@ -360,6 +394,7 @@ export function transformContent(
           reason: aiSuggestion.reason,
           suggestedTitle: aiSuggestion.title,
         });
+        aiBlockIds.add(aiSuggestion.paragraphId);
       }
     }
   }
@@ -368,27 +403,19 @@ export function transformContent(
 
   // Transform blocks
   const appliedTransformations: AppliedTransformation[] = [];
-  const transformedBlocks: string[] = [];
-
   for (const block of parsed.blocks) {
-    const admonitionSuggestion = admonitionMap.get(block.id);
     const result = transformBlock(
       block,
       patterns,
-      admonitionSuggestion,
+      admonitionMap.get(block.id),
+      aiBlockIds.has(block.id) ? 'ai' : 'rules',
       capabilities,
       fullConfig
     );
-
-    transformedBlocks.push(result.content);
-    if (result.transformation) {
-      appliedTransformations.push(result.transformation);
-    }
+    if (result.transformation) appliedTransformations.push(result.transformation);
   }
 
-  // Join blocks and ensure proper spacing
-  let formattedContent = transformedBlocks.join('\n');
-  formattedContent = ensureProperSpacing(formattedContent);
+  const formattedContent = applyTransformations(rawContent, appliedTransformations);
 
   // Calculate word counts
   const originalWordCount = countWords(rawContent);
@@ -463,36 +490,20 @@ export function transformContentWithLogging(
  */
 export function quickFormatCodeBlocks(content: string): string {
   const lines = content.split('\n');
-  const result: string[] = [];
-  let inCodeBlock = false;
-  let codeBlockContent = '';
-  let codeBlockStart = '';
-
-  for (const line of lines) {
-    if (!inCodeBlock && line.match(/^```\s*$/)) {
-      // Start of code block without language
-      inCodeBlock = true;
-      codeBlockStart = line;
-      codeBlockContent = '';
-    } else if (inCodeBlock && line.match(/^```\s*$/)) {
-      // End of code block
-      inCodeBlock = false;
-      const detected = detectLanguage(codeBlockContent);
-      if (detected.language && detected.confidence >= 0.4) {
-        result.push(`\`\`\`${detected.language}`);
-      } else {
-        result.push(codeBlockStart);
-      }
-      result.push(codeBlockContent.trimEnd());
-      result.push(line);
-    } else if (inCodeBlock) {
-      codeBlockContent += line + '\n';
-    } else {
-      result.push(line);
+
+  // Code nested in directives counts too; only the opening fence line changes
+  for (const code of findNodes(parseMyst(content), 'code')) {
+    if (code.lang || !code.position) continue;
+    const line = code.position.start.line - 1;
+    if (!/^\s*(`{3,}|~{3,})\s*$/.test(lines[line])) continue;
+
+    const detected = detectLanguage(code.value);
+    if (detected.language && detected.confidence >= 0.4) {
+      lines[line] = addFenceLanguage(lines[line], detected.language);
     }
   }
 
-  return result.join('\n');
+  return lines.join('\n');
 }
 
 /**
@@ -2,10 +2,13 @@
  * Verification - Content preservation verification
  *
  * Guarantees that rule-based transformation preserves 100% of the original content.
- * Provides detailed analysis of any differences.
+ * Provides detailed analysis of any differences: word and sentence counts for
+ * the prose, exact comparison for code, math, links, headings and tables.
  */
 
+import type { Nodes } from 'mdast';
 import { countWords } from './contentParser';
+import { parseMyst, toPlainText, walkTree } from './mystAst';
 
 export interface VerificationResult {
   isPreserved: boolean;
@@ -20,73 +23,54 @@ export interface VerificationResult {
 }
 
 export interface VerificationIssue {
-  type: 'missing-content' | 'extra-content' | 'modified-content' | 'word-count-mismatch';
+  type:
+    | 'missing-content'
+    | 'extra-content'
+    | 'modified-content'
+    | 'word-count-mismatch'
+    | 'code-changed'
+    | 'math-changed'
+    | 'link-changed'
+    | 'heading-changed'
+    | 'table-changed';
   severity: 'error' | 'warning' | 'info';
   description: string;
   originalText?: string;
   formattedText?: string;
+  location?: IssueLocation;
+}
+
+// 1-based lines the issue is about, in either version
+export interface IssueLocation {
+  originalLine?: number;
+  formattedLine?: number;
 }
 
 /**
  * Strip MyST formatting to get raw text content
+ *
+ * Reads the text off the syntax tree, so markers are only dropped where MyST
+ * treats them as markup - a ':::' or '#' inside a code block stays.
  */
 export function stripFormatting(content: string): string {
-  let result = content;
-
-  // Remove fenced code block markers but keep content
-  result = result.replace(/^```[\w-]*\n?/gm, '');
-  result = result.replace(/^```\s*$/gm, '');
-
-  // Remove MyST directive markers (:::, :::{type}, etc.)
-  result = result.replace(/^:::\{?[\w:-]+\}?.*$/gm, '');
-  result = result.replace(/^:::$/gm, '');
-
-  // Remove directive options (:label:, :class:, etc.)
-  result = result.replace(/^:\w+:.*$/gm, '');
-
-  // Remove heading markers
-  result = result.replace(/^#{1,6}\s+/gm, '');
-
-  // Remove blockquote markers
-  result = result.replace(/^>\s*/gm, '');
-
-  // Remove list markers (but keep content)
-  result = result.replace(/^(\s*)[-*+]\s+/gm, '$1');
-  result = result.replace(/^(\s*)\d+\.\s+/gm, '$1');
-
-  // Remove inline formatting markers
-  result = result.replace(/\*\*([^*]+)\*\*/g, '$1'); // bold
-  result = result.replace(/\*([^*]+)\*/g, '$1'); // italic
-  result = result.replace(/`([^`]+)`/g, '$1'); // inline code
-  result = result.replace(/~~([^~]+)~~/g, '$1'); // strikethrough
-  result = result.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1'); // links
-
-  // Remove MyST roles like {role}`content`
-  result = result.replace(/\{[\w-]+\}`([^`]+)`/g, '$1');
-
-  // Remove labels like (label)=
-  result = result.replace(/^\([^)]+\)=\s*$/gm, '');
-
-  // Remove math delimiters but keep content
-  result = result.replace(/\$\$\n?/g, '');
-  result = result.replace(/\$/g, '');
-
-  // Normalize whitespace
-  result = result.replace(/\n{3,}/g, '\n\n');
-  result = result.trim();
-
-  return result;
+  return toPlainText(parseMyst(content))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
 }
 
 /**
  * Extract sentences from content (for sentence-level comparison)
+ *
+ * Lines are split too, so each block is compared on its own: a heading or a
+ * directive title without a full stop doesn't run into the text after it,
+ * and a title that formatting adds can't hide the sentence it comes before.
  */
 export function extractSentences(content: string): string[] {
   const stripped = stripFormatting(content);
 
-  // Split by sentence-ending punctuation
+  // Split by sentence-ending punctuation and line breaks
   const sentences = stripped
-    .split(/(?<=[.!?])\s+/)
+    .split(/(?<=[.!?])\s+|\n+/)
     .map(s => s.trim())
     .filter(s => s.length > 0);
 
@@ -147,6 +131,215 @@ export function findMissingSentences(
   return missing;
 }
 
+// Something in a document whose exact content matters, and the line it starts on
+interface Located<T> {
+  value: T;
+  line: number;
+}
+
+interface DocumentStructure {
+  code: Located<string>[];
+  math: Located<string>[];
+  urls: Located<string>[];
+  headings: Located<{ depth: number; text: string }>[];
+  tables: Located<string[][]>[];
+}
+
+const CODE_DIRECTIVES = new Set(['code', 'code-block', 'sourcecode', 'code-cell']);
+const MEDIA_DIRECTIVES = new Set(['figure', 'image', 'iframe']);
+
+const preview = (text: string) => text.slice(0, 100) + (text.length > 100 ? '...' : '');
+const cellText = (node: Nodes) => toPlainText(node).replace(/\s+/g, ' ').trim();
+
+/**
+ * Collect the parts of a document that formatting must leave exactly as they
+ * are: code bodies, math, link and image targets, headings and table cells
+ */
+function extractStructure(content: string): DocumentStructure {
+  const structure: DocumentStructure = { code: [], math: [], urls: [], headings: [], tables: [] };
+
+  walkTree(parseMyst(content), node => {
+    const line = node.position?.start.line ?? 0;
+    switch (node.type) {
+      case 'code':
+        structure.code.push({ value: node.value, line });
+        break;
+      case 'math':
+        structure.math.push({ value: node.value.trim(), line });
+        break;
+      case 'mystRole':
+        if (node.name === 'math') structure.math.push({ value: node.value.trim(), line });
+        break;
+      case 'text':
+        // Inline $math$ isn't parsed out of the text, so pick it up here
+        for (const match of node.value.matchAll(/\$([^$\n]+)\$/g)) {
+          structure.math.push({ value: match[1].trim(), line });
+        }
+        break;
+      case 'link':
+      case 'image':
+      case 'definition':
+        structure.urls.push({ value: node.url, line });
+        break;
+      case 'heading':
+        structure.headings.push({ value: { depth: node.depth, text: cellText(node) }, line });
+        break;
+      case 'table':
+        structure.tables.push({ value: node.children.map(row => row.children.map(cellText)), line });
+        break;
+      case 'mystDirective':
+        if (CODE_DIRECTIVES.has(node.name)) {
+          structure.code.push({ value: node.value, line });
+        } else if (node.name === 'math') {
+          structure.math.push({ value: node.value.trim(), line });
+        } else if (MEDIA_DIRECTIVES.has(node.name) && node.args) {
+          structure.urls.push({ value: node.args.split(/\s+/)[0], line });
+        } else if (node.name === 'list-table') {
+          // Rows are the outer list's items, cells the items of the list in each
+          const rows = node.children.find(child => child.type === 'list');
+          if (rows?.type === 'list') {
+            structure.tables.push({
+              value: rows.children.map(row => {
+                const cells = row.children.find(child => child.type === 'list');
+                return cells?.type === 'list' ? cells.children.map(cellText) : [cellText(row)];
+              }),
+              line,
+            });
+          }
+        }
+        break;
+    }
+  });
+
+  return structure;
+}
+
+/**
+ * Walk the original items in order, finding each in the formatted ones after
+ * the last match. Formatting may add items (a paragraph turned into a code
+ * block, say) but every original one must still be there. Unmatched items are
+ * passed on with the formatted item at the same point, its likely rewrite.
+ */
+function matchInOrder<T>(
+  original: Located<T>[],
+  formatted: Located<T>[],
+  same: (a: T, b: T) => boolean,
+  onMissing: (item: Located<T>, counterpart: Located<T> | undefined) => void
+): void {
+  let next = 0;
+  for (const item of original) {
+    const found = formatted.findIndex((candidate, index) => index >= next && same(item.value, candidate.value));
+    if (found === -1) {
+      onMissing(item, formatted[next]);
+    } else {
+      next = found + 1;
+    }
+  }
+}
+
+/**
+ * Check that formatting left code, math, link targets, headings and tables
+ * exactly as they were - word counts can't see a rewritten code block or
+ * a changed equation
+ */
+export function verifyStructure(original: string, formatted: string): VerificationIssue[] {
+  const issues: VerificationIssue[] = [];
+  const before = extractStructure(original);
+  const after = extractStructure(formatted);
+
+  matchInOrder(before.code, after.code, (a, b) => a === b, (item, counterpart) => {
+    issues.push({
+      type: 'code-changed',
+      severity: 'error',
+      description: counterpart ? 'Code block was changed' : 'Code block is missing from formatted output',
+      originalText: preview(item.value),
+      formattedText: counterpart && preview(counterpart.value),
+      location: { originalLine: item.line, formattedLine: counterpart?.line },
+    });
+  });
+
+  matchInOrder(before.math, after.math, (a, b) => a === b, (item, counterpart) => {
+    issues.push({
+      type: 'math-changed',
+      severity: 'error',
+      description: counterpart ? 'Math expression was changed' : 'Math expression is missing from formatted output',
+      originalText: preview(item.value),
+      formattedText: counterpart && preview(counterpart.value),
+      location: { originalLine: item.line, formattedLine: counterpart?.line },
+    });
+  });
+
+  // Links may move (into a figure, say), so only how often each target appears matters
+  const remaining = new Map<string, number>();
+  for (const url of after.urls) remaining.set(url.value, (remaining.get(url.value) || 0) + 1);
+  for (const url of before.urls) {
+    const count = remaining.get(url.value) || 0;
+    if (count > 0) {
+      remaining.set(url.value, count - 1);
+      continue;
+    }
+    issues.push({
+      type: 'link-changed',
+      severity: 'error',
+      description: `Link target ${url.value} is missing from formatted output`,
+      originalText: url.value,
+      location: { originalLine: url.line },
+    });
+  }
+
+  // Headings must all be there, in the same order and at the same level
+  let nextHeading = 0;
+  for (const heading of before.headings) {
+    const found = after.headings.findIndex((candidate, index) => index >= nextHeading && candidate.value.text === heading.value.text);
+    if (found === -1) {
+      const moved = after.headings.find(candidate => candidate.value.text === heading.value.text);
+      issues.push({
+        type: 'heading-changed',
+        severity: moved ? 'warning' : 'error',
+        description: moved ? 'Heading was moved out of order' : 'Heading is missing or reworded in formatted output',
+        originalText: heading.value.text,
+        location: { originalLine: heading.line, formattedLine: moved?.line },
+      });
+      continue;
+    }
+
+    const match = after.headings[found];
+    if (match.value.depth !== heading.value.depth) {
+      issues.push({
+        type: 'heading-changed',
+        severity: 'warning',
+        description: `Heading level changed from H${heading.value.depth} to H${match.value.depth}`,
+        originalText: heading.value.text,
+        location: { originalLine: heading.line, formattedLine: match.line },
+      });
+    }
+    nextHeading = found + 1;
+  }
+
+  matchInOrder(before.tables, after.tables, (a, b) => JSON.stringify(a) === JSON.stringify(b), (table, counterpart) => {
+    // Point at the first cell that differs, if there's a table to compare with
+    let cell: string | undefined;
+    if (counterpart) {
+      table.value.some((row, r) => row.some((text, c) => {
+        if (counterpart.value[r]?.[c] === text) return false;
+        cell = text;
+        return true;
+      }));
+    }
+    issues.push({
+      type: 'table-changed',
+      severity: 'error',
+      description: counterpart
+        ? `Table cells were changed${cell !== undefined ? ` (first difference: "${preview(cell)}")` : ''}`
+        : 'Table is missing from formatted output',
+      originalText: preview(table.value.map(row => row.join(' | ')).join('\n')),
+      location: { originalLine: table.line, formattedLine: counterpart?.line },
+    });
+  });
+
+  return issues;
+}
+
 /**
  * Verify that content is preserved after transformation
  */
@@ -213,6 +406,9 @@ export function verifyPreservation(
     });
   }
 
+  // Code, math, links, headings and tables must come through exactly
+  issues.push(...verifyStructure(original, formatted));
+
   // Determine if content is preserved
   const isPreserved =
     preservationPercentage >= 98 &&
@@ -279,10 +475,17 @@ export function generateVerificationReport(result: VerificationResult): string {
     lines.push('Issues Found:');
     for (const issue of result.issues) {
       const icon = issue.severity === 'error' ? '[ERROR]' : issue.severity === 'warning' ? '[WARN]' : '[INFO]';
-      lines.push(`  ${icon} ${issue.description}`);
+      const where = [
+        issue.location?.originalLine && `original line ${issue.location.originalLine}`,
+        issue.location?.formattedLine && `formatted line ${issue.location.formattedLine}`,
+      ].filter(Boolean).join(', ');
+      lines.push(`  ${icon} ${issue.description}${where ? ` (${where})` : ''}`);
       if (issue.originalText) {
         lines.push(`        Original: "${issue.originalText}"`);
       }
+      if (issue.formattedText) {
+        lines.push(`        Formatted: "${issue.formattedText}"`);
+      }
     }
   } else {
     lines.push('No issues found.');
@@ -0,0 +1,320 @@
+/**
+ * Review workflow for books published with publishMode 'pull-request': saves
+ * go to a draft/<chapter> branch with a pull request summarizing the changed
+ * chapters, the book's workflow builds a preview site for every draft branch,
+ * and drafts are merged (or closed) from the library.
+ *
+ * Server-only: used by the /api/github routes.
+ */
+
+import type { Octokit } from '@octokit/rest';
+import { extractPage } from '@/lib/bookImport';
+import { countWords } from '@/lib/formatters';
+import { readRepoFile } from '@/lib/githubSync';
+
+export const DRAFT_BRANCH_PREFIX = 'draft/';
+// Full publishes in review mode all go to the same branch
+export const BOOK_DRAFT_BRANCH = `${DRAFT_BRANCH_PREFIX}book-update`;
+// Where the workflow puts each draft branch's preview inside the Pages site
+export const PREVIEWS_DIR = 'previews';
+// The generated workflow (.github/workflows/deploy.yml), dispatched to rebuild previews
+const DEPLOY_WORKFLOW = 'deploy.yml';
+
+export interface DraftChapterChange {
+  path: string;
+  title: string;
+  status: 'added' | 'modified' | 'removed';
+  wordsBefore: number;
+  wordsAfter: number;
+}
+
+export interface DraftPullRequest {
+  number: number;
+  title: string;
+  url: string;
+  branch: string;
+  previewUrl: string;
+  changes: DraftChapterChange[];
+  // null while GitHub is still checking
+  mergeable?: boolean | null;
+  updatedAt?: string;
+}
+
+export const draftBranchForChapter = (slug: string) => `${DRAFT_BRANCH_PREFIX}${slug}`;
+
+/**
+ * Directory name of a draft branch's preview - the workflow derives the same
+ * name from the branch with `${branch//\//-}`
+ */
+export const previewSlug = (branch: string) =>
+  branch.slice(DRAFT_BRANCH_PREFIX.length).replace(/\//g, '-');
+
+export const getPreviewUrl = (owner: string, repo: string, branch: string) =>
+  `https://${owner}.github.io/${repo}/${PREVIEWS_DIR}/${previewSlug(branch)}/`;
+
+/**
+ * Head commit of a draft branch, creating the branch at baseSha if it doesn't exist
+ */
+export async function ensureDraftBranch(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string,
+  baseSha: string
+): Promise<string> {
+  try {
+    const { data } = await octokit.git.getRef({ owner, repo, ref: `heads/${branch}` });
+    return data.object.sha;
+  } catch (err) {
+    if ((err as { status?: number }).status !== 404) throw err;
+  }
+
+  await octokit.git.createRef({ owner, repo, ref: `refs/heads/${branch}`, sha: baseSha });
+  return baseSha;
+}
+
+/**
+ * Point a draft branch at a commit, creating it if needed. Full publishes
+ * rebuild the whole book on the base branch, so the old draft is replaced.
+ */
+export async function setDraftBranch(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string,
+  commitSha: string
+): Promise<void> {
+  try {
+    await octokit.git.updateRef({ owner, repo, ref: `heads/${branch}`, sha: commitSha, force: true });
+  } catch (err) {
+    if ((err as { status?: number }).status !== 422) throw err;
+    await octokit.git.createRef({ owner, repo, ref: `refs/heads/${branch}`, sha: commitSha });
+  }
+}
+
+async function deleteDraftBranch(octokit: Octokit, owner: string, repo: string, branch: string): Promise<void> {
+  try {
+    await octokit.git.deleteRef({ owner, repo, ref: `heads/${branch}` });
+  } catch (err) {
+    // Already deleted, e.g. by the repository's auto-delete setting
+    console.warn(`[PULLS] Could not delete ${branch}:`, err);
+  }
+}
+
+const wordsIn = (markdown: string | undefined) => (markdown ? countWords(extractPage(markdown).content) : 0);
+
+/**
+ * Chapter pages changed on a draft branch, with word counts before and after
+ */
+export async function summarizeDraftChanges(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  base: string,
+  branch: string
+): Promise<DraftChapterChange[]> {
+  const { data } = await octokit.repos.compareCommitsWithBasehead({
+    owner,
+    repo,
+    basehead: `${base}...${branch}`,
+  });
+  const forkPoint = data.merge_base_commit.sha;
+
+  const changes: DraftChapterChange[] = [];
+  for (const file of data.files || []) {
+    if (!file.filename.endsWith('.md') || file.status === 'unchanged') continue;
+
+    const status = file.status === 'added' || file.status === 'removed' ? file.status : 'modified';
+    const before = status === 'added'
+      ? null
+      : await readRepoFile(octokit, owner, repo, file.previous_filename || file.filename, forkPoint);
+    const after = status === 'removed' ? null : await readRepoFile(octokit, owner, repo, file.filename, branch);
+
+    changes.push({
+      path: file.filename,
+      title: extractPage((after || before)?.content || '').title || file.filename,
+      status,
+      wordsBefore: wordsIn(before?.content),
+      wordsAfter: wordsIn(after?.content),
+    });
+  }
+
+  return changes;
+}
+
+function buildPullRequestBody(changes: DraftChapterChange[], previewUrl: string): string {
+  const formatCount = (n: number) => n.toLocaleString('en-US');
+  const rows = changes.map(change => {
+    const delta = change.wordsAfter - change.wordsBefore;
+    const title = change.title.replace(/\|/g, '\\|');
+    return `| ${title} (\`${change.path}\`) | ${change.status} | ${formatCount(change.wordsBefore)} | ${formatCount(change.wordsAfter)} | ${delta > 0 ? '+' : ''}${formatCount(delta)} |`;
+  });
+
+  return `Changes saved from Book Builder to ${changes.length} page${changes.length === 1 ? '' : 's'}.
+
+| Page | Status | Words before | Words after | Change |
+| --- | --- | ---: | ---: | ---: |
+${rows.join('\n')}
+
+**Preview:** ${previewUrl} (updated when the deploy workflow finishes)
+
+Merge from the book's page in Book Builder, or here on GitHub.
+`;
+}
+
+/**
+ * Open a pull request for a draft branch, or refresh the summary of the one
+ * already open
+ */
+export async function openDraftPullRequest(params: {
+  octokit: Octokit;
+  owner: string;
+  repo: string;
+  base: string;
+  branch: string;
+  title: string;
+}): Promise<DraftPullRequest> {
+  const { octokit, owner, repo, base, branch, title } = params;
+
+  const changes = await summarizeDraftChanges(octokit, owner, repo, base, branch);
+  const previewUrl = getPreviewUrl(owner, repo, branch);
+  const body = buildPullRequestBody(changes, previewUrl);
+
+  const { data: open } = await octokit.pulls.list({
+    owner,
+    repo,
+    state: 'open',
+    head: `${owner}:${branch}`,
+    base,
+  });
+
+  const { data: pr } = open[0]
+    ? await octokit.pulls.update({ owner, repo, pull_number: open[0].number, title, body })
+    : await octokit.pulls.create({ owner, repo, base, head: branch, title, body });
+
+  console.log(`[PULLS] ${owner}/${repo}#${pr.number} ${open[0] ? 'updated' : 'opened'} for ${branch}`);
+
+  return { number: pr.number, title: pr.title, url: pr.html_url, branch, previewUrl, changes };
+}
+
+/**
+ * Run the deploy workflow on the base branch so it rebuilds the draft previews.
+ * GitHub Pages only deploys from the default branch, so previews can't be built
+ * by a run on the draft branch itself. Returns null if the dispatch failed, and
+ * the run once GitHub has registered it.
+ */
+export async function requestPreviewBuild(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  base: string
+): Promise<{ runId?: number; runUrl?: string } | null> {
+  const dispatchedAt = Date.now();
+  try {
+    await octokit.actions.createWorkflowDispatch({ owner, repo, workflow_id: DEPLOY_WORKFLOW, ref: base });
+  } catch (err) {
+    console.warn(`[PULLS] Could not start a preview build for ${owner}/${repo}:`, err);
+    return null;
+  }
+
+  try {
+    // Dispatch doesn't return the run - wait a moment for GitHub to register it
+    await new Promise(resolve => setTimeout(resolve, 2000));
+    const { data } = await octokit.actions.listWorkflowRunsForRepo({
+      owner,
+      repo,
+      event: 'workflow_dispatch',
+      branch: base,
+      per_page: 1,
+    });
+    const run = data.workflow_runs[0];
+    // Allow for clock skew between us and GitHub
+    if (run && new Date(run.created_at).getTime() > dispatchedAt - 10000) {
+      return { runId: run.id, runUrl: run.html_url };
+    }
+  } catch (err) {
+    console.warn('[PULLS] Failed to check preview build status:', err);
+  }
+  return {};
+}
+
+/**
+ * Open pull requests from Book Builder's draft branches
+ */
+export async function listDraftPullRequests(
+  octokit: Octokit,
+  owner: string,
+  repo: string
+): Promise<DraftPullRequest[]> {
+  const { data: pulls } = await octokit.pulls.list({ owner, repo, state: 'open', per_page: 100 });
+  const drafts = pulls.filter(pr =>
+    pr.head.ref.startsWith(DRAFT_BRANCH_PREFIX) && pr.head.repo?.full_name === pr.base.repo.full_name
+  );
+
+  return Promise.all(drafts.map(async pr => {
+    // mergeable is only computed on the single-PR endpoint
+    const { data: detail } = await octokit.pulls.get({ owner, repo, pull_number: pr.number });
+    return {
+      number: pr.number,
+      title: pr.title,
+      url: pr.html_url,
+      branch: pr.head.ref,
+      previewUrl: getPreviewUrl(owner, repo, pr.head.ref),
+      changes: await summarizeDraftChanges(octokit, owner, repo, pr.base.ref, pr.head.ref),
+      mergeable: detail.mergeable,
+      updatedAt: pr.updated_at,
+    };
+  }));
+}
+
+async function getDraftPullRequest(octokit: Octokit, owner: string, repo: string, number: number) {
+  const { data: pr } = await octokit.pulls.get({ owner, repo, pull_number: number });
+  if (!pr.head.ref.startsWith(DRAFT_BRANCH_PREFIX)) {
+    throw new Error(`#${number} is not a Book Builder draft`);
+  }
+  return pr;
+}
+
+/**
+ * Squash-merge a draft and delete its branch. Returns the merge commit and the
+ * files it changed.
+ */
+export async function mergeDraftPullRequest(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  number: number
+): Promise<{ sha: string; paths: string[] }> {
+  const pr = await getDraftPullRequest(octokit, owner, repo, number);
+  const { data: files } = await octokit.pulls.listFiles({ owner, repo, pull_number: number, per_page: 100 });
+
+  const { data: merge } = await octokit.pulls.merge({
+    owner,
+    repo,
+    pull_number: number,
+    merge_method: 'squash',
+    commit_title: `${pr.title} (#${number})`,
+  });
+
+  await deleteDraftBranch(octokit, owner, repo, pr.head.ref);
+  console.log(`[PULLS] ${owner}/${repo}#${number} merged as ${merge.sha.slice(0, 7)}`);
+
+  return {
+    sha: merge.sha,
+    paths: files.filter(file => file.status !== 'removed').map(file => file.filename),
+  };
+}
+
+/**
+ * Close a draft without merging and delete its branch
+ */
+export async function closeDraftPullRequest(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  number: number
+): Promise<void> {
+  const pr = await getDraftPullRequest(octokit, owner, repo, number);
+  await octokit.pulls.update({ owner, repo, pull_number: number, state: 'closed' });
+  await deleteDraftBranch(octokit, owner, repo, pr.head.ref);
+}
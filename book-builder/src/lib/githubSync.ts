@@ -0,0 +1,274 @@
+/**
+ * GitHub sync - remembers the version of each chapter file the library and
+ * the repository last agreed on (lq21_github_sync_state), so edits made on
+ * GitHub are pulled in or three-way merged instead of overwritten.
+ *
+ * Server-only: used by the /api/github routes with the caller's session, so
+ * RLS keeps every user to their own sync state.
+ */
+
+import { createHash } from 'crypto';
+import type { Octokit } from '@octokit/rest';
+import type { ApiUser } from '@/lib/supabase/server';
+import { LQ21GitHubSyncState } from '@/lib/supabase/types';
+import { extractPage } from '@/lib/bookImport';
+import { applyResolutions, compareText, mergeText, type MergeResult } from '@/lib/textMerge';
+
+export interface ChapterFields {
+  title: string;
+  description?: string;
+  content: string;
+}
+
+/**
+ * - unchanged: GitHub still has the last-synced version (or the same text)
+ * - missing: the file isn't in the repository
+ * - pulled: only GitHub changed - take its version
+ * - merged: both sides changed different lines
+ * - conflict: both sides changed the same lines
+ */
+export type ChapterSyncStatus = 'unchanged' | 'missing' | 'pulled' | 'merged' | 'conflict';
+
+export interface ChapterSyncResult {
+  path: string;
+  status: ChapterSyncStatus;
+  // Blob of the file on GitHub - the version a pull or merge was made against
+  remoteSha: string | null;
+  // pulled / merged: what the chapter should become. conflict: merged title and description
+  chapter?: ChapterFields;
+  // conflict: chapter content, chunk by chunk
+  merge?: MergeResult;
+}
+
+export interface BookChapterSyncResult extends ChapterSyncResult {
+  chapterId: string;
+}
+
+export interface SyncedFile {
+  path: string;
+  blobSha: string;
+}
+
+export interface RemoteFile {
+  sha: string;
+  content: string;
+}
+
+const repoKey = (owner: string, repo: string) => `${owner}/${repo}`.toLowerCase();
+
+/**
+ * The blob SHA GitHub gives a file with this content
+ */
+export function gitBlobSha(content: string): string {
+  const data = Buffer.from(content, 'utf-8');
+  return createHash('sha1').update(`blob ${data.length}\0`).update(data).digest('hex');
+}
+
+/**
+ * Last-synced state of every file in a repository, by path
+ */
+export async function fetchSyncStates(
+  apiUser: ApiUser,
+  owner: string,
+  repo: string
+): Promise<Map<string, LQ21GitHubSyncState>> {
+  const { data, error } = await apiUser.supabase
+    .from('lq21_github_sync_state')
+    .select('*')
+    .eq('github_repo', repoKey(owner, repo));
+
+  if (error) {
+    console.warn('[SYNC] Failed to load sync state:', error);
+    return new Map();
+  }
+  return new Map((data as LQ21GitHubSyncState[]).map(state => [state.path, state]));
+}
+
+/**
+ * Mark files as in sync at a commit. Never throws - the push or pull already
+ * happened; the next sync just has less to go on.
+ */
+export async function recordSyncStates(
+  apiUser: ApiUser,
+  info: { bookId?: string | null; owner: string; repo: string; commitSha: string; files: SyncedFile[] }
+): Promise<void> {
+  if (info.files.length === 0) return;
+
+  try {
+    const syncedAt = new Date().toISOString();
+    const { error } = await apiUser.supabase
+      .from('lq21_github_sync_state')
+      .upsert(
+        info.files.map(file => ({
+          user_id: apiUser.user.id,
+          book_id: info.bookId || null,
+          github_repo: repoKey(info.owner, info.repo),
+          path: file.path,
+          commit_sha: info.commitSha,
+          blob_sha: file.blobSha,
+          synced_at: syncedAt,
+        })),
+        { onConflict: 'user_id,github_repo,path' }
+      );
+
+    if (error) throw error;
+  } catch (err) {
+    console.warn('[SYNC] Failed to record sync state:', err);
+  }
+}
+
+export async function readBlob(octokit: Octokit, owner: string, repo: string, sha: string): Promise<string> {
+  const { data } = await octokit.git.getBlob({ owner, repo, file_sha: sha });
+  return Buffer.from(data.content, data.encoding === 'base64' ? 'base64' : 'utf-8').toString('utf-8');
+}
+
+/**
+ * A file from the repository, or null if it doesn't exist
+ */
+export async function readRepoFile(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  path: string,
+  ref?: string
+): Promise<RemoteFile | null> {
+  try {
+    const { data } = await octokit.repos.getContent({ owner, repo, path, ref });
+    if (!('sha' in data) || Array.isArray(data)) return null;
+    const content = 'content' in data && data.content
+      ? Buffer.from(data.content, 'base64').toString('utf-8')
+      // Files over 1 MB come back without content
+      : await readBlob(octokit, owner, repo, data.sha);
+    return { sha: data.sha, content };
+  } catch (err) {
+    if ((err as { status?: number }).status === 404) return null;
+    throw err;
+  }
+}
+
+/**
+ * Blob SHA of every file on a commit, by path
+ */
+export async function readRepoTree(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  commitSha: string
+): Promise<{ treeSha: string; blobs: Map<string, string> }> {
+  const { data: commit } = await octokit.git.getCommit({ owner, repo, commit_sha: commitSha });
+  const { data: tree } = await octokit.git.getTree({
+    owner,
+    repo,
+    tree_sha: commit.tree.sha,
+    recursive: 'true',
+  });
+
+  const blobs = new Map<string, string>();
+  for (const item of tree.tree) {
+    if (item.type === 'blob' && item.path && item.sha) blobs.set(item.path, item.sha);
+  }
+  return { treeSha: commit.tree.sha, blobs };
+}
+
+/**
+ * The file as it was last synced. Files synced before sync state was recorded
+ * fall back to the repository's last recorded deployment.
+ */
+async function readBase(
+  octokit: Octokit,
+  apiUser: ApiUser,
+  owner: string,
+  repo: string,
+  path: string,
+  state: LQ21GitHubSyncState | undefined
+): Promise<string | null> {
+  try {
+    if (state) return await readBlob(octokit, owner, repo, state.blob_sha);
+
+    const { data: deployment } = await apiUser.supabase
+      .from('lq21_github_deployments')
+      .select('commit_sha')
+      .eq('github_repo_url', `https://github.com/${owner}/${repo}`)
+      .not('commit_sha', 'is', null)
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!deployment?.commit_sha) return null;
+    const file = await readRepoFile(octokit, owner, repo, path, deployment.commit_sha);
+    return file?.content ?? null;
+  } catch (err) {
+    console.warn(`[SYNC] Could not read the synced version of ${path}:`, err);
+    return null;
+  }
+}
+
+const pageFields = (markdown: string, fallbackTitle: string): ChapterFields => {
+  const page = extractPage(markdown);
+  return { title: page.title || fallbackTitle, description: page.description, content: page.content };
+};
+
+// Take whichever side changed a field; the library wins if both did
+const pick = <T>(base: T, local: T, remote: T): T => (local !== base ? local : remote);
+
+/**
+ * Compare a library chapter with its file on GitHub, using the last-synced
+ * version of the file as the common ancestor.
+ */
+export async function syncChapter(params: {
+  octokit: Octokit;
+  apiUser: ApiUser;
+  owner: string;
+  repo: string;
+  path: string;
+  local: ChapterFields;
+  state: LQ21GitHubSyncState | undefined;
+  remote: RemoteFile | null;
+}): Promise<ChapterSyncResult> {
+  const { octokit, apiUser, owner, repo, path, state, remote } = params;
+
+  if (!remote) return { path, status: 'missing', remoteSha: null };
+  if (state?.blob_sha === remote.sha) return { path, status: 'unchanged', remoteSha: remote.sha };
+
+  const theirs = pageFields(remote.content, params.local.title);
+  const baseText = await readBase(octokit, apiUser, owner, repo, path, state);
+  const base = baseText !== null ? pageFields(baseText, params.local.title) : null;
+
+  // A chapter without content is the placeholder page on GitHub - nothing to lose locally
+  const local = { ...params.local, content: params.local.content.trim() || base?.content || theirs.content };
+
+  if (local.content === theirs.content && local.title === theirs.title) {
+    return { path, status: 'unchanged', remoteSha: remote.sha };
+  }
+
+  if (!base) {
+    return {
+      path,
+      status: 'conflict',
+      remoteSha: remote.sha,
+      chapter: local,
+      merge: compareText(local.content, theirs.content),
+    };
+  }
+
+  const fields = {
+    title: pick(base.title, local.title, theirs.title),
+    description: pick(base.description || '', local.description || '', theirs.description || '') || undefined,
+  };
+
+  if (local.content === base.content) {
+    return { path, status: 'pulled', remoteSha: remote.sha, chapter: { ...fields, content: theirs.content } };
+  }
+
+  const merge = mergeText(base.content, local.content, theirs.content);
+  if (merge.conflicts > 0) {
+    return { path, status: 'conflict', remoteSha: remote.sha, chapter: { ...fields, content: local.content }, merge };
+  }
+
+  return {
+    path,
+    status: 'merged',
+    remoteSha: remote.sha,
+    chapter: { ...fields, content: applyResolutions(merge, []) },
+  };
+}
@@ -4,6 +4,8 @@
 
 import { BookConfig, Chapter, BookLevelFeature } from '@/types';
 import { BOOK_LEVEL_FEATURES } from '@/data/bookLevelFeatures';
+import { generateBookMatterPages, generateMatterTocYaml } from './bookMatter';
+import { generateExportsYaml, getBookExports } from './bookExports';
 
 export function generateMystConfig(bookConfig: BookConfig): string {
   const enabledFeatures = bookConfig.features.filter((f) => f.enabled);
@@ -17,7 +19,6 @@ export function generateMystConfig(bookConfig: BookConfig): string {
   const siteOptions: Record<string, unknown> = {
     style: 'styles.css',
   };
-  const exportOptions: Record<string, unknown> = {};
   const jupyterOptions: Record<string, unknown> = {};
 
   // Process enabled book features
@@ -29,8 +30,6 @@ export function generateMystConfig(bookConfig: BookConfig): string {
 
     if (parts[0] === 'site' && parts[1] === 'options' && parts[2]) {
       siteOptions[parts[2]] = value;
-    } else if (parts[0] === 'export' && parts[1]) {
-      exportOptions[parts[1]] = value;
     } else if (parts[0] === 'jupyter' && parts[1]) {
       jupyterOptions[parts[1]] = value;
     }
@@ -67,16 +66,10 @@ export function generateMystConfig(bookConfig: BookConfig): string {
     }
   }
 
-  // Build export section
-  let exportSection = '';
-  if (Object.keys(exportOptions).length > 0) {
-    exportSection = `\nexport:\n`;
-    for (const [key, value] of Object.entries(exportOptions)) {
-      if (typeof value === 'object' && value !== null && (value as Record<string, unknown>).enabled) {
-        exportSection += `  ${key}: true\n`;
-      }
-    }
-  }
+  // Build project.exports from the enabled export features
+  const exportsYaml = generateExportsYaml(getBookExports(bookConfig), 2);
+  const exportsSection = exportsYaml ? `${exportsYaml}
+` : '';
 
   // Build jupyter section
   const jupyterConfig = new Map<string, boolean>();
@@ -116,8 +109,8 @@ ${bookConfig.description ? `  description: "${bookConfig.description}"` : ''}
     - name: "${bookConfig.author}"
 ${bookConfig.github ? `  github: https://github.com/${bookConfig.github.username}/${bookConfig.github.repoName}` : ''}
 ${jupyterSection ? jupyterSection : ''}  toc:
-${generateTocYaml(bookConfig.tableOfContents.chapters, 4)}
-
+${generateBookTocYaml(bookConfig)}
+${exportsSection}
 site:
   template: book-theme
   title: "${bookConfig.title}"
@@ -132,7 +125,21 @@ ${optionsSection}  actions:
       url: .
   parts:
     footer: footer.md
-${exportSection}`;
+`;
+}
+
+/**
+ * Full book TOC: front matter pages, the chapters, then back matter pages
+ */
+export function generateBookTocYaml(bookConfig: BookConfig): string {
+  const matterPages = generateBookMatterPages(bookConfig);
+  return [
+    generateMatterTocYaml(matterPages, 'front-matter', 4),
+    generateTocYaml(bookConfig.tableOfContents.chapters, 4),
+    generateMatterTocYaml(matterPages, 'back-matter', 4),
+  ]
+    .filter(Boolean)
+    .join('\n');
 }
 
 export function generateTocYaml(chapters: Chapter[], indent: number, isTopLevel = true): string {
@@ -0,0 +1,43 @@
+/**
+ * Team roles and what each one may do in the library. Row-level security
+ * enforces the same rules; these only decide what the UI offers.
+ */
+
+import type { LQ21Book, LQ21OrganizationMember } from '@/lib/supabase/types';
+
+export type OrganizationRole = LQ21OrganizationMember['role'];
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = ['owner', 'editor', 'reviewer', 'viewer'];
+
+export const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  reviewer: 'Reviewer',
+  viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+  owner: 'Manages members and shared credentials',
+  editor: 'Writes, generates and publishes books',
+  reviewer: 'Reads books, comments and suggests edits, and reviews drafts',
+  viewer: 'Reads books',
+};
+
+/**
+ * The signed-in user's role on a book: owner of their own books, otherwise
+ * their role in the book's team (null if they have none)
+ */
+export function getBookRole(
+  book: Pick<LQ21Book, 'owner_id' | 'organization_id'>,
+  userId: string | undefined,
+  teamRoles: Map<string, OrganizationRole>
+): OrganizationRole | null {
+  if (book.owner_id === userId) return 'owner';
+  return book.organization_id ? teamRoles.get(book.organization_id) ?? null : null;
+}
+
+export const canEdit = (role: OrganizationRole | null) => role === 'owner' || role === 'editor';
+
+export const canReview = (role: OrganizationRole | null) => canEdit(role) || role === 'reviewer';
+
+export const canManage = (role: OrganizationRole | null) => role === 'owner';
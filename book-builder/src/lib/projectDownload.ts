@@ -0,0 +1,39 @@
+/**
+ * Download a book's generated MyST project as a ZIP via /api/export/zip
+ */
+
+import { BookConfig } from '@/types';
+
+export async function downloadProjectZip(bookConfig: BookConfig): Promise<void> {
+  // The archive only needs the repository name - never send the token along
+  const exportConfig: BookConfig = {
+    ...bookConfig,
+    github: bookConfig.github
+      ? { username: bookConfig.github.username, repoName: bookConfig.github.repoName }
+      : undefined,
+  };
+
+  const response = await fetch('/api/export/zip', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ bookConfig: exportConfig }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || `Export failed (${response.status})`);
+  }
+
+  const filename = response.headers
+    .get('Content-Disposition')
+    ?.match(/filename="([^"]+)"/)?.[1] || 'book.zip';
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,138 @@
+/**
+ * Remediation queue worker - runs an audit's queued jobs one at a time
+ * through /api/ai/remediate, feeding each job the output of the last.
+ *
+ * A job only completes when the feature is detected in the new content and
+ * the existing text survived; otherwise it goes back to the queue until it
+ * runs out of attempts.
+ */
+
+import { AIProvider } from '@/types';
+import { countWords } from '@/lib/formatters';
+import { isFeaturePresent } from '@/lib/featureAudit';
+import { trackGenerationRun } from '@/lib/supabase/generationHistory';
+import { recordChapterRevision } from '@/lib/supabase/chapterRevisions';
+import {
+  fetchNextRemediationJob,
+  startRemediationJob,
+  completeRemediationJob,
+  failRemediationJob,
+  skipPendingRemediationJobs,
+  type FeatureAuditScope,
+} from '@/lib/supabase/featureAudits';
+import { LQ21RemediationQueue } from '@/lib/supabase/types';
+
+export interface RemediationWorkerOptions {
+  scope: FeatureAuditScope;
+  auditId: string;
+  chapterTitle: string;
+  // MyST content before the first job runs
+  content: string;
+  provider: AIProvider;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  // Called whenever a job changes status
+  onJobUpdate?: (job: LQ21RemediationQueue) => void;
+  // Called with the chapter content after each completed job
+  onContent?: (content: string, job: LQ21RemediationQueue) => void;
+  signal?: AbortSignal;
+}
+
+export interface RemediationWorkerResult {
+  content: string;
+  completed: number;
+  failed: number;
+}
+
+// Remediation only adds content, so anything shorter than this lost text
+const MIN_PRESERVATION = 0.98;
+
+async function requestRemediation(
+  options: RemediationWorkerOptions,
+  job: LQ21RemediationQueue,
+  content: string
+): Promise<string> {
+  const response = await fetch('/api/ai/remediate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      content,
+      chapterTitle: options.chapterTitle,
+      featureId: job.feature_id,
+      provider: options.provider,
+      apiKey: options.apiKey,
+      baseUrl: options.baseUrl,
+      model: options.model,
+      bookId: options.scope.bookId,
+      chapterId: options.scope.chapterKey,
+    }),
+    signal: options.signal,
+  });
+  trackGenerationRun(response, options.scope.bookId);
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success || !data.remediatedContent) {
+    throw new Error(data.error || `Remediation request failed (${response.status})`);
+  }
+  return data.remediatedContent;
+}
+
+/**
+ * Process every pending job for an audit. Failed attempts are retried until
+ * the job's max_attempts is reached; stopping via the signal skips the rest.
+ */
+export async function runRemediationQueue(options: RemediationWorkerOptions): Promise<RemediationWorkerResult> {
+  let content = options.content;
+  let completed = 0;
+  let failed = 0;
+
+  while (!options.signal?.aborted) {
+    const next = await fetchNextRemediationJob(options.auditId);
+    if (!next) break;
+
+    const job = await startRemediationJob(next, content);
+    options.onJobUpdate?.(job);
+
+    let remediated: string | null = null;
+    try {
+      remediated = await requestRemediation(options, job, content);
+
+      if (!isFeaturePresent(remediated, job.feature_id)) {
+        throw new Error(`${job.feature_name} was not found in the AI output`);
+      }
+      const before = countWords(content);
+      const after = countWords(remediated);
+      if (after < before * MIN_PRESERVATION) {
+        throw new Error(`Content was lost (${after.toLocaleString()} of ${before.toLocaleString()} words kept)`);
+      }
+
+      const done = await completeRemediationJob(job, remediated);
+      content = remediated;
+      completed++;
+      options.onJobUpdate?.(done);
+      options.onContent?.(content, done);
+
+      await recordChapterRevision({
+        ...options.scope,
+        title: options.chapterTitle,
+        content,
+        source: 'remediation',
+      });
+    } catch (err) {
+      console.error(`[REMEDIATION] ${job.feature_id} attempt ${job.attempts}/${job.max_attempts} failed:`, err);
+      // Stopping the worker isn't the job's fault, so it never uses up the last attempt
+      const updated = options.signal?.aborted
+        ? await failRemediationJob({ ...job, attempts: job.attempts - 1 }, err, remediated)
+        : await failRemediationJob(job, err, remediated);
+      if (updated.status === 'failed') failed++;
+      options.onJobUpdate?.(updated);
+    }
+  }
+
+  if (options.signal?.aborted) {
+    await skipPendingRemediationJobs(options.auditId);
+  }
+
+  return { content, completed, failed };
+}
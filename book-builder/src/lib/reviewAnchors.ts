@@ -0,0 +1,183 @@
+/**
+ * Anchoring review comments and suggestions to ranges of a chapter's text.
+ *
+ * A range is saved with the text it covers and a little context either side,
+ * so it can be found again after the chapter has been edited around it.
+ */
+
+import { diffOps } from './textDiff';
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface TextAnchor extends TextRange {
+  quote: string;
+  prefix: string;
+  suffix: string;
+}
+
+// A suggested replacement of one range of the text
+export interface TextChange {
+  anchor: TextAnchor;
+  text: string;
+}
+
+// Characters of context kept either side of the quote
+const CONTEXT_LENGTH = 32;
+
+export function createAnchor(text: string, { start, end }: TextRange): TextAnchor {
+  return {
+    start,
+    end,
+    quote: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+    suffix: text.slice(end, end + CONTEXT_LENGTH),
+  };
+}
+
+// How much of the saved context still surrounds a candidate range
+function contextScore(text: string, anchor: TextAnchor, start: number, end: number): number {
+  let score = 0;
+  while (
+    score < anchor.prefix.length &&
+    text[start - 1 - score] === anchor.prefix[anchor.prefix.length - 1 - score]
+  ) {
+    score++;
+  }
+  let after = 0;
+  while (after < anchor.suffix.length && text[end + after] === anchor.suffix[after]) {
+    after++;
+  }
+  return score + after;
+}
+
+/**
+ * Where an anchor's range is in the text now: where it was if the quote is
+ * still there, otherwise the occurrence of the quote with the most context
+ * intact (nearest the old position on a tie). Null once the quote is gone.
+ */
+export function resolveAnchor(text: string, anchor: TextAnchor): TextRange | null {
+  const fullContext = anchor.prefix.length + anchor.suffix.length;
+  if (
+    text.slice(anchor.start, anchor.end) === anchor.quote &&
+    (anchor.quote || contextScore(text, anchor, anchor.start, anchor.end) === fullContext)
+  ) {
+    return { start: anchor.start, end: anchor.end };
+  }
+
+  // An insertion point has no quote to look for, only the context around it
+  const needle = anchor.quote || anchor.prefix + anchor.suffix;
+  if (!needle) return null;
+  const offset = anchor.quote ? 0 : anchor.prefix.length;
+
+  let best: TextRange | null = null;
+  let bestScore = -1;
+  let bestDistance = Infinity;
+  for (let index = text.indexOf(needle); index !== -1; index = text.indexOf(needle, index + 1)) {
+    const start = index + offset;
+    const end = start + anchor.quote.length;
+    const score = contextScore(text, anchor, start, end);
+    const distance = Math.abs(start - anchor.start);
+    if (score > bestScore || (score === bestScore && distance < bestDistance)) {
+      best = { start, end };
+      bestScore = score;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Find text selected in a rendered view (rich editor or preview) in the
+ * markdown source. Line breaks and spacing can differ between the two.
+ */
+export function findQuote(text: string, selected: string, near = 0): TextRange | null {
+  const quote = selected.trim();
+  if (!quote) return null;
+
+  const pattern = new RegExp(
+    quote
+      .split(/\s+/)
+      .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('\\s+'),
+    'g'
+  );
+
+  let best: TextRange | null = null;
+  for (const match of text.matchAll(pattern)) {
+    const range = { start: match.index, end: match.index + match[0].length };
+    if (!best || Math.abs(range.start - near) < Math.abs(best.start - near)) best = range;
+  }
+  return best;
+}
+
+export function replaceRange(text: string, { start, end }: TextRange, replacement: string): string {
+  return text.slice(0, start) + replacement + text.slice(end);
+}
+
+/**
+ * Turn an edited copy of the text into separate suggested changes, one per
+ * run of changed lines, each narrowed to the characters that actually differ
+ */
+export function diffToChanges(original: string, edited: string): TextChange[] {
+  // Work as if both ended with a newline, so every line is followed by one
+  const oldText = original + '\n';
+  const newText = edited + '\n';
+  const changes: TextChange[] = [];
+  let oldPosition = 0;
+  let newPosition = 0;
+  let hunk: { oldStart: number; newStart: number } | null = null;
+
+  const flush = () => {
+    if (!hunk) return;
+    let { oldStart, newStart } = hunk;
+    let oldEnd = oldPosition;
+    let newEnd = newPosition;
+    hunk = null;
+
+    while (oldStart < oldEnd && newStart < newEnd && oldText[oldStart] === newText[newStart]) {
+      oldStart++;
+      newStart++;
+    }
+    while (oldEnd > oldStart && newEnd > newStart && oldText[oldEnd - 1] === newText[newEnd - 1]) {
+      oldEnd--;
+      newEnd--;
+    }
+    if (oldStart === oldEnd && newStart === newEnd) return;
+
+    // Lines added or removed at the very end: take the newline before them
+    // rather than the one that isn't really there after them
+    if (oldEnd > original.length || newEnd > edited.length) {
+      oldStart--;
+      oldEnd--;
+      newStart--;
+      newEnd--;
+    }
+
+    changes.push({
+      anchor: createAnchor(original, { start: oldStart, end: oldEnd }),
+      text: newText.slice(newStart, newEnd),
+    });
+  };
+
+  for (const op of diffOps(original.split('\n'), edited.split('\n'))) {
+    const length = op.text.length + 1;
+    if (op.type === 'equal') {
+      flush();
+      oldPosition += length;
+      newPosition += length;
+      continue;
+    }
+    hunk ??= { oldStart: oldPosition, newStart: newPosition };
+    if (op.type === 'removed') {
+      oldPosition += length;
+    } else {
+      newPosition += length;
+    }
+  }
+  flush();
+
+  return changes;
+}
@@ -0,0 +1,133 @@
+import { getSupabaseClient, isSupabaseConfigured } from './client';
+import { LQ21ChapterRevision } from './types';
+import { countWords } from '@/lib/formatters';
+
+export type ChapterRevisionSource = LQ21ChapterRevision['source'];
+
+// Which chapter's history to read or write
+export interface ChapterRevisionScope {
+  bookId?: string | null;
+  chapterKey: string;
+}
+
+export interface ChapterRevisionInfo extends ChapterRevisionScope {
+  title?: string | null;
+  content: string;
+  source: ChapterRevisionSource;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Revisions saved in the wizard before the book is in the library (session storage)
+const UNASSIGNED_REVISIONS_KEY = 'book-builder-unassigned-revisions';
+
+const getUnassignedRevisionIds = (): string[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    return JSON.parse(sessionStorage.getItem(UNASSIGNED_REVISIONS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const setUnassignedRevisionIds = (ids: string[]): void => {
+  if (typeof window === 'undefined') return;
+  try {
+    if (ids.length > 0) {
+      sessionStorage.setItem(UNASSIGNED_REVISIONS_KEY, JSON.stringify(ids));
+    } else {
+      sessionStorage.removeItem(UNASSIGNED_REVISIONS_KEY);
+    }
+  } catch {
+    // Ignore storage errors
+  }
+};
+
+/**
+ * Revisions for one chapter, newest first
+ */
+export async function fetchChapterRevisions(scope: ChapterRevisionScope): Promise<LQ21ChapterRevision[]> {
+  const supabase = getSupabaseClient();
+  let query = supabase
+    .from('lq21_chapter_revisions')
+    .select('*')
+    .eq('chapter_key', scope.chapterKey);
+
+  if (scope.bookId) {
+    query = query.eq('book_id', scope.bookId);
+  } else {
+    // Wizard ids like "ch-1" repeat across books, so only this session's revisions count
+    const ids = getUnassignedRevisionIds();
+    if (ids.length === 0) return [];
+    query = query.is('book_id', null).in('id', ids);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Save a revision of a chapter. Skipped when the content matches the latest
+ * revision, so calling this on every save (and before AI overwrites) is cheap.
+ */
+export async function recordChapterRevision(info: ChapterRevisionInfo): Promise<LQ21ChapterRevision | null> {
+  if (!isSupabaseConfigured() || !info.content.trim()) return null;
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) return null;
+
+    const [latest] = await fetchChapterRevisions(info);
+    if (latest && latest.content === info.content) return null;
+
+    const { data, error } = await supabase
+      .from('lq21_chapter_revisions')
+      .insert({
+        user_id: userData.user.id,
+        author_name: userData.user.user_metadata?.full_name || userData.user.email || null,
+        book_id: info.bookId || null,
+        // Wizard chapters only get database ids once the book is in the library
+        chapter_id: UUID_PATTERN.test(info.chapterKey) ? info.chapterKey : null,
+        chapter_key: info.chapterKey,
+        title: info.title || null,
+        content: info.content,
+        word_count: countWords(info.content),
+        source: info.source,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    if (!info.bookId && data) {
+      setUnassignedRevisionIds([...getUnassignedRevisionIds(), data.id]);
+    }
+    return data;
+  } catch (err) {
+    console.warn('[REVISIONS] Failed to record chapter revision:', err);
+    return null;
+  }
+}
+
+/**
+ * Attach revisions saved before the book existed in the library to it
+ */
+export async function assignUnassignedRevisions(bookId: string): Promise<void> {
+  const ids = getUnassignedRevisionIds();
+  if (ids.length === 0 || !isSupabaseConfigured()) return;
+
+  try {
+    // History is append-only, so attaching goes through an RPC that only fills in book_id
+    const { error } = await getSupabaseClient().rpc('lq21_assign_chapter_revisions', {
+      p_book_id: bookId,
+      p_revision_ids: ids,
+    });
+
+    if (error) throw error;
+    setUnassignedRevisionIds([]);
+  } catch (err) {
+    console.warn('[REVISIONS] Failed to assign chapter revisions to book:', err);
+  }
+}
@@ -0,0 +1,288 @@
+import { getSupabaseClient, isSupabaseConfigured } from './client';
+import { LQ21FeatureAudit, LQ21RemediationQueue } from './types';
+import { MYST_FEATURES_DATA } from '@/data/mystFeatures';
+import type { FeatureAuditResult } from '@/lib/featureAudit';
+
+export type FeatureAuditSource = LQ21FeatureAudit['audited_by'];
+
+// Which chapter's audits and remediation jobs to read or write
+export interface FeatureAuditScope {
+  bookId?: string | null;
+  chapterKey: string;
+}
+
+export interface FeatureAuditInfo extends FeatureAuditScope {
+  result: FeatureAuditResult;
+  source: FeatureAuditSource;
+}
+
+// Attempts per job before it is marked failed
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Audits made in the wizard before the book is in the library (session storage).
+// Their remediation jobs are found through audit_id.
+const UNASSIGNED_AUDITS_KEY = 'book-builder-unassigned-audits';
+
+const getUnassignedAuditIds = (): string[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    return JSON.parse(sessionStorage.getItem(UNASSIGNED_AUDITS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const setUnassignedAuditIds = (ids: string[]): void => {
+  if (typeof window === 'undefined') return;
+  try {
+    if (ids.length > 0) {
+      sessionStorage.setItem(UNASSIGNED_AUDITS_KEY, JSON.stringify(ids));
+    } else {
+      sessionStorage.removeItem(UNASSIGNED_AUDITS_KEY);
+    }
+  } catch {
+    // Ignore storage errors
+  }
+};
+
+const featureName = (featureId: string) =>
+  MYST_FEATURES_DATA.find(f => f.id === featureId)?.name || featureId;
+
+/**
+ * Save an audit of a chapter's selected features. Returns null when signed
+ * out or Supabase isn't configured - the audit is still shown, just not kept.
+ */
+export async function saveFeatureAudit(info: FeatureAuditInfo): Promise<LQ21FeatureAudit | null> {
+  if (!isSupabaseConfigured() || info.result.selectedFeatures.length === 0) return null;
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) return null;
+
+    const { foundFeatures, missingFeatures } = info.result;
+    const total = foundFeatures.length + missingFeatures.length;
+
+    const { data, error } = await supabase
+      .from('lq21_feature_audits')
+      .insert({
+        user_id: userData.user.id,
+        book_id: info.bookId || null,
+        // Wizard chapters only get database ids once the book is in the library
+        chapter_id: UUID_PATTERN.test(info.chapterKey) ? info.chapterKey : null,
+        chapter_key: info.chapterKey,
+        total_features: total,
+        implemented_features: foundFeatures.length,
+        missing_features: missingFeatures.length,
+        implementation_percentage: total > 0 ? Math.round((foundFeatures.length / total) * 100) : 100,
+        audit_results: [
+          ...foundFeatures.map(id => ({ feature_id: id, feature_name: featureName(id), found: true })),
+          ...missingFeatures.map(id => ({ feature_id: id, feature_name: featureName(id), found: false })),
+        ],
+        suggestions: [],
+        audited_by: info.source,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    if (!info.bookId && data) {
+      setUnassignedAuditIds([...getUnassignedAuditIds(), data.id]);
+    }
+    return data;
+  } catch (err) {
+    console.warn('[AUDIT] Failed to save feature audit:', err);
+    return null;
+  }
+}
+
+/**
+ * Queue one remediation job per missing feature of an audit, in audit order
+ */
+export async function enqueueRemediation(audit: LQ21FeatureAudit): Promise<LQ21RemediationQueue[]> {
+  const missing = audit.audit_results.filter(result => !result.found);
+  if (missing.length === 0) return [];
+
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('lq21_remediation_queue')
+    .insert(missing.map((result, index) => ({
+      user_id: audit.user_id,
+      audit_id: audit.id,
+      book_id: audit.book_id,
+      chapter_id: audit.chapter_id,
+      chapter_key: audit.chapter_key,
+      feature_id: result.feature_id,
+      feature_name: result.feature_name,
+      status: 'pending',
+      priority: index,
+      max_attempts: DEFAULT_MAX_ATTEMPTS,
+    })))
+    .select();
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Remediation jobs for one chapter, newest audit first, then in queue order
+ */
+export async function fetchRemediationJobs(scope: FeatureAuditScope): Promise<LQ21RemediationQueue[]> {
+  const supabase = getSupabaseClient();
+  let query = supabase
+    .from('lq21_remediation_queue')
+    .select('*')
+    .eq('chapter_key', scope.chapterKey);
+
+  if (scope.bookId) {
+    query = query.eq('book_id', scope.bookId);
+  } else {
+    // Wizard ids like "ch-1" repeat across books, so only this session's audits count
+    const ids = getUnassignedAuditIds();
+    if (ids.length === 0) return [];
+    query = query.is('book_id', null).in('audit_id', ids);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('priority', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Next job to run for an audit, or null when the queue is drained
+ */
+export async function fetchNextRemediationJob(auditId: string): Promise<LQ21RemediationQueue | null> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('lq21_remediation_queue')
+    .select('*')
+    .eq('audit_id', auditId)
+    .eq('status', 'pending')
+    .order('priority', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Mark a job as running against the given chapter content
+ */
+export async function startRemediationJob(
+  job: LQ21RemediationQueue,
+  originalContent: string
+): Promise<LQ21RemediationQueue> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('lq21_remediation_queue')
+    .update({
+      status: 'in_progress',
+      attempts: job.attempts + 1,
+      original_content: originalContent,
+      error_message: null,
+      started_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    // Another tab may have picked the job up already
+    .eq('status', 'pending')
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function completeRemediationJob(
+  job: LQ21RemediationQueue,
+  remediatedContent: string
+): Promise<LQ21RemediationQueue> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('lq21_remediation_queue')
+    .update({
+      status: 'completed',
+      remediated_content: remediatedContent,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Record a failed attempt. The job goes back to pending until it runs out of attempts.
+ */
+export async function failRemediationJob(
+  job: LQ21RemediationQueue,
+  err: unknown,
+  remediatedContent: string | null = null
+): Promise<LQ21RemediationQueue> {
+  const exhausted = job.attempts >= job.max_attempts;
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('lq21_remediation_queue')
+    .update({
+      status: exhausted ? 'failed' : 'pending',
+      error_message: err instanceof Error ? err.message : String(err),
+      remediated_content: remediatedContent,
+      completed_at: exhausted ? new Date().toISOString() : null,
+    })
+    .eq('id', job.id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Skip every job still pending for an audit (used when the worker is stopped)
+ */
+export async function skipPendingRemediationJobs(auditId: string): Promise<void> {
+  const supabase = getSupabaseClient();
+  const { error } = await supabase
+    .from('lq21_remediation_queue')
+    .update({ status: 'skipped', completed_at: new Date().toISOString() })
+    .eq('audit_id', auditId)
+    .eq('status', 'pending');
+
+  if (error) throw error;
+}
+
+/**
+ * Attach audits and their remediation jobs saved before the book existed in the library to it
+ */
+export async function assignUnassignedAudits(bookId: string): Promise<void> {
+  const ids = getUnassignedAuditIds();
+  if (ids.length === 0 || !isSupabaseConfigured()) return;
+
+  try {
+    const supabase = getSupabaseClient();
+    // Audits are append-only, so attaching goes through an RPC that only fills in book_id
+    const { error } = await supabase.rpc('lq21_assign_feature_audits', {
+      p_book_id: bookId,
+      p_audit_ids: ids,
+    });
+    if (error) throw error;
+
+    const { error: queueError } = await supabase
+      .from('lq21_remediation_queue')
+      .update({ book_id: bookId })
+      .in('audit_id', ids)
+      .is('book_id', null);
+    if (queueError) throw queueError;
+
+    setUnassignedAuditIds([]);
+  } catch (err) {
+    console.warn('[AUDIT] Failed to assign feature audits to book:', err);
+  }
+}
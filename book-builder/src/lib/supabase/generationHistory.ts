@@ -0,0 +1,60 @@
+import { getSupabaseClient, isSupabaseConfigured } from './client';
+import { GENERATION_RUN_HEADER } from '@/lib/ai/generationRuns';
+
+// Runs made in the wizard before the book is saved to the library (session storage)
+const UNASSIGNED_RUNS_KEY = 'book-builder-unassigned-runs';
+
+const getUnassignedRunIds = (): string[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    return JSON.parse(sessionStorage.getItem(UNASSIGNED_RUNS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const setUnassignedRunIds = (ids: string[]): void => {
+  if (typeof window === 'undefined') return;
+  try {
+    if (ids.length > 0) {
+      sessionStorage.setItem(UNASSIGNED_RUNS_KEY, JSON.stringify(ids));
+    } else {
+      sessionStorage.removeItem(UNASSIGNED_RUNS_KEY);
+    }
+  } catch {
+    // Ignore storage errors
+  }
+};
+
+/**
+ * Note the run an AI route recorded for a response. The routes write history
+ * themselves; runs made in the wizard are only remembered here so they can be
+ * attached to the book once it is saved.
+ */
+export function trackGenerationRun(response: Response, bookId?: string | null): void {
+  const runId = response.headers.get(GENERATION_RUN_HEADER);
+  if (runId && !bookId) {
+    setUnassignedRunIds([...getUnassignedRunIds(), runId]);
+  }
+}
+
+/**
+ * Attach runs recorded before the book existed in the library to it
+ */
+export async function assignUnassignedRuns(bookId: string): Promise<void> {
+  const ids = getUnassignedRunIds();
+  if (ids.length === 0 || !isSupabaseConfigured()) return;
+
+  try {
+    // History is written by the AI routes, so attaching goes through an RPC that only fills in book_id
+    const { error } = await getSupabaseClient().rpc('lq21_assign_generation_runs', {
+      p_book_id: bookId,
+      p_run_ids: ids,
+    });
+
+    if (error) throw error;
+    setUnassignedRunIds([]);
+  } catch (err) {
+    console.warn('[HISTORY] Failed to assign generation runs to book:', err);
+  }
+}
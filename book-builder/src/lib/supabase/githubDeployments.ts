@@ -0,0 +1,38 @@
+import { getSupabaseClient, isSupabaseConfigured } from './client';
+import { LQ21GitHubDeployment } from './types';
+
+/**
+ * Deployments for a library book, newest first
+ */
+export async function fetchDeployments(bookId: string, limit = 20): Promise<LQ21GitHubDeployment[]> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('lq21_github_deployments')
+    .select('*')
+    .eq('book_id', bookId)
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Attach a deployment pushed from the wizard to the book once it's saved to the library
+ */
+export async function assignDeploymentToBook(deploymentId: string, bookId: string): Promise<void> {
+  if (!isSupabaseConfigured()) return;
+
+  try {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from('lq21_github_deployments')
+      .update({ book_id: bookId })
+      .eq('id', deploymentId)
+      .is('book_id', null);
+
+    if (error) throw error;
+  } catch (err) {
+    console.warn('[DEPLOYMENTS] Failed to assign deployment to book:', err);
+  }
+}
@@ -4,7 +4,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { getSupabaseClient } from '../client';
 import { useAuth } from '../auth-context';
 
-export type ApiKeyProvider = 'claude' | 'openai' | 'gemini' | 'github';
+export type ApiKeyProvider = 'claude' | 'openai' | 'gemini' | 'openrouter' | 'local' | 'github';
 
 interface ApiKeyInfo {
   provider: ApiKeyProvider;
@@ -54,7 +54,7 @@ export function useApiKeys() {
       );
 
       // Return info for all providers
-      const allProviders: ApiKeyProvider[] = ['claude', 'openai', 'gemini', 'github'];
+      const allProviders: ApiKeyProvider[] = ['claude', 'openai', 'gemini', 'openrouter', 'local', 'github'];
       const keys = allProviders.map((provider) => {
         const existing = keyMap.get(provider) as ApiKeyDbRow | undefined;
         return {
@@ -82,29 +82,16 @@ export function useApiKeys() {
   ): Promise<boolean> => {
     if (!user || !apiKey) return false;
 
-    // Create hint from last 4 characters
-    const keyHint = `...${apiKey.slice(-4)}`;
+    // Keys are encrypted server-side; the browser never reads them back
+    const response = await fetch('/api/keys', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ provider, apiKey }),
+    });
 
-    // For now, we store the key directly (in production, use encryption)
-    // The encrypted_key field stores the actual key
-    const { error } = await supabase
-      .from('lq21_api_keys')
-      .upsert(
-        {
-          user_id: user.id,
-          provider,
-          encrypted_key: apiKey, // In production, encrypt this
-          key_hint: keyHint,
-          is_valid: true,
-          updated_at: new Date().toISOString(),
-        },
-        {
-          onConflict: 'user_id,provider',
-        }
-      );
-
-    if (error) {
-      setError(error.message);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      setError(data.error || 'Failed to save API key');
       return false;
     }
 
@@ -130,28 +117,9 @@ export function useApiKeys() {
     return true;
   };
 
-  const getApiKey = async (provider: ApiKeyProvider): Promise<string | null> => {
-    if (!user) return null;
-
-    const { data, error } = await supabase
-      .from('lq21_api_keys')
-      .select('encrypted_key')
-      .eq('user_id', user.id)
-      .eq('provider', provider)
-      .single();
-
-    if (error || !data) {
-      return null;
-    }
-
-    // Update last used timestamp
-    await supabase
-      .from('lq21_api_keys')
-      .update({ last_used_at: new Date().toISOString() })
-      .eq('user_id', user.id)
-      .eq('provider', provider);
-
-    return data.encrypted_key;
+  // Whether the server can use a saved key for this provider on the user's behalf
+  const hasSavedKey = (provider: ApiKeyProvider): boolean => {
+    return apiKeys.some(k => k.provider === provider && k.hasKey && k.isValid);
   };
 
   return {
@@ -161,6 +129,6 @@ export function useApiKeys() {
     fetchApiKeys,
     saveApiKey,
     deleteApiKey,
-    getApiKey,
+    hasSavedKey,
   };
 }
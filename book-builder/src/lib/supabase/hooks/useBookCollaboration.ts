@@ -0,0 +1,269 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { getSupabaseClient, isSupabaseConfigured } from '../client';
+import { useAuth } from '../auth-context';
+import {
+  anchorToPosition,
+  applyLocalEdit,
+  applyRemoteOps,
+  createTextDoc,
+  getText,
+  loadTextDoc,
+  positionToAnchor,
+  rebaseLocalEdit,
+  type TextDoc,
+  type TextOp,
+} from '@/lib/textCrdt';
+
+/** Someone else with the book open, as tracked in the channel's presence */
+export interface Collaborator {
+  client: string;
+  userId: string;
+  name: string;
+  color: string;
+  openChapters: string[];
+  // Chapter an AI generation is writing into - locked for everyone else
+  generatingChapter: string | null;
+}
+
+export interface RemoteCursor {
+  client: string;
+  name: string;
+  color: string;
+  position: number;
+}
+
+interface UseBookCollaborationOptions {
+  /** Another peer changed a chapter's text */
+  onRemoteContent: (chapterId: string, content: string) => void;
+  /** Another peer saved a chapter */
+  onRemoteSave: (chapterId: string, content: string) => void;
+}
+
+type CursorMessage = { client: string; chapterId: string; anchor: string | null };
+
+const CURSOR_COLORS = ['#f472b6', '#60a5fa', '#34d399', '#fbbf24', '#a78bfa', '#f87171', '#2dd4bf', '#fb923c'];
+
+const colorFor = (userId: string) => {
+  let hash = 0;
+  for (const char of userId) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+};
+
+/**
+ * Live editing of a book's chapters with everyone who has it open. Each open
+ * chapter is a text CRDT kept in step over a Supabase Realtime channel: edits
+ * go out as operations, peers joining a chapter get the history from whoever
+ * already has it, and presence says who is viewing or generating what.
+ *
+ * Without Supabase Realtime the page keeps working; edits just stay local.
+ */
+export function useBookCollaboration(
+  bookId: string | null,
+  { onRemoteContent, onRemoteSave }: UseBookCollaborationOptions
+) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const userName = (user?.user_metadata?.full_name as string | undefined) || user?.email || 'Anonymous';
+  const [client] = useState(() => crypto.randomUUID().slice(0, 8));
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const [cursors, setCursors] = useState<Record<string, CursorMessage>>({});
+
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const docsRef = useRef(new Map<string, TextDoc>());
+  // What we're doing, kept across reconnects and set before the channel is up
+  const presenceRef = useRef<Pick<Collaborator, 'openChapters' | 'generatingChapter'>>({
+    openChapters: [],
+    generatingChapter: null,
+  });
+  const identityRef = useRef<Pick<Collaborator, 'userId' | 'name' | 'color'> | null>(null);
+  const lastAnchorRef = useRef<Record<string, string | null>>({});
+  // Latest callbacks, so the channel doesn't resubscribe on every render
+  const callbacksRef = useRef({ onRemoteContent, onRemoteSave });
+  useEffect(() => {
+    callbacksRef.current = { onRemoteContent, onRemoteSave };
+  });
+
+  const broadcast = useCallback((event: string, payload: Record<string, unknown>) => {
+    channelRef.current?.send({ type: 'broadcast', event, payload: { ...payload, client } });
+  }, [client]);
+
+  useEffect(() => {
+    if (!bookId || !userId || !isSupabaseConfigured()) return;
+
+    const supabase = getSupabaseClient();
+    const docs = docsRef.current;
+    identityRef.current = { userId, name: userName, color: colorFor(userId) };
+
+    // Private channel: realtime.messages policies limit it to people who can
+    // read the book, and edits, saves and sync state to those who can write it
+    const channel: RealtimeChannel = supabase.channel(`book:${bookId}`, {
+      config: { private: true, broadcast: { self: false }, presence: { key: client } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<Omit<Collaborator, 'client'>>();
+        setCollaborators(
+          Object.entries(state)
+            .filter(([key]) => key !== client)
+            .map(([key, [latest]]) => ({
+              client: key,
+              userId: latest.userId,
+              name: latest.name,
+              color: latest.color,
+              openChapters: latest.openChapters || [],
+              generatingChapter: latest.generatingChapter || null,
+            }))
+        );
+      })
+      .on('broadcast', { event: 'ops' }, ({ payload }) => {
+        const { chapterId, ops } = payload as { chapterId: string; ops: TextOp[] };
+        const doc = docs.get(chapterId);
+        if (doc && applyRemoteOps(doc, ops)) {
+          callbacksRef.current.onRemoteContent(chapterId, getText(doc));
+        }
+      })
+      .on('broadcast', { event: 'sync-request' }, ({ payload }) => {
+        const { chapterId, client: requester } = payload as { chapterId: string; client: string };
+        const doc = docs.get(chapterId);
+        if (doc) {
+          channel.send({
+            type: 'broadcast',
+            event: 'sync-state',
+            payload: { client, to: requester, chapterId, base: doc.base, log: doc.log },
+          });
+        }
+      })
+      .on('broadcast', { event: 'sync-state' }, ({ payload }) => {
+        const { to, chapterId, base, log } = payload as { to: string; chapterId: string; base: string; log: TextOp[] };
+        const doc = docs.get(chapterId);
+        if (to !== client || !doc) return;
+
+        if (doc.base === base) {
+          if (applyRemoteOps(doc, log)) callbacksRef.current.onRemoteContent(chapterId, getText(doc));
+          return;
+        }
+
+        // We loaded a different saved version than the others started from:
+        // take theirs, then redo only what was typed here since our version
+        const localText = getText(doc);
+        const synced = loadTextDoc(base, log);
+        docs.set(chapterId, synced);
+        if (localText !== doc.base) {
+          const ops = rebaseLocalEdit(synced, client, doc.base, localText);
+          if (ops.length > 0) channel.send({ type: 'broadcast', event: 'ops', payload: { client, chapterId, ops } });
+        }
+        callbacksRef.current.onRemoteContent(chapterId, getText(synced));
+      })
+      .on('broadcast', { event: 'cursor' }, ({ payload }) => {
+        const cursor = payload as CursorMessage;
+        setCursors(prev => ({ ...prev, [cursor.client]: cursor }));
+      })
+      .on('broadcast', { event: 'saved' }, ({ payload }) => {
+        const { chapterId, content } = payload as { chapterId: string; content: string };
+        callbacksRef.current.onRemoteSave(chapterId, content);
+      })
+      .subscribe(status => {
+        if (status !== 'SUBSCRIBED') return;
+        channel.track({ ...identityRef.current, ...presenceRef.current });
+        // Catch up on chapters opened before the channel was ready
+        for (const chapterId of docs.keys()) {
+          channel.send({ type: 'broadcast', event: 'sync-request', payload: { client, chapterId } });
+        }
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      identityRef.current = null;
+      supabase.removeChannel(channel);
+      docs.clear();
+      setCollaborators([]);
+      setCursors({});
+    };
+  }, [bookId, userId, userName, client]);
+
+  const updatePresence = useCallback((changes: Partial<Pick<Collaborator, 'openChapters' | 'generatingChapter'>>) => {
+    presenceRef.current = { ...presenceRef.current, ...changes };
+    if (identityRef.current) {
+      channelRef.current?.track({ ...identityRef.current, ...presenceRef.current });
+    }
+  }, []);
+
+  /**
+   * Start collaborating on a chapter. Every peer starts from the saved content
+   * so their character ids line up; unsaved local text becomes an edit on top.
+   */
+  const joinChapter = useCallback((chapterId: string, savedContent: string, currentContent: string) => {
+    const docs = docsRef.current;
+    if (docs.has(chapterId)) return;
+
+    const doc = createTextDoc(savedContent);
+    docs.set(chapterId, doc);
+    const ops = applyLocalEdit(doc, client, currentContent);
+    if (ops.length > 0) broadcast('ops', { chapterId, ops });
+    broadcast('sync-request', { chapterId });
+  }, [client, broadcast]);
+
+  /** Apply a local change to a joined chapter and send it to everyone else */
+  const setText = useCallback((chapterId: string, text: string) => {
+    const doc = docsRef.current.get(chapterId);
+    if (!doc) return;
+    const ops = applyLocalEdit(doc, client, text);
+    if (ops.length > 0) broadcast('ops', { chapterId, ops });
+  }, [client, broadcast]);
+
+  const setCursor = useCallback((chapterId: string, position: number) => {
+    const doc = docsRef.current.get(chapterId);
+    if (!doc) return;
+    const anchor = positionToAnchor(doc, position);
+    if (lastAnchorRef.current[chapterId] === anchor) return;
+    lastAnchorRef.current[chapterId] = anchor;
+    broadcast('cursor', { chapterId, anchor });
+  }, [broadcast]);
+
+  const announceSave = useCallback((chapterId: string, content: string) => {
+    broadcast('saved', { chapterId, content });
+  }, [broadcast]);
+
+  const setOpenChapters = useCallback((chapterIds: string[]) => {
+    updatePresence({ openChapters: chapterIds });
+  }, [updatePresence]);
+
+  const setGeneratingChapter = useCallback((chapterId: string | null) => {
+    updatePresence({ generatingChapter: chapterId });
+  }, [updatePresence]);
+
+  /** Other people's cursors in a chapter they have open */
+  const cursorsIn = (chapterId: string): RemoteCursor[] => {
+    const doc = docsRef.current.get(chapterId);
+    if (!doc) return [];
+    return collaborators.flatMap(collaborator => {
+      const cursor = cursors[collaborator.client];
+      if (cursor?.chapterId !== chapterId || !collaborator.openChapters.includes(chapterId)) return [];
+      return [{
+        client: collaborator.client,
+        name: collaborator.name,
+        color: collaborator.color,
+        position: anchorToPosition(doc, cursor.anchor),
+      }];
+    });
+  };
+
+  return {
+    collaborators,
+    joinChapter,
+    setText,
+    setCursor,
+    announceSave,
+    setOpenChapters,
+    setGeneratingChapter,
+    cursorsIn,
+    viewersOf: (chapterId: string) => collaborators.filter(c => c.openChapters.includes(chapterId)),
+    generatorOf: (chapterId: string) => collaborators.find(c => c.generatingChapter === chapterId) || null,
+  };
+}
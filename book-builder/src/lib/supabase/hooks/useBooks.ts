@@ -4,8 +4,13 @@ import { useState, useEffect, useCallback } from 'react';
 import { getSupabaseClient } from '../client';
 import { LQ21Book, LQ21BookWithChapters, LQ21Chapter } from '../types';
 import { useAuth } from '../auth-context';
+import { recordChapterRevision, type ChapterRevisionSource } from '../chapterRevisions';
 
-export function useBooks() {
+/**
+ * Books in one library: the user's personal books, or a team's books when
+ * given an organization
+ */
+export function useBooks(organizationId: string | null = null) {
   const [books, setBooks] = useState<LQ21Book[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -22,11 +27,12 @@ export function useBooks() {
     setLoading(true);
     setError(null);
 
-    const { data, error: fetchError } = await supabase
-      .from('lq21_books')
-      .select('*')
-      .eq('owner_id', user.id)
-      .order('updated_at', { ascending: false });
+    let query = supabase.from('lq21_books').select('*');
+    query = organizationId
+      ? query.eq('organization_id', organizationId)
+      : query.eq('owner_id', user.id).is('organization_id', null);
+
+    const { data, error: fetchError } = await query.order('updated_at', { ascending: false });
 
     if (fetchError) {
       setError(fetchError.message);
@@ -36,7 +42,7 @@ export function useBooks() {
     }
 
     setLoading(false);
-  }, [user, supabase]);
+  }, [user, organizationId, supabase]);
 
   useEffect(() => {
     fetchBooks();
@@ -48,6 +54,7 @@ export function useBooks() {
     const { data, error } = await supabase
       .from('lq21_books')
       .insert({
+        organization_id: organizationId,
         ...book,
         owner_id: user.id,
         slug: book.slug || book.title?.toLowerCase().replace(/\s+/g, '-') || 'untitled',
@@ -122,6 +129,8 @@ export function useBooks() {
       .from('lq21_books')
       .insert({
         owner_id: user.id,
+        // The copy stays in the same library as the original
+        organization_id: original.organization_id,
         title: newTitle || `${original.title} (Copy)`,
         slug: newSlug,
         description: original.description,
@@ -161,11 +170,26 @@ export function useBooks() {
     return updateBook(id, { status: 'archived' });
   };
 
-  const publishBook = async (id: string): Promise<boolean> => {
-    return updateBook(id, {
-      status: 'published',
-      published_at: new Date().toISOString(),
+  // Ready to publish ('review') and published go through lq21_set_book_status,
+  // which checks every chapter is complete
+  const setBookStatus = async (id: string, status: 'review' | 'published'): Promise<boolean> => {
+    const { error } = await supabase.rpc('lq21_set_book_status', {
+      p_book_id: id,
+      p_status: status,
     });
+
+    if (error) {
+      setError(error.message);
+      return false;
+    }
+
+    await fetchBooks();
+    return true;
+  };
+
+  const publishBook = async (id: string): Promise<boolean> => {
+    if (!await setBookStatus(id, 'published')) return false;
+    return updateBook(id, { published_at: new Date().toISOString() });
   };
 
   return {
@@ -178,6 +202,7 @@ export function useBooks() {
     deleteBook,
     duplicateBook,
     archiveBook,
+    setBookStatus,
     publishBook,
     // Computed
     draftBooks: books.filter(b => b.status === 'draft'),
@@ -242,7 +267,19 @@ export function useBook(bookId: string | null) {
     fetchBook();
   }, [fetchBook]);
 
-  const updateChapter = async (chapterId: string, updates: Partial<LQ21Chapter>): Promise<boolean> => {
+  const updateChapter = async (
+    chapterId: string,
+    updates: Partial<LQ21Chapter>,
+    revisionSource: ChapterRevisionSource = 'manual'
+  ): Promise<boolean> => {
+    const existing = book?.chapters.find(ch => ch.id === chapterId);
+    const revisionScope = { bookId, chapterKey: chapterId, title: updates.title ?? existing?.title };
+
+    // Keep the content being overwritten if it was never saved as a revision (no-op otherwise)
+    if (typeof updates.content === 'string' && existing?.content) {
+      await recordChapterRevision({ ...revisionScope, content: existing.content, source: 'manual' });
+    }
+
     const { error } = await supabase
       .from('lq21_chapters')
       .update({ ...updates, updated_at: new Date().toISOString() })
@@ -253,6 +290,10 @@ export function useBook(bookId: string | null) {
       return false;
     }
 
+    if (typeof updates.content === 'string') {
+      await recordChapterRevision({ ...revisionScope, content: updates.content, source: revisionSource });
+    }
+
     await fetchBook();
     return true;
   };
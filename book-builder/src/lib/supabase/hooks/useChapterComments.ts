@@ -0,0 +1,183 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getSupabaseClient, isSupabaseConfigured } from '../client';
+import { LQ21ChapterComment } from '../types';
+import { useAuth } from '../auth-context';
+import type { TextAnchor, TextChange } from '@/lib/reviewAnchors';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type ChapterCommentStatus = LQ21ChapterComment['status'];
+
+const anchorColumns = (anchor: TextAnchor) => ({
+  anchor_start: anchor.start,
+  anchor_end: anchor.end,
+  quote: anchor.quote,
+  prefix: anchor.prefix,
+  suffix: anchor.suffix,
+});
+
+/**
+ * Review comments and suggested edits on one chapter of a library book,
+ * oldest first
+ */
+export function useChapterComments(bookId: string | null | undefined, chapterKey: string | null) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<LQ21ChapterComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const supabase = isSupabaseConfigured() ? getSupabaseClient() : null;
+
+  const fetchComments = useCallback(async () => {
+    if (!supabase || !user || !bookId || !chapterKey) {
+      setComments([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('lq21_chapter_comments')
+        .select('*')
+        .eq('book_id', bookId)
+        .eq('chapter_key', chapterKey)
+        .order('created_at', { ascending: true });
+
+      if (fetchError) throw new Error(fetchError.message);
+      setComments(data || []);
+    } catch (err) {
+      console.error('Error fetching chapter comments:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch comments');
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase, user, bookId, chapterKey]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments]);
+
+  const insertComments = async (rows: Partial<LQ21ChapterComment>[]): Promise<boolean> => {
+    if (!supabase || !user || !bookId || !chapterKey || rows.length === 0) return false;
+
+    const { error } = await supabase.from('lq21_chapter_comments').insert(
+      rows.map(row => ({
+        ...row,
+        user_id: user.id,
+        author_name: user.user_metadata?.full_name || user.email || null,
+        book_id: bookId,
+        chapter_id: UUID_PATTERN.test(chapterKey) ? chapterKey : null,
+        chapter_key: chapterKey,
+      }))
+    );
+
+    if (error) {
+      setError(error.message);
+      return false;
+    }
+
+    await fetchComments();
+    return true;
+  };
+
+  const addComment = (anchor: TextAnchor, body: string) =>
+    insertComments([{ kind: 'comment', body: body.trim(), ...anchorColumns(anchor) }]);
+
+  /** Suggest replacing each change's range with its text, instead of editing the chapter */
+  const addSuggestions = (changes: TextChange[], body = '') =>
+    insertComments(changes.map(change => ({
+      kind: 'suggestion',
+      body: body.trim(),
+      ...anchorColumns(change.anchor),
+      suggested_text: change.text,
+    })));
+
+  const setStatus = async (id: string, status: ChapterCommentStatus): Promise<boolean> => {
+    if (!supabase || !user) return false;
+
+    // Who settled it and when are filled in by the database
+    const { error } = await supabase
+      .from('lq21_chapter_comments')
+      .update({ status })
+      .eq('id', id);
+
+    if (error) {
+      setError(error.message);
+      return false;
+    }
+
+    await fetchComments();
+    return true;
+  };
+
+  const deleteComment = async (id: string): Promise<boolean> => {
+    if (!supabase) return false;
+
+    const { error } = await supabase
+      .from('lq21_chapter_comments')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      setError(error.message);
+      return false;
+    }
+
+    await fetchComments();
+    return true;
+  };
+
+  return {
+    comments,
+    loading,
+    error,
+    refetch: fetchComments,
+    addComment,
+    addSuggestions,
+    setStatus,
+    deleteComment,
+    // Computed
+    openCount: comments.filter(c => c.status === 'open').length,
+  };
+}
+
+/**
+ * Open comments and suggestions per chapter of a book, keyed by chapter id
+ */
+export function useOpenCommentCounts(bookId: string | null | undefined) {
+  const { user } = useAuth();
+  const [counts, setCounts] = useState<Record<string, number>>({});
+
+  const fetchCounts = useCallback(async () => {
+    const next: Record<string, number> = {};
+    try {
+      if (!isSupabaseConfigured() || !user || !bookId) return;
+
+      const { data, error } = await getSupabaseClient()
+        .from('lq21_chapter_comments')
+        .select('chapter_key')
+        .eq('book_id', bookId)
+        .eq('status', 'open');
+
+      if (error) throw new Error(error.message);
+
+      for (const row of (data || []) as Pick<LQ21ChapterComment, 'chapter_key'>[]) {
+        next[row.chapter_key] = (next[row.chapter_key] || 0) + 1;
+      }
+    } catch (err) {
+      console.warn('[COMMENTS] Failed to count open comments:', err);
+    } finally {
+      setCounts(next);
+    }
+  }, [user, bookId]);
+
+  useEffect(() => {
+    fetchCounts();
+  }, [fetchCounts]);
+
+  return { counts, refetch: fetchCounts };
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getSupabaseClient, isSupabaseConfigured } from '../client';
+import { LQ21ChapterReview } from '../types';
+import { useAuth } from '../auth-context';
+import type { ChapterAction } from '@/lib/chapterWorkflow';
+
+/**
+ * The review trail of a book's chapters, newest first, and moving chapters
+ * through the workflow
+ */
+export function useChapterReviews(bookId: string | null | undefined) {
+  const { user } = useAuth();
+  const [reviews, setReviews] = useState<LQ21ChapterReview[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReviews = useCallback(async () => {
+    let next: LQ21ChapterReview[] = [];
+    try {
+      if (!isSupabaseConfigured() || !user || !bookId) return;
+
+      const { data, error: fetchError } = await getSupabaseClient()
+        .from('lq21_chapter_reviews')
+        .select('*')
+        .eq('book_id', bookId)
+        .order('created_at', { ascending: false });
+
+      if (fetchError) throw new Error(fetchError.message);
+      next = data || [];
+    } catch (err) {
+      console.warn('[WORKFLOW] Failed to fetch chapter reviews:', err);
+    } finally {
+      setReviews(next);
+    }
+  }, [user, bookId]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  /** Move a chapter on; the caller refetches the book to see its new status */
+  const transition = async (chapterId: string, action: ChapterAction, notes = ''): Promise<boolean> => {
+    if (!isSupabaseConfigured() || !user) return false;
+    setError(null);
+
+    const { error: rpcError } = await getSupabaseClient().rpc('lq21_transition_chapter', {
+      p_chapter_id: chapterId,
+      p_action: action,
+      p_notes: notes.trim() || null,
+    });
+
+    if (rpcError) {
+      setError(rpcError.message);
+      return false;
+    }
+
+    await fetchReviews();
+    return true;
+  };
+
+  // The most recent step of each chapter
+  const latestByChapter = new Map<string, LQ21ChapterReview>();
+  for (const review of reviews) {
+    if (!latestByChapter.has(review.chapter_id)) latestByChapter.set(review.chapter_id, review);
+  }
+
+  return {
+    reviews,
+    error,
+    refetch: fetchReviews,
+    transition,
+    latestByChapter,
+  };
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { isSupabaseConfigured } from '../client';
+import { LQ21ChapterRevision } from '../types';
+import { useAuth } from '../auth-context';
+import { fetchChapterRevisions } from '../chapterRevisions';
+
+export function useChapterRevisions(bookId: string | null | undefined, chapterKey: string | null) {
+  const { user } = useAuth();
+  const [revisions, setRevisions] = useState<LQ21ChapterRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    if (!isSupabaseConfigured() || !user || !chapterKey) {
+      setRevisions([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setRevisions(await fetchChapterRevisions({ bookId, chapterKey }));
+    } catch (err) {
+      console.error('Error fetching chapter revisions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch chapter revisions');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, bookId, chapterKey]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  return {
+    revisions,
+    loading,
+    error,
+    refetch: fetchRevisions,
+  };
+}
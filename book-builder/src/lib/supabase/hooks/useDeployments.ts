@@ -0,0 +1,83 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { isSupabaseConfigured } from '../client';
+import { LQ21GitHubDeployment } from '../types';
+import { useAuth } from '../auth-context';
+import { fetchDeployments } from '../githubDeployments';
+import { isActiveDeployment } from '@/lib/deploymentTracker';
+
+// How often in-flight deployments are checked against GitHub while the page is open
+const REFRESH_INTERVAL_MS = 20000;
+
+/**
+ * Deployment history for a book. While any deployment is pending or building,
+ * its status is refreshed from GitHub in the background until it finishes.
+ * The scheduled refresh finishes them on the server too, so this only makes
+ * the page update sooner.
+ */
+export function useDeployments(bookId: string | null | undefined, githubToken?: string) {
+  const { user } = useAuth();
+  const [deployments, setDeployments] = useState<LQ21GitHubDeployment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDeployments = useCallback(async () => {
+    if (!isSupabaseConfigured() || !user || !bookId) {
+      setDeployments([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setDeployments(await fetchDeployments(bookId));
+    } catch (err) {
+      console.error('Error fetching deployments:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch deployments');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, bookId]);
+
+  useEffect(() => {
+    loadDeployments();
+  }, [loadDeployments]);
+
+  const hasActive = deployments.some(isActiveDeployment);
+
+  useEffect(() => {
+    if (!hasActive || !bookId) return;
+    let cancelled = false;
+
+    const refresh = async () => {
+      try {
+        const response = await fetch('/api/github/deployments', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token: githubToken, bookId }),
+        });
+        if (!response.ok || cancelled) return;
+
+        const { deployments: updated }: { deployments: LQ21GitHubDeployment[] } = await response.json();
+        setDeployments(prev => prev.map(d => updated.find(u => u.id === d.id) || d));
+      } catch (err) {
+        console.warn('[DEPLOYMENTS] Status refresh failed:', err);
+      }
+    };
+
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [hasActive, bookId, githubToken]);
+
+  return {
+    deployments,
+    loading,
+    error,
+    refetch: loadDeployments,
+  };
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { getSupabaseClient, isSupabaseConfigured } from '../client';
+import { LQ21GenerationHistory } from '../types';
+import { useAuth } from '../auth-context';
+import { estimateCost } from '@/lib/ai/pricing';
+
+export interface GenerationUsageTotals {
+  provider: string;
+  model: string;
+  runs: number;
+  failedRuns: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Null when the model has no known price
+  estimatedCost: number | null;
+}
+
+export function useGenerationHistory(bookId: string | null) {
+  const { user } = useAuth();
+  const [runs, setRuns] = useState<LQ21GenerationHistory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    if (!isSupabaseConfigured() || !user || !bookId) {
+      setRuns([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const supabase = getSupabaseClient();
+
+      const { data, error: fetchError } = await supabase
+        .from('lq21_generation_history')
+        .select('*')
+        .eq('book_id', bookId)
+        .order('created_at', { ascending: false });
+
+      if (fetchError) throw fetchError;
+      setRuns(data || []);
+    } catch (err) {
+      console.error('Error fetching generation history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch generation history');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, bookId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  // Totals per provider/model, most expensive first
+  const totals = useMemo(() => {
+    const byModel = new Map<string, GenerationUsageTotals>();
+
+    for (const run of runs) {
+      const key = `${run.provider}/${run.model}`;
+      const entry = byModel.get(key) || {
+        provider: run.provider,
+        model: run.model,
+        runs: 0,
+        failedRuns: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        estimatedCost: estimateCost(run.provider, run.model, 0, 0),
+      };
+
+      entry.runs++;
+      if (run.status === 'failed') entry.failedRuns++;
+      entry.promptTokens += run.prompt_tokens || 0;
+      entry.completionTokens += run.completion_tokens || 0;
+      entry.totalTokens += run.total_tokens || 0;
+
+      const runCost = estimateCost(run.provider, run.model, run.prompt_tokens, run.completion_tokens);
+      if (entry.estimatedCost !== null && runCost !== null) {
+        entry.estimatedCost += runCost;
+      }
+
+      byModel.set(key, entry);
+    }
+
+    return Array.from(byModel.values()).sort(
+      (a, b) => (b.estimatedCost ?? 0) - (a.estimatedCost ?? 0) || b.totalTokens - a.totalTokens
+    );
+  }, [runs]);
+
+  const grandTotal = useMemo(() => ({
+    runs: runs.length,
+    promptTokens: totals.reduce((sum, t) => sum + t.promptTokens, 0),
+    completionTokens: totals.reduce((sum, t) => sum + t.completionTokens, 0),
+    totalTokens: totals.reduce((sum, t) => sum + t.totalTokens, 0),
+    estimatedCost: totals.reduce((sum, t) => sum + (t.estimatedCost ?? 0), 0),
+    // Some runs used models we can't price, so the cost is a lower bound
+    hasUnpricedModels: totals.some(t => t.estimatedCost === null),
+  }), [runs.length, totals]);
+
+  return {
+    runs,
+    totals,
+    grandTotal,
+    loading,
+    error,
+    refetch: fetchHistory,
+  };
+}
@@ -0,0 +1,271 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { getSupabaseClient } from '../client';
+import {
+  LQ21Organization,
+  LQ21OrganizationApiKey,
+  LQ21OrganizationMember,
+  LQ21OrganizationWithRole,
+} from '../types';
+import { useAuth } from '../auth-context';
+import type { ApiKeyProvider } from './useApiKeys';
+
+interface MembershipRow {
+  role: LQ21OrganizationMember['role'];
+  organization: LQ21Organization | null;
+}
+
+export type OrganizationKeyInfo = Pick<LQ21OrganizationApiKey, 'provider' | 'key_hint' | 'updated_at'>;
+
+/**
+ * Teams the signed-in user belongs to, with their role in each
+ */
+export function useOrganizations() {
+  const [organizations, setOrganizations] = useState<LQ21OrganizationWithRole[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+  const supabase = getSupabaseClient();
+
+  const fetchOrganizations = useCallback(async () => {
+    if (!user) {
+      setOrganizations([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('lq21_organization_members')
+        .select('role, organization:lq21_organizations(*)')
+        .eq('user_id', user.id);
+
+      if (fetchError) throw new Error(fetchError.message);
+
+      const rows = (data || []) as unknown as MembershipRow[];
+      setOrganizations(
+        rows
+          .filter(row => row.organization)
+          .map(row => ({ ...row.organization!, role: row.role }))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch teams');
+      setOrganizations([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, supabase]);
+
+  useEffect(() => {
+    fetchOrganizations();
+  }, [fetchOrganizations]);
+
+  const roles = useMemo(
+    () => new Map(organizations.map(org => [org.id, org.role])),
+    [organizations]
+  );
+
+  const createOrganization = async (name: string): Promise<LQ21Organization | null> => {
+    if (!user || !name.trim()) return null;
+
+    // The creator only becomes a member (and can read the row) once the insert
+    // trigger has run, so pick the id here rather than reading it back
+    const organization = {
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      slug: `${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'team'}-${Date.now()}`,
+      owner_id: user.id,
+    };
+
+    const { error } = await supabase.from('lq21_organizations').insert(organization);
+
+    if (error) {
+      setError(error.message);
+      return null;
+    }
+
+    await fetchOrganizations();
+    return { ...organization, logo_url: null, settings: {}, created_at: '', updated_at: '' };
+  };
+
+  const deleteOrganization = async (id: string): Promise<boolean> => {
+    const { error } = await supabase
+      .from('lq21_organizations')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      setError(error.message);
+      return false;
+    }
+
+    await fetchOrganizations();
+    return true;
+  };
+
+  return {
+    organizations,
+    loading,
+    error,
+    fetchOrganizations,
+    createOrganization,
+    deleteOrganization,
+    // Computed
+    roles,
+  };
+}
+
+/**
+ * Members of a team and the credentials it shares. Only owners can change
+ * either; everyone else gets an error back from row-level security.
+ */
+export function useOrganizationMembers(organizationId: string | null) {
+  const [members, setMembers] = useState<LQ21OrganizationMember[]>([]);
+  const [sharedKeys, setSharedKeys] = useState<OrganizationKeyInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const supabase = getSupabaseClient();
+
+  const fetchMembers = useCallback(async () => {
+    if (!organizationId) {
+      setMembers([]);
+      setSharedKeys([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [membersResult, keysResult] = await Promise.all([
+        supabase
+          .from('lq21_organization_members')
+          .select('*')
+          .eq('organization_id', organizationId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('lq21_organization_api_keys')
+          .select('provider, key_hint, updated_at')
+          .eq('organization_id', organizationId),
+      ]);
+
+      if (membersResult.error || keysResult.error) {
+        setError((membersResult.error || keysResult.error)!.message);
+      }
+      setMembers(membersResult.data || []);
+      setSharedKeys(keysResult.data || []);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId, supabase]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const addMember = async (email: string, role: LQ21OrganizationMember['role']): Promise<boolean> => {
+    if (!organizationId || !email.trim()) return false;
+
+    // Looks the account up by email server-side; the browser can't read other users
+    const { error } = await supabase.rpc('lq21_add_organization_member', {
+      p_organization_id: organizationId,
+      p_email: email.trim(),
+      p_role: role,
+    });
+
+    if (error) {
+      setError(error.message);
+      return false;
+    }
+
+    await fetchMembers();
+    return true;
+  };
+
+  const updateMemberRole = async (memberId: string, role: LQ21OrganizationMember['role']): Promise<boolean> => {
+    const { error } = await supabase
+      .from('lq21_organization_members')
+      .update({ role })
+      .eq('id', memberId);
+
+    if (error) {
+      setError(error.message);
+      return false;
+    }
+
+    await fetchMembers();
+    return true;
+  };
+
+  const removeMember = async (memberId: string): Promise<boolean> => {
+    const { error } = await supabase
+      .from('lq21_organization_members')
+      .delete()
+      .eq('id', memberId);
+
+    if (error) {
+      setError(error.message);
+      return false;
+    }
+
+    await fetchMembers();
+    return true;
+  };
+
+  const saveSharedKey = async (provider: ApiKeyProvider, apiKey: string): Promise<boolean> => {
+    if (!organizationId || !apiKey) return false;
+
+    // Encrypted server-side, like personal keys
+    const response = await fetch('/api/keys', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ provider, apiKey, organizationId }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      setError(data.error || 'Failed to save shared key');
+      return false;
+    }
+
+    await fetchMembers();
+    return true;
+  };
+
+  const deleteSharedKey = async (provider: ApiKeyProvider): Promise<boolean> => {
+    if (!organizationId) return false;
+
+    const { error } = await supabase
+      .from('lq21_organization_api_keys')
+      .delete()
+      .eq('organization_id', organizationId)
+      .eq('provider', provider);
+
+    if (error) {
+      setError(error.message);
+      return false;
+    }
+
+    await fetchMembers();
+    return true;
+  };
+
+  return {
+    members,
+    sharedKeys,
+    loading,
+    error,
+    fetchMembers,
+    addMember,
+    updateMemberRole,
+    removeMember,
+    saveSharedKey,
+    deleteSharedKey,
+  };
+}
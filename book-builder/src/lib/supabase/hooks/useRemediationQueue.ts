@@ -0,0 +1,56 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { isSupabaseConfigured } from '../client';
+import { LQ21RemediationQueue } from '../types';
+import { useAuth } from '../auth-context';
+import { fetchRemediationJobs } from '../featureAudits';
+
+export function useRemediationQueue(bookId: string | null | undefined, chapterKey: string | null) {
+  const { user } = useAuth();
+  const [jobs, setJobs] = useState<LQ21RemediationQueue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    if (!isSupabaseConfigured() || !user || !chapterKey) {
+      setJobs([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setJobs(await fetchRemediationJobs({ bookId, chapterKey }));
+    } catch (err) {
+      console.error('Error fetching remediation queue:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch remediation queue');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, bookId, chapterKey]);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  // Apply a job update from the worker without refetching the whole queue
+  const upsertJob = useCallback((job: LQ21RemediationQueue) => {
+    setJobs(prev => {
+      const index = prev.findIndex(j => j.id === job.id);
+      if (index === -1) return [job, ...prev];
+      const next = [...prev];
+      next[index] = job;
+      return next;
+    });
+  }, []);
+
+  return {
+    jobs,
+    loading,
+    error,
+    refetch: fetchJobs,
+    upsertJob,
+  };
+}
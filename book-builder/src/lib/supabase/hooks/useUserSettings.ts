@@ -7,8 +7,10 @@ import { useAuth } from '@/hooks/useAuth';
 export interface UserSettings {
   id: string;
   user_id: string;
-  default_provider: 'openai' | 'claude' | 'gemini';
+  default_provider: 'openai' | 'claude' | 'gemini' | 'openrouter' | 'local';
   default_model: string;
+  // OpenAI-compatible base URL for the local provider (Ollama, llama.cpp, vLLM)
+  local_base_url: string | null;
   theme: 'light' | 'dark' | 'system';
   editor_mode: 'rich' | 'raw' | 'split';
   default_github_username: string | null;
@@ -19,6 +21,7 @@ export interface UserSettings {
 const DEFAULT_SETTINGS: Omit<UserSettings, 'id' | 'user_id' | 'created_at' | 'updated_at'> = {
   default_provider: 'gemini',
   default_model: 'gemini-3-flash-preview', // Gemini 3.0 Flash
+  local_base_url: null,
   theme: 'dark',
   editor_mode: 'rich',
   default_github_username: null,
@@ -108,7 +111,7 @@ export function useUserSettings() {
 
   // Set default model
   const setDefaultModel = useCallback(
-    async (provider: 'openai' | 'claude' | 'gemini', model: string) => {
+    async (provider: 'openai' | 'claude' | 'gemini' | 'openrouter' | 'local', model: string) => {
       return updateSettings({
         default_provider: provider,
         default_model: model,
@@ -133,6 +136,14 @@ export function useUserSettings() {
     [updateSettings]
   );
 
+  // Set local endpoint base URL
+  const setLocalBaseUrl = useCallback(
+    async (url: string | null) => {
+      return updateSettings({ local_base_url: url });
+    },
+    [updateSettings]
+  );
+
   // Set default GitHub username
   const setDefaultGitHubUsername = useCallback(
     async (username: string | null) => {
@@ -159,6 +170,7 @@ export function useUserSettings() {
     setDefaultModel,
     setTheme,
     setEditorMode,
+    setLocalBaseUrl,
     setDefaultGitHubUsername,
     refetch: fetchSettings,
     // Convenience getters with defaults
@@ -167,5 +179,6 @@ export function useUserSettings() {
     theme: settings?.theme ?? DEFAULT_SETTINGS.theme,
     editorMode: settings?.editor_mode ?? DEFAULT_SETTINGS.editor_mode,
     defaultGitHubUsername: settings?.default_github_username,
+    localBaseUrl: settings?.local_base_url ?? null,
   };
 }
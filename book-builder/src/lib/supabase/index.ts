@@ -1,9 +1,33 @@
 // Supabase exports
 export { createClient, getSupabaseClient } from './client';
-export { createServerSupabaseClient } from './server';
+export { createServerSupabaseClient, createServiceSupabaseClient, requireApiUser, getUserApiKey } from './server';
+export type { ApiUser } from './server';
 export { updateSession } from './middleware';
 export { AuthProvider, useAuth } from './auth-context';
 export { useBooks, useBook } from './hooks/useBooks';
+export { useOrganizations, useOrganizationMembers } from './hooks/useOrganizations';
+export type { OrganizationKeyInfo } from './hooks/useOrganizations';
+export { useBookCollaboration } from './hooks/useBookCollaboration';
+export type { Collaborator, RemoteCursor } from './hooks/useBookCollaboration';
 export { useApiKeys } from './hooks/useApiKeys';
 export type { ApiKeyProvider } from './hooks/useApiKeys';
+export { useGenerationHistory } from './hooks/useGenerationHistory';
+export type { GenerationUsageTotals } from './hooks/useGenerationHistory';
+export { trackGenerationRun, assignUnassignedRuns } from './generationHistory';
+export { useChapterRevisions } from './hooks/useChapterRevisions';
+export { useChapterComments, useOpenCommentCounts } from './hooks/useChapterComments';
+export type { ChapterCommentStatus } from './hooks/useChapterComments';
+export { useChapterReviews } from './hooks/useChapterReviews';
+export { recordChapterRevision, assignUnassignedRevisions, fetchChapterRevisions } from './chapterRevisions';
+export type { ChapterRevisionSource, ChapterRevisionScope, ChapterRevisionInfo } from './chapterRevisions';
+export { useRemediationQueue } from './hooks/useRemediationQueue';
+export {
+  saveFeatureAudit,
+  enqueueRemediation,
+  fetchRemediationJobs,
+  assignUnassignedAudits,
+} from './featureAudits';
+export type { FeatureAuditSource, FeatureAuditScope, FeatureAuditInfo } from './featureAudits';
+export { useDeployments } from './hooks/useDeployments';
+export { fetchDeployments, assignDeploymentToBook } from './githubDeployments';
 export * from './types';
@@ -1,5 +1,15 @@
 import { createServerClient } from '@supabase/ssr';
+import { createClient } from '@supabase/supabase-js';
 import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import { getOrganizationApiKey, getStoredApiKey, type GetEnv, type StoredKeyProvider } from '@/lib/apiKeys';
+import { authorizeApiRequest, rateLimitHeaders, type RateLimitBucket } from '@/lib/apiAuth';
+import { startGenerationRun, type GenerationRun, type GenerationRunInfo } from '@/lib/ai';
+import { canEdit, type OrganizationRole } from '@/lib/organizations';
+import { getPublishBlocker } from '@/lib/chapterWorkflow';
+import type { LQ21Book } from '@/lib/supabase/types';
+import type { GitHubPublishMode } from '@/types';
 
 export async function createServerSupabaseClient() {
   const cookieStore = await cookies();
@@ -26,3 +36,164 @@ export async function createServerSupabaseClient() {
     }
   );
 }
+
+// Service-role client for admin tasks that cross users (bypasses RLS - never expose to the browser)
+export function createServiceSupabaseClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured');
+  }
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+}
+
+export interface ApiUser {
+  supabase: SupabaseClient;
+  user: User;
+  // Server-side provider keys, only readable by whitelisted users
+  getEnvKey: GetEnv;
+}
+
+const processEnv: GetEnv = (name) => process.env[name];
+
+// Require a signed-in user for an API route and count the request against their rate limit
+export async function requireApiUser(
+  bucket: RateLimitBucket
+): Promise<{ apiUser: ApiUser; response?: never } | { apiUser?: never; response: NextResponse }> {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+    return {
+      response: NextResponse.json(
+        { error: 'Authentication is not configured on this server' },
+        { status: 503 }
+      ),
+    };
+  }
+
+  const supabase = await createServerSupabaseClient();
+  const result = await authorizeApiRequest(supabase, bucket, processEnv);
+
+  if (!result.ok) {
+    return {
+      response: NextResponse.json(
+        { error: result.error },
+        { status: result.status, headers: result.rateLimit && rateLimitHeaders(result.rateLimit) }
+      ),
+    };
+  }
+
+  return { apiUser: { supabase, user: result.user, getEnvKey: result.getEnvKey } };
+}
+
+export interface BookAccess {
+  organizationId: string | null;
+  // The caller's role in the book's team, or null for personal books
+  organizationRole: OrganizationRole | null;
+  // Owner of their own books, otherwise their team role (as in getBookRole)
+  role: OrganizationRole | null;
+  // The repository the book publishes to, once it has been published
+  githubUsername: string | null;
+  githubRepoName: string | null;
+  status: LQ21Book['status'];
+  // From the book's saved GitHub settings, whatever a request body says
+  publishMode: GitHubPublishMode;
+}
+
+// The caller's access to a library book, or null if RLS doesn't let them see it
+export async function getBookAccess(apiUser: ApiUser, bookId: string): Promise<BookAccess | null> {
+  const { data: book } = await apiUser.supabase
+    .from('lq21_books')
+    .select('owner_id, organization_id, github_username, github_repo_name, status, publish_mode:config->github->>publishMode')
+    .eq('id', bookId)
+    .maybeSingle();
+  if (!book) return null;
+
+  let organizationRole: OrganizationRole | null = null;
+  if (book.organization_id) {
+    const { data: member } = await apiUser.supabase
+      .from('lq21_organization_members')
+      .select('role')
+      .eq('organization_id', book.organization_id)
+      .eq('user_id', apiUser.user.id)
+      .maybeSingle();
+    organizationRole = member?.role ?? null;
+  }
+
+  return {
+    organizationId: book.organization_id,
+    organizationRole,
+    role: book.owner_id === apiUser.user.id ? 'owner' : organizationRole,
+    githubUsername: book.github_username,
+    githubRepoName: book.github_repo_name,
+    status: book.status,
+    publishMode: book.publish_mode === 'pull-request' ? 'pull-request' : 'direct',
+  };
+}
+
+// Require a role on a library book for a route, e.g. canEdit before pushing it
+export async function requireBookAccess(
+  apiUser: ApiUser,
+  bookId: string,
+  allowed: (role: OrganizationRole | null) => boolean = canEdit
+): Promise<{ access: BookAccess; response?: never } | { access?: never; response: NextResponse }> {
+  const access = await getBookAccess(apiUser, bookId);
+  if (!access) {
+    return { response: NextResponse.json({ error: 'Book not found' }, { status: 404 }) };
+  }
+  if (!allowed(access.role)) {
+    return { response: NextResponse.json({ error: 'Your role on this book does not allow this' }, { status: 403 }) };
+  }
+  return { access };
+}
+
+// Before a library book goes live: every chapter complete and the book marked
+// ready to publish, as lq21_set_book_status checks. A 409 saying why if not.
+export async function requirePublishReadiness(
+  apiUser: ApiUser,
+  bookId: string,
+  access: BookAccess
+): Promise<NextResponse | null> {
+  const { data: chapters, error } = await apiUser.supabase
+    .from('lq21_chapters')
+    .select('id, title, status')
+    .eq('book_id', bookId);
+  if (error) throw error;
+
+  const blocker = getPublishBlocker(chapters || [], access.status);
+  return blocker ? NextResponse.json({ error: blocker }, { status: 409 }) : null;
+}
+
+// Resolve a saved key for a provider, or null if there isn't one. Team books use
+// their organization's shared key first, but only for its owners and editors;
+// otherwise it's the user's own key. Shared keys are read with the service role,
+// since members can only see their hints.
+export async function getUserApiKey(
+  apiUser: ApiUser,
+  provider: StoredKeyProvider,
+  book?: string | BookAccess | null
+): Promise<string | null> {
+  try {
+    const access = typeof book === 'string' ? await getBookAccess(apiUser, book) : book;
+    if (access?.organizationId && canEdit(access.organizationRole)) {
+      try {
+        const sharedKey = await getOrganizationApiKey(createServiceSupabaseClient(), access.organizationId, provider);
+        if (sharedKey) return sharedKey;
+      } catch (error) {
+        console.error(`[KEYS] Failed to resolve shared ${provider} key:`, error);
+      }
+    }
+
+    return await getStoredApiKey(apiUser.supabase, apiUser.user.id, provider);
+  } catch (error) {
+    console.error(`[KEYS] Failed to resolve saved ${provider} key:`, error);
+    return null;
+  }
+}
+
+// Open a generation history row for an AI route. History is written with the
+// service role, so without it configured the call just goes unrecorded.
+export async function startApiGenerationRun(apiUser: ApiUser, info: GenerationRunInfo): Promise<GenerationRun> {
+  const recorder = process.env.SUPABASE_SERVICE_ROLE_KEY ? createServiceSupabaseClient() : null;
+  return startGenerationRun(recorder, apiUser.supabase, apiUser.user.id, info);
+}
@@ -23,6 +23,19 @@ export interface LQ21Organization {
   updated_at: string;
 }
 
+export interface LQ21OrganizationMember {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  // owner: members and credentials; editor: write; reviewer: read and review; viewer: read
+  role: 'owner' | 'editor' | 'reviewer' | 'viewer';
+  // Copied from the profile when added - members can't read each other's profiles
+  email: string | null;
+  display_name: string | null;
+  invited_by: string | null;
+  created_at: string;
+}
+
 export interface LQ21Book {
   id: string;
   owner_id: string;
@@ -59,30 +72,48 @@ export interface LQ21Chapter {
   target_word_count: number;
   chapter_features: unknown[];
   generation_metadata: Record<string, unknown>;
+  // Writer responsible for the chapter in a team book
+  assigned_to: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface LQ21FeatureAuditResult {
+  feature_id: string;
+  feature_name: string;
+  found: boolean;
+}
+
 export interface LQ21FeatureAudit {
   id: string;
-  chapter_id: string;
+  user_id: string;
+  book_id: string | null;
+  chapter_id: string | null;
+  chapter_key: string;
   total_features: number;
   implemented_features: number;
   missing_features: number;
   implementation_percentage: number;
-  audit_results: unknown[];
+  audit_results: LQ21FeatureAuditResult[];
   suggestions: unknown[];
   audited_at: string;
-  audited_by: string;
+  // What produced the content that was audited
+  audited_by: 'ai-generate' | 'ai-format' | 'remediation';
 }
 
 export interface LQ21RemediationQueue {
   id: string;
-  chapter_id: string;
+  user_id: string;
+  audit_id: string;
+  book_id: string | null;
+  chapter_id: string | null;
+  chapter_key: string;
   feature_id: string;
   feature_name: string;
   status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'skipped';
   priority: number;
+  attempts: number;
+  max_attempts: number;
   original_content: string | null;
   remediated_content: string | null;
   error_message: string | null;
@@ -93,10 +124,15 @@ export interface LQ21RemediationQueue {
 
 export interface LQ21GitHubDeployment {
   id: string;
-  book_id: string;
+  user_id: string;
+  book_id: string | null;
   github_repo_url: string;
+  // 'publish' is a full push from /api/github, 'chapter-update' a single chapter from /api/github/update,
+  // 'preview' a build of the draft branches' previews
+  trigger: 'publish' | 'chapter-update' | 'preview';
   commit_sha: string | null;
   workflow_run_id: string | null;
+  workflow_run_url: string | null;
   status: 'pending' | 'building' | 'success' | 'failed' | 'cancelled';
   deployed_url: string | null;
   error_message: string | null;
@@ -105,6 +141,20 @@ export interface LQ21GitHubDeployment {
   completed_at: string | null;
 }
 
+export interface LQ21GitHubSyncState {
+  id: string;
+  user_id: string;
+  book_id: string | null;
+  // owner/name
+  github_repo: string;
+  // Chapter file path in the repository
+  path: string;
+  // Commit and blob of the file the last time the library and GitHub agreed
+  commit_sha: string;
+  blob_sha: string;
+  synced_at: string;
+}
+
 export interface LQ21GenerationHistory {
   id: string;
   book_id: string | null;
@@ -125,10 +175,62 @@ export interface LQ21GenerationHistory {
   completed_at: string | null;
 }
 
+export interface LQ21ChapterRevision {
+  id: string;
+  user_id: string;
+  author_name: string | null;
+  book_id: string | null;
+  chapter_id: string | null;
+  // Editor chapter id: the database id for library chapters, the wizard id otherwise
+  chapter_key: string;
+  title: string | null;
+  content: string;
+  word_count: number;
+  source: 'manual' | 'ai-generate' | 'ai-format' | 'remediation' | 'restore' | 'github-sync';
+  created_at: string;
+}
+
+// A review comment on a range of a chapter, or a suggested replacement for it
+export interface LQ21ChapterComment {
+  id: string;
+  user_id: string;
+  author_name: string | null;
+  book_id: string;
+  chapter_id: string | null;
+  chapter_key: string;
+  kind: 'comment' | 'suggestion';
+  body: string;
+  anchor_start: number;
+  anchor_end: number;
+  quote: string;
+  prefix: string;
+  suffix: string;
+  suggested_text: string | null;
+  status: 'open' | 'resolved' | 'accepted' | 'rejected';
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// One step of a chapter through the review workflow, with the reviewer's notes
+export interface LQ21ChapterReview {
+  id: string;
+  user_id: string;
+  author_name: string | null;
+  book_id: string;
+  chapter_id: string;
+  action: 'submit' | 'approve' | 'reject' | 'reopen' | 'complete';
+  from_status: LQ21Chapter['status'];
+  to_status: LQ21Chapter['status'];
+  notes: string | null;
+  created_at: string;
+}
+
 export interface LQ21ApiKey {
   id: string;
   user_id: string;
-  provider: 'claude' | 'openai' | 'gemini' | 'github';
+  provider: 'claude' | 'openai' | 'gemini' | 'openrouter' | 'local' | 'github';
   encrypted_key: string;
   key_hint: string | null;
   is_valid: boolean;
@@ -137,7 +239,23 @@ export interface LQ21ApiKey {
   updated_at: string;
 }
 
+// Credentials shared by an organization - same encryption as lq21_api_keys
+export interface LQ21OrganizationApiKey {
+  id: string;
+  organization_id: string;
+  provider: LQ21ApiKey['provider'];
+  encrypted_key: string;
+  key_hint: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // Book with chapters for full data retrieval
 export interface LQ21BookWithChapters extends LQ21Book {
   chapters: LQ21Chapter[];
 }
+
+export interface LQ21OrganizationWithRole extends LQ21Organization {
+  role: LQ21OrganizationMember['role'];
+}
@@ -0,0 +1,286 @@
+/**
+ * Character-level sequence CRDT (RGA) for collaborative chapter editing.
+ *
+ * Every character gets an id of (clock, client). An insert names the character
+ * it goes after; concurrent inserts after the same character are ordered by
+ * id, newest first, so every peer that has applied the same operations ends
+ * up with the same text whatever order they arrived in. Deleted characters
+ * stay in the sequence as tombstones so later operations can still refer to
+ * them.
+ */
+
+import { applyResolutions, mergeText } from './textMerge';
+import { diffOps } from './textDiff';
+
+export interface TextItem {
+  id: string;
+  clock: number;
+  client: string;
+  char: string;
+  deleted: boolean;
+}
+
+export type TextOp =
+  // text[k] gets id (clock + k, client) and goes after the previous character
+  | { type: 'insert'; client: string; clock: number; after: string | null; text: string }
+  | { type: 'delete'; ids: string[] };
+
+export interface TextDoc {
+  // The saved content every peer starts from
+  base: string;
+  items: TextItem[];
+  // Highest clock seen, so local inserts sort after everything they've seen
+  clock: number;
+  // Every operation applied since the base, to bring new peers up to date
+  log: TextOp[];
+  // Operations that arrived before the characters they refer to
+  pending: TextOp[];
+}
+
+// Characters of the saved content share this client, so every peer that
+// loads the same content gives them the same ids
+const BASE_CLIENT = 'base';
+
+const itemId = (clock: number, client: string) => `${clock}@${client}`;
+
+// Newer (higher clock, then higher client) sorts first among siblings
+const isNewer = (a: TextItem, clock: number, client: string) =>
+  a.clock > clock || (a.clock === clock && a.client > client);
+
+export function createTextDoc(base: string): TextDoc {
+  return {
+    base,
+    items: Array.from(base, (char, i) => ({
+      id: itemId(i + 1, BASE_CLIENT),
+      clock: i + 1,
+      client: BASE_CLIENT,
+      char,
+      deleted: false,
+    })),
+    clock: base.length,
+    log: [],
+    pending: [],
+  };
+}
+
+export function getText(doc: TextDoc): string {
+  let text = '';
+  for (const item of doc.items) {
+    if (!item.deleted) text += item.char;
+  }
+  return text;
+}
+
+const indexOfId = (doc: TextDoc, id: string) => doc.items.findIndex(item => item.id === id);
+
+/**
+ * Apply one operation: 'waiting' if it refers to a character this doc hasn't
+ * seen yet, 'seen' if it was already applied
+ */
+function applyOp(doc: TextDoc, op: TextOp): 'applied' | 'seen' | 'waiting' {
+  if (op.type === 'delete') {
+    const indexById = new Map(doc.items.map((item, index) => [item.id, index]));
+    const indexes = op.ids.map(id => indexById.get(id) ?? -1);
+    if (indexes.some(index => index === -1)) return 'waiting';
+    if (indexes.every(index => doc.items[index].deleted)) return 'seen';
+    for (const index of indexes) doc.items[index].deleted = true;
+    return 'applied';
+  }
+
+  let after = op.after;
+  if (after !== null && indexOfId(doc, after) === -1) return 'waiting';
+  if (indexOfId(doc, itemId(op.clock + op.text.length - 1, op.client)) !== -1) return 'seen';
+
+  // Each character sorts newer than whatever stopped the one before it, so
+  // a new run goes in as one block where its first character belongs
+  if (indexOfId(doc, itemId(op.clock, op.client)) === -1) {
+    let position = after === null ? 0 : indexOfId(doc, after) + 1;
+    while (position < doc.items.length && isNewer(doc.items[position], op.clock, op.client)) {
+      position++;
+    }
+    doc.items.splice(position, 0, ...Array.from(op.text, (char, k) => ({
+      id: itemId(op.clock + k, op.client),
+      clock: op.clock + k,
+      client: op.client,
+      char,
+      deleted: false,
+    })));
+    doc.clock = Math.max(doc.clock, op.clock + op.text.length - 1);
+    return 'applied';
+  }
+
+  // Partly applied already, e.g. a sync repeating keystrokes received one by one
+  for (let k = 0; k < op.text.length; k++) {
+    const clock = op.clock + k;
+    const id = itemId(clock, op.client);
+
+    if (indexOfId(doc, id) !== -1) {
+      after = id;
+      continue;
+    }
+
+    let position = after === null ? 0 : indexOfId(doc, after) + 1;
+    while (position < doc.items.length && isNewer(doc.items[position], clock, op.client)) {
+      position++;
+    }
+
+    doc.items.splice(position, 0, { id, clock, client: op.client, char: op.text[k], deleted: false });
+    doc.clock = Math.max(doc.clock, clock);
+    after = id;
+  }
+  return 'applied';
+}
+
+/**
+ * Typing one character after another produces one insert per keystroke;
+ * keep the log short by folding each into the run it continues
+ */
+function appendToLog(doc: TextDoc, op: TextOp) {
+  const last = doc.log[doc.log.length - 1];
+  if (
+    last?.type === 'insert' &&
+    op.type === 'insert' &&
+    op.client === last.client &&
+    op.clock === last.clock + last.text.length &&
+    op.after === itemId(op.clock - 1, op.client)
+  ) {
+    doc.log[doc.log.length - 1] = { ...last, text: last.text + op.text };
+  } else {
+    doc.log.push(op);
+  }
+}
+
+/**
+ * Apply operations from other peers (or a sync), retrying any that arrived
+ * before the characters they depend on. Returns whether the text changed.
+ */
+export function applyRemoteOps(doc: TextDoc, ops: TextOp[]): boolean {
+  const before = getText(doc);
+  let queue = [...doc.pending, ...ops];
+
+  // Keep going while operations are still unlocking others
+  let progressed = true;
+  while (progressed && queue.length > 0) {
+    progressed = false;
+    const waiting: TextOp[] = [];
+    for (const op of queue) {
+      const result = applyOp(doc, op);
+      if (result === 'waiting') {
+        waiting.push(op);
+        continue;
+      }
+      if (result === 'applied') appendToLog(doc, op);
+      progressed = true;
+    }
+    queue = waiting;
+  }
+
+  doc.pending = queue;
+  return getText(doc) !== before;
+}
+
+/**
+ * Turn an edit of the whole text into operations: the changed span between
+ * the unchanged start and end is deleted and the new text inserted in its
+ * place. Applies them to the doc and returns them for the other peers.
+ */
+export function applyLocalEdit(doc: TextDoc, client: string, newText: string): TextOp[] {
+  const visible = doc.items.filter(item => !item.deleted);
+  const oldText = visible.map(item => item.char).join('');
+  if (oldText === newText) return [];
+
+  let start = 0;
+  while (start < oldText.length && start < newText.length && oldText[start] === newText[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < oldText.length - start &&
+    end < newText.length - start &&
+    oldText[oldText.length - 1 - end] === newText[newText.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const ops: TextOp[] = [];
+  const removed = visible.slice(start, oldText.length - end);
+  if (removed.length > 0) {
+    ops.push({ type: 'delete', ids: removed.map(item => item.id) });
+  }
+
+  const inserted = newText.slice(start, newText.length - end);
+  if (inserted) {
+    ops.push({
+      type: 'insert',
+      client,
+      clock: doc.clock + 1,
+      after: start > 0 ? visible[start - 1].id : null,
+      text: inserted,
+    });
+  }
+
+  for (const op of ops) {
+    applyOp(doc, op);
+    appendToLog(doc, op);
+  }
+  return ops;
+}
+
+/**
+ * Redo edits made against a different saved version on top of this doc. The
+ * changes from base to localText are merged line by line into the doc's text,
+ * keeping both sides where they overlap, and applied one changed region at a
+ * time, so text the other peers have in between is never deleted and retyped.
+ */
+export function rebaseLocalEdit(doc: TextDoc, client: string, base: string, localText: string): TextOp[] {
+  const currentLines = getText(doc).split('\n');
+  const merged = mergeText(base, localText, currentLines.join('\n'));
+  const target = applyResolutions(merged, Array(merged.conflicts).fill('both'));
+
+  const ops: TextOp[] = [];
+  const diff = diffOps(currentLines, target.split('\n'));
+  const doneLines: string[] = [];
+  let currentIndex = 0;
+  diff.forEach((op, i) => {
+    if (op.type !== 'removed') doneLines.push(op.text);
+    if (op.type !== 'added') currentIndex++;
+    // At the end of each changed region, apply everything up to it
+    if (op.type !== 'equal' && diff[i + 1]?.type !== 'removed' && diff[i + 1]?.type !== 'added') {
+      ops.push(...applyLocalEdit(doc, client, [...doneLines, ...currentLines.slice(currentIndex)].join('\n')));
+    }
+  });
+  return ops;
+}
+
+/**
+ * A cursor position as the id of the character before it (null at the start),
+ * so it stays put when text is added or removed elsewhere
+ */
+export function positionToAnchor(doc: TextDoc, position: number): string | null {
+  if (position <= 0) return null;
+  let seen = 0;
+  for (const item of doc.items) {
+    if (item.deleted) continue;
+    if (++seen === position) return item.id;
+  }
+  return null;
+}
+
+export function anchorToPosition(doc: TextDoc, anchor: string | null): number {
+  if (anchor === null) return 0;
+  let position = 0;
+  for (const item of doc.items) {
+    if (!item.deleted) position++;
+    if (item.id === anchor) return position;
+  }
+  return 0;
+}
+
+/**
+ * Rebuild a doc from another peer's base and operations
+ */
+export function loadTextDoc(base: string, log: TextOp[]): TextDoc {
+  const doc = createTextDoc(base);
+  applyRemoteOps(doc, log);
+  return doc;
+}
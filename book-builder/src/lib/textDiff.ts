@@ -0,0 +1,133 @@
+/**
+ * Line-based diff for side-by-side comparison of chapter revisions
+ */
+
+export type DiffRowType = 'equal' | 'added' | 'removed' | 'changed';
+
+export interface DiffLine {
+  lineNumber: number;
+  text: string;
+}
+
+export interface DiffRow {
+  type: DiffRowType;
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export type DiffOp = { type: 'equal' | 'added' | 'removed'; text: string };
+
+// Above this many LCS cells the differing middle is shown as one replaced block
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Line-level edit script from oldLines to newLines (longest common subsequence)
+ */
+export function diffOps(oldLines: string[], newLines: string[]): DiffOp[] {
+  // Trim the common prefix and suffix - most revisions only touch a few sections
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const oldMid = oldLines.slice(start, oldEnd);
+  const newMid = newLines.slice(start, newEnd);
+  const ops: DiffOp[] = oldLines.slice(0, start).map(text => ({ type: 'equal', text }));
+
+  if (oldMid.length * newMid.length > MAX_LCS_CELLS) {
+    ops.push(...oldMid.map(text => ({ type: 'removed' as const, text })));
+    ops.push(...newMid.map(text => ({ type: 'added' as const, text })));
+  } else {
+    // lengths[i][j] = LCS length of oldMid[i..] and newMid[j..]
+    const cols = newMid.length + 1;
+    const lengths = new Uint32Array((oldMid.length + 1) * cols);
+    for (let i = oldMid.length - 1; i >= 0; i--) {
+      for (let j = newMid.length - 1; j >= 0; j--) {
+        lengths[i * cols + j] = oldMid[i] === newMid[j]
+          ? lengths[(i + 1) * cols + j + 1] + 1
+          : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < oldMid.length && j < newMid.length) {
+      if (oldMid[i] === newMid[j]) {
+        ops.push({ type: 'equal', text: oldMid[i] });
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+        ops.push({ type: 'removed', text: oldMid[i++] });
+      } else {
+        ops.push({ type: 'added', text: newMid[j++] });
+      }
+    }
+    while (i < oldMid.length) ops.push({ type: 'removed', text: oldMid[i++] });
+    while (j < newMid.length) ops.push({ type: 'added', text: newMid[j++] });
+  }
+
+  ops.push(...oldLines.slice(oldEnd).map(text => ({ type: 'equal' as const, text })));
+  return ops;
+}
+
+/**
+ * Diff two texts into side-by-side rows. Runs of removed lines followed by
+ * added lines are paired up as 'changed' rows.
+ */
+export function diffLines(oldText: string, newText: string): DiffRow[] {
+  const ops = diffOps(oldText.split('\n'), newText.split('\n'));
+  const rows: DiffRow[] = [];
+  let leftNumber = 1;
+  let rightNumber = 1;
+  let k = 0;
+
+  while (k < ops.length) {
+    if (ops[k].type === 'equal') {
+      rows.push({
+        type: 'equal',
+        left: { lineNumber: leftNumber++, text: ops[k].text },
+        right: { lineNumber: rightNumber++, text: ops[k].text },
+      });
+      k++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < ops.length && ops[k].type !== 'equal') {
+      (ops[k].type === 'removed' ? removed : added).push(ops[k].text);
+      k++;
+    }
+
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const left = n < removed.length ? { lineNumber: leftNumber++, text: removed[n] } : null;
+      const right = n < added.length ? { lineNumber: rightNumber++, text: added[n] } : null;
+      rows.push({ type: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+  }
+
+  return rows;
+}
+
+export function summarizeDiff(rows: DiffRow[]): DiffSummary {
+  return rows.reduce(
+    (summary, row) => {
+      if (row.type !== 'equal') summary[row.type]++;
+      return summary;
+    },
+    { added: 0, removed: 0, changed: 0 }
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * Line-based three-way merge for syncing chapters with GitHub
+ */
+
+import { diffOps } from './textDiff';
+
+export type MergeChunk =
+  | { type: 'stable'; lines: string[] }
+  | { type: 'conflict'; base: string[]; local: string[]; remote: string[] };
+
+export interface MergeResult {
+  chunks: MergeChunk[];
+  conflicts: number;
+}
+
+export type ConflictResolution = 'local' | 'remote' | 'both';
+
+/**
+ * For each line of oldLines, the index of the matching line in newLines, or -1
+ * if it was removed
+ */
+function matchLines(oldLines: string[], newLines: string[]): number[] {
+  const matches: number[] = [];
+  let newIndex = 0;
+
+  for (const op of diffOps(oldLines, newLines)) {
+    if (op.type === 'equal') {
+      matches.push(newIndex++);
+    } else if (op.type === 'removed') {
+      matches.push(-1);
+    } else {
+      newIndex++;
+    }
+  }
+
+  return matches;
+}
+
+const sameLines = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((line, i) => line === b[i]);
+
+/**
+ * diff3: walk the base, keeping lines both sides left alone. Between those,
+ * a region changed on one side takes that side; changed identically on both
+ * takes either; changed differently on both is a conflict.
+ */
+export function mergeText(base: string, local: string, remote: string): MergeResult {
+  const baseLines = base.split('\n');
+  const localLines = local.split('\n');
+  const remoteLines = remote.split('\n');
+
+  const toLocal = matchLines(baseLines, localLines);
+  const toRemote = matchLines(baseLines, remoteLines);
+
+  const chunks: MergeChunk[] = [];
+  let conflicts = 0;
+
+  const pushStable = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last?.type === 'stable') {
+      last.lines.push(...lines);
+    } else {
+      chunks.push({ type: 'stable', lines: [...lines] });
+    }
+  };
+
+  let i = 0;
+  let l = 0;
+  let r = 0;
+
+  while (i < baseLines.length || l < localLines.length || r < remoteLines.length) {
+    if (i < baseLines.length && toLocal[i] === l && toRemote[i] === r) {
+      pushStable([baseLines[i]]);
+      i++;
+      l++;
+      r++;
+      continue;
+    }
+
+    // Next base line that both sides still have
+    let nextI = i;
+    while (nextI < baseLines.length && (toLocal[nextI] === -1 || toRemote[nextI] === -1)) {
+      nextI++;
+    }
+    const nextL = nextI < baseLines.length ? toLocal[nextI] : localLines.length;
+    const nextR = nextI < baseLines.length ? toRemote[nextI] : remoteLines.length;
+
+    const baseChunk = baseLines.slice(i, nextI);
+    const localChunk = localLines.slice(l, nextL);
+    const remoteChunk = remoteLines.slice(r, nextR);
+
+    if (sameLines(localChunk, baseChunk)) {
+      pushStable(remoteChunk);
+    } else if (sameLines(remoteChunk, baseChunk) || sameLines(localChunk, remoteChunk)) {
+      pushStable(localChunk);
+    } else {
+      chunks.push({ type: 'conflict', base: baseChunk, local: localChunk, remote: remoteChunk });
+      conflicts++;
+    }
+
+    i = nextI;
+    l = nextL;
+    r = nextR;
+  }
+
+  return { chunks, conflicts };
+}
+
+/**
+ * Without a common ancestor every difference is a conflict
+ */
+export function compareText(local: string, remote: string): MergeResult {
+  const chunks: MergeChunk[] = [];
+  let conflicts = 0;
+  let localRun: string[] = [];
+  let remoteRun: string[] = [];
+
+  const flush = () => {
+    if (localRun.length === 0 && remoteRun.length === 0) return;
+    chunks.push({ type: 'conflict', base: [], local: localRun, remote: remoteRun });
+    conflicts++;
+    localRun = [];
+    remoteRun = [];
+  };
+
+  for (const op of diffOps(local.split('\n'), remote.split('\n'))) {
+    if (op.type === 'equal') {
+      flush();
+      const last = chunks[chunks.length - 1];
+      if (last?.type === 'stable') last.lines.push(op.text);
+      else chunks.push({ type: 'stable', lines: [op.text] });
+    } else {
+      (op.type === 'removed' ? localRun : remoteRun).push(op.text);
+    }
+  }
+  flush();
+
+  return { chunks, conflicts };
+}
+
+/**
+ * Merged text with one resolution per conflict, in order. Unresolved
+ * conflicts keep the local side.
+ */
+export function applyResolutions(result: MergeResult, resolutions: ConflictResolution[]): string {
+  const lines: string[] = [];
+  let conflictIndex = 0;
+
+  for (const chunk of result.chunks) {
+    if (chunk.type === 'stable') {
+      lines.push(...chunk.lines);
+      continue;
+    }
+
+    const resolution = resolutions[conflictIndex++] || 'local';
+    if (resolution !== 'remote') lines.push(...chunk.local);
+    if (resolution !== 'local') lines.push(...chunk.remote);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,186 @@
+/**
+ * Minimal ZIP archive reader and writer (deflate via Node's zlib, no ZIP64).
+ * Server-only - enough for book projects, which are well under 4 GB.
+ */
+
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  path: string;
+  data: Buffer;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date/time as stored in ZIP headers
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Build a ZIP archive from a list of files. Paths use forward slashes and
+ * may include directories (e.g. "frontmatter/copyright.md").
+ */
+export function createZip(entries: ZipEntry[], modified = new Date()): Buffer {
+  const { time, date } = dosDateTime(modified);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path.replace(/^\/+/, ''), 'utf-8');
+    const crc = crc32(entry.data);
+    const deflated = deflateRawSync(entry.data);
+    // Store small or incompressible files as-is
+    const useDeflate = deflated.length < entry.data.length;
+    const body = useDeflate ? deflated : entry.data;
+    const method = useDeflate ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 file names
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6); // version needed
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt16LE(0, 30); // extra field length
+    central.writeUInt16LE(0, 32); // comment length
+    central.writeUInt16LE(0, 34); // disk number
+    central.writeUInt16LE(0, 36); // internal attributes
+    central.writeUInt32LE(0, 38); // external attributes
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, body);
+    centralParts.push(central, name);
+    offset += local.length + name.length + body.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(0, 4);
+  end.writeUInt16LE(0, 6);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  end.writeUInt16LE(0, 20);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+const MAX_ZIP_ENTRIES = 5000;
+// Per-file and whole-archive caps on inflated size, so a small archive can't
+// expand without bound
+const MAX_ENTRY_BYTES = 20 * 1024 * 1024;
+const MAX_TOTAL_BYTES = 200 * 1024 * 1024;
+const TOO_LARGE = `ZIP archive expands to more than ${MAX_TOTAL_BYTES / 1024 / 1024} MB`;
+
+/**
+ * Read the files of a ZIP archive, optionally only those whose path passes
+ * `filter`. Directories are skipped; entries using a compression method other
+ * than store/deflate throw.
+ */
+export function readZip(archive: Buffer, filter?: (path: string) => boolean): ZipEntry[] {
+  // End of central directory record - scan back past any archive comment
+  let eocd = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (archive.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a ZIP archive');
+
+  const count = archive.readUInt16LE(eocd + 10);
+  if (count > MAX_ZIP_ENTRIES) throw new Error(`ZIP archive has too many files (${count})`);
+
+  const entries: ZipEntry[] = [];
+  let pointer = archive.readUInt32LE(eocd + 16);
+  let totalBytes = 0;
+
+  for (let n = 0; n < count; n++) {
+    if (archive.readUInt32LE(pointer) !== 0x02014b50) throw new Error('Corrupt ZIP central directory');
+
+    const method = archive.readUInt16LE(pointer + 10);
+    const compressedSize = archive.readUInt32LE(pointer + 20);
+    const nameLength = archive.readUInt16LE(pointer + 28);
+    const extraLength = archive.readUInt16LE(pointer + 30);
+    const commentLength = archive.readUInt16LE(pointer + 32);
+    const localOffset = archive.readUInt32LE(pointer + 42);
+    const path = archive.toString('utf-8', pointer + 46, pointer + 46 + nameLength);
+    pointer += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/') || (filter && !filter(path))) continue;
+
+    // The local header's name/extra lengths can differ from the central directory's
+    const localNameLength = archive.readUInt16LE(localOffset + 26);
+    const localExtraLength = archive.readUInt16LE(localOffset + 28);
+    const start = localOffset + 30 + localNameLength + localExtraLength;
+    const raw = archive.subarray(start, start + compressedSize);
+
+    // At least one byte, so a full archive still fails on its next non-empty file
+    const remaining = Math.max(1, MAX_TOTAL_BYTES - totalBytes);
+    let data: Buffer;
+    if (method === 0) {
+      data = Buffer.from(raw);
+    } else if (method === 8) {
+      try {
+        data = inflateRawSync(raw, { maxOutputLength: Math.min(MAX_ENTRY_BYTES, remaining) });
+      } catch (err) {
+        // Past the per-file cap the zlib error stands; past the total, say so
+        if ((err as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE' && remaining < MAX_ENTRY_BYTES) {
+          throw new Error(TOO_LARGE);
+        }
+        throw err;
+      }
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} for ${path}`);
+    }
+
+    totalBytes += data.length;
+    if (totalBytes > MAX_TOTAL_BYTES) throw new Error(TOO_LARGE);
+    entries.push({ path, data });
+  }
+
+  return entries;
+}
@@ -7,6 +7,8 @@ const PUBLIC_ROUTES = [
   '/auth/callback',
   '/auth/confirm',
   '/api/health',
+  '/api/keys/rotate',  // Checks its own bearer secret
+  '/api/github/deployments/scheduled',  // Checks its own bearer secret
 ];
 
 // API routes that require authentication
@@ -14,6 +16,11 @@ const PROTECTED_API_ROUTES = [
   '/api/ai',
   '/api/github',
   '/api/edge',
+  '/api/image',
+  '/api/models',
+  '/api/export',
+  '/api/import',
+  '/api/keys',
   '/api/books',
   '/api/user',
 ];
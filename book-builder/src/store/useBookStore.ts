@@ -56,7 +56,7 @@ const setSessionApiKey = (key: string, provider?: AIProvider | null): void => {
 const getAllSessionApiKeys = (): Partial<Record<AIProvider, string>> => {
   if (typeof window === 'undefined') return {};
   const keys: Partial<Record<AIProvider, string>> = {};
-  const providers: AIProvider[] = ['claude', 'openai', 'gemini', 'openrouter'];
+  const providers: AIProvider[] = ['claude', 'openai', 'gemini', 'openrouter', 'local'];
   try {
     for (const provider of providers) {
       const key = sessionStorage.getItem(`${API_KEY_SESSION_PREFIX}${provider}`);
@@ -72,7 +72,7 @@ const getAllSessionApiKeys = (): Partial<Record<AIProvider, string>> => {
 
 const clearAllSessionApiKeys = (): void => {
   if (typeof window === 'undefined') return;
-  const providers: AIProvider[] = ['claude', 'openai', 'gemini', 'openrouter'];
+  const providers: AIProvider[] = ['claude', 'openai', 'gemini', 'openrouter', 'local'];
   try {
     for (const provider of providers) {
       sessionStorage.removeItem(`${API_KEY_SESSION_PREFIX}${provider}`);
@@ -133,12 +133,16 @@ interface BookStore {
   syncChapterFeatures: () => void; // Sync all chapters to current enabled features
 
   // GitHub Configuration
-  setGitHubConfig: (config: { username: string; repoName: string; token?: string }) => void;
+  setGitHubConfig: (config: NonNullable<BookConfig['github']>) => void;
   generatedRepoUrl: string | null;
   setGeneratedRepoUrl: (url: string) => void;
   deployedUrl: string | null;
   setDeployedUrl: (url: string) => void;
 
+  // Library record for this book, once saved (used to attribute generation history)
+  libraryBookId: string | null;
+  setLibraryBookId: (id: string | null) => void;
+
   // Reset
   resetStore: () => void;
 }
@@ -225,7 +229,8 @@ export const useBookStore = create<BookStore>()(
               [provider]: {
                 ...existingProviderConfig,
                 apiKey,
-                isConfigured: !!apiKey,
+                // Local servers usually run without a key
+                isConfigured: !!apiKey || provider === 'local' || !!existingProviderConfig.hasSavedKey,
               },
             };
           }
@@ -262,7 +267,9 @@ export const useBookStore = create<BookStore>()(
           // If apiKey is being updated, save to sessionStorage
           if (config.apiKey !== undefined) {
             setSessionApiKey(config.apiKey, provider);
-            newConfig.isConfigured = !!config.apiKey;
+          }
+          if (config.apiKey !== undefined || config.hasSavedKey !== undefined) {
+            newConfig.isConfigured = !!newConfig.apiKey || provider === 'local' || !!newConfig.hasSavedKey;
           }
 
           return {
@@ -283,10 +290,7 @@ export const useBookStore = create<BookStore>()(
 
       configureProvider: (provider, apiKey) => {
         const { setProviderConfig } = get();
-        setProviderConfig(provider, {
-          apiKey,
-          isConfigured: !!apiKey,
-        });
+        setProviderConfig(provider, { apiKey });
       },
 
       // Book Configuration
@@ -789,6 +793,9 @@ export const useBookStore = create<BookStore>()(
       deployedUrl: null,
       setDeployedUrl: (url) => set({ deployedUrl: url }),
 
+      libraryBookId: null,
+      setLibraryBookId: (id) => set({ libraryBookId: id }),
+
       // Reset
       resetStore: () =>
         set({
@@ -797,6 +804,7 @@ export const useBookStore = create<BookStore>()(
           bookConfig: initialBookConfig,
           generatedRepoUrl: null,
           deployedUrl: null,
+          libraryBookId: null,
         }),
     }),
     {
@@ -804,11 +812,14 @@ export const useBookStore = create<BookStore>()(
       partialize: (state) => {
         // Persist provider settings without API keys
         const persistedProviders: Partial<Record<AIProvider, Omit<ProviderConfig, 'apiKey'>>> = {};
-        const providers: AIProvider[] = ['claude', 'openai', 'gemini', 'openrouter'];
+        const providers: AIProvider[] = ['claude', 'openai', 'gemini', 'openrouter', 'local'];
         for (const provider of providers) {
           const config = state.aiConfig.providers[provider];
           if (config) {
             persistedProviders[provider] = {
+              // Base URLs aren't secret, so they survive reloads
+              baseUrl: config.baseUrl,
+              hasSavedKey: config.hasSavedKey,
               selectedModel: config.selectedModel,
               availableModels: [], // Don't persist models - they need to be fetched fresh
               isConfigured: config.isConfigured,
@@ -827,6 +838,7 @@ export const useBookStore = create<BookStore>()(
           bookConfig: state.bookConfig,
           generatedRepoUrl: state.generatedRepoUrl,
           deployedUrl: state.deployedUrl,
+          libraryBookId: state.libraryBookId,
         };
       },
       merge: (persistedState, currentState) => {
@@ -834,7 +846,7 @@ export const useBookStore = create<BookStore>()(
 
         // Restore provider API keys from sessionStorage
         const sessionKeys = getAllSessionApiKeys();
-        const providers: AIProvider[] = ['claude', 'openai', 'gemini', 'openrouter'];
+        const providers: AIProvider[] = ['claude', 'openai', 'gemini', 'openrouter', 'local'];
         const restoredProviders: Partial<Record<AIProvider, ProviderConfig>> = {};
 
         for (const provider of providers) {
@@ -844,9 +856,11 @@ export const useBookStore = create<BookStore>()(
           if (persistedConfig || sessionKey) {
             restoredProviders[provider] = {
               apiKey: sessionKey || '',
+              baseUrl: persistedConfig?.baseUrl,
+              hasSavedKey: persistedConfig?.hasSavedKey,
               selectedModel: persistedConfig?.selectedModel || null,
               availableModels: [], // Reset models - they need to be fetched fresh
-              isConfigured: !!sessionKey,
+              isConfigured: !!sessionKey || provider === 'local' || !!persistedConfig?.hasSavedKey,
             };
           }
         }
@@ -1,5 +1,8 @@
 // AI Provider Types
-export type AIProvider = 'claude' | 'openai' | 'gemini' | 'openrouter';
+export type AIProvider = 'claude' | 'openai' | 'gemini' | 'openrouter' | 'local';
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp and vLLM default to :8080/v1 and :8000/v1
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
 
 export interface AIModel {
   id: string;
@@ -10,6 +13,10 @@ export interface AIModel {
 // Per-provider configuration
 export interface ProviderConfig {
   apiKey: string;
+  // Only used by the local provider
+  baseUrl?: string;
+  // Key saved in Settings - the server resolves it, the browser never sees it
+  hasSavedKey?: boolean;
   selectedModel: string | null;
   availableModels: AIModel[];
   isConfigured: boolean;
@@ -240,6 +247,10 @@ export interface BookLevelFeature {
   configValue?: unknown;
 }
 
+// How saves reach GitHub: committed straight to main, or to a draft branch
+// with a pull request that is merged from the library
+export type GitHubPublishMode = 'direct' | 'pull-request';
+
 // Book Configuration
 export interface BookConfig {
   title: string;
@@ -250,6 +261,7 @@ export interface BookConfig {
     username: string;
     repoName: string;
     token?: string;
+    publishMode?: GitHubPublishMode;
   };
   features: MystFeature[];
   bookFeatures?: BookLevelFeature[];